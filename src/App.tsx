@@ -5,6 +5,7 @@ import DashboardPage from "@/pages/DashboardPage";
 import DevicesPage from "@/pages/DevicesPage";
 import DeviceFormPage from "@/pages/DeviceFormPage";
 import DeviceDetailsPage from "@/pages/DeviceDetailsPage";
+import DeviceImportPage from "@/pages/DeviceImportPage";
 import MaintenancePage from "@/pages/MaintenancePage";
 import ServiceRequestPage from "@/pages/ServiceRequestPage";
 import ServiceAnalyticsPage from "@/pages/ServiceAnalyticsPage";
@@ -21,16 +22,41 @@ import FacilityManagementPage from "@/pages/FacilityManagementPage";
 import NotificationManagementPage from "@/pages/NotificationManagementPage";
 import NotFoundPage from "@/pages/NotFoundPage";
 import ProtectedRoute from "@/components/ProtectedRoute";
+import CommandPalette from "@/components/CommandPalette";
+import StorageRecoveryDialog from "@/components/StorageRecoveryDialog";
+import FacilitySwitcher from "@/components/FacilitySwitcher";
+import DeviceScanDialog from "@/components/DeviceScanDialog";
+import { scheduledJobService } from "@/services/scheduled-jobs";
+import { storageRecoveryService } from "@/services/versioned-storage";
 import { useAuthStore } from "@/store/auth-store";
+import { scopeKey, useFacilityStore } from "@/store/facility-store";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { useState } from 'react';
-import { Activity, Menu, X, Home, Wrench, AlertCircle, BarChart3, Settings, LogOut, FileText, Brain, Monitor, Zap, Shield, Users, Plug, Package, Building2, Bell } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Activity, Menu, X, Home, Wrench, AlertCircle, BarChart3, Settings, LogOut, FileText, Brain, Monitor, Zap, Shield, Users, Plug, Package, Building2, Bell, Search, AlertTriangle, ScanLine } from 'lucide-react';
 
 function AppLayout({ children }: { children: React.ReactNode }) {
   const { user, logout } = useAuthStore();
+  const facilityScope = useFacilityStore(state => state.scope);
   const location = useLocation();
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [scanOpen, setScanOpen] = useState(false);
+  const [recoveryOpen, setRecoveryOpen] = useState(false);
+  const [quarantinedCount, setQuarantinedCount] = useState(0);
+
+  // The first client signed in each day generates due maintenance for everyone
+  useEffect(() => {
+    if (!user?.uid) return;
+    scheduledJobService.runDueJobs(user.uid).catch(error => {
+      console.error('Failed to run scheduled maintenance generation:', error);
+    });
+  }, [user?.uid]);
+
+  // Pages load their local data on navigation, which is when unreadable entries get set aside
+  useEffect(() => {
+    setQuarantinedCount(storageRecoveryService.getEntries().length);
+  }, [location.pathname]);
 
   // Don't show sidebar on public pages
   if (location.pathname === '/' || location.pathname === '/auth/login') {
@@ -230,7 +256,33 @@ function AppLayout({ children }: { children: React.ReactNode }) {
             >
               <Menu className="h-6 w-6" />
             </button>
+            <button
+              onClick={() => setPaletteOpen(true)}
+              className="flex items-center w-full max-w-sm mx-4 px-3 py-2 text-sm text-gray-500 bg-gray-50 border rounded-md hover:bg-gray-100 transition-colors"
+            >
+              <Search className="mr-2 h-4 w-4" />
+              <span className="flex-1 text-left">Search devices, requests, inventory...</span>
+              <kbd className="hidden sm:inline text-xs text-gray-400 border rounded px-1.5 py-0.5">Ctrl K</kbd>
+            </button>
+            <button
+              onClick={() => setScanOpen(true)}
+              className="flex items-center mr-4 px-3 py-2 text-sm text-gray-600 border rounded-md hover:bg-gray-100 transition-colors"
+              title="Scan an asset tag"
+            >
+              <ScanLine className="h-4 w-4 sm:mr-2" />
+              <span className="hidden sm:inline">Scan</span>
+            </button>
             <div className="flex items-center space-x-4">
+              <FacilitySwitcher />
+              {quarantinedCount > 0 && (
+                <button
+                  onClick={() => setRecoveryOpen(true)}
+                  className="flex items-center px-2 py-1 text-xs font-medium text-amber-700 bg-amber-50 border border-amber-200 rounded-md hover:bg-amber-100 transition-colors"
+                >
+                  <AlertTriangle className="mr-1 h-4 w-4" />
+                  {quarantinedCount} to recover
+                </button>
+              )}
               <span className="text-sm text-gray-500">
                 Welcome back, {user?.email?.split('@')[0]}
               </span>
@@ -238,11 +290,19 @@ function AppLayout({ children }: { children: React.ReactNode }) {
           </div>
         </header>
         
-        {/* Page content */}
-        <main className="flex-1 overflow-y-auto p-4 sm:p-6 lg:p-8">
+        {/* Page content - remounted when the facility scope changes so every page reloads its data */}
+        <main key={scopeKey(facilityScope)} className="flex-1 overflow-y-auto p-4 sm:p-6 lg:p-8">
           {children}
         </main>
       </div>
+
+      <CommandPalette open={paletteOpen} onOpenChange={setPaletteOpen} />
+      <DeviceScanDialog open={scanOpen} onOpenChange={setScanOpen} />
+      <StorageRecoveryDialog
+        open={recoveryOpen}
+        onOpenChange={setRecoveryOpen}
+        onChange={() => setQuarantinedCount(storageRecoveryService.getEntries().length)}
+      />
     </div>
   );
 }
@@ -289,6 +349,14 @@ function App() {
               </ProtectedRoute>
             } 
           />
+          <Route 
+            path="/devices/import" 
+            element={
+              <ProtectedRoute>
+                <DeviceImportPage />
+              </ProtectedRoute>
+            } 
+          />
           <Route 
             path="/devices/:id/edit" 
             element={
@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Archive } from 'lucide-react';
+
+interface ArchiveDeviceDialogProps {
+  open: boolean;
+  deviceLabel: string;
+  saving?: boolean;
+  onConfirm: (reason: string) => void;
+  onCancel: () => void;
+}
+
+const archiveReasons = [
+  'Decommissioned',
+  'Replaced',
+  'Beyond economical repair',
+  'Transferred to another facility',
+  'Returned to vendor',
+  'Other'
+];
+
+export default function ArchiveDeviceDialog({
+  open,
+  deviceLabel,
+  saving = false,
+  onConfirm,
+  onCancel
+}: ArchiveDeviceDialogProps) {
+  const [reason, setReason] = useState('');
+  const [details, setDetails] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setReason('');
+      setDetails('');
+    }
+  }, [open]);
+
+  const canConfirm = reason !== '' && (reason !== 'Other' || details.trim() !== '');
+
+  const handleConfirm = () => {
+    const trimmed = details.trim();
+    onConfirm(trimmed ? `${reason}: ${trimmed}` : reason);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Archive className="w-5 h-5" />
+            Archive {deviceLabel}
+          </DialogTitle>
+          <DialogDescription>
+            The device will be hidden from active lists. Its maintenance and service history is kept and an admin can restore it later.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="archive-reason">Reason *</Label>
+            <Select value={reason} onValueChange={setReason}>
+              <SelectTrigger id="archive-reason">
+                <SelectValue placeholder="Select a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {archiveReasons.map(option => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="archive-details">Details{reason === 'Other' ? ' *' : ''}</Label>
+            <Textarea
+              id="archive-details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              placeholder="Disposal reference, replacement device, etc."
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onCancel} disabled={saving}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleConfirm} disabled={!canConfirm || saving}>
+            <Archive className="w-4 h-4 mr-2" />
+            {saving ? 'Archiving...' : 'Archive Device'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,67 @@
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { ASSEMBLY_HEALTH_LABELS, AssemblyHealth, AssemblyNode } from '@/services/device-hierarchy';
+import { DEVICE_STATUS_LABELS } from '@/services/device-lifecycle';
+import { deviceTypeRegistry } from '@/services/device-types';
+import { cn } from '@/lib/utils';
+
+interface AssemblyTreeProps {
+  tree: AssemblyNode;
+  currentDeviceId?: string;
+}
+
+const healthStyles: Record<AssemblyHealth, string> = {
+  operational: 'bg-green-100 text-green-800 border-green-200',
+  degraded: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  down: 'bg-red-100 text-red-800 border-red-200'
+};
+
+// Base unit and its components, each with its own status plus the rolled-up status of anything below it
+export default function AssemblyTree({ tree, currentDeviceId }: AssemblyTreeProps) {
+  const renderNode = (node: AssemblyNode, depth: number) => {
+    const { device } = node;
+    const current = device._id === currentDeviceId;
+
+    return (
+      <div key={device._id}>
+        <div
+          className={cn(
+            'flex items-center justify-between gap-3 rounded-lg border p-3',
+            current && 'border-primary bg-primary/5'
+          )}
+          style={{ marginLeft: depth * 24 }}
+        >
+          <div className="min-w-0">
+            {current ? (
+              <p className="font-medium truncate">{device.manufacturer} {device.model}</p>
+            ) : (
+              <Link to={`/devices/${device._id}`} className="font-medium truncate hover:underline">
+                {device.manufacturer} {device.model}
+              </Link>
+            )}
+            <p className="text-xs text-muted-foreground">
+              {deviceTypeRegistry.getLabel(device.device_type)} • S/N {device.serial_number}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <Badge variant="outline" className={healthStyles[node.health]}>
+              {DEVICE_STATUS_LABELS[device.status]}
+            </Badge>
+            {node.children.length > 0 && node.rollup !== node.health && (
+              <Badge variant="outline" className={healthStyles[node.rollup]}>
+                Assembly {ASSEMBLY_HEALTH_LABELS[node.rollup].toLowerCase()}
+              </Badge>
+            )}
+          </div>
+        </div>
+        {node.children.length > 0 && (
+          <div className="mt-2 space-y-2">
+            {node.children.map(child => renderNode(child, depth + 1))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return <div className="space-y-2">{renderNode(tree, 0)}</div>;
+}
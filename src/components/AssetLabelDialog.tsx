@@ -0,0 +1,245 @@
+import { useMemo, useState } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { Printer } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { encodeQrCode } from '@/lib/qr-code';
+import { encodeCode128, isCode128Encodable } from '@/lib/code128';
+import { LABEL_LAYOUTS, LabelLayout, LabelLayoutId, buildLabelPayload } from '@/services/asset-labels';
+import type { Device } from '@/services/database';
+
+interface AssetLabelDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  devices: Device[];
+}
+
+const QR_QUIET_ZONE = 4;
+const BARCODE_QUIET_ZONE = 10;
+const PREVIEW_DPI = 96;
+
+function QrCode({ value, size }: { value: string; size: string }) {
+  const matrix = encodeQrCode(value);
+  const extent = matrix.length + QR_QUIET_ZONE * 2;
+  const path = matrix
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + QR_QUIET_ZONE} ${y + QR_QUIET_ZONE}h1v1h-1z` : '')))
+    .join('');
+
+  return (
+    <svg viewBox={`0 0 ${extent} ${extent}`} width={size} height={size} shapeRendering="crispEdges" style={{ flexShrink: 0 }}>
+      <rect width={extent} height={extent} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+}
+
+function Barcode({ value, height }: { value: string; height: string }) {
+  const widths = encodeCode128(value);
+  const bars: { x: number; width: number }[] = [];
+  let x = BARCODE_QUIET_ZONE;
+  widths.forEach((width, i) => {
+    if (i % 2 === 0) bars.push({ x, width });
+    x += width;
+  });
+  const extent = x + BARCODE_QUIET_ZONE;
+
+  return (
+    <svg viewBox={`0 0 ${extent} 40`} width="100%" height={height} preserveAspectRatio="none" shapeRendering="crispEdges">
+      {bars.map(bar => <rect key={bar.x} x={bar.x} width={bar.width} height={40} fill="#000" />)}
+    </svg>
+  );
+}
+
+// Inline styles only: the same markup is rendered into a bare print window without the app's CSS
+function AssetLabel({ device, layout }: { device: Device; layout: LabelLayout }) {
+  const padding = 0.06;
+  const fontScale = layout.labelHeight >= 2 ? 1.6 : 1;
+  const qrSize = layout.showBarcode ? layout.labelHeight * 0.62 : layout.labelHeight - padding * 2;
+
+  return (
+    <div
+      style={{
+        boxSizing: 'border-box',
+        width: `${layout.labelWidth}in`,
+        height: `${layout.labelHeight}in`,
+        padding: `${padding}in`,
+        overflow: 'hidden',
+        display: 'flex',
+        flexDirection: 'column',
+        fontFamily: 'Arial, Helvetica, sans-serif',
+        color: '#000',
+        background: '#fff'
+      }}
+    >
+      <div style={{ display: 'flex', gap: `${padding}in`, alignItems: 'center', minHeight: 0, flex: 1 }}>
+        <QrCode value={buildLabelPayload(device)} size={`${qrSize}in`} />
+        <div style={{ minWidth: 0, lineHeight: 1.15 }}>
+          <div style={{ fontSize: `${8 * fontScale}pt`, fontWeight: 700, overflow: 'hidden', whiteSpace: 'nowrap', textOverflow: 'ellipsis' }}>
+            {device.name}
+          </div>
+          <div style={{ fontSize: `${6.5 * fontScale}pt`, overflow: 'hidden', whiteSpace: 'nowrap', textOverflow: 'ellipsis' }}>
+            {device.manufacturer} {device.model}
+          </div>
+          <div style={{ fontSize: `${7 * fontScale}pt`, fontWeight: 700 }}>S/N {device.serial_number}</div>
+          <div style={{ fontSize: `${5.5 * fontScale}pt`, fontFamily: 'monospace', wordBreak: 'break-all' }}>{device._id}</div>
+        </div>
+      </div>
+      {layout.showBarcode && isCode128Encodable(device.serial_number) && (
+        <Barcode value={device.serial_number} height={`${layout.labelHeight * 0.22}in`} />
+      )}
+    </div>
+  );
+}
+
+// One page of labels; `null` slots are positions already peeled off a partly used sheet
+function LabelPage({ slots, layout }: { slots: (Device | null)[]; layout: LabelLayout }) {
+  return (
+    <div
+      className="label-page"
+      style={{ position: 'relative', width: `${layout.pageWidth}in`, height: `${layout.pageHeight}in`, overflow: 'hidden', background: '#fff' }}
+    >
+      {slots.map((device, index) => device && (
+        <div
+          key={`${device._id}-${index}`}
+          style={{
+            position: 'absolute',
+            left: `${layout.marginLeft + (index % layout.columns) * (layout.labelWidth + layout.gapX)}in`,
+            top: `${layout.marginTop + Math.floor(index / layout.columns) * (layout.labelHeight + layout.gapY)}in`
+          }}
+        >
+          <AssetLabel device={device} layout={layout} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const paginate = (devices: Device[], layout: LabelLayout, skip: number): (Device | null)[][] => {
+  const perPage = layout.columns * layout.rows;
+  const slots: (Device | null)[] = [...new Array<null>(layout.kind === 'sheet' ? skip : 0).fill(null), ...devices];
+  const pages: (Device | null)[][] = [];
+  for (let i = 0; i < slots.length; i += perPage) pages.push(slots.slice(i, i + perPage));
+  return pages;
+};
+
+// Avery sheet and thermal roll asset tags with a QR code (device URL, ID and serial) and a serial barcode
+export default function AssetLabelDialog({ open, onOpenChange, devices }: AssetLabelDialogProps) {
+  const { toast } = useToast();
+  const [layoutId, setLayoutId] = useState<LabelLayoutId>('avery_5160');
+  const [skip, setSkip] = useState('0');
+
+  const layout = LABEL_LAYOUTS[layoutId];
+  const perPage = layout.columns * layout.rows;
+  const skipCount = layout.kind === 'sheet' ? Math.min(Math.max(Math.floor(Number(skip)) || 0, 0), perPage - 1) : 0;
+  const pages = useMemo(() => paginate(devices, layout, skipCount), [devices, layout, skipCount]);
+
+  const previewScale = Math.min(1, 560 / (layout.pageWidth * PREVIEW_DPI));
+
+  const handlePrint = () => {
+    const printWindow = window.open('', '_blank', 'width=900,height=700');
+    if (!printWindow) {
+      toast({ title: "Error", description: "Allow pop-ups for this site to print labels", variant: "destructive" });
+      return;
+    }
+
+    const markup = renderToStaticMarkup(
+      <>{pages.map((slots, index) => <LabelPage key={index} slots={slots} layout={layout} />)}</>
+    );
+    printWindow.document.write(`<!DOCTYPE html>
+<html>
+<head>
+<title>Asset labels</title>
+<style>
+  @page { size: ${layout.pageWidth}in ${layout.pageHeight}in; margin: 0; }
+  html, body { margin: 0; padding: 0; }
+  .label-page { page-break-after: always; break-after: page; }
+  .label-page:last-child { page-break-after: auto; break-after: auto; }
+</style>
+</head>
+<body>${markup}</body>
+</html>`);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.onafterprint = () => printWindow.close();
+    printWindow.print();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Printer className="w-5 h-5" />
+            Print Asset Labels
+          </DialogTitle>
+          <DialogDescription>
+            {devices.length} {devices.length === 1 ? 'label' : 'labels'} on {pages.length} {pages.length === 1 ? 'page' : 'pages'}.
+            The QR code opens the device record; scanning it from the app can also start a service request.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label>Label Stock</Label>
+            <Select value={layoutId} onValueChange={(value) => setLayoutId(value as LabelLayoutId)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(LABEL_LAYOUTS).map(option => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name} — {option.description}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {layout.kind === 'sheet' && (
+            <div>
+              <Label htmlFor="label-skip">Skip labels already used on the first sheet</Label>
+              <Input
+                id="label-skip"
+                type="number"
+                min="0"
+                max={perPage - 1}
+                value={skip}
+                onChange={(e) => setSkip(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="rounded-lg border bg-muted p-4">
+          <p className="mb-2 text-xs text-muted-foreground">Preview of page 1</p>
+          {pages.length > 0 && (
+            <div
+              className="mx-auto shadow"
+              style={{
+                width: layout.pageWidth * PREVIEW_DPI * previewScale,
+                height: layout.pageHeight * PREVIEW_DPI * previewScale
+              }}
+            >
+              <div style={{ transform: `scale(${previewScale})`, transformOrigin: 'top left' }}>
+                <LabelPage slots={pages[0]} layout={layout} />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handlePrint} disabled={devices.length === 0}>
+            <Printer className="w-4 h-4 mr-2" />
+            Print
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,200 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Download, ExternalLink, FileText, Loader2, Paperclip, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthStore } from '@/store/auth-store';
+import {
+  ATTACHMENT_ACCEPT,
+  ATTACHMENT_CATEGORY_LABELS,
+  ATTACHMENT_OWNER_LABELS,
+  Attachment,
+  AttachmentCategory,
+  AttachmentOwner,
+  attachmentService,
+  formatFileSize,
+  isAttachmentValidationError
+} from '@/services/attachments';
+
+interface AttachmentListProps {
+  owner: AttachmentOwner;
+  includeRelated?: boolean; // Device pages also list files on the device's maintenance records and requests
+  defaultCategory?: AttachmentCategory;
+  readOnly?: boolean;
+}
+
+// Per-record attachment list with upload, preview, download and delete
+export default function AttachmentList({
+  owner,
+  includeRelated = false,
+  defaultCategory = 'other',
+  readOnly = false
+}: AttachmentListProps) {
+  const { toast } = useToast();
+  const { user } = useAuthStore();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [category, setCategory] = useState<AttachmentCategory>(defaultCategory);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const result = includeRelated
+        ? await attachmentService.getDeviceAttachments(owner.deviceId)
+        : await attachmentService.getAttachments(owner.type, owner.id);
+      setAttachments(result);
+    } catch (error) {
+      console.error('Error loading attachments:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [owner.type, owner.id, owner.deviceId, includeRelated]);
+
+  useEffect(() => {
+    setLoading(true);
+    load();
+  }, [load]);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    setUploading(true);
+    let uploaded = 0;
+    for (const file of Array.from(files)) {
+      try {
+        await attachmentService.upload(owner, { file, category, uploadedBy: user?.email || 'unknown' });
+        uploaded++;
+      } catch (error) {
+        console.error('Error uploading attachment:', error);
+        toast({
+          title: "Error",
+          description: isAttachmentValidationError(error) ? error.message : `Failed to attach ${file.name}`,
+          variant: "destructive"
+        });
+      }
+    }
+    setUploading(false);
+    if (fileInput.current) fileInput.current.value = '';
+
+    if (uploaded > 0) {
+      toast({ title: "Success", description: `Attached ${uploaded} ${uploaded === 1 ? 'file' : 'files'}` });
+      await load();
+    }
+  };
+
+  const openBlob = async (attachment: Attachment, download: boolean) => {
+    const blob = await attachmentService.getBlob(attachment.id);
+    if (!blob) {
+      toast({ title: "Error", description: "The file is no longer available", variant: "destructive" });
+      return;
+    }
+    const url = URL.createObjectURL(blob);
+    if (download) {
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.fileName;
+      link.click();
+    } else {
+      window.open(url, '_blank', 'noopener');
+    }
+    setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    if (!window.confirm(`Remove ${attachment.fileName}?`)) return;
+    try {
+      await attachmentService.deleteAttachment(attachment.id);
+      await load();
+    } catch (error) {
+      console.error('Error deleting attachment:', error);
+      toast({ title: "Error", description: "Failed to remove attachment", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {!readOnly && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={category} onValueChange={(value) => setCategory(value as AttachmentCategory)}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(ATTACHMENT_CATEGORY_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <input
+            ref={fileInput}
+            type="file"
+            multiple
+            accept={ATTACHMENT_ACCEPT}
+            className="hidden"
+            onChange={(event) => handleFiles(event.target.files)}
+          />
+          <Button type="button" variant="outline" disabled={uploading} onClick={() => fileInput.current?.click()}>
+            {uploading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Paperclip className="w-4 h-4 mr-2" />}
+            Attach Files
+          </Button>
+          <span className="text-xs text-muted-foreground">Images up to 10 MB, PDFs and Office documents up to 25 MB</span>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading attachments...
+        </div>
+      ) : attachments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No attachments yet</p>
+      ) : (
+        <div className="grid gap-3 sm:grid-cols-2">
+          {attachments.map(attachment => (
+            <div key={attachment.id} className="flex items-start gap-3 rounded-lg border p-3">
+              <button
+                type="button"
+                onClick={() => openBlob(attachment, false)}
+                className="flex h-16 w-16 shrink-0 items-center justify-center overflow-hidden rounded bg-muted"
+              >
+                {attachment.thumbnail ? (
+                  <img src={attachment.thumbnail} alt={attachment.fileName} className="h-full w-full object-cover" />
+                ) : (
+                  <FileText className="w-6 h-6 text-muted-foreground" />
+                )}
+              </button>
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium" title={attachment.fileName}>{attachment.fileName}</p>
+                <div className="mt-1 flex flex-wrap gap-1">
+                  <Badge variant="secondary" className="text-xs">{ATTACHMENT_CATEGORY_LABELS[attachment.category]}</Badge>
+                  {includeRelated && attachment.ownerType !== 'device' && (
+                    <Badge variant="outline" className="text-xs">{ATTACHMENT_OWNER_LABELS[attachment.ownerType]}</Badge>
+                  )}
+                </div>
+                <p className="mt-1 text-xs text-muted-foreground">
+                  {formatFileSize(attachment.size)} • {attachment.uploadedBy} • {format(new Date(attachment.uploadedAt), 'MMM dd, yyyy')}
+                </p>
+              </div>
+              <div className="flex flex-col gap-1">
+                <Button type="button" size="icon" variant="ghost" className="h-7 w-7" onClick={() => openBlob(attachment, false)}>
+                  <ExternalLink className="w-4 h-4" />
+                </Button>
+                <Button type="button" size="icon" variant="ghost" className="h-7 w-7" onClick={() => openBlob(attachment, true)}>
+                  <Download className="w-4 h-4" />
+                </Button>
+                {!readOnly && (
+                  <Button type="button" size="icon" variant="ghost" className="h-7 w-7" onClick={() => handleDelete(attachment)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
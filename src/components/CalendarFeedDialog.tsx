@@ -0,0 +1,217 @@
+import { useEffect, useState } from 'react';
+import { CalendarDays, Copy, Download, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { DatabaseService, isDeviceArchived, isPermissionDenied } from '@/services/database';
+import { getAssemblyLabel } from '@/services/device-hierarchy';
+import { facilityManagementService } from '@/services/facility-management';
+import { getTechnicianName, technicianAssignmentService } from '@/services/technician-assignment';
+import { downloadBlob } from '@/services/data-export';
+import {
+  CALENDAR_FEED_SCOPE_LABELS,
+  CalendarFeedScope,
+  CalendarFeedScopeType,
+  calendarFeedService
+} from '@/services/calendar-feed';
+
+interface CalendarFeedDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialScope?: CalendarFeedScope;
+}
+
+interface ScopeOption {
+  id: string;
+  label: string;
+}
+
+type ScopeOptions = Record<CalendarFeedScopeType, ScopeOption[]>;
+
+const EMPTY_OPTIONS: ScopeOptions = { technician: [], facility: [], device: [] };
+
+// One-off .ics download or a signed subscription link for Outlook, Google Calendar and Apple Calendar, limited to
+// what the user can see
+export default function CalendarFeedDialog({ open, onOpenChange, initialScope }: CalendarFeedDialogProps) {
+  const { toast } = useToast();
+  const [scopeType, setScopeType] = useState<CalendarFeedScopeType>(initialScope?.type || 'technician');
+  const [scopeId, setScopeId] = useState(initialScope?.id || '');
+  const [options, setOptions] = useState<ScopeOptions>(EMPTY_OPTIONS);
+  const [profileId, setProfileId] = useState('');
+  const [feedUrl, setFeedUrl] = useState('');
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setScopeType(initialScope?.type || 'technician');
+    setScopeId(initialScope?.id || '');
+    setFeedUrl('');
+
+    let cancelled = false;
+    Promise.all([
+      technicianAssignmentService.getTechnicians(),
+      facilityManagementService.getFacilities(),
+      DatabaseService.getAllDevices(),
+      DatabaseService.getCurrentUserProfile()
+    ])
+      .then(([technicians, facilities, devices, profile]) => {
+        if (cancelled) return;
+        const facilityScope = DatabaseService.getFacilityScope();
+        setProfileId(profile?._id || '');
+        setOptions({
+          technician: technicians
+            .filter(technician => calendarFeedService.canExportTechnician(profile, technician._id || ''))
+            .map(technician => ({ id: technician._id || '', label: getTechnicianName(technician) })),
+          facility: facilities
+            .filter(facility => !facilityScope || facilityScope.includes(facility.id))
+            .map(facility => ({ id: facility.id, label: facility.name })),
+          device: devices
+            .filter(device => !isDeviceArchived(device))
+            .map(device => ({ id: device._id || '', label: getAssemblyLabel(devices, device) }))
+            .sort((a, b) => a.label.localeCompare(b.label))
+        });
+      })
+      .catch(error => console.error('Error loading calendar feed options:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, initialScope?.type, initialScope?.id]);
+
+  const scope: CalendarFeedScope | null = scopeId ? { type: scopeType, id: scopeId } : null;
+
+  const handleDownload = async () => {
+    if (!scope) return;
+    try {
+      setWorking(true);
+      const calendar = await calendarFeedService.buildCalendar(scope, { baseUrl: window.location.origin });
+      downloadBlob(new Blob([calendar], { type: 'text/calendar;charset=utf-8' }), calendarFeedService.getFileName(scope));
+    } catch (error) {
+      console.error('Error exporting calendar:', error);
+      toast({
+        title: "Error",
+        description: isPermissionDenied(error) ? error.message : "Failed to export the calendar",
+        variant: "destructive"
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!scope) return;
+    try {
+      setWorking(true);
+      const url = await calendarFeedService.createFeedUrl(scope);
+      setFeedUrl(url);
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Success", description: "Subscription link copied. Add it to your calendar as a calendar from URL." });
+    } catch (error) {
+      console.error('Error creating calendar feed link:', error);
+      toast({
+        title: "Error",
+        description: isPermissionDenied(error) ? error.message : "Failed to create the subscription link",
+        variant: "destructive"
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleResetLinks = () => {
+    if (!profileId || !window.confirm('Reset your calendar links? Calendars subscribed with your existing links will stop updating.')) return;
+    calendarFeedService.resetFeedKey(profileId);
+    setFeedUrl('');
+    toast({ title: "Success", description: "Your calendar links were reset. Copy a new link to subscribe again." });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarDays className="w-5 h-5" />
+            Calendar Export
+          </DialogTitle>
+          <DialogDescription>
+            Scheduled maintenance and service appointments as an iCalendar file or a subscription that stays up to date
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-[1fr_2fr] gap-4">
+            <div>
+              <Label htmlFor="calendar-scope-type">Calendar For</Label>
+              <Select
+                value={scopeType}
+                onValueChange={(value) => {
+                  setScopeType(value as CalendarFeedScopeType);
+                  setScopeId('');
+                  setFeedUrl('');
+                }}
+              >
+                <SelectTrigger id="calendar-scope-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CALENDAR_FEED_SCOPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="calendar-scope-id">{CALENDAR_FEED_SCOPE_LABELS[scopeType]}</Label>
+              <Select
+                value={scopeId}
+                onValueChange={(value) => {
+                  setScopeId(value);
+                  setFeedUrl('');
+                }}
+              >
+                <SelectTrigger id="calendar-scope-id">
+                  <SelectValue placeholder={`Select ${CALENDAR_FEED_SCOPE_LABELS[scopeType].toLowerCase()}`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {options[scopeType].map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {feedUrl && (
+            <div>
+              <Label htmlFor="calendar-feed-url">Subscription Link</Label>
+              <Input id="calendar-feed-url" value={feedUrl} readOnly onFocus={(e) => e.target.select()} />
+              <p className="text-xs text-muted-foreground mt-1">
+                Anyone with this link can see the calendar. Reset your links if it is shared by mistake.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <Button variant="ghost" onClick={handleResetLinks} disabled={working || !profileId}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reset Links
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleDownload} disabled={working || !scope}>
+              <Download className="w-4 h-4 mr-2" />
+              Download .ics
+            </Button>
+            <Button onClick={handleCopyLink} disabled={working || !scope || !profileId}>
+              <Copy className="w-4 h-4 mr-2" />
+              Copy Link
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,111 @@
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  CalibrationInput,
+  CalibrationReading,
+  formatToleranceBand,
+  isWithinTolerance
+} from '@/services/calibration';
+
+interface CalibrationFormProps {
+  value: CalibrationInput;
+  onChange: (value: CalibrationInput) => void;
+  disabled?: boolean;
+}
+
+const toReading = (raw: string) => {
+  const value = raw.trim() === '' ? NaN : Number(raw);
+  return Number.isNaN(value) ? undefined : value;
+};
+
+const ToleranceBadge = ({ reading, value }: { reading: CalibrationReading; value: number | undefined }) => {
+  if (value === undefined) return null;
+  return isWithinTolerance(reading, value)
+    ? <Badge className="bg-green-600 text-white">In tolerance</Badge>
+    : <Badge className="bg-red-600 text-white">Out of tolerance</Badge>;
+};
+
+// Reference standard details plus as-found and as-left readings for each calibration point of the device type
+export default function CalibrationForm({ value, onChange, disabled = false }: CalibrationFormProps) {
+  const updateReading = (index: number, changes: Partial<CalibrationReading>) => {
+    onChange({
+      ...value,
+      readings: value.readings.map((reading, readingIndex) => (readingIndex === index ? { ...reading, ...changes } : reading))
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <Label htmlFor="calibration-standard">Reference Standard ID *</Label>
+          <Input
+            id="calibration-standard"
+            value={value.referenceStandardId}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...value, referenceStandardId: e.target.value })}
+            placeholder="e.g., CAL-BAR-0042"
+          />
+        </div>
+        <div>
+          <Label htmlFor="calibration-certificate">Certificate Number *</Label>
+          <Input
+            id="calibration-certificate"
+            value={value.referenceCertificate}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...value, referenceCertificate: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="calibration-certificate-expiry">Certificate Valid Until</Label>
+          <Input
+            id="calibration-certificate-expiry"
+            type="date"
+            value={value.referenceCertificateExpiry || ''}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...value, referenceCertificateExpiry: e.target.value || undefined })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="hidden md:grid grid-cols-[2fr_1fr_1fr] gap-3 text-xs font-medium text-medical-text/70">
+          <span>Point (nominal ± tolerance)</span>
+          <span>As found *</span>
+          <span>As left (if adjusted)</span>
+        </div>
+        {value.readings.map((reading, index) => (
+          <div key={reading.pointId} className="grid grid-cols-1 md:grid-cols-[2fr_1fr_1fr] gap-3 items-start rounded-lg border p-3">
+            <div>
+              <p className="text-sm font-medium">{reading.label}</p>
+              <p className="text-xs text-medical-text/70">{formatToleranceBand(reading)}</p>
+            </div>
+            <div className="space-y-1">
+              <Input
+                type="number"
+                step="any"
+                value={reading.asFound ?? ''}
+                disabled={disabled}
+                aria-label={`${reading.label} as found`}
+                onChange={(e) => updateReading(index, { asFound: toReading(e.target.value) })}
+              />
+              <ToleranceBadge reading={reading} value={reading.asFound} />
+            </div>
+            <div className="space-y-1">
+              <Input
+                type="number"
+                step="any"
+                value={reading.asLeft ?? ''}
+                disabled={disabled}
+                aria-label={`${reading.label} as left`}
+                onChange={(e) => updateReading(index, { asLeft: toReading(e.target.value) })}
+              />
+              <ToleranceBadge reading={reading} value={reading.asLeft} />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import {
+  AlertCircle,
+  Building2,
+  FileText,
+  Loader2,
+  Package,
+  Plus,
+  Settings,
+  Upload,
+  Wrench
+} from 'lucide-react';
+import { Dialog, DialogContent } from '@/components/ui/dialog';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut
+} from '@/components/ui/command';
+import {
+  SEARCH_KIND_LABELS,
+  SearchDocument,
+  SearchDocumentKind,
+  searchIndexService
+} from '@/services/search-index';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const kindIcons: Record<SearchDocumentKind, typeof Settings> = {
+  device: Settings,
+  service_request: AlertCircle,
+  maintenance_record: Wrench,
+  inventory_item: Package,
+  facility: Building2
+};
+
+const navigationActions = [
+  { label: 'Add device', url: '/devices/new', icon: Plus },
+  { label: 'Import devices', url: '/devices/import', icon: Upload },
+  { label: 'Create service request', url: '/service-requests?new=1', icon: AlertCircle },
+  { label: 'Maintenance schedule', url: '/maintenance', icon: Wrench },
+  { label: 'Reports', url: '/reports', icon: FileText }
+];
+
+const requestUrl = (deviceId: string) => `/service-requests?new=1&device_id=${deviceId}`;
+
+// Ctrl+K / Cmd+K palette searching every record type through the shared search index
+export default function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [query, setQuery] = useState('');
+  const [documents, setDocuments] = useState<SearchDocument[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [open, onOpenChange]);
+
+  useEffect(() => {
+    if (!open) {
+      setQuery('');
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    searchIndexService.getDocuments()
+      .then(result => {
+        if (!cancelled) setDocuments(result);
+      })
+      .catch(error => console.error('Error building search index:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const results = useMemo(() => searchIndexService.search(documents, query), [documents, query]);
+
+  const groups = (Object.keys(SEARCH_KIND_LABELS) as SearchDocumentKind[])
+    .map(kind => ({ kind, items: results.filter(result => result.kind === kind) }))
+    .filter(group => group.items.length > 0);
+
+  // The device being viewed, plus the best device matches, get device-specific actions
+  const currentDevice = useMemo(() => {
+    const match = location.pathname.match(/^\/devices\/([^/]+)$/);
+    if (!match || match[1] === 'new' || match[1] === 'import') return undefined;
+    return documents.find(document => document.kind === 'device' && document.deviceId === match[1]);
+  }, [location.pathname, documents]);
+
+  const actionDevices = [
+    ...(currentDevice ? [currentDevice] : []),
+    ...results.filter(result => result.kind === 'device' && result.id !== currentDevice?.id).slice(0, 2)
+  ];
+
+  const go = (url: string) => {
+    onOpenChange(false);
+    navigate(url);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 max-w-2xl">
+        <Command
+          shouldFilter={false}
+          className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3"
+        >
+          <CommandInput
+            placeholder="Search devices, serial numbers, requests, inventory..."
+            value={query}
+            onValueChange={setQuery}
+          />
+          <CommandList className="max-h-[420px]">
+            {loading && documents.length === 0 ? (
+              <div className="flex items-center justify-center gap-2 py-6 text-sm text-muted-foreground">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Building search index...
+              </div>
+            ) : (
+              <CommandEmpty>No results for "{query}"</CommandEmpty>
+            )}
+
+            {actionDevices.length > 0 && (
+              <CommandGroup heading="Device Actions">
+                {actionDevices.map(device => (
+                  <CommandItem
+                    key={`request-${device.id}`}
+                    value={`request-${device.id}`}
+                    onSelect={() => go(requestUrl(device.deviceId!))}
+                  >
+                    <AlertCircle className="mr-2 h-4 w-4" />
+                    <span>Create service request for {device === currentDevice ? 'this device' : device.title}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {groups.map(group => {
+              const Icon = kindIcons[group.kind];
+              return (
+                <CommandGroup key={group.kind} heading={SEARCH_KIND_LABELS[group.kind]}>
+                  {group.items.map(item => (
+                    <CommandItem key={`${item.kind}-${item.id}`} value={`${item.kind}-${item.id}`} onSelect={() => go(item.url)}>
+                      <Icon className="mr-2 h-4 w-4 shrink-0" />
+                      <div className="min-w-0">
+                        <p className="truncate">{item.title}</p>
+                        <p className="truncate text-xs text-muted-foreground">{item.subtitle}</p>
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              );
+            })}
+
+            {!query && (
+              <>
+                <CommandSeparator />
+                <CommandGroup heading="Quick Actions">
+                  {navigationActions.map(action => (
+                    <CommandItem key={action.url} value={action.url} onSelect={() => go(action.url)}>
+                      <action.icon className="mr-2 h-4 w-4" />
+                      <span>{action.label}</span>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              </>
+            )}
+          </CommandList>
+          <div className="flex items-center justify-end border-t px-3 py-2 text-xs text-muted-foreground">
+            Toggle with <CommandShortcut className="ml-1">Ctrl K</CommandShortcut>
+          </div>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,130 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { AlertTriangle, RefreshCw, GitMerge } from 'lucide-react';
+import { buildMergedUpdate, compareForMerge } from '@/services/concurrency';
+
+interface ConflictDialogProps {
+  open: boolean;
+  entityLabel: string;
+  fieldLabels: Record<string, string>;
+  base: object;
+  mine: object;
+  theirs: object;
+  saving?: boolean;
+  onReload: () => void;
+  onMerge: (mergedUpdate: Record<string, unknown>) => void;
+  onCancel: () => void;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+export default function ConflictDialog({
+  open,
+  entityLabel,
+  fieldLabels,
+  base,
+  mine,
+  theirs,
+  saving = false,
+  onReload,
+  onMerge,
+  onCancel
+}: ConflictDialogProps) {
+  const fields = useMemo(() => compareForMerge(base, mine, theirs), [base, mine, theirs]);
+  const changedFields = fields.filter(field => field.changedByMe || field.changedByThem);
+  const [keepMine, setKeepMine] = useState<Record<string, boolean>>({});
+
+  // Default every conflicting field to the user's own edit
+  useEffect(() => {
+    setKeepMine(fields.reduce((choices, field) => {
+      if (field.conflicting) choices[field.key] = true;
+      return choices;
+    }, {} as Record<string, boolean>));
+  }, [fields]);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-yellow-600" />
+            This {entityLabel} was changed by someone else
+          </DialogTitle>
+          <DialogDescription>
+            Another user saved a newer version while you were editing. Reload their version or merge your changes on top of it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 max-h-[50vh] overflow-y-auto">
+          {changedFields.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              None of the fields you edited were changed. Merging will re-apply your edits to the latest version.
+            </p>
+          ) : (
+            changedFields.map(field => (
+              <div key={field.key} className="p-3 border rounded-lg space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-sm">{fieldLabels[field.key] || field.key}</span>
+                  {field.conflicting ? (
+                    <Badge variant="destructive">Conflict</Badge>
+                  ) : field.changedByMe ? (
+                    <Badge variant="secondary">Your edit</Badge>
+                  ) : (
+                    <Badge variant="outline">Their edit</Badge>
+                  )}
+                </div>
+                {field.conflicting ? (
+                  <RadioGroup
+                    value={keepMine[field.key] ? 'mine' : 'theirs'}
+                    onValueChange={(value) => setKeepMine(prev => ({ ...prev, [field.key]: value === 'mine' }))}
+                    className="grid grid-cols-2 gap-2"
+                  >
+                    <div className="flex items-start gap-2">
+                      <RadioGroupItem value="mine" id={`${field.key}-mine`} />
+                      <Label htmlFor={`${field.key}-mine`} className="text-sm font-normal">
+                        <span className="block text-xs text-muted-foreground">Yours</span>
+                        {formatValue(field.mine)}
+                      </Label>
+                    </div>
+                    <div className="flex items-start gap-2">
+                      <RadioGroupItem value="theirs" id={`${field.key}-theirs`} />
+                      <Label htmlFor={`${field.key}-theirs`} className="text-sm font-normal">
+                        <span className="block text-xs text-muted-foreground">Saved</span>
+                        {formatValue(field.theirs)}
+                      </Label>
+                    </div>
+                  </RadioGroup>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    {formatValue(field.base)} → {formatValue(field.changedByMe ? field.mine : field.theirs)}
+                  </p>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onCancel} disabled={saving}>
+            Cancel
+          </Button>
+          <Button variant="outline" onClick={onReload} disabled={saving}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Discard mine & reload
+          </Button>
+          <Button onClick={() => onMerge(buildMergedUpdate(fields, keepMine))} disabled={saving}>
+            <GitMerge className="w-4 h-4 mr-2" />
+            {saving ? 'Saving...' : 'Save merged'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,75 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DeviceAttributeDefinition, DeviceAttributes, DeviceAttributeValue } from '@/services/device-types';
+
+interface DeviceAttributeFieldsProps {
+  attributes: DeviceAttributeDefinition[];
+  values: DeviceAttributes;
+  errors: Record<string, string>;
+  onChange: (key: string, value: DeviceAttributeValue) => void;
+}
+
+// Renders the type-specific inputs a device-type registry entry defines
+export default function DeviceAttributeFields({ attributes, values, errors, onChange }: DeviceAttributeFieldsProps) {
+  const renderInput = (attribute: DeviceAttributeDefinition) => {
+    const id = `attribute-${attribute.key}`;
+    const value = values[attribute.key];
+
+    switch (attribute.type) {
+      case 'boolean':
+        return (
+          <Switch
+            id={id}
+            checked={value === true}
+            onCheckedChange={(checked) => onChange(attribute.key, checked)}
+          />
+        );
+      case 'select':
+        return (
+          <Select value={value === undefined ? '' : String(value)} onValueChange={(option) => onChange(attribute.key, option)}>
+            <SelectTrigger id={id}>
+              <SelectValue placeholder={`Select ${attribute.label.toLowerCase()}`} />
+            </SelectTrigger>
+            <SelectContent>
+              {attribute.options?.map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      default:
+        return (
+          <Input
+            id={id}
+            type={attribute.type === 'number' ? 'number' : 'text'}
+            value={value === undefined ? '' : String(value)}
+            min={attribute.min}
+            max={attribute.max}
+            step="any"
+            onChange={(e) => onChange(attribute.key, e.target.value)}
+            placeholder={attribute.placeholder}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      {attributes.map(attribute => (
+        <div key={attribute.key} className={attribute.type === 'boolean' ? 'flex items-center gap-3 pt-6' : ''}>
+          <Label htmlFor={`attribute-${attribute.key}`}>
+            {attribute.label}
+            {attribute.unit && ` (${attribute.unit})`}
+            {attribute.required && ' *'}
+          </Label>
+          {renderInput(attribute)}
+          {errors[attribute.key] && (
+            <p className="text-xs text-red-600 mt-1">{errors[attribute.key]}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
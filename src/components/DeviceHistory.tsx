@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { History, PlusCircle, Pencil, Trash2 } from 'lucide-react';
+import { Device } from '@/services/database';
+import { changeHistoryService, ChangeAction, ChangeEntityType, ChangeHistoryEntry } from '@/services/change-history';
+
+interface DeviceHistoryProps {
+  device: Device;
+}
+
+const entityLabels: Record<ChangeEntityType, string> = {
+  device: 'Device',
+  maintenance_record: 'Maintenance record',
+  service_request: 'Service request',
+  user_profile: 'User profile'
+};
+
+const actionConfig: Record<ChangeAction, { label: string; icon: typeof History; variant: 'default' | 'secondary' | 'destructive' }> = {
+  create: { label: 'Created', icon: PlusCircle, variant: 'default' },
+  update: { label: 'Updated', icon: Pencil, variant: 'secondary' },
+  delete: { label: 'Deleted', icon: Trash2, variant: 'destructive' }
+};
+
+const formatFieldName = (field: string) =>
+  field.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+export default function DeviceHistory({ device }: DeviceHistoryProps) {
+  const [entries, setEntries] = useState<ChangeHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!device._id) return;
+
+    setLoading(true);
+    changeHistoryService.getEntries({ deviceId: device._id })
+      .then(setEntries)
+      .catch(error => console.error('Error loading change history:', error))
+      .finally(() => setLoading(false));
+  }, [device._id, device.revision]);
+
+  return (
+    <Card className="border-0 shadow-md">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Change History
+        </CardTitle>
+        <CardDescription>
+          Field-level changes to this device and its maintenance and service records
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading history...</div>
+        ) : (
+          <div className="space-y-4">
+            {entries.map(entry => {
+              const action = actionConfig[entry.action];
+              const ActionIcon = action.icon;
+              return (
+                <div key={entry.id} className="border rounded-lg p-4">
+                  <div className="flex items-start justify-between gap-4 mb-2">
+                    <div className="flex items-center gap-2">
+                      <ActionIcon className="w-4 h-4 text-muted-foreground" />
+                      <span className="font-medium">{entityLabels[entry.entityType]}</span>
+                      <Badge variant={action.variant}>{action.label}</Badge>
+                    </div>
+                    <span className="text-xs text-muted-foreground text-right">
+                      {new Date(entry.changedAt).toLocaleString()}
+                      <br />
+                      {entry.changedByName || entry.changedBy}
+                    </span>
+                  </div>
+                  {entry.action === 'update' ? (
+                    <div className="space-y-1">
+                      {entry.changes.map(change => (
+                        <div key={change.field} className="text-sm grid grid-cols-3 gap-2">
+                          <span className="text-muted-foreground">{formatFieldName(change.field)}</span>
+                          <span className="col-span-2 break-words">
+                            <span className="line-through text-muted-foreground">{formatValue(change.before)}</span>
+                            {' → '}
+                            <span>{formatValue(change.after)}</span>
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      {entry.changes.length} field{entry.changes.length === 1 ? '' : 's'} recorded
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+
+            {entries.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center">
+                No changes have been recorded for this device
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,199 @@
+import { FormEvent, useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertCircle, Camera, CameraOff, Loader2, ScanLine } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { assetLabelService } from '@/services/asset-labels';
+
+interface DeviceScanDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type ScanAction = 'open' | 'request';
+
+// The Barcode Detection API ships in Chromium-based browsers but is not in the TypeScript DOM typings yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => BarcodeDetectorLike;
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | undefined =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+const SCAN_INTERVAL_MS = 300;
+
+// Scan an asset tag with the camera or a keyboard-wedge scanner and jump to the device or a new service request
+export default function DeviceScanDialog({ open, onOpenChange }: DeviceScanDialogProps) {
+  const navigate = useNavigate();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const resolvingRef = useRef(false);
+  const [action, setAction] = useState<ScanAction>('open');
+  const [code, setCode] = useState('');
+  const [cameraOn, setCameraOn] = useState(false);
+  const [resolving, setResolving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cameraSupported = typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia && !!getBarcodeDetector();
+
+  const stopCamera = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setCameraOn(false);
+  }, []);
+
+  const handleCode = useCallback(async (value: string) => {
+    if (!value.trim() || resolvingRef.current) return;
+
+    resolvingRef.current = true;
+    setResolving(true);
+    setError(null);
+    try {
+      const device = await assetLabelService.resolveScannedDevice(value);
+      if (!device?._id) {
+        setError(`No device matches "${value.trim()}"`);
+        return;
+      }
+      stopCamera();
+      onOpenChange(false);
+      navigate(action === 'request'
+        ? `/service-requests?new=1&device_id=${device._id}`
+        : `/devices/${device._id}`);
+    } catch (lookupError) {
+      console.error('Error resolving scanned code:', lookupError);
+      setError('Failed to look up the scanned code');
+    } finally {
+      resolvingRef.current = false;
+      setResolving(false);
+    }
+  }, [action, navigate, onOpenChange, stopCamera]);
+
+  useEffect(() => {
+    if (!open) {
+      stopCamera();
+      setCode('');
+      setError(null);
+    }
+  }, [open, stopCamera]);
+
+  // Poll video frames while the camera runs; the first readable code wins
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    if (!cameraOn || !Detector) return;
+
+    const detector = new Detector({ formats: ['qr_code', 'code_128'] });
+    const timer = window.setInterval(async () => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2 || resolvingRef.current) return;
+      try {
+        const [barcode] = await detector.detect(video);
+        if (barcode?.rawValue) {
+          setCode(barcode.rawValue);
+          handleCode(barcode.rawValue);
+        }
+      } catch (detectError) {
+        console.warn('Barcode detection failed:', detectError);
+      }
+    }, SCAN_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [cameraOn, handleCode]);
+
+  useEffect(() => stopCamera, [stopCamera]);
+
+  const startCamera = async () => {
+    setError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+      streamRef.current = stream;
+      setCameraOn(true);
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+    } catch (cameraError) {
+      console.error('Error starting camera:', cameraError);
+      setError('Camera unavailable. Check the browser permission or use a handheld scanner.');
+      stopCamera();
+    }
+  };
+
+  // Keyboard-wedge scanners type the code into the focused field and press Enter
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    handleCode(code);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ScanLine className="w-5 h-5" />
+            Scan Asset Tag
+          </DialogTitle>
+          <DialogDescription>
+            Scan a device label with a handheld scanner or the camera, or type the serial number.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={action} onValueChange={(value) => setAction(value as ScanAction)} className="grid grid-cols-2 gap-2">
+          <Label htmlFor="scan-open" className="flex items-center gap-2 rounded-md border p-3 cursor-pointer">
+            <RadioGroupItem value="open" id="scan-open" />
+            Open device
+          </Label>
+          <Label htmlFor="scan-request" className="flex items-center gap-2 rounded-md border p-3 cursor-pointer">
+            <RadioGroupItem value="request" id="scan-request" />
+            Report a problem
+          </Label>
+        </RadioGroup>
+
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Input
+            autoFocus
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Waiting for scan..."
+            aria-label="Scanned code"
+          />
+          <Button type="submit" disabled={resolving || !code.trim()}>
+            {resolving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Go'}
+          </Button>
+        </form>
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-red-600">
+            <AlertCircle className="w-4 h-4 shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {cameraSupported ? (
+          <div className="space-y-2">
+            <video
+              ref={videoRef}
+              muted
+              playsInline
+              className={cameraOn ? 'w-full rounded-md bg-black aspect-video object-cover' : 'hidden'}
+            />
+            <Button type="button" variant="outline" className="w-full" onClick={cameraOn ? stopCamera : startCamera}>
+              {cameraOn ? <CameraOff className="w-4 h-4 mr-2" /> : <Camera className="w-4 h-4 mr-2" />}
+              {cameraOn ? 'Stop Camera' : 'Scan with Camera'}
+            </Button>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Camera scanning needs a browser with barcode detection (Chrome, Edge or Android). Handheld scanners work everywhere.
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
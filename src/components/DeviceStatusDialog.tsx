@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthStore } from '@/store/auth-store';
+import DeviceStatusTransitionFields from '@/components/DeviceStatusTransitionFields';
+import { DatabaseService, Device, ServiceRequest } from '@/services/database';
+import { getRevision, isConcurrencyConflict } from '@/services/concurrency';
+import {
+  buildStatusUpdate,
+  DEVICE_STATUS_LABELS,
+  DeviceStatus,
+  DeviceStatusChange,
+  getAllowedTransitions,
+  isDeviceStatusTransitionError,
+  isOpenServiceRequest
+} from '@/services/device-lifecycle';
+import { RefreshCw } from 'lucide-react';
+
+interface DeviceStatusDialogProps {
+  device: Device | null;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export default function DeviceStatusDialog({ device, onClose, onChanged }: DeviceStatusDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuthStore();
+  const [target, setTarget] = useState<DeviceStatus | ''>('');
+  const [change, setChange] = useState<DeviceStatusChange>({});
+  const [openRequests, setOpenRequests] = useState<ServiceRequest[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setTarget('');
+    setChange({});
+    setOpenRequests([]);
+    if (device?._id) {
+      DatabaseService.getAllServiceRequests({ deviceId: device._id })
+        .then(requests => setOpenRequests(requests.filter(isOpenServiceRequest)))
+        .catch(error => console.error('Error loading service requests:', error));
+    }
+  }, [device]);
+
+  const handleSave = async () => {
+    if (!device?._id || !target) return;
+
+    try {
+      setSaving(true);
+      await DatabaseService.updateDevice(device._id, user?.uid || '', buildStatusUpdate(target, change), {
+        expectedRevision: getRevision(device)
+      });
+      toast({
+        title: "Status updated",
+        description: `${device.manufacturer} ${device.model} is now ${DEVICE_STATUS_LABELS[target]}`
+      });
+      onChanged();
+      onClose();
+    } catch (error) {
+      console.error('Error changing device status:', error);
+      if (isConcurrencyConflict(error)) {
+        toast({
+          title: "Device changed",
+          description: "Someone else updated this device. Reload and try again.",
+          variant: "destructive"
+        });
+        onChanged();
+        onClose();
+      } else {
+        toast({
+          title: isDeviceStatusTransitionError(error) ? "Status change not allowed" : "Error",
+          description: isDeviceStatusTransitionError(error) ? error.message : "Failed to change device status",
+          variant: "destructive"
+        });
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const transitions = device ? getAllowedTransitions(device.status) : [];
+
+  return (
+    <Dialog open={device !== null} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Change Status</DialogTitle>
+          <DialogDescription>
+            {device && `${device.manufacturer} ${device.model} is currently ${DEVICE_STATUS_LABELS[device.status]}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {device && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="next_status">New Status</Label>
+              <Select
+                value={target}
+                onValueChange={(value) => {
+                  setTarget(value as DeviceStatus);
+                  setChange({});
+                }}
+              >
+                <SelectTrigger id="next_status">
+                  <SelectValue placeholder="Select the next status" />
+                </SelectTrigger>
+                <SelectContent>
+                  {transitions.map(status => (
+                    <SelectItem key={status} value={status}>
+                      {DEVICE_STATUS_LABELS[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {target && (
+              <DeviceStatusTransitionFields
+                from={device.status}
+                to={target}
+                value={change}
+                onChange={setChange}
+                openRequests={openRequests}
+              />
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!target || !change.reason || saving}>
+            {saving && <RefreshCw className="w-4 h-4 mr-2 animate-spin" />}
+            {saving ? 'Saving...' : 'Change Status'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
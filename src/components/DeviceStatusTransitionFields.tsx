@@ -0,0 +1,98 @@
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ServiceRequest } from '@/services/database';
+import {
+  DEVICE_STATUS_LABELS,
+  DEVICE_STATUS_REASON_LABELS,
+  DeviceStatus,
+  DeviceStatusChange,
+  DeviceStatusReason,
+  getTransitionReasons,
+  requiresServiceRequest
+} from '@/services/device-lifecycle';
+
+interface DeviceStatusTransitionFieldsProps {
+  from: DeviceStatus;
+  to: DeviceStatus;
+  value: DeviceStatusChange;
+  onChange: (value: DeviceStatusChange) => void;
+  openRequests: ServiceRequest[];
+}
+
+// Reason code, note and linked service request collected for a status change
+export default function DeviceStatusTransitionFields({
+  from,
+  to,
+  value,
+  onChange,
+  openRequests
+}: DeviceStatusTransitionFieldsProps) {
+  const reasons = getTransitionReasons(from, to);
+  const needsRequest = requiresServiceRequest(to);
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg bg-muted/30">
+      <p className="text-sm text-muted-foreground">
+        {DEVICE_STATUS_LABELS[from]} → {DEVICE_STATUS_LABELS[to]}
+      </p>
+
+      <div className="space-y-2">
+        <Label htmlFor="status_reason">Reason *</Label>
+        <Select
+          value={value.reason || ''}
+          onValueChange={(reason) => onChange({ ...value, reason: reason as DeviceStatusReason })}
+        >
+          <SelectTrigger id="status_reason">
+            <SelectValue placeholder="Select a reason" />
+          </SelectTrigger>
+          <SelectContent>
+            {reasons.map(reason => (
+              <SelectItem key={reason} value={reason}>
+                {DEVICE_STATUS_REASON_LABELS[reason]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {needsRequest && (
+        <div className="space-y-2">
+          <Label htmlFor="status_service_request">Linked Service Request *</Label>
+          {openRequests.length === 0 ? (
+            <p className="text-sm text-red-600">
+              Open a service request for this device before taking it out of service.
+            </p>
+          ) : (
+            <Select
+              value={value.serviceRequestId || ''}
+              onValueChange={(serviceRequestId) => onChange({ ...value, serviceRequestId })}
+            >
+              <SelectTrigger id="status_service_request">
+                <SelectValue placeholder="Select an open service request" />
+              </SelectTrigger>
+              <SelectContent>
+                {openRequests.map(request => (
+                  <SelectItem key={request._id} value={request._id || ''}>
+                    {request.priority} • {request.issue_type.replace(/_/g, ' ')} • {request.description.slice(0, 40)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="status_note">Note{value.reason === 'OTHER' ? ' *' : ''}</Label>
+        <Textarea
+          id="status_note"
+          value={value.note || ''}
+          onChange={(e) => onChange({ ...value, note: e.target.value })}
+          placeholder="Context for this status change"
+          rows={2}
+        />
+      </div>
+    </div>
+  );
+}
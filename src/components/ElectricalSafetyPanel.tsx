@@ -0,0 +1,234 @@
+import { useCallback, useEffect, useState } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { format } from 'date-fns';
+import { Printer, Zap } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import ElectricalSafetyTestDialog from '@/components/ElectricalSafetyTestDialog';
+import type { Device } from '@/services/database';
+import type { HealthcareFacility } from '@/services/facility-management';
+import {
+  APPLIED_PART_LABELS,
+  ElectricalSafetyTest,
+  LEAKAGE_METHOD_LABELS,
+  PROTECTION_CLASS_LABELS,
+  SAFETY_VERDICT_LABELS,
+  electricalSafetyService,
+  isMainsPowered
+} from '@/services/electrical-safety';
+
+interface ElectricalSafetyPanelProps {
+  device: Device;
+  facility?: HealthcareFacility | null;
+  readOnly?: boolean;
+  onRecorded?: () => void; // The test completes a maintenance occurrence, so the page may need to reload
+}
+
+const formatTestDate = (value: string) => format(new Date(value), 'yyyy-MM-dd HH:mm');
+
+const cell = { border: '1px solid #999', padding: '6px 8px', textAlign: 'left' as const };
+
+// Inline styles only: the certificate is rendered into a bare print window without the app's CSS
+const SafetyCertificate = ({ test, device, facility }: { test: ElectricalSafetyTest; device: Device; facility?: HealthcareFacility | null }) => (
+  <div style={{ fontFamily: 'Arial, sans-serif', fontSize: 12, color: '#000' }}>
+    <h1 style={{ fontSize: 20, margin: '0 0 4px' }}>Electrical Safety Test Certificate</h1>
+    <p style={{ margin: '0 0 16px' }}>Recurrent test according to IEC 62353:2014</p>
+
+    <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: 16 }}>
+      <tbody>
+        <tr><th style={cell}>Device</th><td style={cell}>{device.manufacturer} {device.model}</td></tr>
+        <tr><th style={cell}>Serial number</th><td style={cell}>{device.serial_number}</td></tr>
+        <tr><th style={cell}>Asset ID</th><td style={cell}>{device._id}</td></tr>
+        <tr><th style={cell}>Location</th><td style={cell}>{[facility?.name, device.location].filter(Boolean).join(' - ')}</td></tr>
+        <tr><th style={cell}>Classification</th><td style={cell}>{PROTECTION_CLASS_LABELS[test.protectionClass]}, {APPLIED_PART_LABELS[test.appliedPart]}</td></tr>
+        <tr><th style={cell}>Safety analyzer</th><td style={cell}>{test.analyzerId}</td></tr>
+        <tr><th style={cell}>Leakage method</th><td style={cell}>{LEAKAGE_METHOD_LABELS[test.method]}</td></tr>
+      </tbody>
+    </table>
+
+    <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: 16 }}>
+      <thead>
+        <tr>
+          <th style={cell}>Test</th>
+          <th style={cell}>Limit</th>
+          <th style={cell}>Measured</th>
+          <th style={cell}>Result</th>
+        </tr>
+      </thead>
+      <tbody>
+        <tr>
+          <td style={cell}>Visual inspection</td>
+          <td style={cell}>-</td>
+          <td style={cell}>-</td>
+          <td style={cell}>{test.visualInspectionPassed ? 'Pass' : 'Fail'}</td>
+        </tr>
+        {test.measurements.map(measurement => (
+          <tr key={measurement.key}>
+            <td style={cell}>{measurement.label}</td>
+            <td style={cell}>≤ {measurement.limit} {measurement.unit}</td>
+            <td style={cell}>{measurement.value} {measurement.unit}</td>
+            <td style={cell}>{measurement.passed ? 'Pass' : 'Fail'}</td>
+          </tr>
+        ))}
+        <tr>
+          <td style={cell}>Functional test</td>
+          <td style={cell}>-</td>
+          <td style={cell}>-</td>
+          <td style={cell}>{test.functionalTestPassed ? 'Pass' : 'Fail'}</td>
+        </tr>
+      </tbody>
+    </table>
+
+    <p style={{ fontSize: 16, fontWeight: 'bold', margin: '0 0 8px' }}>
+      Overall result: {SAFETY_VERDICT_LABELS[test.verdict].toUpperCase()}
+    </p>
+    {test.notes && <p style={{ margin: '0 0 8px' }}>Notes: {test.notes}</p>}
+    <p style={{ margin: '0 0 4px' }}>Tested on {formatTestDate(test.testedAt)} by {test.testerName}</p>
+    <p style={{ margin: '0 0 32px' }}>Next test due: {test.nextTestDue}</p>
+    <p style={{ margin: 0 }}>Signature: ______________________________</p>
+  </div>
+);
+
+// Device classification, test history and certificates for IEC 62353 recurrent tests
+export default function ElectricalSafetyPanel({ device, facility, readOnly = false, onRecorded }: ElectricalSafetyPanelProps) {
+  const { toast } = useToast();
+  const [tests, setTests] = useState<ElectricalSafetyTest[]>([]);
+  const [recordOpen, setRecordOpen] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!device._id) return;
+    try {
+      setTests(await electricalSafetyService.getTests(device._id));
+    } catch (error) {
+      console.error('Error loading safety tests:', error);
+      toast({ title: "Error", description: "Failed to load electrical safety tests", variant: "destructive" });
+    }
+  }, [device._id, toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handlePrint = (test: ElectricalSafetyTest) => {
+    const printWindow = window.open('', '_blank', 'width=800,height=900');
+    if (!printWindow) {
+      toast({ title: "Error", description: "Allow pop-ups for this site to print the certificate", variant: "destructive" });
+      return;
+    }
+
+    const markup = renderToStaticMarkup(<SafetyCertificate test={test} device={device} facility={facility} />);
+    printWindow.document.write(`<!DOCTYPE html>
+<html>
+<head>
+<title>Electrical safety certificate - ${device.serial_number}</title>
+<style>
+  @page { size: A4; margin: 20mm; }
+  html, body { margin: 0; padding: 0; }
+</style>
+</head>
+<body>${markup}</body>
+</html>`);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.onafterprint = () => printWindow.close();
+    printWindow.print();
+  };
+
+  const latest = tests[0];
+
+  return (
+    <Card className="border-0 shadow-md">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Zap className="w-5 h-5" />
+              Electrical Safety
+            </CardTitle>
+            <CardDescription>
+              Recurrent IEC 62353 tests: protective earth, equipment leakage and applied part leakage
+            </CardDescription>
+          </div>
+          {isMainsPowered(device) && !readOnly && (
+            <Button onClick={() => setRecordOpen(true)}>
+              <Zap className="w-4 h-4 mr-2" />
+              Record Test
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isMainsPowered(device) ? (
+          <p className="text-sm text-muted-foreground">
+            {device.protection_class === 'internal'
+              ? 'Internally powered devices are not tested for mains electrical safety.'
+              : 'Set the protection class (Class I or Class II) on the device to enable safety testing.'}
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+            <div>
+              <p className="font-medium text-muted-foreground">Classification</p>
+              <p>{PROTECTION_CLASS_LABELS[device.protection_class]}, {APPLIED_PART_LABELS[device.applied_part || 'none']}</p>
+            </div>
+            <div>
+              <p className="font-medium text-muted-foreground">Last Test</p>
+              <p>{latest ? `${formatTestDate(latest.testedAt)} - ${SAFETY_VERDICT_LABELS[latest.verdict]}` : 'Never tested'}</p>
+            </div>
+            <div>
+              <p className="font-medium text-muted-foreground">Next Test Due</p>
+              <p>{latest ? latest.nextTestDue : 'Now'}</p>
+            </div>
+          </div>
+        )}
+
+        {tests.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Tester</TableHead>
+                <TableHead>Method</TableHead>
+                <TableHead>Result</TableHead>
+                <TableHead className="text-right">Certificate</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tests.map(test => (
+                <TableRow key={test.id}>
+                  <TableCell>{formatTestDate(test.testedAt)}</TableCell>
+                  <TableCell>{test.testerName}</TableCell>
+                  <TableCell>{LEAKAGE_METHOD_LABELS[test.method]}</TableCell>
+                  <TableCell>
+                    <Badge className={`${test.verdict === 'pass' ? 'bg-green-600' : 'bg-red-600'} text-white`}>
+                      {SAFETY_VERDICT_LABELS[test.verdict]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button size="sm" variant="outline" onClick={() => handlePrint(test)}>
+                      <Printer className="w-4 h-4 mr-1" />
+                      Print
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <ElectricalSafetyTestDialog
+        open={recordOpen}
+        device={device}
+        onOpenChange={setRecordOpen}
+        onRecorded={() => {
+          setRecordOpen(false);
+          load();
+          onRecorded?.();
+        }}
+      />
+    </Card>
+  );
+}
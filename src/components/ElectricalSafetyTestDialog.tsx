@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react';
+import { Zap } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthStore } from '@/store/auth-store';
+import type { Device } from '@/services/database';
+import {
+  APPLIED_PART_LABELS,
+  ElectricalSafetyTest,
+  LEAKAGE_METHOD_LABELS,
+  LeakageMethod,
+  PROTECTION_CLASS_LABELS,
+  SafetyMeasurementKey,
+  electricalSafetyService,
+  getSafetyTestLimits,
+  isMainsPowered,
+  isSafetyTestValidationError
+} from '@/services/electrical-safety';
+
+interface ElectricalSafetyTestDialogProps {
+  open: boolean;
+  device: Device;
+  onOpenChange: (open: boolean) => void;
+  onRecorded: (test: ElectricalSafetyTest) => void;
+}
+
+const toReading = (raw: string) => (raw.trim() === '' ? undefined : Number(raw));
+
+// Visual inspection, measurements against the IEC 62353 limits for the device's class and a functional check
+export default function ElectricalSafetyTestDialog({ open, device, onOpenChange, onRecorded }: ElectricalSafetyTestDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuthStore();
+  const [analyzerId, setAnalyzerId] = useState('');
+  const [method, setMethod] = useState<LeakageMethod>('alternative');
+  const [values, setValues] = useState<Partial<Record<SafetyMeasurementKey, string>>>({});
+  const [visualInspectionPassed, setVisualInspectionPassed] = useState(false);
+  const [functionalTestPassed, setFunctionalTestPassed] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setValues({});
+      setVisualInspectionPassed(false);
+      setFunctionalTestPassed(false);
+      setNotes('');
+    }
+  }, [open]);
+
+  if (!isMainsPowered(device)) return null;
+
+  const appliedPart = device.applied_part || 'none';
+  const limits = getSafetyTestLimits(device.protection_class, appliedPart, method);
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const test = await electricalSafetyService.record(device, {
+        analyzerId,
+        method,
+        visualInspectionPassed,
+        functionalTestPassed,
+        values: Object.fromEntries(limits.map(limit => [limit.key, toReading(values[limit.key] || '')])),
+        notes
+      }, { id: user?.uid || '', name: user?.name || user?.email || 'Unknown' });
+      toast({
+        title: "Success",
+        description: test.verdict === 'pass'
+          ? `Electrical safety test recorded: passed. Next test due ${test.nextTestDue}.`
+          : 'Electrical safety test recorded: failed. The device is out of service, a repair request was opened and a retest is scheduled.'
+      });
+      onRecorded(test);
+    } catch (error) {
+      console.error('Error recording safety test:', error);
+      toast({
+        title: "Error",
+        description: isSafetyTestValidationError(error) ? error.message : "Failed to record the safety test",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Zap className="w-5 h-5" />
+            Record Electrical Safety Test
+          </DialogTitle>
+          <DialogDescription>
+            {device.manufacturer} {device.model} • {PROTECTION_CLASS_LABELS[device.protection_class]} • {APPLIED_PART_LABELS[appliedPart]}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="safety-analyzer">Safety Analyzer *</Label>
+              <Input
+                id="safety-analyzer"
+                value={analyzerId}
+                onChange={(e) => setAnalyzerId(e.target.value)}
+                placeholder="e.g., Fluke ESA615 SN 1234567"
+              />
+            </div>
+            <div>
+              <Label htmlFor="safety-method">Leakage Measurement Method</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as LeakageMethod)}>
+                <SelectTrigger id="safety-method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(LEAKAGE_METHOD_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="safety-visual"
+              checked={visualInspectionPassed}
+              onCheckedChange={(checked) => setVisualInspectionPassed(checked === true)}
+            />
+            <Label htmlFor="safety-visual">Visual inspection passed (enclosure, mains cord, plug, markings, fuses)</Label>
+          </div>
+
+          <div className="space-y-2">
+            {limits.map(limit => {
+              const value = toReading(values[limit.key] || '');
+              return (
+                <div key={limit.key} className="grid grid-cols-[2fr_1fr_auto] gap-3 items-center rounded-lg border p-3">
+                  <div>
+                    <p className="text-sm font-medium">{limit.label}</p>
+                    <p className="text-xs text-muted-foreground">Limit ≤ {limit.limit} {limit.unit}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={values[limit.key] || ''}
+                      onChange={(e) => setValues(current => ({ ...current, [limit.key]: e.target.value }))}
+                      aria-label={limit.label}
+                    />
+                    <span className="text-sm text-muted-foreground">{limit.unit}</span>
+                  </div>
+                  {value === undefined || Number.isNaN(value) ? (
+                    <span className="w-12" />
+                  ) : value <= limit.limit ? (
+                    <Badge className="bg-green-600 text-white">Pass</Badge>
+                  ) : (
+                    <Badge className="bg-red-600 text-white">Fail</Badge>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="safety-functional"
+              checked={functionalTestPassed}
+              onCheckedChange={(checked) => setFunctionalTestPassed(checked === true)}
+            />
+            <Label htmlFor="safety-functional">Functional test passed after the measurements</Label>
+          </div>
+
+          <div>
+            <Label htmlFor="safety-notes">Notes</Label>
+            <Textarea
+              id="safety-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save Test'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { EXPORT_FORMAT_LABELS, ExportFormat } from '@/services/data-export';
+
+interface ExportMenuProps {
+  // Resolves to the number of exported rows
+  onExport: (format: ExportFormat) => Promise<number>;
+  label?: string;
+}
+
+// Format picker for the list pages; the caller applies its current filters to the export
+export default function ExportMenu({ onExport, label = 'Export' }: ExportMenuProps) {
+  const [exporting, setExporting] = useState(false);
+  const { toast } = useToast();
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      setExporting(true);
+      const count = await onExport(format);
+      toast({
+        title: "Success",
+        description: `Exported ${count} ${count === 1 ? 'row' : 'rows'} to ${EXPORT_FORMAT_LABELS[format]}`
+      });
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export data",
+        variant: "destructive"
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={exporting}>
+          {exporting ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Download className="w-4 h-4 mr-2" />
+          )}
+          {exporting ? 'Exporting...' : label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Export filtered results</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+          <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+            {EXPORT_FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react';
+import { Building2 } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { FacilityScope, HealthcareFacility, HealthcareNetwork, facilityManagementService } from '@/services/facility-management';
+import { scopeKey, useFacilityStore } from '@/store/facility-store';
+
+const parseScopeKey = (value: string): FacilityScope => {
+  const [type, ...id] = value.split(':');
+  return type === 'network' || type === 'facility' ? { type, id: id.join(':') } : { type: 'all' };
+};
+
+// App-shell picker for the facility or network every database query is scoped to
+export default function FacilitySwitcher() {
+  const { scope, setScope } = useFacilityStore();
+  const [networks, setNetworks] = useState<HealthcareNetwork[]>([]);
+  const [facilities, setFacilities] = useState<HealthcareFacility[]>([]);
+  const [unassignedCount, setUnassignedCount] = useState(0);
+
+  // Device counts are cached by the service, so refreshing whenever the menu opens stays cheap
+  const loadFacilities = () => {
+    Promise.all([
+      facilityManagementService.getNetworks(),
+      facilityManagementService.getFacilities(),
+      facilityManagementService.countUnassignedDevices()
+    ])
+      .then(([networksData, facilitiesData, unassigned]) => {
+        setNetworks(networksData);
+        setFacilities(facilitiesData);
+        setUnassignedCount(unassigned);
+      })
+      .catch(error => console.error('Failed to load facilities:', error));
+  };
+
+  useEffect(() => {
+    loadFacilities();
+  }, []);
+
+  if (networks.length === 0 && facilities.length === 0) return null;
+
+  return (
+    <Select
+      value={scopeKey(scope)}
+      onValueChange={(value) => setScope(parseScopeKey(value))}
+      onOpenChange={(open) => open && loadFacilities()}
+    >
+      <SelectTrigger className="w-56">
+        <Building2 className="mr-2 h-4 w-4 shrink-0 text-gray-500" />
+        <SelectValue placeholder="All facilities" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">All facilities</SelectItem>
+        {networks.map(network => (
+          <SelectGroup key={network.id}>
+            <SelectSeparator />
+            <SelectLabel>{network.name}</SelectLabel>
+            <SelectItem value={`network:${network.id}`}>
+              Entire network ({network.totalDevices} devices)
+            </SelectItem>
+            {facilities.filter(facility => facility.networkId === network.id).map(facility => (
+              <SelectItem key={facility.id} value={`facility:${facility.id}`}>
+                {facility.name} ({facility.deviceCount})
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        ))}
+        {unassignedCount > 0 && (
+          <>
+            <SelectSeparator />
+            <p className="px-2 py-1.5 text-xs text-muted-foreground">
+              {unassignedCount} device{unassignedCount === 1 ? ' has' : 's have'} no facility and {unassignedCount === 1 ? 'shows' : 'show'} in every scope
+            </p>
+          </>
+        )}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,83 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from '@/components/ui/pagination';
+
+interface ListPaginationProps {
+  page: number;
+  pageCount: number;
+  pageSize: number;
+  totalItems: number;
+  onPageChange: (page: number) => void;
+}
+
+// Page numbers around the current page, with the first and last always shown
+const getVisiblePages = (page: number, pageCount: number): (number | 'ellipsis')[] => {
+  const pages: (number | 'ellipsis')[] = [];
+  for (let p = 1; p <= pageCount; p++) {
+    if (p === 1 || p === pageCount || Math.abs(p - page) <= 1) {
+      pages.push(p);
+    } else if (pages[pages.length - 1] !== 'ellipsis') {
+      pages.push('ellipsis');
+    }
+  }
+  return pages;
+};
+
+export default function ListPagination({ page, pageCount, pageSize, totalItems, onPageChange }: ListPaginationProps) {
+  if (totalItems === 0) return null;
+
+  const firstItem = (page - 1) * pageSize + 1;
+  const lastItem = Math.min(page * pageSize, totalItems);
+
+  const goTo = (target: number) => (event: React.MouseEvent) => {
+    event.preventDefault();
+    if (target >= 1 && target <= pageCount && target !== page) {
+      onPageChange(target);
+    }
+  };
+
+  return (
+    <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 pt-4">
+      <p className="text-sm text-muted-foreground whitespace-nowrap">
+        Showing {firstItem}–{lastItem} of {totalItems}
+      </p>
+      {pageCount > 1 && (
+        <Pagination className="md:justify-end md:mx-0 md:w-auto">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                onClick={goTo(page - 1)}
+                className={page === 1 ? 'pointer-events-none opacity-50' : ''}
+              />
+            </PaginationItem>
+            {getVisiblePages(page, pageCount).map((p, index) => (
+              <PaginationItem key={p === 'ellipsis' ? `ellipsis-${index}` : p}>
+                {p === 'ellipsis' ? (
+                  <PaginationEllipsis />
+                ) : (
+                  <PaginationLink href="#" isActive={p === page} onClick={goTo(p)}>
+                    {p}
+                  </PaginationLink>
+                )}
+              </PaginationItem>
+            ))}
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                onClick={goTo(page + 1)}
+                className={page === pageCount ? 'pointer-events-none opacity-50' : ''}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import React, { useMemo, useState } from 'react';
+import {
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfDay,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns';
+import { AlertTriangle, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { MaintenanceRecord } from '@/services/database';
+import { PmSchedule, getDueWindow, isWithinDueWindow } from '@/services/pm-schedule';
+
+export type MaintenanceCalendarStatus = 'scheduled' | 'in_progress' | 'completed' | 'overdue' | 'cancelled';
+
+export interface MaintenanceCalendarItem extends MaintenanceRecord {
+  device_name?: string;
+  status?: MaintenanceCalendarStatus;
+}
+
+export interface CalendarTechnician {
+  id: string;
+  name: string;
+}
+
+type CalendarView = 'month' | 'week' | 'technicians';
+
+interface MaintenanceCalendarProps {
+  records: MaintenanceCalendarItem[];
+  schedules: PmSchedule[];
+  technicians?: CalendarTechnician[]; // Lanes shown even when the technician has nothing booked yet
+  // technician is only passed when the record was dropped into a different technician lane
+  onReschedule: (record: MaintenanceCalendarItem, date: Date, technician?: CalendarTechnician) => void;
+}
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+const NO_TECHNICIANS: CalendarTechnician[] = [];
+
+const STATUS_STYLES: Record<MaintenanceCalendarStatus, string> = {
+  scheduled: 'bg-yellow-100 border-yellow-400 text-yellow-900',
+  in_progress: 'bg-blue-100 border-blue-400 text-blue-900',
+  overdue: 'bg-red-100 border-red-400 text-red-900',
+  completed: 'bg-green-100 border-green-400 text-green-900',
+  cancelled: 'bg-gray-100 border-gray-300 text-gray-500 line-through'
+};
+
+// In-progress and completed work has already started, so only scheduled and overdue items move
+const canReschedule = (record: MaintenanceCalendarItem) => record.status === 'scheduled' || record.status === 'overdue';
+
+const technicianOf = (record: MaintenanceCalendarItem): CalendarTechnician => ({
+  id: record.technician_id || 'unassigned',
+  name: record.technician_name || 'Unassigned'
+});
+
+export default function MaintenanceCalendar({ records, schedules, technicians: knownTechnicians = NO_TECHNICIANS, onReschedule }: MaintenanceCalendarProps) {
+  const [view, setView] = useState<CalendarView>('month');
+  const [anchor, setAnchor] = useState(() => startOfDay(new Date()));
+  const [dragging, setDragging] = useState<MaintenanceCalendarItem | null>(null);
+
+  const days = useMemo(() => {
+    if (view === 'month') {
+      return eachDayOfInterval({
+        start: startOfWeek(startOfMonth(anchor), WEEK_OPTIONS),
+        end: endOfWeek(endOfMonth(anchor), WEEK_OPTIONS)
+      });
+    }
+    return eachDayOfInterval({ start: startOfWeek(anchor, WEEK_OPTIONS), end: endOfWeek(anchor, WEEK_OPTIONS) });
+  }, [view, anchor]);
+
+  const technicians = useMemo(() => {
+    const byId = new Map<string, CalendarTechnician>(knownTechnicians.map(technician => [technician.id, technician]));
+    records.forEach(record => {
+      const technician = technicianOf(record);
+      if (!byId.has(technician.id)) byId.set(technician.id, technician);
+    });
+    return Array.from(byId.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }, [records, knownTechnicians]);
+
+  const draggingWindow = dragging ? getDueWindow(dragging, schedules) : undefined;
+  const today = startOfDay(new Date());
+
+  const recordsOn = (day: Date, technicianId?: string) => records.filter(record =>
+    isSameDay(new Date(record.maintenance_date), day) &&
+    (technicianId === undefined || technicianOf(record).id === technicianId)
+  );
+
+  const shift = (direction: 1 | -1) => {
+    setAnchor(current => (view === 'month' ? addMonths(current, direction) : addWeeks(current, direction)));
+  };
+
+  const handleDrop = (event: React.DragEvent, day: Date, lane?: CalendarTechnician) => {
+    event.preventDefault();
+    const record = dragging;
+    setDragging(null);
+    if (!record) return;
+
+    const technicianChanged = lane !== undefined && lane.id !== technicianOf(record).id;
+    if (isSameDay(new Date(record.maintenance_date), day) && !technicianChanged) return;
+    onReschedule(record, day, technicianChanged ? lane : undefined);
+  };
+
+  // Days inside the dragged occurrence's due window are tinted green, the rest of the grid amber
+  const dropTargetClass = (day: Date) => {
+    if (!draggingWindow) return '';
+    return isWithinDueWindow(draggingWindow, day) ? 'bg-green-50' : 'bg-amber-50';
+  };
+
+  const renderItem = (record: MaintenanceCalendarItem, compact: boolean) => {
+    const dueWindow = getDueWindow(record, schedules);
+    const outsideWindow = dueWindow && !isWithinDueWindow(dueWindow, new Date(record.maintenance_date));
+    const movable = canReschedule(record);
+    return (
+      <div
+        key={record._id}
+        draggable={movable}
+        onDragStart={(event) => {
+          event.dataTransfer.effectAllowed = 'move';
+          event.dataTransfer.setData('text/plain', record._id || '');
+          setDragging(record);
+        }}
+        onDragEnd={() => setDragging(null)}
+        title={[
+          record.device_name,
+          record.maintenance_type,
+          record.technician_name,
+          dueWindow && `Due ${dueWindow.dueDate} (window ${dueWindow.earliest} to ${dueWindow.latest})`
+        ].filter(Boolean).join(' • ')}
+        className={`rounded border px-1.5 py-0.5 text-xs truncate ${STATUS_STYLES[record.status || 'scheduled']} ${movable ? 'cursor-grab' : 'cursor-default opacity-80'}`}
+      >
+        {outsideWindow && <AlertTriangle className="inline w-3 h-3 mr-1 text-amber-600" />}
+        {record.device_name}
+        {!compact && <span className="block text-[11px] opacity-75">{record.maintenance_type} • {record.technician_name}</span>}
+      </div>
+    );
+  };
+
+  const renderDayCell = (day: Date, options: { lane?: CalendarTechnician; minHeight: string; showDate: boolean }) => {
+    const items = recordsOn(day, options.lane?.id);
+    return (
+      <div
+        key={`${options.lane?.id || 'all'}-${day.toISOString()}`}
+        onDragOver={(event) => {
+          if (dragging) event.preventDefault();
+        }}
+        onDrop={(event) => handleDrop(event, day, options.lane)}
+        className={`border-r border-b p-1 space-y-1 ${options.minHeight} ${dropTargetClass(day)} ${view === 'month' && !isSameMonth(day, anchor) ? 'text-medical-text/40' : ''}`}
+      >
+        {options.showDate && (
+          <div className={`text-xs font-medium ${isSameDay(day, today) ? 'text-medical-primary' : ''}`}>
+            {format(day, view === 'month' ? 'd' : 'EEE d')}
+          </div>
+        )}
+        {items.map(record => renderItem(record, view === 'month'))}
+      </div>
+    );
+  };
+
+  const title = view === 'month'
+    ? format(anchor, 'MMMM yyyy')
+    : `${format(days[0], 'MMM d')} – ${format(days[days.length - 1], 'MMM d, yyyy')}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Button size="icon" variant="outline" onClick={() => shift(-1)} aria-label="Previous">
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setAnchor(today)}>
+            Today
+          </Button>
+          <Button size="icon" variant="outline" onClick={() => shift(1)} aria-label="Next">
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          <h3 className="ml-2 font-semibold text-medical-primary">{title}</h3>
+        </div>
+        <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)}>
+          <TabsList>
+            <TabsTrigger value="month">Month</TabsTrigger>
+            <TabsTrigger value="week">Week</TabsTrigger>
+            <TabsTrigger value="technicians">Technicians</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {view === 'technicians' ? (
+        <div className="overflow-x-auto">
+          <div className="grid min-w-[800px] border-l border-t" style={{ gridTemplateColumns: '160px repeat(7, minmax(0, 1fr))' }}>
+            <div className="border-r border-b p-2 text-xs font-medium">Technician</div>
+            {days.map(day => (
+              <div key={day.toISOString()} className={`border-r border-b p-2 text-xs font-medium ${isSameDay(day, today) ? 'text-medical-primary' : ''}`}>
+                {format(day, 'EEE d')}
+              </div>
+            ))}
+            {technicians.map(technician => (
+              <React.Fragment key={technician.id}>
+                <div className="border-r border-b p-2 text-sm font-medium truncate">{technician.name}</div>
+                {days.map(day => renderDayCell(day, { lane: technician, minHeight: 'min-h-[72px]', showDate: false }))}
+              </React.Fragment>
+            ))}
+          </div>
+          {technicians.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-6">No maintenance to show</p>
+          )}
+        </div>
+      ) : (
+        <div className="grid grid-cols-7 border-l border-t">
+          {view === 'month' && days.slice(0, 7).map(day => (
+            <div key={day.toISOString()} className="border-r border-b p-2 text-xs font-medium text-medical-text/70">
+              {format(day, 'EEE')}
+            </div>
+          ))}
+          {days.map(day => renderDayCell(day, { minHeight: view === 'month' ? 'min-h-[96px]' : 'min-h-[320px]', showDate: true }))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-medical-text/70">
+        {(['scheduled', 'in_progress', 'overdue'] as const).map(status => (
+          <span key={status} className="flex items-center gap-1">
+            <span className={`inline-block w-3 h-3 rounded border ${STATUS_STYLES[status]}`} />
+            {status.replace('_', ' ')}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <AlertTriangle className="w-3 h-3 text-amber-600" />
+          outside due window
+        </span>
+        <span>Drag scheduled or overdue work to another day{view === 'technicians' ? ' or technician' : ''}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { useEffect, useState } from 'react';
+import { Camera, Loader2, MessageSquare } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthStore } from '@/store/auth-store';
+import { Attachment, AttachmentOwner, attachmentService, isAttachmentValidationError } from '@/services/attachments';
+import {
+  CHECKLIST_RESULT_LABELS,
+  ChecklistStepRecord,
+  ChecklistStepResult,
+  MaintenanceChecklist,
+  getChecklistProgress,
+  isMeasurementInRange
+} from '@/services/maintenance-checklist';
+
+interface MaintenanceChecklistEditorProps {
+  checklist: MaintenanceChecklist;
+  owner: AttachmentOwner; // Step photos are stored as attachments on the maintenance record
+  onChange: (checklist: MaintenanceChecklist) => void;
+  disabled?: boolean;
+}
+
+const RESULT_STYLES: Record<ChecklistStepResult, string> = {
+  pass: 'bg-green-600 hover:bg-green-700 text-white',
+  fail: 'bg-red-600 hover:bg-red-700 text-white',
+  na: 'bg-gray-500 hover:bg-gray-600 text-white'
+};
+
+const PHOTO_ACCEPT = 'image/jpeg,image/png,image/webp';
+
+const formatRange = ({ min, max, unit }: NonNullable<ChecklistStepRecord['measurement']>) => {
+  if (min !== undefined && max !== undefined) return `${min}–${max} ${unit}`;
+  if (min !== undefined) return `≥ ${min} ${unit}`;
+  if (max !== undefined) return `≤ ${max} ${unit}`;
+  return unit;
+};
+
+// Step-by-step pass/fail/N/A results with measurements, comments and photos
+export default function MaintenanceChecklistEditor({ checklist, owner, onChange, disabled = false }: MaintenanceChecklistEditorProps) {
+  const { toast } = useToast();
+  const { user } = useAuthStore();
+  const [photos, setPhotos] = useState<Record<string, Attachment>>({});
+  const [uploadingStep, setUploadingStep] = useState<number | null>(null);
+  const [openComments, setOpenComments] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    attachmentService.getAttachments(owner.type, owner.id)
+      .then(attachments => setPhotos(Object.fromEntries(attachments.map(attachment => [attachment.id, attachment]))))
+      .catch(error => console.error('Error loading checklist photos:', error));
+  }, [owner.type, owner.id]);
+
+  const updateStep = (index: number, changes: Partial<ChecklistStepRecord>) => {
+    const steps = checklist.steps.map((step, stepIndex) => {
+      if (stepIndex !== index) return step;
+      const updated = { ...step, ...changes };
+      if ('result' in changes) {
+        updated.completedBy = changes.result ? user?.email || 'unknown' : undefined;
+        updated.completedAt = changes.result ? new Date().toISOString() : undefined;
+      }
+      return updated;
+    });
+    onChange({ ...checklist, steps });
+  };
+
+  // A reading inside the acceptance range passes the step and one outside fails it; the technician can still override
+  const setMeasurement = (index: number, raw: string) => {
+    const step = checklist.steps[index];
+    if (!step.measurement) return;
+    const value = raw.trim() === '' ? NaN : Number(raw);
+    const measurement = { ...step.measurement, value: Number.isNaN(value) ? undefined : value };
+    const inRange = isMeasurementInRange(measurement);
+    updateStep(index, inRange === undefined
+      ? { measurement }
+      : { measurement, result: inRange ? 'pass' : 'fail' });
+  };
+
+  const addPhoto = async (index: number, file: File | undefined) => {
+    if (!file) return;
+    const step = checklist.steps[index];
+    setUploadingStep(index);
+    try {
+      const attachment = await attachmentService.upload(owner, {
+        file,
+        category: 'photo',
+        description: `Checklist step ${index + 1}: ${step.label}`,
+        uploadedBy: user?.email || 'unknown'
+      });
+      setPhotos(current => ({ ...current, [attachment.id]: attachment }));
+      updateStep(index, { photoAttachmentIds: [...(step.photoAttachmentIds || []), attachment.id] });
+    } catch (error) {
+      console.error('Error uploading checklist photo:', error);
+      toast({
+        title: "Error",
+        description: isAttachmentValidationError(error) ? error.message : `Failed to attach ${file.name}`,
+        variant: "destructive"
+      });
+    } finally {
+      setUploadingStep(null);
+    }
+  };
+
+  const toggleComment = (index: number) => {
+    setOpenComments(current => {
+      const next = new Set(current);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const progress = getChecklistProgress(checklist);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-medical-text/70">
+          {progress.completed} of {progress.total} steps done
+        </span>
+        {progress.failed > 0 && (
+          <Badge className="bg-red-600 text-white">{progress.failed} failed</Badge>
+        )}
+      </div>
+
+      {checklist.steps.map((step, index) => {
+        const inRange = step.measurement && isMeasurementInRange(step.measurement);
+        const showComment = openComments.has(index) || Boolean(step.comment);
+        return (
+          <div key={index} className="rounded-lg border p-3 space-y-2">
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <p className="text-sm font-medium">
+                {index + 1}. {step.label}
+                {!step.mandatory && <span className="ml-2 text-xs text-medical-text/50">(optional)</span>}
+              </p>
+              <div className="flex gap-1">
+                {(Object.keys(CHECKLIST_RESULT_LABELS) as ChecklistStepResult[]).map(result => (
+                  <Button
+                    key={result}
+                    type="button"
+                    size="sm"
+                    variant={step.result === result ? 'default' : 'outline'}
+                    className={step.result === result ? RESULT_STYLES[result] : ''}
+                    disabled={disabled}
+                    onClick={() => updateStep(index, { result: step.result === result ? undefined : result })}
+                  >
+                    {CHECKLIST_RESULT_LABELS[result]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {step.measurement && (
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  step="any"
+                  className="w-32"
+                  value={step.measurement.value ?? ''}
+                  disabled={disabled}
+                  onChange={(event) => setMeasurement(index, event.target.value)}
+                  aria-label={`${step.label} reading`}
+                />
+                <span className="text-sm text-medical-text/70">{step.measurement.unit}</span>
+                <span className={`text-xs ${inRange === false ? 'text-red-600' : 'text-medical-text/50'}`}>
+                  Acceptable: {formatRange(step.measurement)}
+                </span>
+              </div>
+            )}
+
+            {showComment && (
+              <Textarea
+                rows={2}
+                value={step.comment || ''}
+                disabled={disabled}
+                placeholder="Findings or remarks for this step"
+                onChange={(event) => updateStep(index, { comment: event.target.value || undefined })}
+              />
+            )}
+
+            <div className="flex flex-wrap items-center gap-2">
+              {!showComment && (
+                <Button type="button" size="sm" variant="ghost" disabled={disabled} onClick={() => toggleComment(index)}>
+                  <MessageSquare className="w-4 h-4 mr-1" />
+                  Comment
+                </Button>
+              )}
+              <label>
+                <input
+                  type="file"
+                  accept={PHOTO_ACCEPT}
+                  capture="environment"
+                  className="hidden"
+                  disabled={disabled || uploadingStep !== null}
+                  onChange={(event) => {
+                    addPhoto(index, event.target.files?.[0]);
+                    event.target.value = '';
+                  }}
+                />
+                <span className={`inline-flex items-center rounded-md px-3 h-9 text-sm hover:bg-accent ${disabled ? 'opacity-50' : 'cursor-pointer'}`}>
+                  {uploadingStep === index ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Camera className="w-4 h-4 mr-1" />}
+                  Photo
+                </span>
+              </label>
+              {(step.photoAttachmentIds || []).map(id => photos[id]?.thumbnail ? (
+                <img key={id} src={photos[id].thumbnail} alt={photos[id].fileName} className="h-10 w-10 rounded object-cover border" />
+              ) : (
+                <Badge key={id} variant="outline">{photos[id]?.fileName || 'Photo'}</Badge>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import AttachmentList from '@/components/AttachmentList';
+import MaintenanceChecklistEditor from '@/components/MaintenanceChecklistEditor';
+import CalibrationForm from '@/components/CalibrationForm';
+import type { MaintenanceRecord } from '@/services/database';
+import type { CalibrationPointDefinition } from '@/services/device-types';
+import {
+  CALIBRATION_VERDICT_LABELS,
+  CalibrationInput,
+  CalibrationResult,
+  createCalibrationReadings,
+  evaluateCalibration,
+  isCalibrationValidationError
+} from '@/services/calibration';
+import { MaintenanceChecklist, getIncompleteMandatorySteps, getRecordChecklist } from '@/services/maintenance-checklist';
+
+export type MaintenanceCompletion = Pick<MaintenanceRecord, 'notes' | 'parts_replaced' | 'duration_hours' | 'cost' | 'checklist' | 'calibration'>;
+
+interface MaintenanceCompletionDialogProps {
+  open: boolean;
+  record: MaintenanceRecord | null;
+  deviceLabel: string;
+  estimatedHours?: number;
+  calibrationPoints?: CalibrationPointDefinition[]; // Shown on Calibration records for device types that define them
+  saving?: boolean;
+  onConfirm: (completion: MaintenanceCompletion) => void;
+  onSaveProgress?: (checklist: MaintenanceChecklist) => void; // Stores checklist results without completing
+  onCancel: () => void;
+}
+
+const toNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+// Work summary, parts and supporting documents captured when a technician completes maintenance
+export default function MaintenanceCompletionDialog({
+  open,
+  record,
+  deviceLabel,
+  estimatedHours,
+  calibrationPoints,
+  saving = false,
+  onConfirm,
+  onSaveProgress,
+  onCancel
+}: MaintenanceCompletionDialogProps) {
+  const [notes, setNotes] = useState('');
+  const [partsReplaced, setPartsReplaced] = useState('');
+  const [durationHours, setDurationHours] = useState('');
+  const [cost, setCost] = useState('');
+  const [checklist, setChecklist] = useState<MaintenanceChecklist | undefined>();
+  const [calibration, setCalibration] = useState<CalibrationInput | undefined>();
+
+  useEffect(() => {
+    if (open && record) {
+      setNotes(record.notes || '');
+      setPartsReplaced(record.parts_replaced || '');
+      setDurationHours(String(record.duration_hours ?? estimatedHours ?? ''));
+      setCost(record.cost !== undefined ? String(record.cost) : '');
+      setChecklist(getRecordChecklist(record));
+      setCalibration(record.calibration || (calibrationPoints?.length
+        ? { referenceStandardId: '', referenceCertificate: '', readings: createCalibrationReadings(calibrationPoints) }
+        : undefined));
+    }
+  }, [open, record, estimatedHours, calibrationPoints]);
+
+  const invalidNumber = [durationHours, cost].some(value => value.trim() !== '' && !(Number(value) >= 0));
+  const incompleteSteps = getIncompleteMandatorySteps(checklist);
+
+  let calibrationResult: CalibrationResult | undefined;
+  let calibrationError: string | undefined;
+  if (calibration) {
+    try {
+      calibrationResult = evaluateCalibration(calibration);
+    } catch (error) {
+      calibrationError = isCalibrationValidationError(error) ? error.message : 'Calibration readings are invalid';
+    }
+  }
+
+  const handleConfirm = () => {
+    onConfirm({
+      notes: notes.trim() || `Completed on ${new Date().toISOString()}`,
+      parts_replaced: partsReplaced.trim() || undefined,
+      duration_hours: toNumber(durationHours),
+      cost: toNumber(cost),
+      checklist,
+      calibration: calibrationResult
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CheckCircle2 className="w-5 h-5 text-green-600" />
+            Complete Maintenance
+          </DialogTitle>
+          <DialogDescription>
+            {record?.maintenance_type.replace(/_/g, ' ')} for {deviceLabel}. Attach certificates, photos or invoices before confirming.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {checklist && record?._id && (
+            <div>
+              <Label className="mb-2 block">Checklist</Label>
+              <MaintenanceChecklistEditor
+                checklist={checklist}
+                owner={{ type: 'maintenance_record', id: record._id, deviceId: record.device_id }}
+                onChange={setChecklist}
+                disabled={saving}
+              />
+            </div>
+          )}
+          {calibration && (
+            <div>
+              <Label className="mb-2 block">Calibration</Label>
+              <CalibrationForm value={calibration} onChange={setCalibration} disabled={saving} />
+              {calibrationResult && (
+                <p className={`mt-2 text-sm font-medium ${calibrationResult.verdict === 'pass' ? 'text-green-700' : 'text-red-700'}`}>
+                  Verdict: {CALIBRATION_VERDICT_LABELS[calibrationResult.verdict]}
+                  {!calibrationResult.asFoundInTolerance && ' • As found out of tolerance, a review service request will be opened'}
+                </p>
+              )}
+            </div>
+          )}
+          <div>
+            <Label htmlFor="completion-notes">Work Performed</Label>
+            <Textarea
+              id="completion-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Summary of the work carried out and findings"
+              rows={3}
+            />
+          </div>
+          <div>
+            <Label htmlFor="completion-parts">Parts Replaced</Label>
+            <Input
+              id="completion-parts"
+              value={partsReplaced}
+              onChange={(e) => setPartsReplaced(e.target.value)}
+              placeholder="e.g., Xenon lamp, air filter"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="completion-duration">Duration (hours)</Label>
+              <Input
+                id="completion-duration"
+                type="number"
+                min="0"
+                step="0.25"
+                value={durationHours}
+                onChange={(e) => setDurationHours(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="completion-cost">Cost</Label>
+              <Input
+                id="completion-cost"
+                type="number"
+                min="0"
+                step="0.01"
+                value={cost}
+                onChange={(e) => setCost(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {record?._id && (
+            <div>
+              <Label className="mb-2 block">Attachments</Label>
+              <AttachmentList
+                owner={{ type: 'maintenance_record', id: record._id, deviceId: record.device_id }}
+                defaultCategory="report"
+              />
+            </div>
+          )}
+        </div>
+
+        {incompleteSteps.length > 0 && (
+          <p className="flex items-center gap-2 text-sm text-amber-700">
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            {incompleteSteps.length} mandatory checklist {incompleteSteps.length === 1 ? 'step needs' : 'steps need'} a result before completion
+          </p>
+        )}
+
+        {calibrationError && (
+          <p className="flex items-center gap-2 text-sm text-amber-700">
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            {calibrationError}
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={saving}>
+            Cancel
+          </Button>
+          {checklist && onSaveProgress && (
+            <Button variant="outline" onClick={() => onSaveProgress(checklist)} disabled={saving}>
+              Save Progress
+            </Button>
+          )}
+          <Button onClick={handleConfirm} disabled={saving || invalidNumber || incompleteSteps.length > 0 || Boolean(calibrationError)} className="bg-green-600 hover:bg-green-700">
+            {saving ? 'Saving...' : 'Mark Completed'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -25,6 +25,7 @@ import {
   Move,
   Settings
 } from 'lucide-react';
+import { customReportService } from '@/services/custom-reports';
 
 // Report Component Types
 interface ReportComponent {
@@ -150,10 +151,7 @@ export default function ReportBuilder() {
       updatedAt: new Date().toISOString()
     };
 
-    // Save to localStorage (in real app, save to database)
-    const savedReports = JSON.parse(localStorage.getItem('custom-reports') || '[]');
-    savedReports.push(reportTemplate);
-    localStorage.setItem('custom-reports', JSON.stringify(savedReports));
+    customReportService.saveReport(reportTemplate);
 
     alert('Report saved successfully!');
     setCurrentReport(reportTemplate);
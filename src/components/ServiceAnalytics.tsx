@@ -44,8 +44,7 @@ export default function ServiceAnalytics() {
   const loadAnalytics = async () => {
     try {
       setLoading(true);
-      const requestsResult = await DatabaseService.getServiceRequests();
-      const requests = Array.isArray(requestsResult) ? requestsResult : requestsResult?.items || [];
+      const requests = await DatabaseService.getAllServiceRequests();
       
       if (requests && requests.length > 0) {
         const now = new Date();
@@ -64,14 +63,14 @@ export default function ServiceAnalytics() {
         // Calculate metrics
         const totalRequests = recentRequests.length;
         const criticalRequests = recentRequests.filter(r => r.priority === 'Critical').length;
-        const resolvedRequests = recentRequests.filter(r => r.request_status === 'resolved' || r.status === 'resolved');
+        const resolvedRequests = recentRequests.filter(r => r.request_status === 'Resolved' || r.request_status === 'Closed');
         
         // Calculate average resolution time (in hours)
         let totalResolutionTime = 0;
         let resolvedCount = 0;
         resolvedRequests.forEach(request => {
-          const created = new Date(request.created_at || request.created_date || '');
-          const resolved = new Date(request.resolved_date || request.updated_date || '');
+          const created = new Date(request.created_at || '');
+          const resolved = new Date(request.resolved_at || request.updated_at || '');
           if (resolved > created) {
             totalResolutionTime += (resolved.getTime() - created.getTime()) / (1000 * 60 * 60);
             resolvedCount++;
@@ -87,7 +86,7 @@ export default function ServiceAnalytics() {
         // Top issue types
         const issueTypeCounts: { [key: string]: number } = {};
         recentRequests.forEach(request => {
-          const type = request.issue_type || request.category || 'Other';
+          const type = request.issue_type || 'Other';
           issueTypeCounts[type] = (issueTypeCounts[type] || 0) + 1;
         });
         const topIssueTypes = Object.entries(issueTypeCounts)
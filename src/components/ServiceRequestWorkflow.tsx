@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -13,12 +13,16 @@ import {
   AlertCircle, 
   MessageSquare, 
   User,
-  Calendar
+  Calendar,
+  Sparkles
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { DatabaseService, ServiceRequest } from '@/services/database';
+import { getRevision, isConcurrencyConflict } from '@/services/concurrency';
+import { TechnicianCandidate, taskForServiceRequest, technicianAssignmentService } from '@/services/technician-assignment';
 import { useAuthStore } from '@/store/auth-store';
-import { EmailService } from '@/services/email';
+import ConflictDialog from '@/components/ConflictDialog';
+import AttachmentList from '@/components/AttachmentList';
 
 interface ServiceRequestWorkflowProps {
   request: ServiceRequest;
@@ -27,6 +31,14 @@ interface ServiceRequestWorkflowProps {
   onUpdate: () => void;
 }
 
+const conflictFieldLabels: Record<string, string> = {
+  request_status: 'Status',
+  resolution_notes: 'Notes',
+  assigned_to: 'Assigned Technician',
+  estimated_completion: 'Estimated Completion',
+  resolved_at: 'Resolved At'
+};
+
 const statusConfig = {
   Open: {
     icon: Clock,
@@ -70,85 +82,149 @@ export default function ServiceRequestWorkflow({
 }: ServiceRequestWorkflowProps) {
   const [selectedStatus, setSelectedStatus] = useState<string>('');
   const [updateNotes, setUpdateNotes] = useState('');
-  const [assignedTechnician, setAssignedTechnician] = useState('');
+  const [assignedTechnician, setAssignedTechnician] = useState(request.assigned_to || '');
+  const [candidates, setCandidates] = useState<TechnicianCandidate[]>([]);
   const [estimatedCompletion, setEstimatedCompletion] = useState('');
   const [updating, setUpdating] = useState(false);
+  const [conflict, setConflict] = useState<{ mine: Partial<ServiceRequest>; theirs: ServiceRequest } | null>(null);
   const { toast } = useToast();
   const { user } = useAuthStore();
 
   const currentStatus = request.request_status || 'Open';
   const config = statusConfig[currentStatus as keyof typeof statusConfig] || statusConfig.Open;
   const StatusIcon = config.icon;
+  const assignmentChanged = assignedTechnician !== (request.assigned_to || '');
+  const selectedCandidate = candidates.find(candidate => candidate.technicianId === assignedTechnician);
+
+  // Technicians ranked for this request by certification, facility, leave and this week's booked hours
+  useEffect(() => {
+    if (!isOpen) return;
+    setAssignedTechnician(request.assigned_to || '');
+
+    let cancelled = false;
+    DatabaseService.getDeviceById(request.device_id)
+      .then(device => technicianAssignmentService.rank(taskForServiceRequest(request, device)))
+      .then(ranked => {
+        if (!cancelled) setCandidates(ranked);
+      })
+      .catch(error => console.error('Error ranking technicians:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, request]);
+
+  const suggestTechnician = () => {
+    const [best] = candidates;
+    if (!best?.eligible) {
+      toast({
+        title: "Error",
+        description: "No active technician is qualified and available for this request",
+        variant: "destructive"
+      });
+      return;
+    }
+    setAssignedTechnician(best.technicianId);
+  };
+
+  const formatCandidateLoad = (candidate: TechnicianCandidate) =>
+    `${candidate.load.bookedHours}/${candidate.load.capacityHours} h this week`;
 
   const handleStatusUpdate = async () => {
-    if (!selectedStatus) {
+    if (!selectedStatus && !assignmentChanged) {
       toast({
         title: "Error",
-        description: "Please select a new status",
+        description: "Please select a new status or technician",
         variant: "destructive"
       });
       return;
     }
 
+    // updated_at is stamped by DatabaseService
+    const updateData: Partial<ServiceRequest> = {};
+
+    if (selectedStatus) {
+      updateData.request_status = selectedStatus as ServiceRequest['request_status'];
+    }
+
+    if (updateNotes) {
+      updateData.resolution_notes = updateNotes;
+    }
+
+    if (assignmentChanged) {
+      updateData.assigned_to = assignedTechnician;
+    }
+
+    if (estimatedCompletion) {
+      updateData.estimated_completion = new Date(estimatedCompletion).toISOString();
+    }
+
+    if (selectedStatus === 'Resolved' || selectedStatus === 'Closed') {
+      updateData.resolved_at = new Date().toISOString();
+    }
+
     try {
       setUpdating(true);
-      
-      const updateData: any = {
-        request_status: selectedStatus,
-        updated_date: new Date().toISOString()
-      };
-
-      if (updateNotes) {
-        updateData.resolution_notes = updateNotes;
+      await saveUpdate(updateData, getRevision(request), selectedStatus || currentStatus);
+    } catch (error) {
+      // Another technician saved this request first - offer merge or reload
+      if (isConcurrencyConflict<ServiceRequest>(error)) {
+        setConflict({ mine: updateData, theirs: error.current });
+        return;
       }
+      console.error('Error updating service request:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update service request",
+        variant: "destructive"
+      });
+    } finally {
+      setUpdating(false);
+    }
+  };
 
-      if (assignedTechnician) {
-        updateData.assigned_technician = assignedTechnician;
-      }
+  const saveUpdate = async (updateData: Partial<ServiceRequest>, expectedRevision: number, newStatus: string) => {
+    // The requester is notified from the service_request.status_changed event
+    await DatabaseService.updateServiceRequest(request._id!, user?.uid || '', updateData, { expectedRevision });
 
-      if (estimatedCompletion) {
-        updateData.estimated_completion = estimatedCompletion;
-      }
+    toast({
+      title: "Success",
+      description: updateData.request_status ? `Service request status updated to ${newStatus}` : "Service request updated",
+    });
 
-      if (selectedStatus === 'Resolved' || selectedStatus === 'Closed') {
-        updateData.resolved_at = new Date().toISOString();
-      }
+    // Reset form
+    setSelectedStatus('');
+    setUpdateNotes('');
+    setEstimatedCompletion('');
+    setConflict(null);
+    
+    onUpdate();
+    onClose();
+  };
 
-      await DatabaseService.updateServiceRequest(request._id!, user?.uid || '', updateData);
-
-      // Send email notification for status changes
-      try {
-        await EmailService.sendServiceRequestNotification(
-          'user@example.com', // In a real app, this would be the request creator
-          'User',
-          {
-            requestId: request._id || 'N/A',
-            deviceName: request.device_id || 'Unknown Device',
-            priority: request.priority || 'Medium',
-            description: `Status updated from ${currentStatus} to ${selectedStatus}. ${updateNotes ? 'Notes: ' + updateNotes : ''}`,
-            reportedBy: assignedTechnician || 'System'
-          }
-        );
-      } catch (emailError) {
-        console.warn('Email notification failed:', emailError);
-        // Don't fail the entire operation if email fails
-      }
+  const handleConflictReload = () => {
+    setConflict(null);
+    setSelectedStatus('');
+    onUpdate();
+    onClose();
+    toast({
+      title: "Reloaded",
+      description: "Your changes were discarded and the latest version of this request was loaded"
+    });
+  };
 
-      toast({
-        title: "Success",
-        description: `Service request status updated to ${selectedStatus}`,
-      });
+  const handleConflictMerge = async (mergedUpdate: Partial<ServiceRequest>) => {
+    if (!conflict) return;
 
-      // Reset form
-      setSelectedStatus('');
-      setUpdateNotes('');
-      setAssignedTechnician('');
-      setEstimatedCompletion('');
-      
-      onUpdate();
-      onClose();
+    try {
+      setUpdating(true);
+      await saveUpdate(mergedUpdate, getRevision(conflict.theirs), mergedUpdate.request_status || conflict.theirs.request_status);
     } catch (error) {
-      console.error('Error updating service request:', error);
+      if (isConcurrencyConflict<ServiceRequest>(error)) {
+        setConflict({ ...conflict, theirs: error.current });
+        return;
+      }
+      console.error('Error saving merged service request:', error);
       toast({
         title: "Error",
         description: "Failed to update service request",
@@ -232,6 +308,11 @@ export default function ServiceRequestWorkflow({
                         'Never'
                       }
                     </p>
+                    {request.estimated_completion && (
+                      <p className="text-sm text-muted-foreground">
+                        Estimated completion: {new Date(request.estimated_completion).toLocaleString()}
+                      </p>
+                    )}
                   </div>
                 </div>
                 <Badge className={config.textColor + ' ' + config.bgColor}>
@@ -279,6 +360,25 @@ export default function ServiceRequestWorkflow({
             </CardContent>
           </Card>
 
+          {/* Attachments */}
+          {request._id && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Attachments</CardTitle>
+                <CardDescription>
+                  Photos of the fault, vendor quotes and service reports
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AttachmentList
+                  owner={{ type: 'service_request', id: request._id, deviceId: request.device_id }}
+                  defaultCategory="photo"
+                  readOnly={currentStatus === 'Closed' || currentStatus === 'Cancelled'}
+                />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Status Update Form */}
           <Card>
             <CardHeader>
@@ -309,18 +409,30 @@ export default function ServiceRequestWorkflow({
                 </div>
 
                 <div>
-                  <label className="text-sm font-medium mb-2 block">Assigned Technician</label>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="text-sm font-medium">Assigned Technician</label>
+                    <Button type="button" size="sm" variant="ghost" className="h-6 px-2" onClick={suggestTechnician}>
+                      <Sparkles className="w-3 h-3 mr-1" />
+                      Suggest
+                    </Button>
+                  </div>
                   <Select value={assignedTechnician} onValueChange={setAssignedTechnician}>
                     <SelectTrigger>
                       <SelectValue placeholder="Select technician" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="john.smith">John Smith</SelectItem>
-                      <SelectItem value="sarah.johnson">Sarah Johnson</SelectItem>
-                      <SelectItem value="mike.brown">Mike Brown</SelectItem>
-                      <SelectItem value="lisa.davis">Lisa Davis</SelectItem>
+                      {candidates.map(candidate => (
+                        <SelectItem key={candidate.technicianId} value={candidate.technicianId}>
+                          {candidate.name} ({formatCandidateLoad(candidate)}){!candidate.eligible && ' - not qualified'}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
+                  {selectedCandidate && selectedCandidate.reasons.length > 0 && (
+                    <p className={`text-xs mt-1 ${selectedCandidate.eligible ? 'text-muted-foreground' : 'text-red-600'}`}>
+                      {selectedCandidate.reasons.join(' • ')}
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -350,15 +462,30 @@ export default function ServiceRequestWorkflow({
                 </Button>
                 <Button 
                   onClick={handleStatusUpdate}
-                  disabled={updating || !selectedStatus}
+                  disabled={updating || (!selectedStatus && !assignmentChanged)}
                 >
-                  {updating ? 'Updating...' : 'Update Status'}
+                  {updating ? 'Updating...' : selectedStatus ? 'Update Status' : 'Update Assignment'}
                 </Button>
               </div>
             </CardContent>
           </Card>
         </div>
       </DialogContent>
+
+      {conflict && (
+        <ConflictDialog
+          open
+          entityLabel="service request"
+          fieldLabels={conflictFieldLabels}
+          base={request}
+          mine={conflict.mine}
+          theirs={conflict.theirs}
+          saving={updating}
+          onReload={handleConflictReload}
+          onMerge={handleConflictMerge}
+          onCancel={() => setConflict(null)}
+        />
+      )}
     </Dialog>
   );
 }
\ No newline at end of file
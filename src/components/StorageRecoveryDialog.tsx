@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, Download, RotateCcw, Trash2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { QuarantinedEntry, isStorageSchemaError, storageRecoveryService } from '@/services/versioned-storage';
+
+interface StorageRecoveryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChange: () => void; // Called after an entry is restored or discarded
+}
+
+// Lists locally stored data that failed migration or validation so it can be fixed, restored, saved or discarded
+export default function StorageRecoveryDialog({ open, onOpenChange, onChange }: StorageRecoveryDialogProps) {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<QuarantinedEntry[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (open) {
+      setEntries(storageRecoveryService.getEntries());
+      setDrafts({});
+    }
+  }, [open]);
+
+  const refresh = () => {
+    setEntries(storageRecoveryService.getEntries());
+    onChange();
+  };
+
+  const restore = (entry: QuarantinedEntry) => {
+    try {
+      const count = storageRecoveryService.restoreEntry(entry.id, drafts[entry.id]);
+      toast({ title: 'Success', description: `Restored ${count} ${count === 1 ? 'entry' : 'entries'} to ${entry.label.toLowerCase()}` });
+      refresh();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: isStorageSchemaError(error) ? error.message : 'Failed to restore entry',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const discard = (entry: QuarantinedEntry) => {
+    storageRecoveryService.discardEntry(entry.id);
+    refresh();
+  };
+
+  const download = (entry: QuarantinedEntry) => {
+    const url = URL.createObjectURL(new Blob([drafts[entry.id] ?? entry.raw], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${entry.key}-${format(new Date(entry.quarantinedAt), 'yyyy-MM-dd-HHmm')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-amber-600" />
+            Data Recovery
+          </DialogTitle>
+          <DialogDescription>
+            These locally stored entries could not be read by this version and were set aside. Edit the JSON and restore it,
+            download a copy, or discard it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {entries.length === 0 ? (
+          <p className="py-6 text-center text-sm text-gray-500">No entries need recovery.</p>
+        ) : (
+          <div className="space-y-4">
+            {entries.map(entry => (
+              <div key={entry.id} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium">{entry.label}</p>
+                      {entry.schemaVersion !== null && <Badge variant="outline">v{entry.schemaVersion}</Badge>}
+                    </div>
+                    <p className="text-sm text-red-600">{entry.reason}</p>
+                    <p className="text-xs text-gray-500">
+                      Set aside {format(new Date(entry.quarantinedAt), 'MMM dd, yyyy HH:mm')}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button size="sm" variant="outline" onClick={() => download(entry)}>
+                      <Download className="w-4 h-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => discard(entry)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                    <Button size="sm" onClick={() => restore(entry)}>
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Restore
+                    </Button>
+                  </div>
+                </div>
+                <Textarea
+                  value={drafts[entry.id] ?? entry.raw}
+                  onChange={(event) => setDrafts(current => ({ ...current, [entry.id]: event.target.value }))}
+                  className="font-mono text-xs"
+                  rows={5}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
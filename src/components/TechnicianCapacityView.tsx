@@ -0,0 +1,353 @@
+import { useCallback, useEffect, useState } from 'react';
+import { addWeeks, format, parseISO } from 'date-fns';
+import { CalendarOff, ChevronLeft, ChevronRight, Trash2, Users } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthStore } from '@/store/auth-store';
+import type { UserProfile } from '@/services/database';
+import { HealthcareFacility, facilityManagementService } from '@/services/facility-management';
+import {
+  DEFAULT_WEEKLY_CAPACITY_HOURS,
+  TechnicianCapacity,
+  TechnicianTimeOff,
+  TechnicianWeekLoad,
+  getTechnicianName,
+  isTechnicianAssignmentError,
+  parseCertifications,
+  technicianAssignmentService
+} from '@/services/technician-assignment';
+
+interface TechnicianCapacityViewProps {
+  refreshKey?: number; // Changed by the parent after it books or reassigns work
+}
+
+const WEEKS_SHOWN = 6;
+
+// Select sentinel for technicians who cover every facility
+const ANY_FACILITY = 'any';
+
+const formatHours = (hours: number) => `${Math.round(hours * 10) / 10}`;
+
+const loadStyle = (load: TechnicianWeekLoad) => {
+  const utilization = load.capacityHours > 0 ? load.bookedHours / load.capacityHours : load.bookedHours > 0 ? Infinity : 0;
+  if (utilization > 1) return { bar: 'bg-red-500', text: 'text-red-700' };
+  if (utilization >= 0.8) return { bar: 'bg-amber-500', text: 'text-amber-700' };
+  return { bar: 'bg-green-500', text: 'text-green-700' };
+};
+
+const WeekCell = ({ load }: { load: TechnicianWeekLoad }) => {
+  const style = loadStyle(load);
+  const width = load.capacityHours > 0 ? Math.min(100, (load.bookedHours / load.capacityHours) * 100) : load.bookedHours > 0 ? 100 : 0;
+  return (
+    <div
+      className="space-y-1 min-w-[90px]"
+      title={`${formatHours(load.maintenanceHours)} h maintenance, ${formatHours(load.requestHours)} h service requests`}
+    >
+      <p className={`text-sm font-medium ${style.text}`}>
+        {formatHours(load.bookedHours)} / {formatHours(load.capacityHours)} h
+      </p>
+      <div className="h-1.5 rounded bg-gray-200">
+        <div className={`h-1.5 rounded ${style.bar}`} style={{ width: `${width}%` }} />
+      </div>
+      {load.daysOff > 0 && (
+        <p className="text-xs text-muted-foreground">{load.daysOff} day{load.daysOff === 1 ? '' : 's'} off</p>
+      )}
+    </div>
+  );
+};
+
+interface AvailabilityDialogProps {
+  technician: UserProfile | null;
+  facilities: HealthcareFacility[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// Home facility, weekly hours and leave - the inputs the workload balancer uses besides certifications
+const AvailabilityDialog = ({ technician, facilities, onClose, onSaved }: AvailabilityDialogProps) => {
+  const { toast } = useToast();
+  const { user } = useAuthStore();
+  const [facilityId, setFacilityId] = useState(ANY_FACILITY);
+  const [capacity, setCapacity] = useState('');
+  const [timeOff, setTimeOff] = useState<TechnicianTimeOff[]>([]);
+  const [leave, setLeave] = useState({ start: '', end: '', reason: '' });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!technician?._id) return;
+    setFacilityId(technician.facility_id || ANY_FACILITY);
+    setCapacity(String(technician.weekly_capacity_hours ?? DEFAULT_WEEKLY_CAPACITY_HOURS));
+    setLeave({ start: '', end: '', reason: '' });
+    technicianAssignmentService.getTimeOff(technician._id).then(setTimeOff).catch(error => {
+      console.error('Error loading technician time off:', error);
+      toast({ title: "Error", description: "Failed to load leave", variant: "destructive" });
+    });
+  }, [technician, toast]);
+
+  if (!technician?._id) return null;
+  const technicianId = technician._id;
+
+  const addLeave = async () => {
+    try {
+      await technicianAssignmentService.addTimeOff({ technicianId, ...leave });
+      setTimeOff(await technicianAssignmentService.getTimeOff(technicianId));
+      setLeave({ start: '', end: '', reason: '' });
+      onSaved();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: isTechnicianAssignmentError(error) ? error.message : "Failed to add leave",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const removeLeave = async (entry: TechnicianTimeOff) => {
+    try {
+      await technicianAssignmentService.removeTimeOff(entry.id);
+      setTimeOff(await technicianAssignmentService.getTimeOff(technicianId));
+      onSaved();
+    } catch (error) {
+      console.error('Error removing leave:', error);
+      toast({ title: "Error", description: "Failed to remove leave", variant: "destructive" });
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      await technicianAssignmentService.updateAvailability(technicianId, user?.uid || '', {
+        facility_id: facilityId === ANY_FACILITY ? '' : facilityId,
+        weekly_capacity_hours: capacity.trim() === '' ? DEFAULT_WEEKLY_CAPACITY_HOURS : Number(capacity)
+      });
+      toast({
+        title: "Success",
+        description: `Availability updated for ${getTechnicianName(technician)}`
+      });
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error('Error updating technician availability:', error);
+      toast({
+        title: "Error",
+        description: isTechnicianAssignmentError(error) ? error.message : "Failed to update availability",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Availability: {getTechnicianName(technician)}</DialogTitle>
+          <DialogDescription>
+            Work is only assigned to technicians at the device's facility who are not on leave that day
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="technician-facility">Home Facility</Label>
+              <Select value={facilityId} onValueChange={setFacilityId}>
+                <SelectTrigger id="technician-facility">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_FACILITY}>All facilities</SelectItem>
+                  {facilities.map(facility => (
+                    <SelectItem key={facility.id} value={facility.id}>{facility.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="technician-capacity">Hours per Week</Label>
+              <Input
+                id="technician-capacity"
+                type="number"
+                min="0"
+                step="0.5"
+                value={capacity}
+                onChange={(e) => setCapacity(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Leave</Label>
+            {timeOff.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No leave booked</p>
+            ) : (
+              timeOff.map(entry => (
+                <div key={entry.id} className="flex items-center justify-between rounded border px-3 py-2 text-sm">
+                  <span>
+                    {entry.start} to {entry.end}
+                    {entry.reason && <span className="text-muted-foreground"> - {entry.reason}</span>}
+                  </span>
+                  <Button size="sm" variant="ghost" onClick={() => removeLeave(entry)} aria-label="Remove leave">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+            <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-end">
+              <Input
+                type="date"
+                value={leave.start}
+                onChange={(e) => setLeave(current => ({ ...current, start: e.target.value, end: current.end || e.target.value }))}
+                aria-label="First day of leave"
+              />
+              <Input
+                type="date"
+                value={leave.end}
+                onChange={(e) => setLeave(current => ({ ...current, end: e.target.value }))}
+                aria-label="Last day of leave"
+              />
+              <Input
+                value={leave.reason}
+                onChange={(e) => setLeave(current => ({ ...current, reason: e.target.value }))}
+                placeholder="Reason"
+              />
+              <Button variant="outline" onClick={addLeave}>
+                <CalendarOff className="w-4 h-4 mr-1" />
+                Add
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// Booked hours against capacity per technician per week, from open maintenance and assigned service requests
+export default function TechnicianCapacityView({ refreshKey }: TechnicianCapacityViewProps) {
+  const { toast } = useToast();
+  const [weekOffset, setWeekOffset] = useState(0);
+  const [capacity, setCapacity] = useState<TechnicianCapacity[]>([]);
+  const [facilities, setFacilities] = useState<HealthcareFacility[]>([]);
+  const [editing, setEditing] = useState<UserProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [rows, facilityData] = await Promise.all([
+        technicianAssignmentService.getCapacity(WEEKS_SHOWN, addWeeks(new Date(), weekOffset)),
+        facilityManagementService.getFacilities()
+      ]);
+      setCapacity(rows);
+      setFacilities(facilityData);
+    } catch (error) {
+      console.error('Error loading technician capacity:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load technician capacity",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [weekOffset, toast]);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  const facilityName = (facilityId?: string) =>
+    facilityId ? facilities.find(facility => facility.id === facilityId)?.name || facilityId : 'All facilities';
+
+  const weekStarts = capacity[0]?.weeks.map(week => week.weekStart) || [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => setWeekOffset(offset => offset - WEEKS_SHOWN)} aria-label="Previous weeks">
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setWeekOffset(0)}>This Week</Button>
+          <Button variant="outline" size="icon" onClick={() => setWeekOffset(offset => offset + WEEKS_SHOWN)} aria-label="Next weeks">
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+        <div className="flex items-center gap-3 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1"><span className="w-3 h-1.5 rounded bg-green-500" />Under 80%</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-1.5 rounded bg-amber-500" />80-100%</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-1.5 rounded bg-red-500" />Over capacity</span>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-medical-primary"></div>
+        </div>
+      ) : capacity.length === 0 ? (
+        <div className="text-center py-12">
+          <Users className="w-12 h-12 text-medical-text/30 mx-auto mb-4" />
+          <p className="text-medical-text/70">No active technicians</p>
+          <p className="text-sm text-medical-text/50">Technicians are user profiles with the Technician role</p>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Technician</TableHead>
+              {weekStarts.map(weekStart => (
+                <TableHead key={weekStart}>Week of {format(parseISO(weekStart), 'MMM d')}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {capacity.map(({ technician, weeks }) => (
+              <TableRow key={technician._id}>
+                <TableCell className="align-top">
+                  <button type="button" className="text-left hover:underline" onClick={() => setEditing(technician)}>
+                    <p className="font-medium text-medical-primary">{getTechnicianName(technician)}</p>
+                  </button>
+                  <p className="text-xs text-muted-foreground">{facilityName(technician.facility_id)}</p>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {parseCertifications(technician.certifications).map(certification => (
+                      <Badge key={certification} variant="outline" className="text-xs">{certification}</Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                {weeks.map(week => (
+                  <TableCell key={week.weekStart} className="align-top">
+                    <WeekCell load={week} />
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <AvailabilityDialog
+        technician={editing}
+        facilities={facilities}
+        onClose={() => setEditing(null)}
+        onSaved={load}
+      />
+    </div>
+  );
+}
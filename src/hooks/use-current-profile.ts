@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { DatabaseService, UserProfile } from '@/services/database';
+import { useAuthStore } from '@/store/auth-store';
+
+// Resolves the signed-in user's profile (matched by email) so pages can gate role-restricted actions
+export function useCurrentProfile() {
+  const { user } = useAuthStore();
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user?.email) {
+      setProfile(null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    DatabaseService.getAllUserProfiles({ active: true })
+      .then(profiles => {
+        if (!cancelled) {
+          setProfile(profiles.find(p => p.email.toLowerCase() === user.email.toLowerCase()) || null);
+        }
+      })
+      .catch(error => console.error('Error loading user profile:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.email]);
+
+  return {
+    profile,
+    loading,
+    isAdmin: profile?.role === 'Admin'
+  };
+}
@@ -0,0 +1,28 @@
+import { useEffect, useMemo, useState } from 'react';
+
+export function usePagination<T>(items: T[], pageSize = 12) {
+  const [page, setPage] = useState(1);
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+  const currentPage = Math.min(page, pageCount);
+
+  // Keep the page in range when filters shrink the list
+  useEffect(() => {
+    if (page > pageCount) {
+      setPage(pageCount);
+    }
+  }, [page, pageCount]);
+
+  const pageItems = useMemo(
+    () => items.slice((currentPage - 1) * pageSize, currentPage * pageSize),
+    [items, currentPage, pageSize]
+  );
+
+  return {
+    page: currentPage,
+    pageCount,
+    pageSize,
+    pageItems,
+    totalItems: items.length,
+    setPage
+  };
+}
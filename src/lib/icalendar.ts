@@ -0,0 +1,118 @@
+// RFC 5545 iCalendar writer for calendar exports and subscription feeds. Handles text escaping,
+// 75-octet line folding and CRLF line endings; timed events are written in UTC.
+import { addDays, format } from 'date-fns';
+
+export type ICalEventStatus = 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+
+export interface ICalEvent {
+  uid: string; // Must stay the same across exports so clients update the event instead of duplicating it
+  sequence?: number; // Bumped whenever the event changes
+  start: Date;
+  end?: Date;
+  allDay?: boolean; // Dates are taken in local time; an all-day event ends the next day unless end is given
+  summary: string;
+  description?: string;
+  location?: string;
+  status?: ICalEventStatus;
+  categories?: string[];
+  url?: string;
+}
+
+export interface ICalCalendar {
+  prodId: string;
+  name?: string;
+  description?: string;
+  refreshInterval?: string; // ISO 8601 duration, e.g. PT1H; how often subscribers should re-fetch
+  events: ICalEvent[];
+}
+
+const MAX_LINE_OCTETS = 75;
+const CRLF = '\r\n';
+
+const encoder = new TextEncoder();
+
+export const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// 20261019T083000Z
+export const formatDateTime = (date: Date): string =>
+  date.toISOString().replace(/\.\d{3}Z$/, 'Z').replace(/[-:]/g, '');
+
+export const formatDate = (date: Date): string => format(date, 'yyyyMMdd');
+
+// Continuation lines start with a space; multi-byte characters are never split
+export const foldLine = (line: string): string => {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join(`${CRLF} `);
+};
+
+const eventLines = (event: ICalEvent, stamp: string): string[] => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${escapeText(event.uid)}`,
+    `DTSTAMP:${stamp}`,
+    `SEQUENCE:${event.sequence ?? 0}`
+  ];
+
+  if (event.allDay) {
+    lines.push(`DTSTART;VALUE=DATE:${formatDate(event.start)}`);
+    lines.push(`DTEND;VALUE=DATE:${formatDate(event.end || addDays(event.start, 1))}`);
+  } else {
+    lines.push(`DTSTART:${formatDateTime(event.start)}`);
+    if (event.end) lines.push(`DTEND:${formatDateTime(event.end)}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+export const serializeCalendar = (calendar: ICalCalendar, now: Date = new Date()): string => {
+  const stamp = formatDateTime(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${calendar.prodId}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH'
+  ];
+
+  if (calendar.name) {
+    lines.push(`NAME:${escapeText(calendar.name)}`, `X-WR-CALNAME:${escapeText(calendar.name)}`);
+  }
+  if (calendar.description) {
+    lines.push(`DESCRIPTION:${escapeText(calendar.description)}`, `X-WR-CALDESC:${escapeText(calendar.description)}`);
+  }
+  if (calendar.refreshInterval) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:${calendar.refreshInterval}`, `X-PUBLISHED-TTL:${calendar.refreshInterval}`);
+  }
+
+  calendar.events.forEach(event => lines.push(...eventLines(event, stamp)));
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join(CRLF) + CRLF;
+};
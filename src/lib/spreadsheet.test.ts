@@ -0,0 +1,42 @@
+import ExcelJS from 'exceljs';
+import { describe, expect, it } from 'vitest';
+import { readSpreadsheet } from './spreadsheet';
+
+describe('readSpreadsheet', () => {
+  it('reads quoted CSV fields and de-duplicates headers', async () => {
+    const file = new File(['Serial,Model,Model\r\n"SN,1", Cirrus 6000 ,extra\r\n\r\nSN2,Visucam\r\n'], 'devices.csv', {
+      type: 'text/csv'
+    });
+
+    const data = await readSpreadsheet(file);
+    expect(data.headers).toEqual(['Serial', 'Model', 'Model (2)']);
+    expect(data.rows).toEqual([
+      { Serial: 'SN,1', Model: 'Cirrus 6000', 'Model (2)': 'extra' },
+      { Serial: 'SN2', Model: 'Visucam', 'Model (2)': '' }
+    ]);
+  });
+
+  it('reads the first sheet of a workbook with dates as yyyy-MM-dd', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Inventory');
+    sheet.addRows([
+      ['Serial', 'Installed', 'Hours'],
+      ['SN1', new Date(Date.UTC(2024, 2, 5)), 120],
+      [],
+      ['SN2', null, 4]
+    ]);
+    workbook.addWorksheet('Ignored').addRow(['x']);
+    const file = new File([await workbook.xlsx.writeBuffer()], 'devices.xlsx');
+
+    const data = await readSpreadsheet(file);
+    expect(data.sheetName).toBe('Inventory');
+    expect(data.rows).toEqual([
+      { Serial: 'SN1', Installed: '2024-03-05', Hours: '120' },
+      { Serial: 'SN2', Installed: '', Hours: '4' }
+    ]);
+  });
+
+  it('rejects files that are not workbooks', async () => {
+    await expect(readSpreadsheet(new File(['not a zip'], 'devices.xlsx'))).rejects.toThrow('not a readable .xlsx workbook');
+  });
+});
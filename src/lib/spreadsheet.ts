@@ -0,0 +1,81 @@
+import ExcelJS from 'exceljs';
+import Papa from 'papaparse';
+
+export interface SpreadsheetData {
+  sheetName: string;
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export const SPREADSHEET_ACCEPT = '.csv,.xlsx';
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+const isCsvFile = (file: File) => file.name.toLowerCase().endsWith('.csv') || file.type === 'text/csv';
+
+async function readCsv(file: File): Promise<{ sheetName: string; table: string[][] }> {
+  const { data, errors } = Papa.parse<string[]>(await file.text(), { skipEmptyLines: 'greedy' });
+  // Ragged rows are fine, anything else means the quoting is broken
+  const fatal = errors.find(error => error.type !== 'FieldMismatch');
+  if (fatal) {
+    throw new Error(`Row ${(fatal.row ?? 0) + 1}: ${fatal.message}`);
+  }
+  return { sheetName: file.name.replace(/\.csv$/i, ''), table: data };
+}
+
+// Dates come back as yyyy-MM-dd; Excel stores them without a zone, which exceljs reads as UTC
+const cellText = (cell: ExcelJS.Cell): string =>
+  cell.value instanceof Date ? cell.value.toISOString().slice(0, 10) : cell.text;
+
+async function readWorkbook(file: File): Promise<{ sheetName: string; table: string[][] }> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(await file.arrayBuffer());
+  } catch {
+    throw new Error('The file is not a readable .xlsx workbook');
+  }
+  const sheet = workbook.worksheets[0];
+  if (!sheet) {
+    throw new Error('The file does not contain any sheets');
+  }
+
+  const table: string[][] = [];
+  sheet.eachRow(row => {
+    const cells: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, column) => {
+      cells[column - 1] = cellText(cell);
+    });
+    if (cells.some(cell => cell?.trim())) table.push(Array.from(cells, cell => cell ?? ''));
+  });
+  return { sheetName: sheet.name, table };
+}
+
+// Reads a CSV file or the first sheet of an .xlsx workbook; every cell comes back as trimmed text keyed by its header
+export async function readSpreadsheet(file: File): Promise<SpreadsheetData> {
+  if (file.size > MAX_FILE_SIZE) {
+    throw new Error('File is larger than 10 MB');
+  }
+
+  const { sheetName, table } = isCsvFile(file) ? await readCsv(file) : await readWorkbook(file);
+  if (table.length === 0) {
+    throw new Error('The first sheet is empty');
+  }
+
+  // Blank or repeated header cells still need distinct keys
+  const seen = new Map<string, number>();
+  const headers = table[0].map((cell, index) => {
+    const base = String(cell).trim() || `Column ${index + 1}`;
+    const count = seen.get(base) || 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base} (${count + 1})`;
+  });
+
+  const rows = table.slice(1).map(cells =>
+    headers.reduce((row, header, index) => {
+      row[header] = String(cells[index] ?? '').trim();
+      return row;
+    }, {} as Record<string, string>)
+  );
+
+  return { sheetName, headers, rows };
+}
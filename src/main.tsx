@@ -2,6 +2,15 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { registerDomainEventHandlers } from './services/domain-event-handlers'
+import { installQaSeed } from './services/seed-data'
+
+// VITE_TABLE_SEED=qa starts from the deterministic QA fixture in memory
+if (import.meta.env.VITE_TABLE_SEED === 'qa') {
+  installQaSeed()
+}
+
+registerDomainEventHandlers()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -1,16 +1,34 @@
 import { useState, useEffect } from 'react';
-import { useParams, useNavigate, Link } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams, Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
-import { DatabaseService, Device, MaintenanceRecord } from '@/services/database';
+import { DatabaseService, Device, MaintenanceRecord, describeArchiveResult, hasOpenWorkLeft, isDeviceArchived, isPermissionDenied } from '@/services/database';
+import { getRevision, isConcurrencyConflict } from '@/services/concurrency';
 import { useAuthStore } from '@/store/auth-store';
+import { useCurrentProfile } from '@/hooks/use-current-profile';
+import ArchiveDeviceDialog from '@/components/ArchiveDeviceDialog';
+import DeviceStatusDialog from '@/components/DeviceStatusDialog';
+import { DEVICE_STATUS_REASON_LABELS } from '@/services/device-lifecycle';
+import { deviceTypeRegistry, RISK_CLASS_LABELS } from '@/services/device-types';
+import { CALIBRATION_VERDICT_LABELS } from '@/services/calibration';
+import DeviceHistory from '@/components/DeviceHistory';
+import AssemblyTree from '@/components/AssemblyTree';
+import AttachmentList from '@/components/AttachmentList';
+import AssetLabelDialog from '@/components/AssetLabelDialog';
+import ElectricalSafetyPanel from '@/components/ElectricalSafetyPanel';
+import CalendarFeedDialog from '@/components/CalendarFeedDialog';
+import { AssemblyNode, buildAssemblyTree, findAssemblyNode, isDeviceHierarchyError } from '@/services/device-hierarchy';
+import { HealthcareFacility, facilityManagementService } from '@/services/facility-management';
 import { 
   ArrowLeft, 
   Edit, 
-  Trash2, 
+  Archive,
+  ArchiveRestore,
+  ArrowRightLeft,
   Activity,
   Calendar,
   MapPin,
@@ -22,7 +40,11 @@ import {
   Clock,
   FileText,
   Wrench,
-  Shield
+  Shield,
+  Network,
+  Plus,
+  Printer,
+  CalendarDays
 } from 'lucide-react';
 
 const statusConfig = {
@@ -61,10 +83,19 @@ export default function DeviceDetailsPage() {
   const navigate = useNavigate();
   const { toast } = useToast();
   const { user } = useAuthStore();
+  const { isAdmin } = useCurrentProfile();
 
+  const [searchParams] = useSearchParams();
   const [device, setDevice] = useState<Device | null>(null);
   const [maintenanceRecords, setMaintenanceRecords] = useState<MaintenanceRecord[]>([]);
+  const [assembly, setAssembly] = useState<AssemblyNode | null>(null);
+  const [facility, setFacility] = useState<HealthcareFacility | null>(null);
   const [loading, setLoading] = useState(true);
+  const [archiveOpen, setArchiveOpen] = useState(false);
+  const [archiving, setArchiving] = useState(false);
+  const [statusOpen, setStatusOpen] = useState(false);
+  const [labelOpen, setLabelOpen] = useState(false);
+  const [calendarOpen, setCalendarOpen] = useState(false);
 
   useEffect(() => {
     if (id) {
@@ -91,12 +122,15 @@ export default function DeviceDetailsPage() {
         return;
       }
 
-      // Load maintenance records
-      const maintenanceResult = await DatabaseService.getMaintenanceRecords({ 
-        deviceId: deviceId,
-        limit: 50
-      });
-      setMaintenanceRecords(maintenanceResult.items || []);
+      // Load maintenance records and the assembly this device belongs to, wherever they were recorded
+      const [deviceRecords, allDevices, deviceFacility] = await Promise.all([
+        DatabaseService.getAllMaintenanceRecords({ deviceId, facilityIds: null }),
+        DatabaseService.getAllDevices({ includeArchived: true, facilityIds: null }),
+        foundDevice.facility_id ? facilityManagementService.getFacility(foundDevice.facility_id) : Promise.resolve(null)
+      ]);
+      setMaintenanceRecords(deviceRecords);
+      setAssembly(buildAssemblyTree(allDevices, deviceId));
+      setFacility(deviceFacility);
     } catch (error) {
       console.error('Error loading device details:', error);
       toast({
@@ -110,26 +144,73 @@ export default function DeviceDetailsPage() {
     }
   };
 
-  const handleDeleteDevice = async () => {
-    if (!device || !confirm('Are you sure you want to delete this device? This action cannot be undone.')) {
-      return;
+  // A recorded safety test completes its maintenance occurrence and moves the next due date
+  const refreshAfterSafetyTest = async () => {
+    if (!id) return;
+    try {
+      const [updatedDevice, deviceRecords] = await Promise.all([
+        DatabaseService.getDeviceById(id),
+        DatabaseService.getAllMaintenanceRecords({ deviceId: id, facilityIds: null })
+      ]);
+      if (updatedDevice) setDevice(updatedDevice);
+      setMaintenanceRecords(deviceRecords);
+    } catch (error) {
+      console.error('Error refreshing device details:', error);
     }
-    
+  };
+
+  const handleArchiveDevice = async (reason: string) => {
+    if (!device) return;
+
     try {
-      await DatabaseService.deleteDevice(device._id!, user?.uid || '');
+      setArchiving(true);
+      const result = await DatabaseService.archiveDevice(device._id!, user?.uid || '', reason, { expectedRevision: getRevision(device) });
       toast({
-        title: "Success",
-        description: "Device deleted successfully"
+        title: hasOpenWorkLeft(result) ? "Error" : "Success",
+        description: describeArchiveResult(result),
+        variant: hasOpenWorkLeft(result) ? "destructive" : "default"
       });
       navigate('/devices');
     } catch (error) {
-      console.error('Error deleting device:', error);
+      console.error('Error archiving device:', error);
+      handleWriteError(error, "Failed to archive device");
+    } finally {
+      setArchiving(false);
+      setArchiveOpen(false);
+    }
+  };
+
+  const handleRestoreDevice = async () => {
+    if (!device) return;
+
+    try {
+      await DatabaseService.restoreDevice(device._id!, user?.uid || '', { expectedRevision: getRevision(device) });
       toast({
-        title: "Error",
-        description: "Failed to delete device",
+        title: "Success",
+        description: "Device restored to the active inventory"
+      });
+      loadDeviceDetails(device._id!);
+    } catch (error) {
+      console.error('Error restoring device:', error);
+      handleWriteError(error, "Failed to restore device");
+    }
+  };
+
+  const handleWriteError = (error: unknown, fallback: string) => {
+    if (isConcurrencyConflict(error)) {
+      toast({
+        title: "Device changed",
+        description: "Someone else updated this device. The latest version has been loaded.",
         variant: "destructive"
       });
+      loadDeviceDetails(device!._id!);
+      return;
     }
+    toast({
+      title: "Error",
+      description: isDeviceHierarchyError(error) || isPermissionDenied(error) ? error.message : fallback,
+      variant: "destructive"
+    });
   };
 
   const formatDate = (dateString: string) => {
@@ -184,6 +265,10 @@ export default function DeviceDetailsPage() {
   const StatusIcon = statusInfo.icon;
   const warrantyExpired = false; // warranty_expiry field not available in current schema
   const maintenanceDue = isMaintenanceDue(device.next_maintenance);
+  const archived = isDeviceArchived(device);
+  const assemblyNode = assembly && device._id ? findAssemblyNode(assembly, device._id) : null;
+  const degraded = assemblyNode?.rollup === 'degraded' && assemblyNode.health !== 'degraded';
+  const deviceType = deviceTypeRegistry.get(device.device_type);
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -209,16 +294,58 @@ export default function DeviceDetailsPage() {
               Edit
             </Link>
           </Button>
-          <Button 
-            variant="destructive" 
-            onClick={handleDeleteDevice}
-          >
-            <Trash2 className="w-4 h-4 mr-2" />
-            Delete
-          </Button>
+          {archived ? (
+            isAdmin && (
+              <Button onClick={handleRestoreDevice}>
+                <ArchiveRestore className="w-4 h-4 mr-2" />
+                Restore
+              </Button>
+            )
+          ) : (
+            <Button 
+              variant="destructive" 
+              onClick={() => setArchiveOpen(true)}
+            >
+              <Archive className="w-4 h-4 mr-2" />
+              Archive
+            </Button>
+          )}
         </div>
       </div>
 
+      {archived && (
+        <Card className="mb-6 border-gray-300 bg-gray-50">
+          <CardContent className="py-4">
+            <div className="flex items-center gap-3">
+              <Archive className="w-5 h-5 text-gray-600" />
+              <div>
+                <p className="font-medium text-gray-800">Archived on {formatDate(device.archived_at!)}</p>
+                <p className="text-sm text-gray-700">
+                  {device.archive_reason || 'No reason recorded'}
+                  {!isAdmin && ' • Only admins can restore archived devices'}
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {degraded && assemblyNode && (
+        <Card className="mb-6 border-yellow-200 bg-yellow-50">
+          <CardContent className="py-4">
+            <div className="flex items-center gap-3">
+              <Network className="w-5 h-5 text-yellow-600" />
+              <div>
+                <p className="font-medium text-yellow-800">Assembly Degraded</p>
+                <p className="text-sm text-yellow-700">
+                  {assemblyNode.issues.map(issue => issue.message).join(' • ')}
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Alerts */}
       {(maintenanceDue || warrantyExpired) && (
         <div className="mb-6 space-y-3">
@@ -258,135 +385,237 @@ export default function DeviceDetailsPage() {
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Main Information */}
-        <div className="lg:col-span-2 space-y-6">
-          {/* Basic Details */}
-          <Card className="border-0 shadow-md">
-            <CardHeader>
-              <div className="flex items-center justify-between">
-                <CardTitle>Device Information</CardTitle>
-                <Badge variant={statusInfo.variant}>
-                  <StatusIcon className="w-3 h-3 mr-1" />
-                  {statusInfo.label}
-                </Badge>
-              </div>
-              <CardDescription>{statusInfo.description}</CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div className="space-y-3">
-                  <div className="flex items-center gap-2">
-                    <Building2 className="w-4 h-4 text-muted-foreground" />
-                    <span className="text-sm font-medium text-muted-foreground">Manufacturer</span>
+        <div className="lg:col-span-2">
+          <Tabs defaultValue={searchParams.get('tab') || 'overview'} className="space-y-6">
+            <TabsList>
+              <TabsTrigger value="overview">Overview</TabsTrigger>
+              <TabsTrigger value="safety">Electrical Safety</TabsTrigger>
+              <TabsTrigger value="attachments">Attachments</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="overview" className="space-y-6">
+              {/* Basic Details */}
+              <Card className="border-0 shadow-md">
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle>Device Information</CardTitle>
+                    <Badge variant={statusInfo.variant}>
+                      <StatusIcon className="w-3 h-3 mr-1" />
+                      {statusInfo.label}
+                    </Badge>
                   </div>
-                  <p className="text-lg font-semibold">{device.manufacturer}</p>
-                </div>
+                  <CardDescription>
+                    {statusInfo.description}
+                    {device.status_reason && (
+                      <span className="block mt-1">
+                        Reason: {DEVICE_STATUS_REASON_LABELS[device.status_reason]}
+                        {device.status_note && ` — ${device.status_note}`}
+                        {device.status_changed_at && ` (${formatDate(device.status_changed_at)})`}
+                      </span>
+                    )}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-3">
+                      <div className="flex items-center gap-2">
+                        <Building2 className="w-4 h-4 text-muted-foreground" />
+                        <span className="text-sm font-medium text-muted-foreground">Manufacturer</span>
+                      </div>
+                      <p className="text-lg font-semibold">{device.manufacturer}</p>
+                    </div>
                 
-                <div className="space-y-3">
-                  <div className="flex items-center gap-2">
-                    <Tag className="w-4 h-4 text-muted-foreground" />
-                    <span className="text-sm font-medium text-muted-foreground">Model</span>
-                  </div>
-                  <p className="text-lg font-semibold">{device.model}</p>
-                </div>
+                    <div className="space-y-3">
+                      <div className="flex items-center gap-2">
+                        <Tag className="w-4 h-4 text-muted-foreground" />
+                        <span className="text-sm font-medium text-muted-foreground">Model</span>
+                      </div>
+                      <p className="text-lg font-semibold">{device.model}</p>
+                    </div>
                 
-                <div className="space-y-3">
-                  <div className="flex items-center gap-2">
-                    <Hash className="w-4 h-4 text-muted-foreground" />
-                    <span className="text-sm font-medium text-muted-foreground">Serial Number</span>
-                  </div>
-                  <p className="text-lg font-mono">{device.serial_number}</p>
-                </div>
+                    <div className="space-y-3">
+                      <div className="flex items-center gap-2">
+                        <Hash className="w-4 h-4 text-muted-foreground" />
+                        <span className="text-sm font-medium text-muted-foreground">Serial Number</span>
+                      </div>
+                      <p className="text-lg font-mono">{device.serial_number}</p>
+                    </div>
                 
-                <div className="space-y-3">
-                  <div className="flex items-center gap-2">
-                    <MapPin className="w-4 h-4 text-muted-foreground" />
-                    <span className="text-sm font-medium text-muted-foreground">Location</span>
+                    <div className="space-y-3">
+                      <div className="flex items-center gap-2">
+                        <MapPin className="w-4 h-4 text-muted-foreground" />
+                        <span className="text-sm font-medium text-muted-foreground">Location</span>
+                      </div>
+                      <p className="text-lg font-semibold">{device.location || 'Location not set'}</p>
+                      <p className="text-sm text-muted-foreground">{facility?.name || 'No facility assigned'}</p>
+                    </div>
                   </div>
-                  <p className="text-lg font-semibold">{device.location || 'Location not set'}</p>
-                </div>
-              </div>
               
-              <Separator />
+                  <Separator />
               
-              <div>
-                <div className="flex items-center gap-2 mb-2">
-                  <Tag className="w-4 h-4 text-muted-foreground" />
-                  <span className="text-sm font-medium text-muted-foreground">Device Type</span>
-                </div>
-                <Badge variant="outline" className="text-base px-3 py-1">
-                  {device.device_type}
-                </Badge>
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Notes */}
-          {/* Device Info - Using available fields */}
-          <Card className="border-0 shadow-md">
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <FileText className="w-5 h-5" />
-                Device Information
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-2">
-                <p><strong>Type:</strong> {device.device_type}</p>
-                <p><strong>Serial Number:</strong> {device.serial_number}</p>
-                <p><strong>Location:</strong> {device.location || 'Not specified'}</p>
-              </div>
-            </CardContent>
-          </Card>
+                  <div>
+                    <div className="flex items-center gap-2 mb-2">
+                      <Tag className="w-4 h-4 text-muted-foreground" />
+                      <span className="text-sm font-medium text-muted-foreground">Device Type</span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="outline" className="text-base px-3 py-1">
+                        {deviceTypeRegistry.getLabel(device.device_type)}
+                      </Badge>
+                      {deviceType && (
+                        <Badge variant="secondary">{RISK_CLASS_LABELS[deviceType.riskClass]}</Badge>
+                      )}
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
 
-          {/* Recent Maintenance */}
-          <Card className="border-0 shadow-md">
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Wrench className="w-5 h-5" />
-                Recent Maintenance
-              </CardTitle>
-              <CardDescription>
-                Latest maintenance activities for this device
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              {maintenanceRecords.length === 0 ? (
-                <div className="text-center py-8">
-                  <Wrench className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
-                  <p className="text-muted-foreground">No maintenance records found</p>
-                  <Button asChild variant="outline" className="mt-4">
-                    <Link to={`/maintenance/new?device_id=${device._id}`}>
-                      Add Maintenance Record
-                    </Link>
-                  </Button>
-                </div>
-              ) : (
-                <div className="space-y-4">
-                  {maintenanceRecords.slice(0, 3).map((record) => (
-                    <div key={record._id} className="border rounded-lg p-4">
-                      <div className="flex items-start justify-between">
-                        <div>
-                          <h4 className="font-medium">{record.maintenance_type}</h4>
-                          <p className="text-sm text-muted-foreground mb-2">
-                            {formatDate(record.maintenance_date)} • {record.technician_name}
+              {/* Notes */}
+              {/* Device Info - Using available fields */}
+              <Card className="border-0 shadow-md">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <FileText className="w-5 h-5" />
+                    Device Information
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    <p><strong>Type:</strong> {deviceTypeRegistry.getLabel(device.device_type)}</p>
+                    <p><strong>Serial Number:</strong> {device.serial_number}</p>
+                    <p><strong>Facility:</strong> {facility?.name || 'Unassigned'}</p>
+                    <p><strong>Location:</strong> {device.location || 'Not specified'}</p>
+                    {device.udi_device_identifier && <p><strong>UDI Device Identifier:</strong> {device.udi_device_identifier}</p>}
+                    {device.lot_number && <p><strong>Lot Number:</strong> {device.lot_number}</p>}
+                    {device.manufacture_date && <p><strong>Manufactured:</strong> {device.manufacture_date}</p>}
+                    {device.expiration_date && <p><strong>Expires:</strong> {device.expiration_date}</p>}
+                    {deviceType?.attributes
+                      .filter(attribute => device.attributes?.[attribute.key] !== undefined)
+                      .map(attribute => {
+                        const value = device.attributes![attribute.key];
+                        return (
+                          <p key={attribute.key}>
+                            <strong>{attribute.label}:</strong>{' '}
+                            {typeof value === 'boolean' ? (value ? 'Yes' : 'No') : value}
+                            {attribute.unit && typeof value === 'number' && ` ${attribute.unit}`}
                           </p>
-                          <p className="text-sm">{record.description}</p>
+                        );
+                      })}
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Assembly */}
+              {assembly && assembly.children.length > 0 && (
+                <Card className="border-0 shadow-md">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Network className="w-5 h-5" />
+                      Assembly
+                    </CardTitle>
+                    <CardDescription>
+                      Base unit and components, each with its own serial number and service history
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <AssemblyTree tree={assembly} currentDeviceId={device._id} />
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Recent Maintenance */}
+              <Card className="border-0 shadow-md">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Wrench className="w-5 h-5" />
+                    Recent Maintenance
+                  </CardTitle>
+                  <CardDescription>
+                    Latest maintenance activities for this device
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {maintenanceRecords.length === 0 ? (
+                    <div className="text-center py-8">
+                      <Wrench className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+                      <p className="text-muted-foreground">No maintenance records found</p>
+                      <Button asChild variant="outline" className="mt-4">
+                        <Link to={`/maintenance/new?device_id=${device._id}`}>
+                          Add Maintenance Record
+                        </Link>
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="space-y-4">
+                      {maintenanceRecords.slice(0, 3).map((record) => (
+                        <div key={record._id} className="border rounded-lg p-4">
+                          <div className="flex items-start justify-between">
+                            <div>
+                              <h4 className="font-medium">{record.maintenance_type}</h4>
+                              <p className="text-sm text-muted-foreground mb-2">
+                                {formatDate(record.maintenance_date)} • {record.technician_name}
+                              </p>
+                              <p className="text-sm">{record.description}</p>
+                              {record.calibration && (
+                                <p className="text-sm text-muted-foreground mt-1">
+                                  Calibration {CALIBRATION_VERDICT_LABELS[record.calibration.verdict].toLowerCase()} against {record.calibration.referenceStandardId}
+                                  {!record.calibration.asFoundInTolerance && ' • as found out of tolerance'}
+                                </p>
+                              )}
+                            </div>
+                            <Badge variant="outline">{record.after_status}</Badge>
+                          </div>
                         </div>
-                        <Badge variant="outline">{record.after_status}</Badge>
-                      </div>
+                      ))}
+                      {maintenanceRecords.length > 3 && (
+                        <Button asChild variant="outline" className="w-full">
+                          <Link to={`/maintenance?device_id=${device._id}`}>
+                            View All Maintenance Records ({maintenanceRecords.length})
+                          </Link>
+                        </Button>
+                      )}
                     </div>
-                  ))}
-                  {maintenanceRecords.length > 3 && (
-                    <Button asChild variant="outline" className="w-full">
-                      <Link to={`/maintenance?device_id=${device._id}`}>
-                        View All Maintenance Records ({maintenanceRecords.length})
-                      </Link>
-                    </Button>
                   )}
-                </div>
-              )}
-            </CardContent>
-          </Card>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="safety">
+              <ElectricalSafetyPanel
+                device={device}
+                facility={facility}
+                readOnly={isDeviceArchived(device)}
+                onRecorded={refreshAfterSafetyTest}
+              />
+            </TabsContent>
+
+            <TabsContent value="attachments">
+              <Card className="border-0 shadow-md">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <FileText className="w-5 h-5" />
+                    Documents & Photos
+                  </CardTitle>
+                  <CardDescription>
+                    Service manuals, certificates and invoices for this device, plus files attached to its maintenance and service requests
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <AttachmentList
+                    owner={{ type: 'device', id: device._id!, deviceId: device._id! }}
+                    includeRelated
+                    defaultCategory="service_manual"
+                    readOnly={isDeviceArchived(device)}
+                  />
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="history">
+              <DeviceHistory device={device} />
+            </TabsContent>
+          </Tabs>
         </div>
 
         {/* Sidebar */}
@@ -442,6 +671,13 @@ export default function DeviceDetailsPage() {
               <CardTitle>Quick Actions</CardTitle>
             </CardHeader>
             <CardContent className="space-y-3">
+              {!archived && (
+                <Button variant="outline" className="w-full" onClick={() => setStatusOpen(true)}>
+                  <ArrowRightLeft className="w-4 h-4 mr-2" />
+                  Change Status
+                </Button>
+              )}
+
               <Button asChild className="w-full">
                 <Link to={`/maintenance/new?device_id=${device._id}`}>
                   <Wrench className="w-4 h-4 mr-2" />
@@ -450,22 +686,63 @@ export default function DeviceDetailsPage() {
               </Button>
               
               <Button asChild variant="outline" className="w-full">
-                <Link to={`/service-requests/new?device_id=${device._id}`}>
+                <Link to={`/service-requests?new=1&device_id=${device._id}`}>
                   <AlertCircle className="w-4 h-4 mr-2" />
                   Report Issue
                 </Link>
               </Button>
               
+              {!archived && (
+                <Button asChild variant="outline" className="w-full">
+                  <Link to={`/devices/new?parent_device_id=${device._id}`}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Component
+                  </Link>
+                </Button>
+              )}
+
               <Button asChild variant="outline" className="w-full">
                 <Link to={`/devices/${device._id}/edit`}>
                   <Edit className="w-4 h-4 mr-2" />
                   Edit Device
                 </Link>
               </Button>
+
+              <Button variant="outline" className="w-full" onClick={() => setLabelOpen(true)}>
+                <Printer className="w-4 h-4 mr-2" />
+                Print Asset Label
+              </Button>
+
+              <Button variant="outline" className="w-full" onClick={() => setCalendarOpen(true)}>
+                <CalendarDays className="w-4 h-4 mr-2" />
+                Export Calendar
+              </Button>
             </CardContent>
           </Card>
         </div>
       </div>
+
+      <ArchiveDeviceDialog
+        open={archiveOpen}
+        deviceLabel={`${device.manufacturer} ${device.model}`}
+        saving={archiving}
+        onConfirm={handleArchiveDevice}
+        onCancel={() => setArchiveOpen(false)}
+      />
+
+      <DeviceStatusDialog
+        device={statusOpen ? device : null}
+        onClose={() => setStatusOpen(false)}
+        onChanged={() => loadDeviceDetails(device._id!)}
+      />
+
+      <AssetLabelDialog open={labelOpen} onOpenChange={setLabelOpen} devices={[device]} />
+
+      <CalendarFeedDialog
+        open={calendarOpen}
+        onOpenChange={setCalendarOpen}
+        initialScope={{ type: 'device', id: device._id! }}
+      />
     </div>
   );
 }
\ No newline at end of file
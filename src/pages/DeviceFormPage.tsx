@@ -1,15 +1,35 @@
 import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
-import { DatabaseService } from '@/services/database';
+import { DatabaseService, Device, ServiceRequest } from '@/services/database';
+import { getRevision, isConcurrencyConflict } from '@/services/concurrency';
+import {
+  buildStatusUpdate,
+  DEVICE_STATUS_LABELS,
+  DeviceStatusChange,
+  getSelectableStatuses,
+  isDeviceStatusTransitionError,
+  isOpenServiceRequest
+} from '@/services/device-lifecycle';
+import { deviceTypeRegistry, DeviceAttributes, DeviceAttributeValue, RISK_CLASS_LABELS } from '@/services/device-types';
+import { getAssemblyLabel, getDescendantIds, isDeviceHierarchyError } from '@/services/device-hierarchy';
+import { HealthcareFacility, facilityManagementService } from '@/services/facility-management';
+import { UdiData, isUdiParseError, parseUdi } from '@/services/udi';
+import { UdiCatalogEntry, lookupUdiDevice } from '@/services/udi-catalog';
+import { APPLIED_PART_LABELS, AppliedPartType, PROTECTION_CLASS_LABELS, ProtectionClass } from '@/services/electrical-safety';
 import { useAuthStore } from '@/store/auth-store';
-import { ArrowLeft, Save, Activity } from 'lucide-react';
+import { useFacilityStore } from '@/store/facility-store';
+import ConflictDialog from '@/components/ConflictDialog';
+import DeviceStatusTransitionFields from '@/components/DeviceStatusTransitionFields';
+import DeviceAttributeFields from '@/components/DeviceAttributeFields';
+import { ArrowLeft, Save, Activity, ScanLine, AlertCircle, CheckCircle2 } from 'lucide-react';
 
 interface DeviceFormData {
   name: string;
@@ -18,43 +38,69 @@ interface DeviceFormData {
   serial_number: string;
   device_type: string;
   location: string;
-  status: 'active' | 'maintenance' | 'inactive' | 'critical';
+  status: Device['status'];
   purchase_date: string;
   warranty_expiry: string;
   last_maintenance: string;
   next_maintenance: string;
   notes: string;
+  udi: string;
+  udi_device_identifier: string;
+  lot_number: string;
+  manufacture_date: string;
+  expiration_date: string;
+  protection_class: ProtectionClass | '';
+  applied_part: AppliedPartType | '';
 }
 
-const deviceTypes = [
-  'OCT Scanner',
-  'Fundus Camera', 
-  'Visual Field Analyzer',
-  'Tonometer',
-  'Slit Lamp',
-  'Autorefractor',
-  'Keratometer',
-  'Pachymeter',
-  'Specular Microscope',
-  'Laser System'
-];
-
-const statusOptions = [
-  { value: 'active', label: 'Active' },
-  { value: 'maintenance', label: 'Under Maintenance' },
-  { value: 'inactive', label: 'Inactive' },
-  { value: 'critical', label: 'Critical Issue' }
-];
+const conflictFieldLabels: Record<string, string> = {
+  manufacturer: 'Manufacturer',
+  model: 'Model',
+  serial_number: 'Serial Number',
+  device_type: 'Device Type',
+  attributes: 'Type Attributes',
+  parent_device_id: 'Parent Assembly',
+  facility_id: 'Facility',
+  location: 'Location',
+  status: 'Status',
+  status_reason: 'Status Reason',
+  status_note: 'Status Note',
+  status_service_request_id: 'Linked Service Request',
+  last_maintenance: 'Last Maintenance',
+  next_maintenance: 'Next Maintenance',
+  udi: 'UDI',
+  udi_device_identifier: 'UDI Device Identifier',
+  lot_number: 'Lot Number',
+  manufacture_date: 'Manufacture Date',
+  expiration_date: 'Expiration Date',
+  protection_class: 'Protection Class',
+  applied_part: 'Applied Part'
+};
 
 export default function DeviceFormPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { toast } = useToast();
   const { user } = useAuthStore();
+  const [searchParams] = useSearchParams();
   const isEditing = id !== 'new' && id !== undefined;
 
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [loadedDevice, setLoadedDevice] = useState<Device | null>(null);
+  const [conflict, setConflict] = useState<{ mine: Partial<Device>; theirs: Device } | null>(null);
+  const [statusChange, setStatusChange] = useState<DeviceStatusChange>({});
+  const [openRequests, setOpenRequests] = useState<ServiceRequest[]>([]);
+  const [attributes, setAttributes] = useState<DeviceAttributes>({});
+  const [attributeErrors, setAttributeErrors] = useState<Record<string, string>>({});
+  const [allDevices, setAllDevices] = useState<Device[]>([]);
+  const [parentDeviceId, setParentDeviceId] = useState(searchParams.get('parent_device_id') || '');
+  const facilityScope = useFacilityStore(state => state.scope);
+  const [facilities, setFacilities] = useState<HealthcareFacility[]>([]);
+  const [facilityId, setFacilityId] = useState(facilityScope.type === 'facility' ? facilityScope.id : '');
+  const [udiInput, setUdiInput] = useState('');
+  const [udiResult, setUdiResult] = useState<{ data: UdiData; catalogEntry?: UdiCatalogEntry } | null>(null);
+  const [udiError, setUdiError] = useState<string | null>(null);
   const [formData, setFormData] = useState<DeviceFormData>({
     name: '',
     manufacturer: '',
@@ -62,14 +108,30 @@ export default function DeviceFormPage() {
     serial_number: '',
     device_type: '',
     location: '',
-    status: 'active',
+    status: 'Operational',
     purchase_date: '',
     warranty_expiry: '',
     last_maintenance: '',
     next_maintenance: '',
-    notes: ''
+    notes: '',
+    udi: '',
+    udi_device_identifier: '',
+    lot_number: '',
+    manufacture_date: '',
+    expiration_date: '',
+    protection_class: '',
+    applied_part: ''
   });
 
+  useEffect(() => {
+    DatabaseService.getAllDevices()
+      .then(setAllDevices)
+      .catch(error => console.error('Error loading assembly options:', error));
+    facilityManagementService.getFacilities()
+      .then(setFacilities)
+      .catch(error => console.error('Error loading facilities:', error));
+  }, []);
+
   useEffect(() => {
     if (isEditing && id && id !== 'new') {
       setLoading(true);
@@ -82,22 +144,9 @@ export default function DeviceFormPage() {
       const device = await DatabaseService.getDeviceById(deviceId);
       
       if (device) {
-        setFormData({
-          name: `${device.manufacturer} ${device.model}`,
-          manufacturer: device.manufacturer || '',
-          model: device.model || '',
-          serial_number: device.serial_number || '',
-          device_type: device.device_type || '',
-          location: device.location || '',
-          status: device.status === 'Operational' ? 'active' : 
-                  device.status === 'Maintenance_Required' ? 'maintenance' :
-                  device.status === 'Under_Maintenance' ? 'maintenance' : 'inactive',
-          purchase_date: '',
-          warranty_expiry: '',
-          last_maintenance: device.last_maintenance || '',
-          next_maintenance: device.next_maintenance || '',
-          notes: ''
-        });
+        populateForm(device);
+        const requests = await DatabaseService.getAllServiceRequests({ deviceId });
+        setOpenRequests(requests.filter(isOpenServiceRequest));
       } else {
         toast({
           title: "Error",
@@ -119,6 +168,37 @@ export default function DeviceFormPage() {
     }
   };
 
+  const populateForm = (device: Device) => {
+    setLoadedDevice(device);
+    setFormData({
+      name: `${device.manufacturer} ${device.model}`,
+      manufacturer: device.manufacturer || '',
+      model: device.model || '',
+      serial_number: device.serial_number || '',
+      // Older records stored free-text labels such as 'OCT Scanner'
+      device_type: deviceTypeRegistry.resolve(device.device_type || '') || device.device_type || '',
+      location: device.location || '',
+      status: device.status,
+      purchase_date: '',
+      warranty_expiry: '',
+      last_maintenance: device.last_maintenance || '',
+      next_maintenance: device.next_maintenance || '',
+      notes: '',
+      udi: device.udi || '',
+      udi_device_identifier: device.udi_device_identifier || '',
+      lot_number: device.lot_number || '',
+      manufacture_date: device.manufacture_date || '',
+      expiration_date: device.expiration_date || '',
+      protection_class: device.protection_class || '',
+      applied_part: device.applied_part || ''
+    });
+    setStatusChange({});
+    setAttributes(device.attributes || {});
+    setAttributeErrors({});
+    setParentDeviceId(device.parent_device_id || '');
+    setFacilityId(device.facility_id || '');
+  };
+
   const handleInputChange = (field: keyof DeviceFormData, value: string) => {
     setFormData(prev => ({
       ...prev,
@@ -126,6 +206,65 @@ export default function DeviceFormPage() {
     }));
   };
 
+  const selectedType = deviceTypeRegistry.get(formData.device_type);
+
+  // A device cannot sit under itself or under one of its own components
+  const excludedParents = isEditing && id ? getDescendantIds(allDevices, id).add(id) : new Set<string>();
+  const parentOptions = allDevices.filter(device => device._id && !excludedParents.has(device._id));
+
+  // New devices pick an initial status; edits record a transition from the loaded status
+  const statusChanged = isEditing && loadedDevice !== null && formData.status !== loadedDevice.status;
+
+  const handleStatusChange = (status: Device['status']) => {
+    handleInputChange('status', status);
+    setStatusChange({});
+  };
+
+  const handleTypeChange = (deviceType: string) => {
+    handleInputChange('device_type', deviceType);
+    setAttributeErrors({});
+  };
+
+  const handleAttributeChange = (key: string, value: DeviceAttributeValue) => {
+    setAttributes(prev => ({ ...prev, [key]: value }));
+    setAttributeErrors(prev => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  };
+
+  // Scanned or pasted UDIs fill the identification fields; catalog hits also fill manufacturer, model and type
+  const handleApplyUdi = () => {
+    try {
+      const udi = parseUdi(udiInput);
+      const catalogEntry = lookupUdiDevice(udi);
+      setFormData(prev => ({
+        ...prev,
+        udi: udi.raw,
+        udi_device_identifier: udi.deviceIdentifier || prev.udi_device_identifier,
+        serial_number: udi.serialNumber || prev.serial_number,
+        lot_number: udi.lotNumber || prev.lot_number,
+        manufacture_date: udi.manufactureDate || prev.manufacture_date,
+        expiration_date: udi.expirationDate || prev.expiration_date,
+        ...(catalogEntry && {
+          manufacturer: catalogEntry.manufacturer,
+          model: catalogEntry.model,
+          device_type: catalogEntry.deviceType,
+          name: prev.name || `${catalogEntry.manufacturer} ${catalogEntry.model}`
+        })
+      }));
+      if (catalogEntry) setAttributeErrors({});
+      setUdiResult({ data: udi, catalogEntry });
+      setUdiError(null);
+      setUdiInput('');
+    } catch (error) {
+      if (!isUdiParseError(error)) throw error;
+      setUdiResult(null);
+      setUdiError(error.message);
+    }
+  };
+
   const validateForm = () => {
     const required = ['name', 'manufacturer', 'model', 'serial_number', 'device_type', 'location'];
     const missing = required.filter(field => !formData[field as keyof DeviceFormData]);
@@ -138,6 +277,17 @@ export default function DeviceFormPage() {
       });
       return false;
     }
+
+    const errors = deviceTypeRegistry.validateAttributes(formData.device_type, attributes);
+    setAttributeErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      toast({
+        title: "Validation Error",
+        description: Object.values(errors)[0],
+        variant: "destructive"
+      });
+      return false;
+    }
     
     return true;
   };
@@ -159,17 +309,38 @@ export default function DeviceFormPage() {
         manufacturer: formData.manufacturer,
         model: formData.model,
         serial_number: formData.serial_number,
-        device_type: formData.device_type as any,
+        device_type: formData.device_type,
+        attributes: deviceTypeRegistry.normalizeAttributes(formData.device_type, attributes),
+        facility_id: facilityId,
         location: formData.location,
-        status: formData.status === 'active' ? 'Operational' as const :
-                formData.status === 'maintenance' ? 'Maintenance_Required' as const :
-                formData.status === 'inactive' ? 'Out_of_Service' as const : 'Operational' as const,
+        parent_device_id: parentDeviceId,
+        status: formData.status,
         last_maintenance: formData.last_maintenance,
-        next_maintenance: formData.next_maintenance
+        next_maintenance: formData.next_maintenance,
+        udi: formData.udi,
+        udi_device_identifier: formData.udi_device_identifier,
+        lot_number: formData.lot_number,
+        manufacture_date: formData.manufacture_date,
+        expiration_date: formData.expiration_date,
+        protection_class: formData.protection_class,
+        applied_part: formData.applied_part,
+        // Reason fields are only written with an actual transition so the last recorded reason is kept
+        ...(statusChanged && buildStatusUpdate(formData.status, statusChange))
       };
 
       if (isEditing && id) {
-        await DatabaseService.updateDevice(id, user?.uid || '', mappedData);
+        try {
+          await DatabaseService.updateDevice(id, user?.uid || '', mappedData, {
+            expectedRevision: getRevision(loadedDevice)
+          });
+        } catch (error) {
+          // Someone else saved this device since it was loaded - let the user merge or reload
+          if (isConcurrencyConflict<Device>(error)) {
+            setConflict({ mine: mappedData, theirs: error.current });
+            return;
+          }
+          throw error;
+        }
       } else {
         await DatabaseService.createDevice(mappedData);
       }
@@ -182,8 +353,50 @@ export default function DeviceFormPage() {
     } catch (error) {
       console.error('Error saving device:', error);
       toast({
-        title: "Error",
-        description: `Failed to ${isEditing ? 'update' : 'create'} device`,
+        title: isDeviceStatusTransitionError(error) ? "Status change not allowed" : "Error",
+        description: isDeviceStatusTransitionError(error) || isDeviceHierarchyError(error)
+          ? error.message
+          : `Failed to ${isEditing ? 'update' : 'create'} device`,
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleConflictReload = () => {
+    if (!conflict) return;
+    populateForm(conflict.theirs);
+    setConflict(null);
+    toast({
+      title: "Reloaded",
+      description: "The latest saved version of this device has been loaded"
+    });
+  };
+
+  const handleConflictMerge = async (mergedUpdate: Partial<Device>) => {
+    if (!conflict || !id) return;
+
+    try {
+      setSaving(true);
+      await DatabaseService.updateDevice(id, user?.uid || '', mergedUpdate, {
+        expectedRevision: getRevision(conflict.theirs)
+      });
+      setConflict(null);
+      toast({
+        title: "Success",
+        description: "Device updated successfully"
+      });
+      navigate('/devices');
+    } catch (error) {
+      if (isConcurrencyConflict<Device>(error)) {
+        setConflict({ mine: conflict.mine, theirs: error.current });
+        return;
+      }
+      console.error('Error saving merged device:', error);
+      toast({
+        title: isDeviceStatusTransitionError(error) ? "Status change not allowed" : "Error",
+        description: isDeviceStatusTransitionError(error) || isDeviceHierarchyError(error) ? error.message : "Failed to update device",
         variant: "destructive"
       });
     } finally {
@@ -224,6 +437,101 @@ export default function DeviceFormPage() {
 
       <form onSubmit={handleSubmit} className="max-w-4xl">
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {/* Unique Device Identifier */}
+          <Card className="border-0 shadow-md lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ScanLine className="w-5 h-5" />
+                Unique Device Identifier
+              </CardTitle>
+              <CardDescription>
+                Scan or paste the UDI barcode (GS1 or HIBCC) to fill the serial number, lot and dates, plus manufacturer and model for catalogued products
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex gap-2">
+                <Input
+                  value={udiInput}
+                  onChange={(e) => setUdiInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    // Scanners finish with Enter, which would otherwise submit the form
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleApplyUdi();
+                    }
+                  }}
+                  placeholder="e.g., (01)04012345000122(11)240115(21)SN12345"
+                  aria-label="UDI"
+                />
+                <Button type="button" variant="outline" onClick={handleApplyUdi} disabled={!udiInput.trim()}>
+                  Apply UDI
+                </Button>
+              </div>
+
+              {udiError && (
+                <p className="flex items-center gap-2 text-sm text-red-600">
+                  <AlertCircle className="w-4 h-4 shrink-0" />
+                  {udiError}
+                </p>
+              )}
+              {udiResult && (
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <Badge variant="secondary">{udiResult.data.issuer}</Badge>
+                  {udiResult.catalogEntry ? (
+                    <span className="flex items-center gap-1 text-green-700">
+                      <CheckCircle2 className="w-4 h-4" />
+                      Matched {udiResult.catalogEntry.manufacturer} {udiResult.catalogEntry.model}
+                    </span>
+                  ) : (
+                    <span className="text-muted-foreground">
+                      {udiResult.data.deviceIdentifier
+                        ? `${udiResult.data.deviceIdentifier} is not in the local catalog - enter the manufacturer and model`
+                        : 'Secondary label only - scan the primary label for the device identifier'}
+                    </span>
+                  )}
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                  <Label htmlFor="udi_device_identifier">Device Identifier</Label>
+                  <Input
+                    id="udi_device_identifier"
+                    value={formData.udi_device_identifier}
+                    onChange={(e) => handleInputChange('udi_device_identifier', e.target.value)}
+                    placeholder="GTIN or HIBCC code"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="lot_number">Lot Number</Label>
+                  <Input
+                    id="lot_number"
+                    value={formData.lot_number}
+                    onChange={(e) => handleInputChange('lot_number', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="manufacture_date">Manufacture Date</Label>
+                  <Input
+                    id="manufacture_date"
+                    type="date"
+                    value={formData.manufacture_date}
+                    onChange={(e) => handleInputChange('manufacture_date', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="expiration_date">Expiration Date</Label>
+                  <Input
+                    id="expiration_date"
+                    type="date"
+                    value={formData.expiration_date}
+                    onChange={(e) => handleInputChange('expiration_date', e.target.value)}
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Basic Information */}
           <Card className="border-0 shadow-md">
             <CardHeader>
@@ -281,16 +589,21 @@ export default function DeviceFormPage() {
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <Label htmlFor="device_type">Device Type *</Label>
-                  <Select value={formData.device_type} onValueChange={(value) => handleInputChange('device_type', value)}>
+                  <Select value={formData.device_type} onValueChange={handleTypeChange}>
                     <SelectTrigger>
                       <SelectValue placeholder="Select device type" />
                     </SelectTrigger>
                     <SelectContent>
-                      {deviceTypes.map(type => (
-                        <SelectItem key={type} value={type}>{type}</SelectItem>
+                      {deviceTypeRegistry.list().map(type => (
+                        <SelectItem key={type.id} value={type.id}>{type.label}</SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
+                  {selectedType && (
+                    <Badge variant="outline" className="mt-2">
+                      {RISK_CLASS_LABELS[selectedType.riskClass]}
+                    </Badge>
+                  )}
                 </div>
                 <div>
                   <Label htmlFor="location">Location *</Label>
@@ -303,22 +616,76 @@ export default function DeviceFormPage() {
                   />
                 </div>
               </div>
+
+              <div>
+                <Label htmlFor="facility_id">Facility</Label>
+                <Select
+                  value={facilityId || 'none'}
+                  onValueChange={(value) => setFacilityId(value === 'none' ? '' : value)}
+                >
+                  <SelectTrigger id="facility_id">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Unassigned</SelectItem>
+                    {facilities.map(facility => (
+                      <SelectItem key={facility.id} value={facility.id}>{facility.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Location is the room or department within this facility
+                </p>
+              </div>
               
+              <div>
+                <Label htmlFor="parent_device_id">Parent Assembly</Label>
+                <Select
+                  value={parentDeviceId || 'none'}
+                  onValueChange={(value) => setParentDeviceId(value === 'none' ? '' : value)}
+                >
+                  <SelectTrigger id="parent_device_id">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None - standalone device or base unit</SelectItem>
+                    {parentOptions.map(device => (
+                      <SelectItem key={device._id} value={device._id!}>
+                        {getAssemblyLabel(allDevices, device)} ({device.serial_number})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Modules such as a laser or camera are tracked as components of their base unit
+                </p>
+              </div>
+
               <div>
                 <Label htmlFor="status">Status</Label>
-                <Select value={formData.status} onValueChange={(value) => handleInputChange('status', value as any)}>
+                <Select value={formData.status} onValueChange={(value) => handleStatusChange(value as Device['status'])}>
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {statusOptions.map(status => (
-                      <SelectItem key={status.value} value={status.value}>
-                        {status.label}
+                    {getSelectableStatuses(loadedDevice?.status).map(status => (
+                      <SelectItem key={status} value={status}>
+                        {DEVICE_STATUS_LABELS[status]}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
               </div>
+
+              {statusChanged && loadedDevice && (
+                <DeviceStatusTransitionFields
+                  from={loadedDevice.status}
+                  to={formData.status}
+                  value={statusChange}
+                  onChange={setStatusChange}
+                  openRequests={openRequests}
+                />
+              )}
             </CardContent>
           </Card>
 
@@ -385,6 +752,73 @@ export default function DeviceFormPage() {
               </div>
             </CardContent>
           </Card>
+
+          {/* Electrical Safety */}
+          <Card className="border-0 shadow-md lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Electrical Safety</CardTitle>
+              <CardDescription>
+                Classification used for IEC 62353 test limits. Class I and Class II devices are scheduled for recurrent safety tests.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="protection_class">Protection Class</Label>
+                  <Select
+                    value={formData.protection_class || 'unspecified'}
+                    onValueChange={(value) => handleInputChange('protection_class', value === 'unspecified' ? '' : value)}
+                  >
+                    <SelectTrigger id="protection_class">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="unspecified">Not specified</SelectItem>
+                      {Object.entries(PROTECTION_CLASS_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="applied_part">Applied Part</Label>
+                  <Select
+                    value={formData.applied_part || 'none'}
+                    onValueChange={(value) => handleInputChange('applied_part', value)}
+                  >
+                    <SelectTrigger id="applied_part">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(APPLIED_PART_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Type-Specific Attributes */}
+          {selectedType && selectedType.attributes.length > 0 && (
+            <Card className="border-0 shadow-md lg:col-span-2">
+              <CardHeader>
+                <CardTitle>{selectedType.label} Attributes</CardTitle>
+                <CardDescription>
+                  Technical details specific to this device type
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <DeviceAttributeFields
+                  attributes={selectedType.attributes}
+                  values={attributes}
+                  errors={attributeErrors}
+                  onChange={handleAttributeChange}
+                />
+              </CardContent>
+            </Card>
+          )}
         </div>
 
         {/* Actions */}
@@ -408,6 +842,21 @@ export default function DeviceFormPage() {
           </Button>
         </div>
       </form>
+
+      {conflict && loadedDevice && (
+        <ConflictDialog
+          open
+          entityLabel="device"
+          fieldLabels={conflictFieldLabels}
+          base={loadedDevice}
+          mine={conflict.mine}
+          theirs={conflict.theirs}
+          saving={saving}
+          onReload={handleConflictReload}
+          onMerge={handleConflictMerge}
+          onCancel={() => setConflict(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,376 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthStore } from '@/store/auth-store';
+import { readSpreadsheet, SPREADSHEET_ACCEPT, SpreadsheetData } from '@/lib/spreadsheet';
+import { DatabaseService } from '@/services/database';
+import {
+  buildImportPlan,
+  ColumnMapping,
+  commitImportPlan,
+  IMPORT_FIELDS,
+  ImportAction,
+  ImportPlan,
+  ImportResult,
+  suggestColumnMapping
+} from '@/services/device-import';
+import { ArrowLeft, ArrowRight, FileSpreadsheet, Upload, CheckCircle2, AlertCircle, Activity } from 'lucide-react';
+
+type WizardStep = 'upload' | 'map' | 'preview' | 'done';
+
+const UNMAPPED = '__unmapped__';
+
+const actionConfig: Record<ImportAction, { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' }> = {
+  create: { label: 'Create', variant: 'default' },
+  update: { label: 'Update', variant: 'secondary' },
+  skip: { label: 'Skip', variant: 'outline' },
+  error: { label: 'Error', variant: 'destructive' }
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  // Device attributes change as one object
+  if (typeof value === 'object') {
+    return Object.entries(value).map(([key, item]) => `${key}: ${String(item)}`).join(', ') || '—';
+  }
+  return String(value);
+};
+
+export default function DeviceImportPage() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user } = useAuthStore();
+
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [actionFilter, setActionFilter] = useState<ImportAction | 'all'>('all');
+  const [working, setWorking] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setWorking(true);
+      const data = await readSpreadsheet(file);
+      if (data.rows.length === 0) {
+        throw new Error('The file has a header row but no devices');
+      }
+      setFileName(file.name);
+      setSheet(data);
+      setMapping(suggestColumnMapping(data.headers));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast({
+        title: "Could not read file",
+        description: error instanceof Error ? error.message : "Unsupported file format",
+        variant: "destructive"
+      });
+    } finally {
+      setWorking(false);
+      e.target.value = '';
+    }
+  };
+
+  const missingRequired = mapping
+    ? IMPORT_FIELDS.filter(field => field.required && !mapping[field.field])
+    : [];
+
+  const handlePreview = async () => {
+    if (!sheet || !mapping) return;
+
+    try {
+      setWorking(true);
+      // Archived devices are included so their serial numbers are not imported twice
+      const existingDevices = await DatabaseService.getAllDevices({ includeArchived: true });
+      setPlan(buildImportPlan(sheet.rows, mapping, existingDevices));
+      setActionFilter('all');
+      setStep('preview');
+    } catch (error) {
+      console.error('Error building import preview:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load existing devices for comparison",
+        variant: "destructive"
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!plan) return;
+
+    try {
+      setWorking(true);
+      setProgress(0);
+      const importResult = await commitImportPlan(plan, user?.uid || '', (done, total) => {
+        setProgress(Math.round((done / total) * 100));
+      });
+      setResult(importResult);
+      setStep('done');
+      toast({
+        title: "Import complete",
+        description: `${importResult.created} created, ${importResult.updated} updated, ${importResult.failed.length} failed`
+      });
+    } catch (error) {
+      console.error('Error importing devices:', error);
+      toast({
+        title: "Error",
+        description: "Import failed",
+        variant: "destructive"
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const resetWizard = () => {
+    setStep('upload');
+    setFileName('');
+    setSheet(null);
+    setMapping(null);
+    setPlan(null);
+    setResult(null);
+    setProgress(0);
+  };
+
+  const visibleRows = plan?.rows.filter(row => actionFilter === 'all' || row.action === actionFilter) || [];
+  const pendingWrites = plan ? plan.counts.create + plan.counts.update : 0;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Header */}
+      <div className="flex items-center gap-4 mb-8">
+        <Button variant="outline" onClick={() => navigate('/devices')}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Devices
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold text-primary">Import Devices</h1>
+          <p className="text-muted-foreground">
+            Bulk-load devices from a CSV or Excel file
+          </p>
+        </div>
+      </div>
+
+      {/* Steps */}
+      <div className="flex flex-wrap gap-2 mb-6">
+        {(['upload', 'map', 'preview', 'done'] as WizardStep[]).map((wizardStep, index) => (
+          <Badge key={wizardStep} variant={step === wizardStep ? 'default' : 'outline'}>
+            {index + 1}. {{ upload: 'Upload', map: 'Map Columns', preview: 'Dry Run', done: 'Done' }[wizardStep]}
+          </Badge>
+        ))}
+      </div>
+
+      {step === 'upload' && (
+        <Card className="border-0 shadow-md max-w-2xl">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileSpreadsheet className="w-5 h-5" />
+              Choose a File
+            </CardTitle>
+            <CardDescription>
+              The first sheet is read and its first row is used as column headers. Devices are matched to existing records by serial number.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Label htmlFor="import-file">CSV, XLSX or XLS (up to 10 MB)</Label>
+            <Input id="import-file" type="file" accept={SPREADSHEET_ACCEPT} onChange={handleFileChange} disabled={working} />
+            {working && (
+              <p className="text-sm text-muted-foreground flex items-center gap-2">
+                <Activity className="w-4 h-4 animate-spin" />
+                Reading file...
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 'map' && sheet && mapping && (
+        <Card className="border-0 shadow-md max-w-3xl">
+          <CardHeader>
+            <CardTitle>Map Columns</CardTitle>
+            <CardDescription>
+              {fileName} • {sheet.rows.length} rows from sheet "{sheet.sheetName}"
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {IMPORT_FIELDS.map(field => (
+              <div key={field.field} className="grid grid-cols-2 gap-4 items-center">
+                <Label>
+                  {field.label}{field.required && ' *'}
+                </Label>
+                <Select
+                  value={mapping[field.field] || UNMAPPED}
+                  onValueChange={(column) => setMapping({ ...mapping, [field.field]: column === UNMAPPED ? '' : column })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>Not imported</SelectItem>
+                    {sheet.headers.map(header => (
+                      <SelectItem key={header} value={header}>{header}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+
+            <p className="text-sm text-muted-foreground">
+              Other columns named after a device-type attribute, such as Scan Speed or Laser Class, are imported into
+              that attribute and checked against the type's rules.
+            </p>
+
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-red-600">
+                Map the required fields: {missingRequired.map(field => field.label).join(', ')}
+              </p>
+            )}
+
+            <div className="flex gap-4 pt-4">
+              <Button variant="outline" onClick={resetWizard}>
+                Choose Another File
+              </Button>
+              <Button onClick={handlePreview} disabled={missingRequired.length > 0 || working}>
+                {working && <Activity className="w-4 h-4 mr-2 animate-spin" />}
+                Preview Import
+                <ArrowRight className="w-4 h-4 ml-2" />
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 'preview' && plan && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {(Object.keys(actionConfig) as ImportAction[]).map(action => (
+              <Card
+                key={action}
+                className={`border-0 shadow-md cursor-pointer ${actionFilter === action ? 'ring-2 ring-primary' : ''}`}
+                onClick={() => setActionFilter(actionFilter === action ? 'all' : action)}
+              >
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">{actionConfig[action].label}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{plan.counts[action]}</div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card className="border-0 shadow-md">
+            <CardHeader>
+              <CardTitle>Dry Run</CardTitle>
+              <CardDescription>
+                Nothing has been saved yet. Review what each row will do, then run the import.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead className="w-24">Action</TableHead>
+                    <TableHead>Serial Number</TableHead>
+                    <TableHead>Device</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.map(row => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell>{row.rowNumber}</TableCell>
+                      <TableCell>
+                        <Badge variant={actionConfig[row.action].variant}>{actionConfig[row.action].label}</Badge>
+                      </TableCell>
+                      <TableCell className="font-mono">{row.serialNumber || '—'}</TableCell>
+                      <TableCell>
+                        {formatValue(row.data.manufacturer ?? row.existing?.manufacturer)} {formatValue(row.data.model ?? row.existing?.model)}
+                      </TableCell>
+                      <TableCell className="text-sm space-y-1">
+                        {row.errors.map(error => (
+                          <p key={error} className="text-red-600">{error}</p>
+                        ))}
+                        {row.action === 'update' && row.changes.map(change => (
+                          <p key={change.field}>
+                            <span className="text-muted-foreground">{change.field}:</span>{' '}
+                            <span className="line-through text-muted-foreground">{formatValue(change.before)}</span>
+                            {' → '}
+                            {formatValue(change.after)}
+                          </p>
+                        ))}
+                        {row.action === 'skip' && row.warnings.length === 0 && (
+                          <p className="text-muted-foreground">No changes</p>
+                        )}
+                        {row.warnings.map(warning => (
+                          <p key={warning} className="text-yellow-700">{warning}</p>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {working && <Progress value={progress} />}
+
+          <div className="flex gap-4">
+            <Button variant="outline" onClick={() => setStep('map')} disabled={working}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Mapping
+            </Button>
+            <Button onClick={handleCommit} disabled={pendingWrites === 0 || working}>
+              {working ? <Activity className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+              Import {pendingWrites} Device{pendingWrites === 1 ? '' : 's'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {step === 'done' && result && (
+        <Card className="border-0 shadow-md max-w-2xl">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CheckCircle2 className="w-5 h-5 text-green-600" />
+              Import Finished
+            </CardTitle>
+            <CardDescription>
+              {result.created} created • {result.updated} updated • {result.failed.length} failed
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {result.failed.map(failure => (
+              <div key={failure.rowNumber} className="flex items-start gap-2 text-sm">
+                <AlertCircle className="w-4 h-4 text-red-600 mt-0.5" />
+                <span>Row {failure.rowNumber}: {failure.error}</span>
+              </div>
+            ))}
+            <div className="flex gap-4">
+              <Button onClick={() => navigate('/devices')}>View Devices</Button>
+              <Button variant="outline" onClick={resetWizard}>Import Another File</Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
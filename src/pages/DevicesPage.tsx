@@ -5,8 +5,21 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
-import { DatabaseService, Device, DeviceWithUIStatus, mapDeviceStatus } from '@/services/database';
+import { usePagination } from '@/hooks/use-pagination';
+import ListPagination from '@/components/ListPagination';
+import ArchiveDeviceDialog from '@/components/ArchiveDeviceDialog';
+import DeviceStatusDialog from '@/components/DeviceStatusDialog';
+import ExportMenu from '@/components/ExportMenu';
+import AssetLabelDialog from '@/components/AssetLabelDialog';
+import { DatabaseService, Device, DeviceWithUIStatus, describeArchiveResult, hasOpenWorkLeft, isDeviceArchived, isUnassignedFacility, mapDeviceStatus } from '@/services/database';
+import { getRevision, isConcurrencyConflict } from '@/services/concurrency';
+import { deviceTypeRegistry, RISK_CLASS_LABELS, RiskClass } from '@/services/device-types';
+import { DEVICE_STATUS_LABELS, DEVICE_STATUS_REASON_LABELS } from '@/services/device-lifecycle';
+import { getRollupHealth, isDeviceHierarchyError } from '@/services/device-hierarchy';
+import { ExportColumn, ExportFormat, exportRecords, getDeviceDisplayName, mapAsync } from '@/services/data-export';
 import { useAuthStore } from '@/store/auth-store';
 import { 
   Plus, 
@@ -14,28 +27,19 @@ import {
   Filter, 
   Eye, 
   Edit, 
-  Trash2,
+  Archive,
+  ArrowRightLeft,
   Activity,
   AlertCircle,
   AlertTriangle,
   CheckCircle2,
   Clock,
-  Settings2
+  Settings2,
+  Upload,
+  Network,
+  Printer
 } from 'lucide-react';
 
-const deviceTypes = [
-  'OCT Scanner',
-  'Fundus Camera', 
-  'Visual Field Analyzer',
-  'Tonometer',
-  'Slit Lamp',
-  'Autorefractor',
-  'Keratometer',
-  'Pachymeter',
-  'Specular Microscope',
-  'Laser System'
-];
-
 const statusConfig = {
   'Operational': { 
     label: 'Operational', 
@@ -63,30 +67,56 @@ const statusConfig = {
   }
 };
 
+// Map devices to include UI status and display name
+const withUIStatus = (device: Device): DeviceWithUIStatus => ({
+  ...device,
+  uiStatus: mapDeviceStatus(device.status),
+  displayName: getDeviceDisplayName(device)
+});
+
+const deviceExportColumns: ExportColumn<DeviceWithUIStatus>[] = [
+  { header: 'Device', value: device => device.displayName },
+  { header: 'Manufacturer', value: device => device.manufacturer },
+  { header: 'Model', value: device => device.model },
+  { header: 'Serial Number', value: device => device.serial_number },
+  { header: 'Device Type', value: device => deviceTypeRegistry.getLabel(device.device_type) },
+  { header: 'Risk Class', value: device => deviceTypeRegistry.get(device.device_type)?.riskClass },
+  { header: 'Location', value: device => device.location },
+  { header: 'Status', value: device => DEVICE_STATUS_LABELS[device.status] || device.status },
+  { header: 'Status Reason', value: device => device.status_reason ? DEVICE_STATUS_REASON_LABELS[device.status_reason] : '' },
+  { header: 'Last Maintenance', value: device => device.last_maintenance },
+  { header: 'Next Maintenance', value: device => device.next_maintenance },
+  { header: 'Purchase Date', value: device => device.purchase_date },
+  { header: 'Installation Date', value: device => device.installation_date },
+  { header: 'Warranty Expiry', value: device => device.warranty_expiry },
+  { header: 'Archived At', value: device => device.archived_at },
+  { header: 'Created At', value: device => device.created_at }
+];
+
 export default function DevicesPage() {
   const [devices, setDevices] = useState<DeviceWithUIStatus[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedType, setSelectedType] = useState<string>('all');
   const [selectedStatus, setSelectedStatus] = useState<string>('all');
+  const [selectedRisk, setSelectedRisk] = useState<string>('all');
+  const [showArchived, setShowArchived] = useState(false);
+  const [archiveTarget, setArchiveTarget] = useState<DeviceWithUIStatus | null>(null);
+  const [archiving, setArchiving] = useState(false);
+  const [statusTarget, setStatusTarget] = useState<DeviceWithUIStatus | null>(null);
+  const [labelsOpen, setLabelsOpen] = useState(false);
   const { toast } = useToast();
   const { user } = useAuthStore();
 
   useEffect(() => {
     loadDevices();
-  }, []);
+  }, [showArchived]);
 
   const loadDevices = async () => {
     try {
       setLoading(true);
-      const result = await DatabaseService.getDevices({ limit: 100 });
-      // Map devices to include UI status and display name
-      const devicesWithUIStatus = (result.items || []).map(device => ({
-        ...device,
-        uiStatus: mapDeviceStatus(device.status),
-        displayName: `${device.manufacturer} ${device.model}`
-      }));
-      setDevices(devicesWithUIStatus);
+      const allDevices = await DatabaseService.getAllDevices({ includeArchived: showArchived });
+      setDevices(allDevices.map(withUIStatus));
     } catch (error) {
       console.error('Error loading devices:', error);
       toast({
@@ -100,38 +130,70 @@ export default function DevicesPage() {
     }
   };
 
-  const handleDeleteDevice = async (deviceId: string) => {
-    if (!confirm('Are you sure you want to delete this device?')) return;
-    
+  const handleArchiveDevice = async (reason: string) => {
+    if (!archiveTarget?._id) return;
+
     try {
-      await DatabaseService.deleteDevice(deviceId, user?.uid || '');
-      setDevices(prev => prev.filter(d => d._id !== deviceId));
+      setArchiving(true);
+      const result = await DatabaseService.archiveDevice(archiveTarget._id, user?.uid || '', reason, { expectedRevision: getRevision(archiveTarget) });
       toast({
-        title: "Success",
-        description: "Device deleted successfully"
+        title: hasOpenWorkLeft(result) ? "Error" : "Success",
+        description: describeArchiveResult(result),
+        variant: hasOpenWorkLeft(result) ? "destructive" : "default"
       });
+      loadDevices();
     } catch (error) {
-      console.error('Error deleting device:', error);
-      toast({
-        title: "Error",
-        description: "Failed to delete device",
-        variant: "destructive"
-      });
+      console.error('Error archiving device:', error);
+      if (isConcurrencyConflict(error)) {
+        toast({
+          title: "Device changed",
+          description: "Someone else updated this device. The list has been refreshed.",
+          variant: "destructive"
+        });
+        loadDevices();
+      } else {
+        toast({
+          title: "Error",
+          description: isDeviceHierarchyError(error) ? error.message : "Failed to archive device",
+          variant: "destructive"
+        });
+      }
+    } finally {
+      setArchiving(false);
+      setArchiveTarget(null);
     }
   };
 
-  const filteredDevices = devices.filter(device => {
+  const activeDevices = devices.filter(device => !isDeviceArchived(device));
+
+  const matchesFilters = (device: DeviceWithUIStatus) => {
     const deviceName = device.displayName.toLowerCase();
     const matchesSearch = deviceName.includes(searchTerm.toLowerCase()) ||
                          device.manufacturer.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          device.model.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          device.serial_number.toLowerCase().includes(searchTerm.toLowerCase());
     
-    const matchesType = selectedType === 'all' || device.device_type === selectedType;
+    const deviceType = deviceTypeRegistry.get(device.device_type);
+    const matchesType = selectedType === 'all' || deviceType?.id === selectedType;
+    const matchesRisk = selectedRisk === 'all' || deviceType?.riskClass === selectedRisk;
     const matchesStatus = selectedStatus === 'all' || device.uiStatus === selectedStatus;
     
-    return matchesSearch && matchesType && matchesStatus;
-  });
+    return matchesSearch && matchesType && matchesRisk && matchesStatus;
+  };
+
+  const filteredDevices = devices.filter(matchesFilters);
+
+  // Re-reads every page so the file reflects the stored data, not just what this view loaded
+  const handleExport = (format: ExportFormat) => exportRecords(
+    mapAsync(DatabaseService.iterateDevices({ includeArchived: showArchived }), withUIStatus),
+    { fileName: 'devices', format, columns: deviceExportColumns, filter: matchesFilters }
+  );
+
+  const { page, pageCount, pageSize, pageItems, totalItems, setPage } = usePagination(filteredDevices, 12);
+
+  useEffect(() => {
+    setPage(1);
+  }, [searchTerm, selectedType, selectedRisk, selectedStatus, showArchived, setPage]);
 
   const getStatusInfo = (status: Device['status']) => {
     return statusConfig[status] || statusConfig['Out_of_Service'];
@@ -169,12 +231,25 @@ export default function DevicesPage() {
             Monitor and manage all ophthalmology equipment
           </p>
         </div>
-        <Button asChild className="mt-4 md:mt-0">
-          <Link to="/devices/new">
-            <Plus className="w-4 h-4 mr-2" />
-            Add Device
-          </Link>
-        </Button>
+        <div className="flex gap-2 mt-4 md:mt-0">
+          <ExportMenu onExport={handleExport} />
+          <Button variant="outline" onClick={() => setLabelsOpen(true)} disabled={filteredDevices.length === 0}>
+            <Printer className="w-4 h-4 mr-2" />
+            Print Labels
+          </Button>
+          <Button asChild variant="outline">
+            <Link to="/devices/import">
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </Link>
+          </Button>
+          <Button asChild>
+            <Link to="/devices/new">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Device
+            </Link>
+          </Button>
+        </div>
       </div>
 
       {/* Filters */}
@@ -183,7 +258,7 @@ export default function DevicesPage() {
           <CardTitle className="text-lg">Filters & Search</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
             <div className="relative">
               <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
               <Input
@@ -200,8 +275,20 @@ export default function DevicesPage() {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Types</SelectItem>
-                {deviceTypes.map(type => (
-                  <SelectItem key={type} value={type}>{type}</SelectItem>
+                {deviceTypeRegistry.list().map(type => (
+                  <SelectItem key={type.id} value={type.id}>{type.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={selectedRisk} onValueChange={setSelectedRisk}>
+              <SelectTrigger>
+                <SelectValue placeholder="Risk Class" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Risk Classes</SelectItem>
+                {(Object.keys(RISK_CLASS_LABELS) as RiskClass[]).map(riskClass => (
+                  <SelectItem key={riskClass} value={riskClass}>{RISK_CLASS_LABELS[riskClass]}</SelectItem>
                 ))}
               </SelectContent>
             </Select>
@@ -222,12 +309,18 @@ export default function DevicesPage() {
             <Button variant="outline" onClick={() => {
               setSearchTerm('');
               setSelectedType('all');
+              setSelectedRisk('all');
               setSelectedStatus('all');
+              setShowArchived(false);
             }}>
               <Filter className="w-4 h-4 mr-2" />
               Clear Filters
             </Button>
           </div>
+          <div className="flex items-center gap-2 mt-4">
+            <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+            <Label htmlFor="show-archived">Show archived devices</Label>
+          </div>
         </CardContent>
       </Card>
 
@@ -238,7 +331,7 @@ export default function DevicesPage() {
             <CardTitle className="text-sm font-medium text-muted-foreground">Total Devices</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-primary">{devices.length}</div>
+            <div className="text-2xl font-bold text-primary">{activeDevices.length}</div>
           </CardContent>
         </Card>
         
@@ -248,7 +341,7 @@ export default function DevicesPage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-green-600">
-              {devices.filter(d => d.status === 'Operational').length}
+              {activeDevices.filter(d => d.status === 'Operational').length}
             </div>
           </CardContent>
         </Card>
@@ -259,7 +352,7 @@ export default function DevicesPage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-yellow-600">
-              {devices.filter(d => d.status === 'Under_Maintenance' || d.status === 'Maintenance_Required').length}
+              {activeDevices.filter(d => d.status === 'Under_Maintenance' || d.status === 'Maintenance_Required').length}
             </div>
           </CardContent>
         </Card>
@@ -270,7 +363,7 @@ export default function DevicesPage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-red-600">
-              {devices.filter(d => d.status === 'Out_of_Service').length}
+              {activeDevices.filter(d => d.status === 'Out_of_Service').length}
             </div>
           </CardContent>
         </Card>
@@ -302,25 +395,35 @@ export default function DevicesPage() {
         </Card>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredDevices.map((device) => {
+          {pageItems.map((device) => {
             const statusInfo = getStatusInfo(device.status);
             const StatusIcon = statusInfo.icon;
             const maintenanceDue = isMaintenanceDue(device.next_maintenance);
+            const archived = isDeviceArchived(device);
+            const parent = device.parent_device_id ? devices.find(d => d._id === device.parent_device_id) : undefined;
+            const degraded = !archived && device.status === 'Operational' && getRollupHealth(devices, device) === 'degraded';
             
             return (
-              <Card key={device._id} className="border-0 shadow-md hover:shadow-lg transition-shadow">
+              <Card key={device._id} className={`border-0 shadow-md hover:shadow-lg transition-shadow ${archived ? 'opacity-60' : ''}`}>
                 <CardHeader>
                   <div className="flex items-start justify-between">
                     <div className="flex-1">
                       <CardTitle className="text-lg mb-1">{device.manufacturer} {device.model}</CardTitle>
                       <CardDescription className="text-sm">
-                        {device.manufacturer} {device.model}
+                        {parent ? `Component of ${parent.displayName}` : `${device.manufacturer} ${device.model}`}
                       </CardDescription>
                     </div>
-                    <Badge variant={statusInfo.variant} className="ml-2">
-                      <StatusIcon className="w-3 h-3 mr-1" />
-                      {statusInfo.label}
-                    </Badge>
+                    {archived ? (
+                      <Badge variant="outline" className="ml-2">
+                        <Archive className="w-3 h-3 mr-1" />
+                        Archived
+                      </Badge>
+                    ) : (
+                      <Badge variant={statusInfo.variant} className="ml-2">
+                        <StatusIcon className="w-3 h-3 mr-1" />
+                        {statusInfo.label}
+                      </Badge>
+                    )}
                   </div>
                 </CardHeader>
                 
@@ -329,11 +432,14 @@ export default function DevicesPage() {
                     <div className="grid grid-cols-2 gap-4 text-sm">
                       <div>
                         <span className="font-medium text-muted-foreground">Type:</span>
-                        <p className="text-foreground">{device.device_type}</p>
+                        <p className="text-foreground">{deviceTypeRegistry.getLabel(device.device_type)}</p>
                       </div>
                       <div>
                         <span className="font-medium text-muted-foreground">Location:</span>
                         <p className="text-foreground">{device.location || 'Location not set'}</p>
+                        {DatabaseService.getFacilityScope() && isUnassignedFacility(device) && (
+                          <Badge variant="outline" className="mt-1 text-xs">No facility assigned</Badge>
+                        )}
                       </div>
                     </div>
                     
@@ -342,7 +448,16 @@ export default function DevicesPage() {
                       <p className="text-foreground font-mono">{device.serial_number}</p>
                     </div>
                     
-                    {maintenanceDue && (
+                    {degraded && (
+                      <div className="flex items-center gap-2 p-2 bg-yellow-50 rounded-lg border border-yellow-200">
+                        <Network className="w-4 h-4 text-yellow-600" />
+                        <span className="text-sm text-yellow-800 font-medium">
+                          Assembly degraded - a component needs attention
+                        </span>
+                      </div>
+                    )}
+
+                    {maintenanceDue && !archived && (
                       <div className="flex items-center gap-2 p-2 bg-yellow-50 rounded-lg border border-yellow-200">
                         <Clock className="w-4 h-4 text-yellow-600" />
                         <span className="text-sm text-yellow-800 font-medium">
@@ -364,14 +479,27 @@ export default function DevicesPage() {
                           Edit
                         </Link>
                       </Button>
-                      <Button 
-                        variant="outline" 
-                        size="sm" 
-                        onClick={() => device._id && handleDeleteDevice(device._id)}
-                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
+                      {!archived && (
+                        <Button 
+                          variant="outline" 
+                          size="sm" 
+                          onClick={() => setStatusTarget(device)}
+                          title="Change status"
+                        >
+                          <ArrowRightLeft className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {!archived && (
+                        <Button 
+                          variant="outline" 
+                          size="sm" 
+                          onClick={() => setArchiveTarget(device)}
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                          title="Archive device"
+                        >
+                          <Archive className="w-4 h-4" />
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </CardContent>
@@ -380,6 +508,30 @@ export default function DevicesPage() {
           })}
         </div>
       )}
+
+      <ListPagination
+        page={page}
+        pageCount={pageCount}
+        pageSize={pageSize}
+        totalItems={totalItems}
+        onPageChange={setPage}
+      />
+
+      <ArchiveDeviceDialog
+        open={archiveTarget !== null}
+        deviceLabel={archiveTarget?.displayName || 'device'}
+        saving={archiving}
+        onConfirm={handleArchiveDevice}
+        onCancel={() => setArchiveTarget(null)}
+      />
+
+      <DeviceStatusDialog
+        device={statusTarget}
+        onClose={() => setStatusTarget(null)}
+        onChanged={loadDevices}
+      />
+
+      <AssetLabelDialog open={labelsOpen} onOpenChange={setLabelsOpen} devices={filteredDevices} />
     </div>
   );
 }
\ No newline at end of file
@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { Calendar, Clock, Plus, Search, Filter, CheckCircle2, AlertTriangle, Wrench } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Calendar, Clock, Plus, Search, Filter, CheckCircle2, AlertTriangle, Wrench, XCircle, Pause, Play, Repeat, Trash2, UserCheck, CalendarDays, RefreshCw } from 'lucide-react';
+import { addDays, differenceInCalendarDays, startOfDay } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -7,8 +9,26 @@ import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
-import { DatabaseService, MaintenanceRecord as DBMaintenanceRecord, Device, DeviceWithUIStatus, mapDeviceStatus } from '@/services/database';
+import { usePagination } from '@/hooks/use-pagination';
+import ListPagination from '@/components/ListPagination';
+import ExportMenu from '@/components/ExportMenu';
+import MaintenanceCompletionDialog, { MaintenanceCompletion } from '@/components/MaintenanceCompletionDialog';
+import MaintenanceCalendar, { CalendarTechnician } from '@/components/MaintenanceCalendar';
+import TechnicianCapacityView from '@/components/TechnicianCapacityView';
+import CalendarFeedDialog from '@/components/CalendarFeedDialog';
+import { DatabaseService, MaintenanceRecord as DBMaintenanceRecord, Device, DeviceWithUIStatus, isDeviceArchived, isUnassignedMaintenance, mapDeviceStatus } from '@/services/database';
+import { deviceTypeRegistry, DeviceMaintenanceTemplate, DeviceTypeId } from '@/services/device-types';
+import { getRevision, isConcurrencyConflict } from '@/services/concurrency';
 import { EmailService } from '@/services/email';
+import { ExportColumn, ExportFormat, exportRecords, mapAsync } from '@/services/data-export';
+import { getAssemblyLabel } from '@/services/device-hierarchy';
+import { PM_HORIZON_DAYS, PM_RECURRENCE_LABELS, PmSchedule, PmScheduleTarget, getDueWindow, getScheduleRecurrence, getScheduleTemplate, isPmScheduleError, isWithinDueWindow, pmScheduleService } from '@/services/pm-schedule';
+import { getChecklistProgress, isChecklistIncompleteError, MaintenanceChecklist } from '@/services/maintenance-checklist';
+import { CALIBRATION_VERDICT_LABELS, getCalibrationPoints } from '@/services/calibration';
+import { generateMaintenance } from '@/services/scheduled-jobs';
+import { getTechnicianName, technicianAssignmentService } from '@/services/technician-assignment';
+import { facilityManagementService } from '@/services/facility-management';
+import { SlotConflict, checkMaintenanceSlot, findMaintenanceSlotOnDay, formatFacilityTime, getFacilityDateKey } from '@/services/maintenance-windows';
 import { useAuthStore } from '@/store/auth-store';
 
 // Extended maintenance record with UI-specific fields
@@ -17,23 +37,38 @@ interface MaintenanceRecord extends DBMaintenanceRecord {
   device_model?: string;
   device_manufacturer?: string;
   // Map database fields to UI fields
-  status?: 'scheduled' | 'in_progress' | 'completed' | 'overdue';
+  status?: 'scheduled' | 'in_progress' | 'completed' | 'overdue' | 'cancelled';
   scheduled_date?: string;
   completed_date?: string;
   priority?: 'low' | 'medium' | 'high' | 'critical';
   estimated_duration?: number;
   actual_duration?: number;
+  slot_conflicts?: SlotConflict[]; // Open work that falls outside the facility's maintenance window or in clinic hours
 }
 
-interface MaintenanceTemplate {
-  id: string;
-  name: string;
-  type: string;
-  checklist: string[];
-  estimated_duration: number;
-  frequency_days: number;
+// Completed and cancelled work no longer needs a slot or a technician
+const isClosedStatus = (status: MaintenanceRecord['status']) => status === 'completed' || status === 'cancelled';
+
+interface MaintenanceTemplate extends DeviceMaintenanceTemplate {
+  device_type: DeviceTypeId;
 }
 
+const maintenanceExportColumns: ExportColumn<MaintenanceRecord>[] = [
+  { header: 'Device', value: record => record.device_name },
+  { header: 'Maintenance Type', value: record => record.maintenance_type.replace(/_/g, ' ') },
+  { header: 'Date', value: record => record.maintenance_date },
+  { header: 'Status', value: record => record.status },
+  { header: 'Technician', value: record => record.technician_name },
+  { header: 'Description', value: record => record.description },
+  { header: 'Parts Replaced', value: record => record.parts_replaced },
+  { header: 'Cost', value: record => record.cost },
+  { header: 'Duration (hours)', value: record => record.duration_hours },
+  { header: 'Before Status', value: record => record.before_status },
+  { header: 'After Status', value: record => record.after_status },
+  { header: 'Next Maintenance Due', value: record => record.next_maintenance_due },
+  { header: 'Notes', value: record => record.notes }
+];
+
 export default function MaintenancePage() {
   const [records, setRecords] = useState<MaintenanceRecord[]>([]);
   const [devices, setDevices] = useState<Device[]>([]);
@@ -42,89 +77,71 @@ export default function MaintenancePage() {
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [selectedRecord, setSelectedRecord] = useState<MaintenanceRecord | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
-  const [currentView, setCurrentView] = useState<'list' | 'calendar'>('list');
+  const [currentView, setCurrentView] = useState<'list' | 'calendar' | 'capacity'>('list');
+  const [completionTarget, setCompletionTarget] = useState<MaintenanceRecord | null>(null);
+  const [completing, setCompleting] = useState(false);
+  const [schedules, setSchedules] = useState<PmSchedule[]>([]);
+  const [technicians, setTechnicians] = useState<CalendarTechnician[]>([]);
+  const [assigning, setAssigning] = useState(false);
+  const [assignmentRuns, setAssignmentRuns] = useState(0);
+  const [calendarExportOpen, setCalendarExportOpen] = useState(false);
+  const [generating, setGenerating] = useState(false);
   const { toast } = useToast();
   const { user } = useAuthStore();
 
   // Remove the db instance since we're using static methods
 
-  const maintenanceTemplates: MaintenanceTemplate[] = [
-    {
-      id: 'oct_preventive',
-      name: 'OCT Preventive Maintenance',
-      type: 'preventive',
-      checklist: [
-        'Clean optical surfaces',
-        'Check laser alignment',
-        'Verify software calibration',
-        'Test image quality',
-        'Check cooling system',
-        'Update software if needed'
-      ],
-      estimated_duration: 2,
-      frequency_days: 180
-    },
-    {
-      id: 'fundus_inspection',
-      name: 'Fundus Camera Inspection',
-      type: 'inspection',
-      checklist: [
-        'Check flash bulb intensity',
-        'Clean camera lens',
-        'Test autofocus system',
-        'Verify color balance',
-        'Check patient positioning system'
-      ],
-      estimated_duration: 1,
-      frequency_days: 90
-    },
-    {
-      id: 'vf_calibration',
-      name: 'Visual Field Analyzer Calibration',
-      type: 'calibration',
-      checklist: [
-        'Calibrate light intensity',
-        'Check button response timing',
-        'Verify screen uniformity',
-        'Test sound system',
-        'Validate test patterns'
-      ],
-      estimated_duration: 1.5,
-      frequency_days: 365
-    }
-  ];
+  // Default templates come from the device-type registry, limited to types present in the inventory
+  const maintenanceTemplates: MaintenanceTemplate[] = deviceTypeRegistry.list()
+    .filter(type => devices.some(device => deviceTypeRegistry.resolve(device.device_type) === type.id))
+    .flatMap(type => type.maintenanceTemplates.map(template => ({ ...template, device_type: type.id })));
+
+  const getTemplateDevices = (template: MaintenanceTemplate) =>
+    devices.filter(device => deviceTypeRegistry.resolve(device.device_type) === template.device_type);
 
   useEffect(() => {
     loadData();
   }, []);
 
+  // Components are named through their assembly, e.g. "Base unit › Laser module"
+  const enrichRecord = (record: DBMaintenanceRecord, deviceData: Device[]): MaintenanceRecord => {
+    const device = deviceData.find(d => d._id === record.device_id);
+    const status = mapMaintenanceStatus(record.after_status);
+    const estimatedDuration = record.duration_hours || 2;
+    const facilityId = record.facility_id || device?.facility_id;
+    const facility = facilityManagementService.findFacility(facilityId);
+    return {
+      ...record,
+      device_name: device ? getAssemblyLabel(deviceData, device) : 'Unknown Device',
+      device_model: device?.model,
+      device_manufacturer: device?.manufacturer,
+      status,
+      scheduled_date: record.maintenance_date,
+      estimated_duration: estimatedDuration,
+      facility_id: facilityId,
+      slot_conflicts: isClosedStatus(status)
+        ? []
+        : checkMaintenanceSlot(facility, new Date(record.maintenance_date), estimatedDuration).conflicts
+    };
+  };
+
   const loadData = async () => {
     try {
       setLoading(true);
-      const [maintenanceData, deviceData] = await Promise.all([
-        DatabaseService.getMaintenanceRecords(),
-        DatabaseService.getDevices()
+      setSchedules(await pmScheduleService.getSchedules());
+      const [maintenanceData, deviceData, technicianData] = await Promise.all([
+        DatabaseService.getAllMaintenanceRecords(),
+        // Archived devices still own historical records, so load them for name lookups
+        DatabaseService.getAllDevices({ includeArchived: true }),
+        technicianAssignmentService.getTechnicians()
       ]);
+      setTechnicians(technicianData.map(technician => ({ id: technician._id || '', name: getTechnicianName(technician) })));
       
       // Enrich maintenance records with device information
-      const enrichedRecords = await Promise.all(
-        (maintenanceData.items || []).map(async (record) => {
-          const device = deviceData.items.find(d => d._id === record.device_id);
-          const enrichedRecord: MaintenanceRecord = {
-            ...record,
-            device_name: device ? `${device.manufacturer} ${device.model}` : 'Unknown Device',
-            device_model: device?.model,
-            device_manufacturer: device?.manufacturer,
-            status: mapMaintenanceStatus(record.after_status),
-            scheduled_date: record.maintenance_date,
-            estimated_duration: record.duration_hours || 2
-          };
-          return enrichedRecord;
-        })
-      );
+      const enrichedRecords = maintenanceData.map(record => enrichRecord(record, deviceData));
       
       setRecords(enrichedRecords);
-      setDevices(deviceData.items || []);
+      setDevices(deviceData.filter(device => !isDeviceArchived(device)));
       
       // Check for overdue maintenance
       checkOverdueMaintenance(enrichedRecords);
@@ -148,10 +165,19 @@ export default function MaintenancePage() {
       return scheduledDate < now && record.status === 'scheduled';
     });
 
-    // Update overdue records
+    // Pinned to the revision just loaded; a record changed meanwhile is left for the next load to re-check
+    let marked = 0;
     for (const record of overdueRecords) {
       if (record._id) {
-        await updateMaintenanceStatus(record._id, 'overdue');
+        try {
+          await DatabaseService.updateMaintenanceRecord(record._id, user?.uid || '', {
+            after_status: 'overdue',
+            notes: 'Status updated to overdue'
+          }, { expectedRevision: getRevision(record) });
+          marked++;
+        } catch (error) {
+          if (!isConcurrencyConflict(error)) console.error('Error marking maintenance overdue:', error);
+        }
       }
       
       // Send overdue notification (optional - can be enabled when EmailService is properly configured)
@@ -171,6 +197,9 @@ export default function MaintenancePage() {
       */
     }
 
+    if (marked > 0) {
+      await loadData();
+    }
     if (overdueRecords.length > 0) {
       toast({
         title: "Overdue Maintenance Alert",
@@ -180,15 +209,22 @@ export default function MaintenancePage() {
     }
   };
 
-  const updateMaintenanceStatus = async (recordId: string, status: string) => {
+  const updateMaintenanceStatus = async (record: MaintenanceRecord, status: string) => {
+    if (!record._id) return;
     try {
-      await DatabaseService.updateMaintenanceRecord(recordId, user?.uid || '', { after_status: status, notes: `Status updated to ${status}` });
+      await DatabaseService.updateMaintenanceRecord(record._id, user?.uid || '', { after_status: status, notes: `Status updated to ${status}` }, {
+        expectedRevision: getRevision(record)
+      });
       await loadData();
       toast({
         title: "Success",
         description: "Maintenance status updated"
       });
     } catch (error) {
+      if (isConcurrencyConflict(error)) {
+        await handleStaleRecord();
+        return;
+      }
       toast({
         title: "Error",
         description: "Failed to update maintenance status",
@@ -197,93 +233,294 @@ export default function MaintenancePage() {
     }
   };
 
-  const completeMaintenance = async (record: MaintenanceRecord) => {
+  const handleStaleRecord = async () => {
+    toast({
+      title: "Record changed",
+      description: "Someone else updated this maintenance record. The latest version has been loaded.",
+      variant: "destructive"
+    });
+    await loadData();
+  };
+
+  const completeMaintenance = async (completion: MaintenanceCompletion) => {
+    const record = completionTarget;
+    if (!record?._id) return;
+
     try {
-      const completedData = {
+      setCompleting(true);
+      await DatabaseService.updateMaintenanceRecord(record._id, user?.uid || '', {
+        ...completion,
         after_status: 'completed',
-        notes: `Completed on ${new Date().toISOString()}`,
-        duration_hours: record.estimated_duration // This would come from a form in a real app
-      };
-      
-      await DatabaseService.updateMaintenanceRecord(record._id!, user?.uid || '', completedData);
-      
-      // Send completion notification (optional - can be enabled when EmailService is properly configured)
-      /*
-      await EmailService.sendMaintenanceCompletionNotification(
-        ['manager@example.com'],
-        {
-          deviceName: record.device_name || 'Unknown Device',
-          maintenanceType: record.maintenance_type,
-          technicianName: record.technician_name,
-          completionDate: new Date().toISOString(),
-          status: 'Completed',
-          summary: record.notes || 'Maintenance completed successfully'
-        }
-      );
-      */
-      
+        completed_at: new Date().toISOString()
+      }, {
+        expectedRevision: getRevision(record)
+      });
+      // Completion emails, inventory, manufacturer sync and PM rescheduling run off the maintenance.completed event
+      setCompletionTarget(null);
       await loadData();
       toast({
         title: "Success",
         description: "Maintenance marked as completed"
       });
     } catch (error) {
+      if (isConcurrencyConflict(error)) {
+        setCompletionTarget(null);
+        await handleStaleRecord();
+        return;
+      }
       toast({
         title: "Error",
-        description: "Failed to complete maintenance",
+        description: isChecklistIncompleteError(error) ? error.message : "Failed to complete maintenance",
         variant: "destructive"
       });
+    } finally {
+      setCompleting(false);
     }
   };
 
-  const schedulePreventiveMaintenance = async (deviceId: string, template: MaintenanceTemplate) => {
+  const saveChecklistProgress = async (checklist: MaintenanceChecklist) => {
+    const record = completionTarget;
+    if (!record?._id) return;
+
     try {
-      const device = devices.find(d => d._id === deviceId);
-      if (!device) return;
-
-      const scheduledDate = new Date();
-      scheduledDate.setDate(scheduledDate.getDate() + template.frequency_days);
-
-      const newRecord: Omit<DBMaintenanceRecord, '_id' | '_uid' | '_tid'> = {
-        device_id: deviceId,
-        maintenance_type: template.type as DBMaintenanceRecord['maintenance_type'],
-        maintenance_date: scheduledDate.toISOString(),
-        technician_id: 'auto-001',
-        technician_name: 'Auto-assigned',
-        description: `Scheduled ${template.name}`,
-        before_status: 'Operational',
-        after_status: 'Scheduled',
-        notes: `Scheduled ${template.name} - Checklist: ${template.checklist.join(', ')}`,
-        cost: 0,
-        duration_hours: template.estimated_duration
-      };
-
-      await DatabaseService.createMaintenanceRecord(newRecord);
+      setCompleting(true);
+      await DatabaseService.updateMaintenanceRecord(record._id, user?.uid || '', { checklist }, {
+        expectedRevision: getRevision(record)
+      });
+      setCompletionTarget(null);
       await loadData();
-      
       toast({
         title: "Success",
-        description: `Preventive maintenance scheduled for ${device.manufacturer} ${device.model}`
+        description: "Checklist progress saved"
       });
     } catch (error) {
+      if (isConcurrencyConflict(error)) {
+        setCompletionTarget(null);
+        await handleStaleRecord();
+        return;
+      }
       toast({
         title: "Error",
-        description: "Failed to schedule maintenance",
+        description: "Failed to save checklist progress",
         variant: "destructive"
       });
+    } finally {
+      setCompleting(false);
     }
   };
 
-  const filteredRecords = records.filter(record => {
+  // Keeps the original time of day; a move outside the template's due window needs confirmation
+  const rescheduleMaintenance = async (record: MaintenanceRecord, date: Date, technician?: CalendarTechnician) => {
+    if (!record._id) return;
+    const current = new Date(record.maintenance_date);
+    let moved = addDays(current, differenceInCalendarDays(date, current));
+
+    const dueWindow = getDueWindow(record, schedules);
+    if (dueWindow && !isWithinDueWindow(dueWindow, moved) && !window.confirm(
+      `${record.device_name || 'This maintenance'} is due ${dueWindow.dueDate} and should be done between ${dueWindow.earliest} and ${dueWindow.latest}. Reschedule outside this window anyway?`
+    )) {
+      return;
+    }
+
+    // Keep the work inside the facility's maintenance window and clear of clinic hours
+    const facility = facilityManagementService.findFacility(record.facility_id);
+    const hours = record.estimated_duration || 2;
+    const slot = checkMaintenanceSlot(facility, moved, hours);
+    if (!slot.valid) {
+      const proposed = findMaintenanceSlotOnDay(facility, getFacilityDateKey(moved, facility), hours);
+      const conflicts = slot.conflicts.map(conflict => conflict.message).join('\n');
+      if (proposed) {
+        if (!window.confirm(`${conflicts}\n\nMove ${record.device_name || 'this maintenance'} to the next valid slot, ${formatFacilityTime(proposed, facility)}, instead?`)) return;
+        moved = proposed;
+      } else if (!window.confirm(`${conflicts}\n\nNo valid slot was found. Reschedule anyway?`)) {
+        return;
+      }
+    }
+
+    try {
+      const updates: Partial<DBMaintenanceRecord> = { maintenance_date: moved.toISOString() };
+      if (technician) {
+        updates.technician_id = technician.id;
+        updates.technician_name = technician.name;
+      }
+      // Overdue work moved to today or later is back on schedule
+      if (record.status === 'overdue' && moved >= startOfDay(new Date())) {
+        updates.after_status = 'Scheduled';
+      }
+      await DatabaseService.updateMaintenanceRecord(record._id, user?.uid || '', updates, {
+        expectedRevision: getRevision(record)
+      });
+      await loadData();
+      toast({
+        title: "Success",
+        description: `Maintenance moved to ${formatFacilityTime(moved, facility)}${technician ? ` for ${technician.name}` : ''}`
+      });
+    } catch (error) {
+      if (isConcurrencyConflict(error)) {
+        await handleStaleRecord();
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to reschedule maintenance",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Balances generated occurrences across qualified technicians by the hours already booked each week
+  const autoAssignTechnicians = async () => {
+    try {
+      setAssigning(true);
+      const { assigned, unassignable } = await technicianAssignmentService.assignUnassignedMaintenance(user?.uid || '');
+      await loadData();
+      setAssignmentRuns(runs => runs + 1);
+      toast({
+        title: "Success",
+        description: `${assigned} maintenance task${assigned === 1 ? '' : 's'} assigned` +
+          (unassignable > 0 ? `. ${unassignable} could not be assigned: no technician is qualified and available.` : '')
+      });
+    } catch (error) {
+      if (isConcurrencyConflict(error)) {
+        await handleStaleRecord();
+        return;
+      }
+      console.error('Error assigning technicians:', error);
+      toast({
+        title: "Error",
+        description: "Failed to assign technicians",
+        variant: "destructive"
+      });
+    } finally {
+      setAssigning(false);
+    }
+  };
+
+  const unassignedCount = records.filter(record => !isClosedStatus(record.status) && isUnassignedMaintenance(record)).length;
+
+  // Occurrences are also generated once a day by the scheduled job; this runs it on demand
+  const generateOccurrences = async () => {
+    setGenerating(true);
+    try {
+      const { created, safetyTestsScheduled } = await generateMaintenance(user?.uid || '');
+      await loadData();
+      toast({
+        title: "Success",
+        description: `${created} preventive maintenance and ${safetyTestsScheduled} safety test occurrence${safetyTestsScheduled === 1 ? '' : 's'} created`
+      });
+    } catch (error) {
+      console.error('Error generating maintenance:', error);
+      toast({
+        title: "Error",
+        description: "Failed to generate scheduled maintenance",
+        variant: "destructive"
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  // Template selects offer the whole device type or a single device
+  const ALL_DEVICES_TARGET = 'all';
+
+  const schedulePreventiveMaintenance = async (targetValue: string, template: MaintenanceTemplate) => {
+    const target: PmScheduleTarget = targetValue === ALL_DEVICES_TARGET
+      ? { type: 'device_type', deviceType: template.device_type }
+      : { type: 'device', deviceId: targetValue };
+
+    try {
+      await pmScheduleService.assign({ templateId: template.id, deviceType: template.device_type, target }, user?.uid || '');
+      const { created } = await pmScheduleService.run(user?.uid || '');
+      await loadData();
+
+      toast({
+        title: "Success",
+        description: `${template.name} scheduled for ${getScheduleTargetLabel(target)} (${created} occurrence${created === 1 ? '' : 's'} created)`
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: isPmScheduleError(error) ? error.message : "Failed to schedule maintenance",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const toggleSchedule = async (schedule: PmSchedule) => {
+    try {
+      await pmScheduleService.setActive(schedule.id, !schedule.active);
+      await loadData();
+      toast({
+        title: "Success",
+        description: schedule.active ? "Schedule paused" : "Schedule resumed"
+      });
+    } catch (error) {
+      console.error('Error updating schedule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update schedule",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const removeSchedule = async (schedule: PmSchedule) => {
+    try {
+      await pmScheduleService.removeSchedule(schedule.id);
+      await loadData();
+      toast({
+        title: "Success",
+        description: "Schedule removed. Occurrences already generated remain on the maintenance list."
+      });
+    } catch (error) {
+      console.error('Error removing schedule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove schedule",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const getScheduleTargetLabel = (target: PmScheduleTarget) => {
+    if (target.type === 'device_type') {
+      return `all ${deviceTypeRegistry.get(target.deviceType)?.label || target.deviceType} devices`;
+    }
+    const device = devices.find(d => d._id === target.deviceId);
+    return device ? getAssemblyLabel(devices, device) : 'Unknown Device';
+  };
+
+  const matchesFilters = (record: MaintenanceRecord) => {
     const matchesSearch = (record.device_name || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
                          (record.technician_name || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
                          (record.description || '').toLowerCase().includes(searchTerm.toLowerCase());
     const matchesStatus = statusFilter === 'all' || record.status === statusFilter;
     return matchesSearch && matchesStatus;
-  });
+  };
+
+  const filteredRecords = records.filter(matchesFilters);
+
+  const handleExport = async (format: ExportFormat) => {
+    const deviceData = await DatabaseService.getAllDevices({ includeArchived: true });
+    return exportRecords(
+      mapAsync(DatabaseService.iterateMaintenanceRecords(), record => enrichRecord(record, deviceData)),
+      { fileName: 'maintenance-records', format, columns: maintenanceExportColumns, filter: matchesFilters }
+    );
+  };
+
+  const { page, pageCount, pageSize, pageItems, totalItems, setPage } = usePagination(filteredRecords, 10);
+
+  useEffect(() => {
+    setPage(1);
+  }, [searchTerm, statusFilter, setPage]);
+
+  const formatChecklistProgress = (checklist: MaintenanceChecklist) => {
+    const { completed, failed, total } = getChecklistProgress(checklist);
+    return `${completed}/${total} steps done${failed > 0 ? `, ${failed} failed` : ''}`;
+  };
 
   // Helper function to map database status to UI status
-  const mapMaintenanceStatus = (dbStatus: string): 'scheduled' | 'in_progress' | 'completed' | 'overdue' => {
+  const mapMaintenanceStatus = (dbStatus: string): NonNullable<MaintenanceRecord['status']> => {
     switch (dbStatus.toLowerCase()) {
       case 'scheduled':
       case 'pending':
@@ -296,6 +533,8 @@ export default function MaintenancePage() {
         return 'completed';
       case 'overdue':
         return 'overdue';
+      case 'cancelled':
+        return 'cancelled';
       default:
         return 'scheduled';
     }
@@ -307,6 +546,7 @@ export default function MaintenancePage() {
       case 'in_progress': return 'bg-blue-500';
       case 'overdue': return 'bg-red-500';
       case 'scheduled': return 'bg-yellow-500';
+      case 'cancelled': return 'bg-gray-400';
       default: return 'bg-gray-500';
     }
   };
@@ -317,6 +557,7 @@ export default function MaintenancePage() {
       case 'in_progress': return <Wrench className="w-4 h-4" />;
       case 'overdue': return <AlertTriangle className="w-4 h-4" />;
       case 'scheduled': return <Clock className="w-4 h-4" />;
+      case 'cancelled': return <XCircle className="w-4 h-4" />;
       default: return <Clock className="w-4 h-4" />;
     }
   };
@@ -338,12 +579,30 @@ export default function MaintenancePage() {
           <p className="text-medical-text/70 mt-2">Schedule and track equipment maintenance</p>
         </div>
         <div className="flex gap-3">
-          <Button
-            variant="outline"
-            onClick={() => setCurrentView(currentView === 'list' ? 'calendar' : 'list')}
-          >
-            <Calendar className="w-4 h-4 mr-2" />
-            {currentView === 'list' ? 'Calendar View' : 'List View'}
+          <ExportMenu onExport={handleExport} />
+          <Button variant="outline" onClick={() => setCalendarExportOpen(true)}>
+            <CalendarDays className="w-4 h-4 mr-2" />
+            Calendar Export
+          </Button>
+          <Tabs value={currentView} onValueChange={(value) => setCurrentView(value as typeof currentView)}>
+            <TabsList>
+              <TabsTrigger value="list">List</TabsTrigger>
+              <TabsTrigger value="calendar">
+                <Calendar className="w-4 h-4 mr-1" />
+                Calendar
+              </TabsTrigger>
+              <TabsTrigger value="capacity">Capacity</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          {unassignedCount > 0 && (
+            <Button variant="outline" onClick={autoAssignTechnicians} disabled={assigning}>
+              <UserCheck className="w-4 h-4 mr-2" />
+              {assigning ? 'Assigning...' : `Auto-assign (${unassignedCount})`}
+            </Button>
+          )}
+          <Button variant="outline" onClick={generateOccurrences} disabled={generating}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${generating ? 'animate-spin' : ''}`} />
+            {generating ? 'Generating...' : 'Generate Now'}
           </Button>
           <Button onClick={() => setShowCreateModal(true)}>
             <Plus className="w-4 h-4 mr-2" />
@@ -442,6 +701,7 @@ export default function MaintenancePage() {
             <SelectItem value="in_progress">In Progress</SelectItem>
             <SelectItem value="completed">Completed</SelectItem>
             <SelectItem value="overdue">Overdue</SelectItem>
+            <SelectItem value="cancelled">Cancelled</SelectItem>
           </SelectContent>
         </Select>
       </div>
@@ -449,9 +709,9 @@ export default function MaintenancePage() {
       {/* Maintenance Templates Quick Actions */}
       <Card>
         <CardHeader>
-          <CardTitle>Quick Schedule Templates</CardTitle>
+          <CardTitle>Preventive Maintenance Templates</CardTitle>
           <CardDescription>
-            Schedule common maintenance tasks for your devices
+            Assign a template to a device or a whole device type to generate recurring maintenance
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -463,14 +723,20 @@ export default function MaintenancePage() {
                   <p className="text-sm text-medical-text/70 mb-2">
                     Every {template.frequency_days} days • {template.estimated_duration}h duration
                   </p>
-                  <Select onValueChange={(deviceId) => schedulePreventiveMaintenance(deviceId, template)}>
+                  <div className="flex items-center gap-2 mb-3">
+                    <Badge variant="outline">{PM_RECURRENCE_LABELS[getScheduleRecurrence(template)]}</Badge>
+                  </div>
+                  <Select value="" onValueChange={(target) => schedulePreventiveMaintenance(target, template)}>
                     <SelectTrigger className="w-full">
-                      <SelectValue placeholder="Select device" />
+                      <SelectValue placeholder="Assign to devices" />
                     </SelectTrigger>
                     <SelectContent>
-                      {devices.map((device) => (
+                      <SelectItem value={ALL_DEVICES_TARGET}>
+                        All {deviceTypeRegistry.get(template.device_type)?.label || template.device_type} devices
+                      </SelectItem>
+                      {getTemplateDevices(template).map((device) => (
                         <SelectItem key={device._id} value={device._id || ''}>
-                          {device.manufacturer} {device.model}
+                          {getAssemblyLabel(devices, device)}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -479,80 +745,212 @@ export default function MaintenancePage() {
               </Card>
             ))}
           </div>
+          {maintenanceTemplates.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center">
+              Add devices to see the maintenance templates for their types
+            </p>
+          )}
         </CardContent>
       </Card>
 
+      {/* Recurring Schedules */}
+      {schedules.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Recurring Schedules</CardTitle>
+            <CardDescription>
+              Occurrences are generated {PM_HORIZON_DAYS} days ahead. Fixed calendar schedules keep their cadence;
+              the others restart from each completion.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {schedules.map((schedule) => {
+                const template = getScheduleTemplate(schedule);
+                return (
+                  <div key={schedule.id} className="flex items-center justify-between rounded-lg border p-4">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <Repeat className="w-4 h-4 text-medical-text/50" />
+                        <span className="font-semibold text-medical-primary">{template?.name || schedule.templateId}</span>
+                        {template && (
+                          <Badge variant="outline">{PM_RECURRENCE_LABELS[getScheduleRecurrence(template)]}</Badge>
+                        )}
+                        {!schedule.active && <Badge variant="secondary">Paused</Badge>}
+                      </div>
+                      <p className="text-sm text-medical-text/70 mt-1">
+                        {getScheduleTargetLabel(schedule.target)} • Every {schedule.frequencyDays || template?.frequency_days} days
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => toggleSchedule(schedule)}>
+                        {schedule.active ? <Pause className="w-4 h-4 mr-1" /> : <Play className="w-4 h-4 mr-1" />}
+                        {schedule.active ? 'Pause' : 'Resume'}
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => removeSchedule(schedule)}>
+                        <Trash2 className="w-4 h-4 mr-1" />
+                        Remove
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Maintenance Records */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Maintenance Records</CardTitle>
-          <CardDescription>
-            Track all scheduled and completed maintenance activities
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-4">
-            {filteredRecords.length === 0 ? (
-              <div className="text-center py-12">
-                <Wrench className="w-12 h-12 text-medical-text/30 mx-auto mb-4" />
-                <p className="text-medical-text/70 mb-4">No maintenance records found</p>
-                <p className="text-sm text-medical-text/50">
-                  Use the quick schedule templates above to create your first maintenance record
-                </p>
-              </div>
-            ) : (
-              filteredRecords.map((record) => (
-                <Card key={record._id} className="hover:shadow-md transition-shadow">
-                  <CardContent className="p-6">
-                    <div className="flex items-center justify-between">
-                      <div className="flex-1">
-                        <div className="flex items-center gap-3 mb-2">
-                          {record.status && getStatusIcon(record.status)}
-                          <h3 className="font-semibold text-medical-primary">
-                            {record.device_name}
-                          </h3>
-                          <Badge className={`${record.status ? getStatusColor(record.status) : 'bg-gray-500'} text-white`}>
-                            {record.status ? record.status.replace('_', ' ').toUpperCase() : 'UNKNOWN'}
-                          </Badge>
-                          <Badge variant="outline">
-                            {record.maintenance_type.toUpperCase()}
-                          </Badge>
+      {currentView === 'capacity' ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Technician Capacity</CardTitle>
+            <CardDescription>
+              Booked maintenance and service request hours against each technician's weekly capacity. Click a technician to set their facility, hours and leave.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TechnicianCapacityView refreshKey={assignmentRuns} />
+          </CardContent>
+        </Card>
+      ) : currentView === 'calendar' ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Maintenance Calendar</CardTitle>
+            <CardDescription>
+              Scheduled, in-progress and overdue maintenance. Drag an item to reschedule it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <MaintenanceCalendar
+              records={filteredRecords.filter(record => !isClosedStatus(record.status))}
+              schedules={schedules}
+              technicians={technicians}
+              onReschedule={rescheduleMaintenance}
+            />
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>Maintenance Records</CardTitle>
+            <CardDescription>
+              Track all scheduled and completed maintenance activities
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {filteredRecords.length === 0 ? (
+                <div className="text-center py-12">
+                  <Wrench className="w-12 h-12 text-medical-text/30 mx-auto mb-4" />
+                  <p className="text-medical-text/70 mb-4">No maintenance records found</p>
+                  <p className="text-sm text-medical-text/50">
+                    Assign a preventive maintenance template above to generate your first maintenance records
+                  </p>
+                </div>
+              ) : (
+                pageItems.map((record) => (
+                  <Card key={record._id} className="hover:shadow-md transition-shadow">
+                    <CardContent className="p-6">
+                      <div className="flex items-center justify-between">
+                        <div className="flex-1">
+                          <div className="flex items-center gap-3 mb-2">
+                            {record.status && getStatusIcon(record.status)}
+                            <h3 className="font-semibold text-medical-primary">
+                              {record.device_name}
+                            </h3>
+                            <Badge className={`${record.status ? getStatusColor(record.status) : 'bg-gray-500'} text-white`}>
+                              {record.status ? record.status.replace('_', ' ').toUpperCase() : 'UNKNOWN'}
+                            </Badge>
+                            <Badge variant="outline">
+                              {record.maintenance_type.toUpperCase()}
+                            </Badge>
+                            {record.slot_conflicts && record.slot_conflicts.length > 0 && (
+                              <Badge
+                                variant="outline"
+                                className="border-orange-500 text-orange-600"
+                                title={record.slot_conflicts.map(conflict => conflict.message).join('\n')}
+                              >
+                                <AlertTriangle className="w-3 h-3 mr-1" />
+                                {record.slot_conflicts.some(conflict => conflict.type === 'clinic_hours') ? 'Clinic Hours Conflict' : 'Outside Maintenance Window'}
+                              </Badge>
+                            )}
+                          </div>
+                          <div className="text-sm text-medical-text/70 space-y-1">
+                            <p><strong>Scheduled:</strong> {record.scheduled_date ? formatFacilityTime(new Date(record.scheduled_date), facilityManagementService.findFacility(record.facility_id)) : 'Not scheduled'}</p>
+                            <p><strong>Technician:</strong> {record.technician_name}</p>
+                            <p><strong>Duration:</strong> {record.estimated_duration}h estimated</p>
+                            {record.calibration && (
+                              <p>
+                                <strong>Calibration:</strong> {CALIBRATION_VERDICT_LABELS[record.calibration.verdict]}
+                                {!record.calibration.asFoundInTolerance && ' (as found out of tolerance)'}
+                                {record.calibration.adjusted && ', adjusted'}
+                              </p>
+                            )}
+                            {record.checklist && (
+                              <p><strong>Checklist:</strong> {formatChecklistProgress(record.checklist)}</p>
+                            )}
+                            {record.notes && <p><strong>Notes:</strong> {record.notes}</p>}
+                          </div>
                         </div>
-                        <div className="text-sm text-medical-text/70 space-y-1">
-                          <p><strong>Scheduled:</strong> {record.scheduled_date ? new Date(record.scheduled_date).toLocaleDateString() : 'Not scheduled'}</p>
-                          <p><strong>Technician:</strong> {record.technician_name}</p>
-                          <p><strong>Duration:</strong> {record.estimated_duration}h estimated</p>
-                          {record.notes && <p><strong>Notes:</strong> {record.notes}</p>}
+                        <div className="flex gap-2">
+                          {/* Safety tests are completed by recording the measurements on the device */}
+                          {record.is_safety_test && !isClosedStatus(record.status) && (
+                            <Button asChild size="sm" variant="outline">
+                              <Link to={`/devices/${record.device_id}?tab=safety`}>Record Test</Link>
+                            </Button>
+                          )}
+                          {!record.is_safety_test && record.status === 'scheduled' && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => updateMaintenanceStatus(record, 'in_progress')}
+                            >
+                              Start
+                            </Button>
+                          )}
+                          {!record.is_safety_test && record.status === 'in_progress' && (
+                            <Button
+                              size="sm"
+                              onClick={() => setCompletionTarget(record)}
+                              className="bg-green-600 hover:bg-green-700"
+                            >
+                              Complete
+                            </Button>
+                          )}
                         </div>
                       </div>
-                      <div className="flex gap-2">
-                        {record.status === 'scheduled' && (
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => record._id && updateMaintenanceStatus(record._id, 'in_progress')}
-                          >
-                            Start
-                          </Button>
-                        )}
-                        {record.status === 'in_progress' && (
-                          <Button
-                            size="sm"
-                            onClick={() => completeMaintenance(record)}
-                            className="bg-green-600 hover:bg-green-700"
-                          >
-                            Complete
-                          </Button>
-                        )}
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))
-            )}
-          </div>
-        </CardContent>
-      </Card>
+                    </CardContent>
+                  </Card>
+                ))
+              )}
+            </div>
+            <ListPagination
+              page={page}
+              pageCount={pageCount}
+              pageSize={pageSize}
+              totalItems={totalItems}
+              onPageChange={setPage}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      <MaintenanceCompletionDialog
+        open={completionTarget !== null}
+        record={completionTarget}
+        deviceLabel={completionTarget?.device_name || 'this device'}
+        estimatedHours={completionTarget?.estimated_duration}
+        calibrationPoints={completionTarget?.maintenance_type === 'Calibration'
+          ? getCalibrationPoints(devices.find(device => device._id === completionTarget.device_id)?.device_type)
+          : undefined}
+        saving={completing}
+        onConfirm={completeMaintenance}
+        onSaveProgress={saveChecklistProgress}
+        onCancel={() => setCompletionTarget(null)}
+      />
+
+      <CalendarFeedDialog open={calendarExportOpen} onOpenChange={setCalendarExportOpen} />
     </div>
   );
 }
\ No newline at end of file
@@ -103,8 +103,7 @@ export default function MonitoringPage() {
     if (!user) return;
     
     try {
-      const devicesResponse = await DatabaseService.getDevices();
-      const devicesData = Array.isArray(devicesResponse) ? devicesResponse : devicesResponse.items || [];
+      const devicesData = await DatabaseService.getAllDevices();
       setDevices(devicesData);
 
       // Generate realistic monitoring data
@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { useAuthStore } from '@/store/auth-store';
-import { DatabaseService, Device } from '@/services/database';
+import { DatabaseService, Device, UNASSIGNED_TECHNICIAN_ID } from '@/services/database';
+import { facilityManagementService } from '@/services/facility-management';
+import { findMaintenanceSlotOnDay, findNextMaintenanceSlot, formatFacilityTime } from '@/services/maintenance-windows';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -101,6 +103,7 @@ export default function PredictiveMaintenancePage() {
   const [selectedTimeframe, setSelectedTimeframe] = useState('30');
   const [selectedRiskLevel, setSelectedRiskLevel] = useState('all');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [schedulingId, setSchedulingId] = useState<string | null>(null);
 
   useEffect(() => {
     loadPredictiveData();
@@ -111,8 +114,7 @@ export default function PredictiveMaintenancePage() {
     
     setLoading(true);
     try {
-      const devicesResponse = await DatabaseService.getDevices();
-      const devicesData = Array.isArray(devicesResponse) ? devicesResponse : devicesResponse.items || [];
+      const devicesData = await DatabaseService.getAllDevices();
       setDevices(devicesData);
 
       // Generate ML-powered predictions
@@ -268,6 +270,63 @@ export default function PredictiveMaintenancePage() {
     return data;
   }, []);
 
+  // Books the recommended work into the first valid slot of the facility's maintenance window
+  const handleScheduleRecommendation = async (prediction: PredictionModel) => {
+    const device = devices.find(d => d._id === prediction.deviceId);
+    if (!device?._id) return;
+
+    const recommendation = prediction.maintenanceRecommendation;
+    const hours = Math.round(recommendation.estimatedDuration * 4) / 4;
+    const facility = facilityManagementService.findFacility(device.facility_id);
+    const suggested = new Date(recommendation.suggestedDate);
+    const slot = recommendation.type === 'immediate'
+      ? findNextMaintenanceSlot(facility, new Date(), hours)
+      : findMaintenanceSlotOnDay(facility, format(suggested, 'yyyy-MM-dd'), hours);
+
+    if (!slot) {
+      toast({
+        title: "Error",
+        description: `No ${hours}h slot fits the maintenance window at ${facility?.name || 'this facility'}. Schedule it from the maintenance page.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setSchedulingId(device._id);
+      await DatabaseService.createMaintenanceRecord({
+        device_id: device._id,
+        maintenance_type: recommendation.type === 'immediate' ? 'Corrective' : 'Preventive',
+        maintenance_date: slot.toISOString(),
+        technician_id: UNASSIGNED_TECHNICIAN_ID,
+        technician_name: 'Unassigned',
+        description: recommendation.description,
+        cost: Math.round(recommendation.cost),
+        duration_hours: hours,
+        before_status: device.status,
+        after_status: 'Scheduled',
+        notes: [
+          `Scheduled from a ${recommendation.priority} priority predictive maintenance recommendation`,
+          recommendation.parts?.length ? `Parts: ${recommendation.parts.join(', ')}` : ''
+        ].filter(Boolean).join('. ')
+      });
+      const moved = format(slot, 'yyyy-MM-dd') !== format(suggested, 'yyyy-MM-dd');
+      toast({
+        title: "Success",
+        description: `${prediction.deviceName} maintenance scheduled for ${formatFacilityTime(slot, facility)}${moved ? ', the next slot in the facility maintenance window' : ''}`
+      });
+    } catch (error) {
+      console.error('Error scheduling maintenance:', error);
+      toast({
+        title: "Error",
+        description: "Failed to schedule maintenance",
+        variant: "destructive"
+      });
+    } finally {
+      setSchedulingId(null);
+    }
+  };
+
   const handleRunAnalysis = async () => {
     setIsAnalyzing(true);
     
@@ -617,7 +676,12 @@ export default function PredictiveMaintenancePage() {
                     </div>
 
                     <div className="ml-4 flex flex-col space-y-2">
-                      <Button size="sm" variant="outline">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleScheduleRecommendation(prediction)}
+                        disabled={schedulingId === prediction.deviceId}
+                      >
                         <Wrench className="h-3 w-3 mr-1" />
                         Schedule
                       </Button>
@@ -12,6 +12,7 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import ReportBuilder from '@/components/ReportBuilder';
+import { SavedReport, customReportService } from '@/services/custom-reports';
 import {
   FileText,
   Plus,
@@ -27,18 +28,6 @@ import {
   Zap
 } from 'lucide-react';
 
-interface SavedReport {
-  id: string;
-  name: string;
-  description: string;
-  components: any[];
-  layout: string[];
-  createdAt: string;
-  updatedAt: string;
-  category: 'devices' | 'maintenance' | 'service' | 'compliance' | 'custom';
-  tags: string[];
-}
-
 const TEMPLATE_REPORTS = [
   {
     id: 'device-overview',
@@ -85,34 +74,23 @@ export default function ReportBuilderPage() {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [reportToDelete, setReportToDelete] = useState<SavedReport | null>(null);
 
-  // Load saved reports from localStorage
+  // Load saved reports, upgrading any saved by older versions
   useEffect(() => {
-    const reports = JSON.parse(localStorage.getItem('custom-reports') || '[]');
-    setSavedReports(reports);
+    setSavedReports(customReportService.getReports());
   }, []);
 
   // Delete report
   const deleteReport = (report: SavedReport) => {
-    const updatedReports = savedReports.filter(r => r.id !== report.id);
-    setSavedReports(updatedReports);
-    localStorage.setItem('custom-reports', JSON.stringify(updatedReports));
+    customReportService.deleteReport(report.id);
+    setSavedReports(customReportService.getReports());
     setShowDeleteDialog(false);
     setReportToDelete(null);
   };
 
   // Duplicate report
   const duplicateReport = (report: SavedReport) => {
-    const newReport = {
-      ...report,
-      id: `report-${Date.now()}`,
-      name: `${report.name} (Copy)`,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
-    };
-    
-    const updatedReports = [...savedReports, newReport];
-    setSavedReports(updatedReports);
-    localStorage.setItem('custom-reports', JSON.stringify(updatedReports));
+    customReportService.duplicateReport(report);
+    setSavedReports(customReportService.getReports());
   };
 
   // Create from template
@@ -84,8 +84,7 @@ export default function ReportsPage() {
     
     setLoading(true);
     try {
-      const devicesResponse = await DatabaseService.getDevices();
-      const devicesData = Array.isArray(devicesResponse) ? devicesResponse : devicesResponse.items || [];
+      const devicesData = await DatabaseService.getAllDevices();
       setDevices(devicesData);
 
       // Generate comprehensive report data
@@ -1,4 +1,6 @@
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { format } from 'date-fns';
 import { Plus, Search, Filter, AlertCircle, Clock, CheckCircle, XCircle, Wrench, MessageSquare } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -9,9 +11,15 @@ import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
-import { DatabaseService, ServiceRequest as DBServiceRequest, Device, ServiceRequestWithUIStatus, mapServiceRequestStatus } from '@/services/database';
+import { usePagination } from '@/hooks/use-pagination';
+import ListPagination from '@/components/ListPagination';
+import ExportMenu from '@/components/ExportMenu';
+import { DatabaseService, ServiceRequest as DBServiceRequest, Device, ServiceRequestWithUIStatus, isDeviceArchived, mapServiceRequestStatus, reverseMapServiceRequestStatus } from '@/services/database';
+import { getRevision, isConcurrencyConflict } from '@/services/concurrency';
 import { useAuthStore } from '@/store/auth-store';
-import { EmailService } from '@/services/email';
+import { ExportColumn, ExportFormat, exportRecords, loadDeviceNames, mapAsync } from '@/services/data-export';
+import { getAssemblyLabel } from '@/services/device-hierarchy';
+import { getTechnicianName, taskForServiceRequest, technicianAssignmentService } from '@/services/technician-assignment';
 
 // Extended service request with UI-specific fields
 interface ServiceRequest extends DBServiceRequest {
@@ -38,9 +46,30 @@ interface CreateServiceRequestForm {
   urgency_level: number;
 }
 
+const serviceRequestExportColumns: ExportColumn<ServiceRequest>[] = [
+  { header: 'Device', value: request => request.device_name },
+  { header: 'Status', value: request => request.request_status.replace(/_/g, ' ') },
+  { header: 'Priority', value: request => request.priority },
+  { header: 'Issue Type', value: request => request.issue_type.replace(/_/g, ' ') },
+  { header: 'Description', value: request => request.description },
+  { header: 'Symptoms', value: request => request.symptoms },
+  { header: 'Reported By', value: request => request.reported_by },
+  { header: 'Assigned To', value: request => request.assigned_to },
+  { header: 'Created At', value: request => request.created_at },
+  { header: 'Updated At', value: request => request.updated_at },
+  { header: 'Resolved At', value: request => request.resolved_at },
+  { header: 'Resolution Notes', value: request => request.resolution_notes },
+  { header: 'Estimated Hours', value: request => request.estimated_hours },
+  { header: 'Actual Hours', value: request => request.actual_hours }
+];
+
+// Value for a datetime-local input, in the browser's time zone
+const toAppointmentInput = (value?: string) => (value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : '');
+
 export default function ServiceRequestPage() {
   const [requests, setRequests] = useState<ServiceRequest[]>([]);
   const [devices, setDevices] = useState<Device[]>([]);
+  const [technicianNames, setTechnicianNames] = useState<Map<string, string>>(new Map());
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
@@ -48,6 +77,7 @@ export default function ServiceRequestPage() {
   const [selectedRequest, setSelectedRequest] = useState<ServiceRequest | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showDetailsModal, setShowDetailsModal] = useState(false);
+  const [appointmentInput, setAppointmentInput] = useState('');
   const [createForm, setCreateForm] = useState<CreateServiceRequestForm>({
     device_id: '',
     title: '',
@@ -58,6 +88,7 @@ export default function ServiceRequestPage() {
   });
   const { toast } = useToast();
   const { user } = useAuthStore();
+  const [searchParams, setSearchParams] = useSearchParams();
 
   // Remove the db instance since we're using static methods
 
@@ -65,16 +96,48 @@ export default function ServiceRequestPage() {
     loadData();
   }, []);
 
+  // Deep links from the command palette and device pages: ?new=1&device_id=... or ?request=...
+  useEffect(() => {
+    if (loading || searchParams.toString() === '') return;
+
+    const deviceId = searchParams.get('device_id');
+    const requestId = searchParams.get('request');
+    if (searchParams.get('new')) {
+      setCreateForm(prev => ({
+        ...prev,
+        device_id: deviceId && devices.some(device => device._id === deviceId) ? deviceId : prev.device_id
+      }));
+      setShowCreateModal(true);
+    } else if (requestId) {
+      const request = requests.find(r => r._id === requestId);
+      if (request) {
+        setSelectedRequest(request);
+        setShowDetailsModal(true);
+      }
+    }
+    setSearchParams({}, { replace: true });
+  }, [loading, searchParams, devices, requests, setSearchParams]);
+
+  const enrichRequest = (request: DBServiceRequest, deviceNames: Map<string, string>): ServiceRequest => ({
+    ...request,
+    device_name: deviceNames.get(request.device_id) || 'Unknown Device',
+    status: mapServiceRequestStatus(request.request_status) as ServiceRequest['status']
+  });
+
   const loadData = async () => {
     try {
       setLoading(true);
-      const [serviceData, deviceData] = await Promise.all([
-        DatabaseService.getServiceRequests(),
-        DatabaseService.getDevices()
+      const [serviceData, deviceData, technicians] = await Promise.all([
+        DatabaseService.getAllServiceRequests(),
+        // Archived devices still own historical requests, so load them for name lookups
+        DatabaseService.getAllDevices({ includeArchived: true }),
+        technicianAssignmentService.getTechnicians()
       ]);
-      
-      setRequests(serviceData.items || []);
-      setDevices(deviceData.items || []);
+      setTechnicianNames(new Map(technicians.map(technician => [technician._id || '', getTechnicianName(technician)])));
+
+      const deviceNames = new Map(deviceData.map(device => [device._id || '', getAssemblyLabel(deviceData, device)]));
+      setRequests(serviceData.map(request => enrichRequest(request, deviceNames)));
+      setDevices(deviceData.filter(device => !isDeviceArchived(device)));
     } catch (error) {
       toast({
         title: "Error",
@@ -110,23 +173,15 @@ export default function ServiceRequestPage() {
         symptoms: createForm.title
       };
 
-      await DatabaseService.createServiceRequest(newRequest);
-      
-      // Send notification email for critical/high priority requests
-      if (createForm.priority === 'Critical' || createForm.priority === 'High') {
-        await EmailService.sendServiceRequestNotification(
-          'support@example.com',
-          'Support Team',
-          {
-            requestId: 'REQ-' + Date.now(),
-            deviceName: `${device.manufacturer} ${device.model}`,
-            priority: createForm.priority,
-            description: createForm.description,
-            reportedBy: 'Current User'
-          }
-        );
+      // New requests go to the least loaded qualified technician; they stay unassigned when nobody qualifies
+      const technician = await technicianAssignmentService.suggest(taskForServiceRequest(newRequest, device));
+      if (technician) {
+        newRequest.assigned_to = technician.technicianId;
       }
 
+      // Notifications for urgent requests go out from the service_request.created event
+      await DatabaseService.createServiceRequest(newRequest);
+
       await loadData();
       setShowCreateModal(false);
       setCreateForm({
@@ -140,7 +195,9 @@ export default function ServiceRequestPage() {
 
       toast({
         title: "Success",
-        description: "Service request created successfully"
+        description: technician
+          ? `Service request created and assigned to ${technician.name}`
+          : "Service request created. No qualified technician is available, so it is unassigned."
       });
     } catch (error) {
       toast({
@@ -154,7 +211,7 @@ export default function ServiceRequestPage() {
   const updateRequestStatus = async (requestId: string, status: string, resolutionNotes?: string) => {
     try {
       const updateData: any = {
-        status,
+        request_status: reverseMapServiceRequestStatus(status),
         updated_date: new Date().toISOString()
       };
 
@@ -165,23 +222,10 @@ export default function ServiceRequestPage() {
         }
       }
 
-      await DatabaseService.updateServiceRequest(requestId, user?.uid || '', updateData);
-      
-      // Send status update notification
       const request = requests.find(r => r._id === requestId);
-      if (request && status === 'resolved') {
-        await EmailService.sendMaintenanceCompletionNotification(
-          ['reporter@example.com'],
-          {
-            deviceName: request.device_name || 'Unknown Device',
-            maintenanceType: 'Service Request',
-            technicianName: 'Service Team',
-            completionDate: new Date().toISOString(),
-            status: 'Resolved',
-            summary: resolutionNotes || 'Service request resolved successfully'
-          }
-        );
-      }
+      await DatabaseService.updateServiceRequest(requestId, user?.uid || '', updateData, {
+        expectedRevision: getRevision(request)
+      });
 
       await loadData();
       setShowDetailsModal(false);
@@ -191,6 +235,16 @@ export default function ServiceRequestPage() {
         description: "Service request status updated"
       });
     } catch (error) {
+      if (isConcurrencyConflict(error)) {
+        toast({
+          title: "Request changed",
+          description: "Someone else updated this request. The latest version has been loaded.",
+          variant: "destructive"
+        });
+        setShowDetailsModal(false);
+        await loadData();
+        return;
+      }
       toast({
         title: "Error",
         description: "Failed to update service request",
@@ -199,14 +253,107 @@ export default function ServiceRequestPage() {
     }
   };
 
-  const filteredRequests = requests.filter(request => {
+  const autoAssignRequest = async (request: ServiceRequest) => {
+    try {
+      const technician = await technicianAssignmentService.assignServiceRequest(request, user?.uid || '');
+      if (!technician) {
+        toast({
+          title: "Error",
+          description: "No active technician is qualified and available for this request",
+          variant: "destructive"
+        });
+        return;
+      }
+      await loadData();
+      setShowDetailsModal(false);
+      toast({
+        title: "Success",
+        description: `Service request assigned to ${technician.name}`
+      });
+    } catch (error) {
+      if (isConcurrencyConflict(error)) {
+        toast({
+          title: "Request changed",
+          description: "Someone else updated this request. The latest version has been loaded.",
+          variant: "destructive"
+        });
+        setShowDetailsModal(false);
+        await loadData();
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to assign a technician",
+        variant: "destructive"
+      });
+    }
+  };
+
+  useEffect(() => {
+    setAppointmentInput(toAppointmentInput(selectedRequest?.appointment_at));
+  }, [selectedRequest]);
+
+  // Appointments appear in the assigned technician's calendar feed
+  const saveAppointment = async (request: ServiceRequest) => {
+    if (!request._id) return;
+    try {
+      await DatabaseService.updateServiceRequest(request._id, user?.uid || '', {
+        appointment_at: appointmentInput ? new Date(appointmentInput).toISOString() : ''
+      }, {
+        expectedRevision: getRevision(request)
+      });
+      await loadData();
+      setShowDetailsModal(false);
+      toast({
+        title: "Success",
+        description: appointmentInput ? "Appointment saved" : "Appointment removed"
+      });
+    } catch (error) {
+      if (isConcurrencyConflict(error)) {
+        toast({
+          title: "Request changed",
+          description: "Someone else updated this request. The latest version has been loaded.",
+          variant: "destructive"
+        });
+        setShowDetailsModal(false);
+        await loadData();
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to save the appointment",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const getAssigneeName = (request: ServiceRequest) =>
+    request.assigned_to ? technicianNames.get(request.assigned_to) || request.assigned_to : 'Unassigned';
+
+  const matchesFilters = (request: ServiceRequest) => {
     const matchesSearch = (request.title || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
                          (request.device_name || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
                          (request.description || '').toLowerCase().includes(searchTerm.toLowerCase());
     const matchesStatus = statusFilter === 'all' || request.status === statusFilter;
-    const matchesPriority = priorityFilter === 'all' || request.priority === priorityFilter;
+    const matchesPriority = priorityFilter === 'all' || request.priority.toLowerCase() === priorityFilter;
     return matchesSearch && matchesStatus && matchesPriority;
-  });
+  };
+
+  const filteredRequests = requests.filter(matchesFilters);
+
+  const handleExport = async (format: ExportFormat) => {
+    const deviceNames = await loadDeviceNames();
+    return exportRecords(
+      mapAsync(DatabaseService.iterateServiceRequests(), request => enrichRequest(request, deviceNames)),
+      { fileName: 'service-requests', format, columns: serviceRequestExportColumns, filter: matchesFilters }
+    );
+  };
+
+  const { page, pageCount, pageSize, pageItems, totalItems, setPage } = usePagination(filteredRequests, 10);
+
+  useEffect(() => {
+    setPage(1);
+  }, [searchTerm, statusFilter, priorityFilter, setPage]);
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -254,10 +401,13 @@ export default function ServiceRequestPage() {
           <h1 className="text-3xl font-bold text-medical-primary">Service Requests</h1>
           <p className="text-medical-text/70 mt-2">Manage equipment service tickets and repairs</p>
         </div>
-        <Button onClick={() => setShowCreateModal(true)}>
-          <Plus className="w-4 h-4 mr-2" />
-          Create Service Request
-        </Button>
+        <div className="flex gap-3">
+          <ExportMenu onExport={handleExport} />
+          <Button onClick={() => setShowCreateModal(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Create Service Request
+          </Button>
+        </div>
       </div>
 
       {/* Statistics Cards */}
@@ -382,7 +532,7 @@ export default function ServiceRequestPage() {
                 <p className="text-medical-text/70">No service requests found</p>
               </div>
             ) : (
-              filteredRequests.map((request) => (
+              pageItems.map((request) => (
                 <Card key={request._id} className="hover:shadow-md transition-shadow cursor-pointer"
                       onClick={() => {
                         setSelectedRequest(request);
@@ -404,6 +554,7 @@ export default function ServiceRequestPage() {
                         <div className="text-sm text-medical-text/70 space-y-1">
                           <p><strong>Device:</strong> {request.device_name}</p>
                           <p><strong>Category:</strong> {request.category ? request.category.replace('_', ' ').toUpperCase() : 'UNKNOWN'}</p>
+                          <p><strong>Assigned To:</strong> {getAssigneeName(request)}</p>
                           <p><strong>Reported:</strong> {request.created_date ? new Date(request.created_date).toLocaleDateString() : 'Not recorded'}</p>
                           <p><strong>Description:</strong> {request.description.substring(0, 100)}...</p>
                         </div>
@@ -429,6 +580,13 @@ export default function ServiceRequestPage() {
               ))
             )}
           </div>
+          <ListPagination
+            page={page}
+            pageCount={pageCount}
+            pageSize={pageSize}
+            totalItems={totalItems}
+            onPageChange={setPage}
+          />
         </CardContent>
       </Card>
 
@@ -452,7 +610,7 @@ export default function ServiceRequestPage() {
                 <SelectContent>
                   {devices.map((device) => (
                     <SelectItem key={device._id} value={device._id || ''}>
-                      {device.manufacturer} {device.model}
+                      {getAssemblyLabel(devices, device)}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -574,6 +732,10 @@ export default function ServiceRequestPage() {
                     <p className="text-sm font-medium text-medical-text/70">Category</p>
                     <p>{selectedRequest.category ? selectedRequest.category.replace('_', ' ').toUpperCase() : 'UNKNOWN'}</p>
                   </div>
+                  <div>
+                    <p className="text-sm font-medium text-medical-text/70">Assigned To</p>
+                    <p>{getAssigneeName(selectedRequest)}</p>
+                  </div>
                 </div>
                 
                 <div>
@@ -583,6 +745,27 @@ export default function ServiceRequestPage() {
                   </p>
                 </div>
 
+                {(selectedRequest.status === 'open' || selectedRequest.status === 'in_progress') && (
+                  <div>
+                    <Label htmlFor="request-appointment">On-site Appointment</Label>
+                    <div className="flex gap-2 mt-1">
+                      <Input
+                        id="request-appointment"
+                        type="datetime-local"
+                        value={appointmentInput}
+                        onChange={(e) => setAppointmentInput(e.target.value)}
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={() => saveAppointment(selectedRequest)}
+                        disabled={appointmentInput === toAppointmentInput(selectedRequest.appointment_at)}
+                      >
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
                 {selectedRequest.resolution_notes && (
                   <div>
                     <p className="text-sm font-medium text-medical-text/70 mb-2">Resolution Notes</p>
@@ -609,6 +792,11 @@ export default function ServiceRequestPage() {
                       Mark Resolved
                     </Button>
                   )}
+                  {(selectedRequest.status === 'open' || selectedRequest.status === 'in_progress') && (
+                    <Button variant="outline" onClick={() => autoAssignRequest(selectedRequest)}>
+                      {selectedRequest.assigned_to ? 'Reassign' : 'Auto-assign'}
+                    </Button>
+                  )}
                   {selectedRequest.status === 'resolved' && (
                     <Button 
                       onClick={() => selectedRequest._id && updateRequestStatus(selectedRequest._id, 'closed')}
@@ -0,0 +1,151 @@
+// Asset tag layouts, label payloads and scan resolution for device QR/barcode labels
+import { DatabaseService, Device } from './database';
+
+export type LabelLayoutId = 'avery_5160' | 'avery_5163' | 'thermal_2x1' | 'thermal_4x2';
+
+// Dimensions in inches; sheet layouts print a grid per page, roll layouts one label per page
+export interface LabelLayout {
+  id: LabelLayoutId;
+  name: string;
+  description: string;
+  kind: 'sheet' | 'roll';
+  pageWidth: number;
+  pageHeight: number;
+  labelWidth: number;
+  labelHeight: number;
+  columns: number;
+  rows: number;
+  marginTop: number;
+  marginLeft: number;
+  gapX: number;
+  gapY: number;
+  showBarcode: boolean; // Room for a Code 128 serial number barcode next to the QR code
+}
+
+export const LABEL_LAYOUTS: Record<LabelLayoutId, LabelLayout> = {
+  avery_5160: {
+    id: 'avery_5160',
+    name: 'Avery 5160 / 8160',
+    description: '30 per letter sheet, 2⅝" × 1"',
+    kind: 'sheet',
+    pageWidth: 8.5,
+    pageHeight: 11,
+    labelWidth: 2.625,
+    labelHeight: 1,
+    columns: 3,
+    rows: 10,
+    marginTop: 0.5,
+    marginLeft: 0.1875,
+    gapX: 0.125,
+    gapY: 0,
+    showBarcode: false
+  },
+  avery_5163: {
+    id: 'avery_5163',
+    name: 'Avery 5163 / 8163',
+    description: '10 per letter sheet, 4" × 2"',
+    kind: 'sheet',
+    pageWidth: 8.5,
+    pageHeight: 11,
+    labelWidth: 4,
+    labelHeight: 2,
+    columns: 2,
+    rows: 5,
+    marginTop: 0.5,
+    marginLeft: 0.15625,
+    gapX: 0.1875,
+    gapY: 0,
+    showBarcode: true
+  },
+  thermal_2x1: {
+    id: 'thermal_2x1',
+    name: 'Thermal 2" × 1"',
+    description: 'Roll labels for Zebra/Dymo-style printers',
+    kind: 'roll',
+    pageWidth: 2,
+    pageHeight: 1,
+    labelWidth: 2,
+    labelHeight: 1,
+    columns: 1,
+    rows: 1,
+    marginTop: 0,
+    marginLeft: 0,
+    gapX: 0,
+    gapY: 0,
+    showBarcode: false
+  },
+  thermal_4x2: {
+    id: 'thermal_4x2',
+    name: 'Thermal 4" × 2"',
+    description: 'Roll labels with a serial number barcode',
+    kind: 'roll',
+    pageWidth: 4,
+    pageHeight: 2,
+    labelWidth: 4,
+    labelHeight: 2,
+    columns: 1,
+    rows: 1,
+    marginTop: 0,
+    marginLeft: 0,
+    gapX: 0,
+    gapY: 0,
+    showBarcode: true
+  }
+};
+
+export interface ScannedCode {
+  raw: string;
+  deviceId?: string;
+  serialNumber?: string;
+}
+
+const DEVICE_PATH = /\/devices\/([^/?#]+)\/?$/;
+
+const normalizeSerial = (value: string) => value.trim().toUpperCase();
+
+// QR codes carry a device URL so phone cameras open the record directly; the ID and serial both ride along
+export const buildLabelPayload = (device: Pick<Device, '_id' | 'serial_number'>, origin: string = window.location.origin): string => {
+  const url = new URL(`/devices/${encodeURIComponent(device._id || '')}`, origin);
+  url.searchParams.set('serial', device.serial_number);
+  return url.toString();
+};
+
+// Accepts a label URL, a bare device ID or a serial number from a linear barcode
+export const parseScannedCode = (value: string): ScannedCode => {
+  const raw = value.trim();
+  try {
+    const url = new URL(raw);
+    const match = url.pathname.match(DEVICE_PATH);
+    if (match) {
+      return {
+        raw,
+        deviceId: decodeURIComponent(match[1]),
+        serialNumber: url.searchParams.get('serial') || undefined
+      };
+    }
+  } catch {
+    // Not a URL
+  }
+  return { raw };
+};
+
+class AssetLabelService {
+  // Scans may come from any facility, so the lookup ignores the current facility scope
+  async resolveScannedDevice(value: string): Promise<Device | null> {
+    const code = parseScannedCode(value);
+    if (!code.raw) return null;
+
+    if (code.deviceId) {
+      const device = await DatabaseService.getDeviceById(code.deviceId);
+      if (device) return device;
+    }
+
+    const serial = normalizeSerial(code.serialNumber || code.raw);
+    const devices = await DatabaseService.getAllDevices({ facilityIds: null, includeArchived: true });
+    return devices.find(device => normalizeSerial(device.serial_number || '') === serial)
+      || devices.find(device => device._id === code.raw)
+      || null;
+  }
+}
+
+export const assetLabelService = new AssetLabelService();
@@ -0,0 +1,281 @@
+// Document and photo attachments for devices, maintenance records and service requests.
+// Files live in a local blob store standing in for object storage until the backend provides one.
+export type AttachmentOwnerType = 'device' | 'maintenance_record' | 'service_request';
+
+export type AttachmentCategory = 'service_manual' | 'calibration_certificate' | 'photo' | 'invoice' | 'report' | 'other';
+
+export const ATTACHMENT_CATEGORY_LABELS: Record<AttachmentCategory, string> = {
+  service_manual: 'Service Manual',
+  calibration_certificate: 'Calibration Certificate',
+  photo: 'Photo',
+  invoice: 'Vendor Invoice',
+  report: 'Service Report',
+  other: 'Other'
+};
+
+export const ATTACHMENT_OWNER_LABELS: Record<AttachmentOwnerType, string> = {
+  device: 'Device',
+  maintenance_record: 'Maintenance',
+  service_request: 'Service Request'
+};
+
+export interface Attachment {
+  id: string;
+  ownerType: AttachmentOwnerType;
+  ownerId: string;
+  ownerKey: string; // `${ownerType}:${ownerId}`, indexed for per-record lists
+  deviceId: string; // Device the owner belongs to, so the device page can list every related file
+  fileName: string;
+  mimeType: string;
+  size: number;
+  category: AttachmentCategory;
+  description?: string;
+  thumbnail?: string; // Small JPEG data URL for images
+  uploadedBy: string;
+  uploadedAt: string;
+}
+
+export interface AttachmentOwner {
+  type: AttachmentOwnerType;
+  id: string;
+  deviceId: string;
+}
+
+export interface AttachmentUpload {
+  file: File;
+  category: AttachmentCategory;
+  description?: string;
+  uploadedBy: string;
+}
+
+const MB = 1024 * 1024;
+
+// Accepted types and their size ceilings; anything else is rejected before it is stored
+const ALLOWED_TYPES: Record<string, { maxBytes: number; extensions: string[] }> = {
+  'image/jpeg': { maxBytes: 10 * MB, extensions: ['jpg', 'jpeg'] },
+  'image/png': { maxBytes: 10 * MB, extensions: ['png'] },
+  'image/webp': { maxBytes: 10 * MB, extensions: ['webp'] },
+  'application/pdf': { maxBytes: 25 * MB, extensions: ['pdf'] },
+  'text/plain': { maxBytes: 5 * MB, extensions: ['txt', 'log'] },
+  'text/csv': { maxBytes: 5 * MB, extensions: ['csv'] },
+  'application/msword': { maxBytes: 25 * MB, extensions: ['doc'] },
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': { maxBytes: 25 * MB, extensions: ['docx'] },
+  'application/vnd.ms-excel': { maxBytes: 25 * MB, extensions: ['xls'] },
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': { maxBytes: 25 * MB, extensions: ['xlsx'] }
+};
+
+export const ATTACHMENT_ACCEPT = Object.entries(ALLOWED_TYPES)
+  .flatMap(([mimeType, { extensions }]) => [mimeType, ...extensions.map(extension => `.${extension}`)])
+  .join(',');
+
+const THUMBNAIL_SIZE = 160;
+
+export class AttachmentValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AttachmentValidationError';
+  }
+}
+
+export const isAttachmentValidationError = (error: unknown): error is AttachmentValidationError =>
+  error instanceof AttachmentValidationError;
+
+export const isImageAttachment = (attachment: Pick<Attachment, 'mimeType'>): boolean =>
+  attachment.mimeType.startsWith('image/');
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < MB) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / MB).toFixed(1)} MB`;
+};
+
+// Browsers leave File.type empty for some documents, so fall back to the extension
+const resolveMimeType = (file: File): string | undefined => {
+  if (file.type && ALLOWED_TYPES[file.type]) return file.type;
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  return Object.keys(ALLOWED_TYPES).find(mimeType => ALLOWED_TYPES[mimeType].extensions.includes(extension));
+};
+
+export const validateAttachmentFile = (file: File): string => {
+  const mimeType = resolveMimeType(file);
+  if (!mimeType) {
+    throw new AttachmentValidationError(`${file.name}: only images, PDFs, text and Office documents can be attached`);
+  }
+  if (file.size === 0) {
+    throw new AttachmentValidationError(`${file.name} is empty`);
+  }
+  const { maxBytes } = ALLOWED_TYPES[mimeType];
+  if (file.size > maxBytes) {
+    throw new AttachmentValidationError(`${file.name} is ${formatFileSize(file.size)}; the limit for this type is ${formatFileSize(maxBytes)}`);
+  }
+  return mimeType;
+};
+
+const createThumbnail = async (file: Blob): Promise<string | undefined> => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } catch (error) {
+    // A file the browser cannot decode is still stored, just without a preview
+    console.warn('Could not create attachment thumbnail:', error);
+    return undefined;
+  }
+};
+
+// Blob store stand-in: metadata and file contents kept side by side in the browser
+export interface AttachmentStore {
+  put(attachment: Attachment, blob: Blob): Promise<void>;
+  list(index: 'ownerKey' | 'deviceId', key: string): Promise<Attachment[]>;
+  getBlob(attachmentId: string): Promise<Blob | null>;
+  delete(attachmentId: string): Promise<void>;
+}
+
+class MemoryAttachmentStore implements AttachmentStore {
+  private files = new Map<string, { attachment: Attachment; blob: Blob }>();
+
+  async put(attachment: Attachment, blob: Blob): Promise<void> {
+    this.files.set(attachment.id, { attachment, blob });
+  }
+
+  async list(index: 'ownerKey' | 'deviceId', key: string): Promise<Attachment[]> {
+    return Array.from(this.files.values())
+      .map(entry => entry.attachment)
+      .filter(attachment => attachment[index] === key);
+  }
+
+  async getBlob(attachmentId: string): Promise<Blob | null> {
+    return this.files.get(attachmentId)?.blob || null;
+  }
+
+  async delete(attachmentId: string): Promise<void> {
+    this.files.delete(attachmentId);
+  }
+}
+
+const IDB_NAME = 'ophthalmotech-attachments';
+const IDB_VERSION = 1;
+const METADATA_STORE = 'attachments';
+const BLOB_STORE = 'blobs';
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+class IndexedDBAttachmentStore implements AttachmentStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  async put(attachment: Attachment, blob: Blob): Promise<void> {
+    const transaction = (await this.open()).transaction([METADATA_STORE, BLOB_STORE], 'readwrite');
+    transaction.objectStore(BLOB_STORE).put(blob, attachment.id);
+    transaction.objectStore(METADATA_STORE).put(attachment);
+    await this.complete(transaction);
+  }
+
+  async list(index: 'ownerKey' | 'deviceId', key: string): Promise<Attachment[]> {
+    const store = (await this.open()).transaction(METADATA_STORE, 'readonly').objectStore(METADATA_STORE);
+    return promisifyRequest(store.index(index).getAll(key));
+  }
+
+  async getBlob(attachmentId: string): Promise<Blob | null> {
+    const store = (await this.open()).transaction(BLOB_STORE, 'readonly').objectStore(BLOB_STORE);
+    return (await promisifyRequest(store.get(attachmentId))) || null;
+  }
+
+  async delete(attachmentId: string): Promise<void> {
+    const transaction = (await this.open()).transaction([METADATA_STORE, BLOB_STORE], 'readwrite');
+    transaction.objectStore(BLOB_STORE).delete(attachmentId);
+    transaction.objectStore(METADATA_STORE).delete(attachmentId);
+    await this.complete(transaction);
+  }
+
+  private complete(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(IDB_NAME, IDB_VERSION);
+        request.onupgradeneeded = () => {
+          const metadata = request.result.createObjectStore(METADATA_STORE, { keyPath: 'id' });
+          metadata.createIndex('ownerKey', 'ownerKey');
+          metadata.createIndex('deviceId', 'deviceId');
+          request.result.createObjectStore(BLOB_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+}
+
+const byNewest = (a: Attachment, b: Attachment) => b.uploadedAt.localeCompare(a.uploadedAt);
+
+class AttachmentService {
+  private store: AttachmentStore = typeof indexedDB !== 'undefined'
+    ? new IndexedDBAttachmentStore()
+    : new MemoryAttachmentStore();
+
+  // Rejects with AttachmentValidationError for unsupported types, empty files and files over the size limit
+  async upload(owner: AttachmentOwner, { file, category, description, uploadedBy }: AttachmentUpload): Promise<Attachment> {
+    const mimeType = validateAttachmentFile(file);
+    const attachment: Attachment = {
+      id: `attachment-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      ownerType: owner.type,
+      ownerId: owner.id,
+      ownerKey: `${owner.type}:${owner.id}`,
+      deviceId: owner.deviceId,
+      fileName: file.name,
+      mimeType,
+      size: file.size,
+      category,
+      description: description?.trim() || undefined,
+      thumbnail: mimeType.startsWith('image/') ? await createThumbnail(file) : undefined,
+      uploadedBy,
+      uploadedAt: new Date().toISOString()
+    };
+
+    await this.store.put(attachment, file);
+    return attachment;
+  }
+
+  async getAttachments(ownerType: AttachmentOwnerType, ownerId: string): Promise<Attachment[]> {
+    return (await this.store.list('ownerKey', `${ownerType}:${ownerId}`)).sort(byNewest);
+  }
+
+  // The device's own files plus those on its maintenance records and service requests
+  async getDeviceAttachments(deviceId: string): Promise<Attachment[]> {
+    return (await this.store.list('deviceId', deviceId)).sort(byNewest);
+  }
+
+  async getBlob(attachmentId: string): Promise<Blob | null> {
+    return this.store.getBlob(attachmentId);
+  }
+
+  async deleteAttachment(attachmentId: string): Promise<void> {
+    await this.store.delete(attachmentId);
+  }
+
+  async deleteOwnerAttachments(ownerType: AttachmentOwnerType, ownerId: string): Promise<void> {
+    const attachments = await this.getAttachments(ownerType, ownerId);
+    await Promise.all(attachments.map(attachment => this.store.delete(attachment.id)));
+  }
+}
+
+export const attachmentService = new AttachmentService();
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useAuthStore } from '@/store/auth-store';
+import { calendarFeedServer, calendarFeedService, maintenanceEventUid } from './calendar-feed';
+import { DatabaseService, isPermissionDenied } from './database';
+import { installQaSeed } from './seed-data';
+
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+  removeItem: (key: string) => storage.delete(key)
+});
+
+const signInAs = (email: string) => useAuthStore.setState({
+  user: { projectId: 'qa', uid: email, name: email, email, createdTime: 0, lastLoginTime: 0 },
+  isAuthenticated: true
+});
+
+const FUNDUS_EVENT = maintenanceEventUid('qa-maintenance-fundus-open');
+
+const fetchFeed = (url: string) => calendarFeedServer.fetch(new Request(url));
+
+describe('calendarFeedService', () => {
+  beforeEach(() => {
+    storage.clear();
+    installQaSeed();
+    DatabaseService.setFacilityScope(null);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2026, 4, 1));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('lets technicians export only their own calendar', async () => {
+    signInAs('qa.technician@example.com');
+    expect(await calendarFeedService.buildCalendar({ type: 'technician', id: 'qa-technician' })).toContain(FUNDUS_EVENT);
+
+    signInAs('qa.operator@example.com');
+    await expect(calendarFeedService.buildCalendar({ type: 'technician', id: 'qa-technician' })).rejects.toSatisfy(isPermissionDenied);
+  });
+
+  it('keeps exports inside the facility selection', async () => {
+    signInAs('qa.admin@example.com');
+    DatabaseService.setFacilityScope(['facility-002']);
+
+    await expect(calendarFeedService.buildCalendar({ type: 'facility', id: 'facility-001' })).rejects.toSatisfy(isPermissionDenied);
+    await expect(calendarFeedService.buildCalendar({ type: 'device', id: 'qa-device-fundus' })).rejects.toSatisfy(isPermissionDenied);
+    expect(await calendarFeedService.buildCalendar({ type: 'technician', id: 'qa-technician' })).not.toContain(FUNDUS_EVENT);
+  });
+
+  it('serves signed feed links until the owner resets them', async () => {
+    signInAs('qa.technician@example.com');
+    const url = await calendarFeedService.createFeedUrl({ type: 'technician', id: 'qa-technician' }, 'https://cmms.example');
+
+    const response = await fetchFeed(url);
+    expect(response.status).toBe(200);
+    const body = await response.text();
+    expect(body).toContain(FUNDUS_EVENT);
+    expect(body).toContain('REFRESH-INTERVAL;VALUE=DURATION:PT1H');
+
+    expect((await fetchFeed(url.replace('technician%3Aqa-technician', 'technician%3Aqa-admin'))).status).toBe(403);
+
+    calendarFeedService.resetFeedKey('qa-technician');
+    expect((await fetchFeed(url)).status).toBe(403);
+  });
+
+  it("checks the link owner's permissions when a feed is served, not the signed-in user's", async () => {
+    signInAs('qa.admin@example.com');
+    const url = await calendarFeedService.createFeedUrl({ type: 'technician', id: 'qa-technician' }, 'https://cmms.example');
+
+    signInAs('qa.operator@example.com');
+    expect((await fetchFeed(url)).status).toBe(200);
+
+    await DatabaseService.updateUserProfile('qa-admin', 'qa-admin', { role: 'Operator' });
+    signInAs('qa.technician@example.com');
+    expect((await fetchFeed(url)).status).toBe(403);
+  });
+
+  it('keeps feeds inside the facility selection the link was created under', async () => {
+    signInAs('qa.admin@example.com');
+    DatabaseService.setFacilityScope(['facility-002']);
+    const url = await calendarFeedService.createFeedUrl({ type: 'technician', id: 'qa-technician' }, 'https://cmms.example');
+    await expect(calendarFeedService.createFeedUrl({ type: 'device', id: 'qa-device-fundus' }, 'https://cmms.example'))
+      .rejects.toSatisfy(isPermissionDenied);
+
+    DatabaseService.setFacilityScope(null);
+    expect(await (await fetchFeed(url)).text()).not.toContain(FUNDUS_EVENT);
+    expect((await fetchFeed(url.replace('facilities=facility-002', 'facilities=facility-001'))).status).toBe(403);
+  });
+});
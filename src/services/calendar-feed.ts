@@ -0,0 +1,411 @@
+// Scheduled maintenance and service appointments as iCalendar (RFC 5545) exports and subscription feeds, per
+// technician, facility or device. Event UIDs derive from record IDs, so a re-export or feed refresh updates events in
+// place; subscription URLs are HMAC-signed with a per-user key that can be reset to revoke them. Both only cover what
+// the user can see: the facilities they had selected, and other technicians' calendars only for admins and managers.
+import { addDays, addMinutes } from 'date-fns';
+import { ICalEvent, serializeCalendar } from '@/lib/icalendar';
+import {
+  DatabaseService,
+  Device,
+  FacilityScopeOption,
+  MaintenanceRecord,
+  PermissionDeniedError,
+  ServiceRequest,
+  UserProfile,
+  isCancelledMaintenance,
+  isCompletedMaintenance,
+  isOpenMaintenance,
+  isPermissionDenied,
+  isUnassignedMaintenance
+} from './database';
+import { getRevision } from './concurrency';
+import { getAssemblyLabel } from './device-hierarchy';
+import { HealthcareFacility, facilityManagementService } from './facility-management';
+import { DEFAULT_TASK_HOURS, getTechnicianName, technicianAssignmentService } from './technician-assignment';
+import { VersionedStore, missingStringField } from './versioned-storage';
+
+export type CalendarFeedScopeType = 'technician' | 'facility' | 'device';
+
+export interface CalendarFeedScope {
+  type: CalendarFeedScopeType;
+  id: string;
+}
+
+export const CALENDAR_FEED_SCOPE_LABELS: Record<CalendarFeedScopeType, string> = {
+  technician: 'Technician',
+  facility: 'Facility',
+  device: 'Device'
+};
+
+// Whose permissions a calendar is built with: the signed-in user for exports, the link's owner for feeds
+export interface CalendarViewer {
+  profile: UserProfile | null;
+  facilityIds: string[] | null; // null means every facility
+}
+
+export const CALENDAR_FEED_PATH = '/feeds/calendar.ics';
+
+const PROD_ID = '-//OphthalmoTech//Maintenance Calendar//EN';
+const UID_DOMAIN = 'ophthalmotech';
+const REFRESH_INTERVAL = 'PT1H';
+// Completed work stays visible for a while so calendars keep a short history
+const FEED_HISTORY_DAYS = 90;
+
+interface FeedKey {
+  userId: string; // User profile ID
+  secret: string; // Hex-encoded HMAC-SHA256 key
+  createdAt: string;
+}
+
+// Held by the feed server in production; the local stand-in keeps the keys in the browser
+const feedKeyStore = new VersionedStore<FeedKey>({
+  key: 'calendar-feed-keys',
+  label: 'Calendar feed keys',
+  validate: key => missingStringField(key, 'userId', 'secret', 'createdAt')
+});
+
+const encoder = new TextEncoder();
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  Array.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const hmac = async (secret: string, payload: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(payload)));
+};
+
+// Compares every character so the time taken does not reveal how much of a forged signature matched
+const constantTimeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let index = 0; index < a.length; index++) {
+    difference |= a.charCodeAt(index) ^ b.charCodeAt(index);
+  }
+  return difference === 0;
+};
+
+export const formatFeedScope = (scope: CalendarFeedScope): string => `${scope.type}:${scope.id}`;
+
+export const parseFeedScope = (value: string | null): CalendarFeedScope | null => {
+  const match = /^(technician|facility|device):(.+)$/.exec(value || '');
+  return match ? { type: match[1] as CalendarFeedScopeType, id: match[2] } : null;
+};
+
+// Comma-separated facility IDs; absent means every facility
+const formatFeedFacilities = (facilityIds: string[] | null) => facilityIds ? [...facilityIds].sort().join(',') : '';
+
+const parseFeedFacilities = (value: string | null): string[] | null => value ? value.split(',').filter(Boolean) : null;
+
+export const maintenanceEventUid = (recordId: string) => `maintenance-${recordId}@${UID_DOMAIN}`;
+
+export const appointmentEventUid = (requestId: string) => `service-request-${requestId}@${UID_DOMAIN}`;
+
+// Generated preventive maintenance is due on a day rather than at a time
+const isLocalMidnight = (date: Date) => date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0;
+
+interface EventContext {
+  devices: Map<string, Device>;
+  deviceList: Device[];
+  facilities: HealthcareFacility[];
+  technicianNames: Map<string, string>;
+  baseUrl?: string;
+}
+
+const describeDevice = (deviceId: string, context: EventContext) => {
+  const device = context.devices.get(deviceId);
+  if (!device) return { label: 'Unknown Device', location: undefined, serial: undefined };
+  const facility = context.facilities.find(f => f.id === device.facility_id);
+  return {
+    label: getAssemblyLabel(context.deviceList, device),
+    location: [facility?.name, device.location].filter(Boolean).join(' - ') || undefined,
+    serial: device.serial_number
+  };
+};
+
+const deviceUrl = (deviceId: string, context: EventContext) =>
+  context.baseUrl ? `${context.baseUrl}/devices/${deviceId}` : undefined;
+
+const maintenanceEvent = (record: MaintenanceRecord & { _id: string }, context: EventContext): ICalEvent => {
+  const device = describeDevice(record.device_id, context);
+  const start = new Date(record.maintenance_date);
+  const allDay = isLocalMidnight(start);
+  const hours = record.duration_hours || DEFAULT_TASK_HOURS;
+  const technician = isUnassignedMaintenance(record)
+    ? 'Unassigned'
+    : context.technicianNames.get(record.technician_id) || record.technician_name;
+
+  return {
+    uid: maintenanceEventUid(record._id),
+    sequence: getRevision(record),
+    start,
+    end: allDay ? undefined : addMinutes(start, hours * 60),
+    allDay,
+    summary: `${record.maintenance_type.replace(/_/g, ' ')}: ${device.label}`,
+    description: [
+      record.description,
+      `Technician: ${technician}`,
+      `Estimated duration: ${hours} h`,
+      device.serial && `Serial number: ${device.serial}`,
+      isCompletedMaintenance(record) && 'Completed',
+      record.notes
+    ].filter(Boolean).join('\n'),
+    location: device.location,
+    // Unassigned work may still move to someone else's calendar
+    status: isCancelledMaintenance(record)
+      ? 'CANCELLED'
+      : isUnassignedMaintenance(record) && isOpenMaintenance(record) ? 'TENTATIVE' : 'CONFIRMED',
+    categories: ['Maintenance', record.maintenance_type.replace(/_/g, ' ')],
+    url: deviceUrl(record.device_id, context)
+  };
+};
+
+// Cancelled requests stay in the calendar as cancelled events, so imported copies are cancelled too
+const appointmentEvent = (request: ServiceRequest & { _id: string; appointment_at: string }, context: EventContext): ICalEvent => {
+  const device = describeDevice(request.device_id, context);
+  const start = new Date(request.appointment_at);
+  const hours = request.estimated_hours || DEFAULT_TASK_HOURS;
+
+  return {
+    uid: appointmentEventUid(request._id),
+    sequence: getRevision(request),
+    start,
+    end: addMinutes(start, hours * 60),
+    summary: `Service: ${request.issue_type.replace(/_/g, ' ')} - ${device.label}`,
+    description: [
+      request.description,
+      `Priority: ${request.priority}`,
+      `Status: ${request.request_status.replace(/_/g, ' ')}`,
+      `Technician: ${request.assigned_to ? context.technicianNames.get(request.assigned_to) || request.assigned_to : 'Unassigned'}`,
+      request.reported_by && `Reported by: ${request.reported_by}`,
+      device.serial && `Serial number: ${device.serial}`
+    ].filter(Boolean).join('\n'),
+    location: device.location,
+    status: request.request_status === 'Cancelled' ? 'CANCELLED' : 'CONFIRMED',
+    categories: ['Service Request', request.priority],
+    url: deviceUrl(request.device_id, context)
+  };
+};
+
+const hasId = <T extends { _id?: string }>(item: T): item is T & { _id: string } => Boolean(item._id);
+
+class CalendarFeedService {
+  // Rejects with PermissionDeniedError when the scope is outside what the viewer (by default the signed-in user) can see
+  async buildCalendar(
+    scope: CalendarFeedScope,
+    options: { baseUrl?: string; viewer?: CalendarViewer } = {}
+  ): Promise<string> {
+    const viewer = options.viewer || await this.getSessionViewer();
+    // Archived devices still own historical records, so they are kept for name lookups
+    const [deviceList, facilities, technicians] = await Promise.all([
+      DatabaseService.getAllDevices({ facilityIds: viewer.facilityIds, includeArchived: true }),
+      facilityManagementService.getFacilities(),
+      technicianAssignmentService.getTechnicians()
+    ]);
+    this.assertCanExport(scope, viewer, deviceList);
+    const [records, requests] = await Promise.all([
+      this.loadMaintenance(scope, viewer.facilityIds),
+      this.loadServiceRequests(scope, viewer.facilityIds)
+    ]);
+
+    const context: EventContext = {
+      devices: new Map(deviceList.map(device => [device._id || '', device])),
+      deviceList,
+      facilities,
+      technicianNames: new Map(technicians.map(technician => [technician._id || '', getTechnicianName(technician)])),
+      baseUrl: options.baseUrl
+    };
+    const since = addDays(new Date(), -FEED_HISTORY_DAYS);
+
+    const events = [
+      ...records
+        .filter(hasId)
+        .filter(record => new Date(record.maintenance_date) >= since)
+        .map(record => maintenanceEvent(record, context)),
+      ...requests
+        .filter(hasId)
+        .filter((request): request is typeof request & { appointment_at: string } =>
+          Boolean(request.appointment_at) && new Date(request.appointment_at!) >= since)
+        .map(request => appointmentEvent(request, context))
+    ].sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    return serializeCalendar({
+      prodId: PROD_ID,
+      name: `Maintenance - ${this.describeScope(scope, context)}`,
+      description: 'Scheduled maintenance and service appointments',
+      refreshInterval: REFRESH_INTERVAL,
+      events
+    });
+  }
+
+  getFileName(scope: CalendarFeedScope): string {
+    return `maintenance-${scope.type}-${scope.id}.ics`.replace(/[^\w.-]+/g, '-');
+  }
+
+  // Anyone holding the URL can read the calendar until the user resets their feed key. The link carries the
+  // facility selection it was created under, and the server re-checks the owner's role on every request
+  async createFeedUrl(scope: CalendarFeedScope, baseUrl: string = window.location.origin): Promise<string> {
+    const viewer = await this.getSessionViewer();
+    if (!viewer.profile?._id) {
+      throw new PermissionDeniedError('Subscription links need an active user profile');
+    }
+    this.assertCanExport(scope, viewer, await DatabaseService.getAllDevices({ facilityIds: viewer.facilityIds }));
+
+    const userId = viewer.profile._id;
+    const facilities = formatFeedFacilities(viewer.facilityIds);
+    const signature = await hmac(this.getFeedKey(userId).secret, this.signedPayload(userId, scope, facilities));
+    const params = new URLSearchParams({ user: userId, scope: formatFeedScope(scope) });
+    if (facilities) params.set('facilities', facilities);
+    params.set('sig', signature);
+    return `${baseUrl}${CALENDAR_FEED_PATH}?${params.toString()}`;
+  }
+
+  async verifySignature(userId: string, scope: CalendarFeedScope, facilities: string, signature: string): Promise<boolean> {
+    const key = feedKeyStore.load().find(entry => entry.userId === userId);
+    if (!key) return false;
+    return constantTimeEqual(await hmac(key.secret, this.signedPayload(userId, scope, facilities)), signature.toLowerCase());
+  }
+
+  // Invalidates every feed URL the user has handed out
+  resetFeedKey(userId: string): void {
+    feedKeyStore.save([...feedKeyStore.load().filter(entry => entry.userId !== userId), this.generateKey(userId)]);
+  }
+
+  // Technicians may export their own calendar; facility and device calendars follow the facility selection
+  canExportTechnician(profile: UserProfile | null, technicianId: string): boolean {
+    return profile?.role === 'Admin' || profile?.role === 'Manager' || (Boolean(profile?._id) && profile?._id === technicianId);
+  }
+
+  private async getSessionViewer(): Promise<CalendarViewer> {
+    return { profile: await DatabaseService.getCurrentUserProfile(), facilityIds: DatabaseService.getFacilityScope() };
+  }
+
+  private assertCanExport(scope: CalendarFeedScope, viewer: CalendarViewer, visibleDevices: Device[]): void {
+    switch (scope.type) {
+      case 'technician':
+        if (!this.canExportTechnician(viewer.profile, scope.id)) {
+          throw new PermissionDeniedError("Only administrators and managers can export another technician's calendar");
+        }
+        return;
+      case 'facility':
+        if (viewer.facilityIds && !viewer.facilityIds.includes(scope.id)) {
+          throw new PermissionDeniedError('This facility is outside your current facility selection');
+        }
+        return;
+      case 'device':
+        if (!visibleDevices.some(device => device._id === scope.id)) {
+          throw new PermissionDeniedError('This device is outside your current facility selection');
+        }
+    }
+  }
+
+  private getFeedKey(userId: string): FeedKey {
+    const existing = feedKeyStore.load().find(entry => entry.userId === userId);
+    if (existing) return existing;
+    const key = this.generateKey(userId);
+    feedKeyStore.save([...feedKeyStore.load(), key]);
+    return key;
+  }
+
+  private generateKey(userId: string): FeedKey {
+    return {
+      userId,
+      secret: toHex(crypto.getRandomValues(new Uint8Array(32))),
+      createdAt: new Date().toISOString()
+    };
+  }
+
+  private signedPayload(userId: string, scope: CalendarFeedScope, facilities: string) {
+    return `${userId}\n${formatFeedScope(scope)}\n${facilities}`;
+  }
+
+  private describeScope(scope: CalendarFeedScope, context: EventContext): string {
+    switch (scope.type) {
+      case 'technician':
+        return context.technicianNames.get(scope.id) || 'Technician';
+      case 'facility':
+        return context.facilities.find(facility => facility.id === scope.id)?.name || 'Facility';
+      case 'device':
+        return describeDevice(scope.id, context).label;
+    }
+  }
+
+  private loadMaintenance(scope: CalendarFeedScope, facilityIds: FacilityScopeOption): Promise<MaintenanceRecord[]> {
+    switch (scope.type) {
+      case 'technician':
+        return DatabaseService.getAllMaintenanceRecords({ technicianId: scope.id, facilityIds });
+      case 'facility':
+        return DatabaseService.getAllMaintenanceRecords({ facilityIds: [scope.id] });
+      case 'device':
+        return DatabaseService.getAllMaintenanceRecords({ deviceId: scope.id, facilityIds });
+    }
+  }
+
+  private loadServiceRequests(scope: CalendarFeedScope, facilityIds: FacilityScopeOption): Promise<ServiceRequest[]> {
+    switch (scope.type) {
+      case 'technician':
+        return DatabaseService.getAllServiceRequests({ assignedTo: scope.id, facilityIds });
+      case 'facility':
+        return DatabaseService.getAllServiceRequests({ facilityIds: [scope.id] });
+      case 'device':
+        return DatabaseService.getAllServiceRequests({ deviceId: scope.id, facilityIds });
+    }
+  }
+}
+
+export const calendarFeedService = new CalendarFeedService();
+
+// Local stand-in for the server route that hosts feeds. It takes a standard Fetch API Request and answers with a
+// Response, so the same handler can be mounted in a service worker or edge function once the backend has one.
+// Nobody is signed in when a calendar app polls, so permissions are those of the link's owner
+class CalendarFeedServer {
+  async fetch(request: Request): Promise<Response> {
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      return new Response('Method not allowed', { status: 405, headers: { Allow: 'GET, HEAD' } });
+    }
+
+    const url = new URL(request.url);
+    if (url.pathname !== CALENDAR_FEED_PATH) {
+      return new Response('Not found', { status: 404 });
+    }
+
+    const userId = url.searchParams.get('user');
+    const scope = parseFeedScope(url.searchParams.get('scope'));
+    const facilities = url.searchParams.get('facilities') || '';
+    const signature = url.searchParams.get('sig');
+    if (!userId || !scope || !signature) {
+      return new Response('Missing user, scope or signature', { status: 400 });
+    }
+    if (!(await calendarFeedService.verifySignature(userId, scope, facilities, signature))) {
+      return new Response('Invalid or revoked feed link', { status: 403 });
+    }
+
+    const profile = await DatabaseService.getUserProfileById(userId);
+    if (profile?.active !== 'true') {
+      return new Response('The owner of this feed link no longer has access', { status: 403 });
+    }
+
+    let body: string;
+    try {
+      body = await calendarFeedService.buildCalendar(scope, {
+        baseUrl: url.origin,
+        viewer: { profile, facilityIds: parseFeedFacilities(facilities) }
+      });
+    } catch (error) {
+      if (isPermissionDenied(error)) {
+        return new Response(error.message, { status: 403 });
+      }
+      throw error;
+    }
+
+    return new Response(request.method === 'HEAD' ? null : body, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `inline; filename="${calendarFeedService.getFileName(scope)}"`,
+        'Cache-Control': 'private, max-age=900'
+      }
+    });
+  }
+}
+
+export const calendarFeedServer = new CalendarFeedServer();
@@ -0,0 +1,123 @@
+// Structured calibration results: as-found and as-left readings against a reference standard, judged against the
+// device type's tolerance bands. An out-of-tolerance as-found result opens a review service request.
+import { format } from 'date-fns';
+import type { MaintenanceRecord, ServiceRequest } from './database';
+import { CalibrationPointDefinition, deviceTypeRegistry } from './device-types';
+
+export type CalibrationVerdict = 'pass' | 'fail';
+
+export interface CalibrationReading {
+  pointId: string;
+  label: string;
+  nominal: number;
+  unit: string;
+  tolerance: number; // Copied from the device type so the record keeps the band it was judged against
+  asFound?: number;
+  asLeft?: number; // Entered only when the device was adjusted
+}
+
+export interface CalibrationResult {
+  referenceStandardId: string;
+  referenceCertificate: string;
+  referenceCertificateExpiry?: string; // yyyy-MM-dd
+  readings: CalibrationReading[];
+  adjusted: boolean;
+  asFoundInTolerance: boolean;
+  verdict: CalibrationVerdict; // Judged on the as-left reading where one was taken
+  calibratedAt: string;
+}
+
+export type CalibrationInput = Pick<CalibrationResult, 'referenceStandardId' | 'referenceCertificate' | 'referenceCertificateExpiry' | 'readings'>;
+
+export const CALIBRATION_VERDICT_LABELS: Record<CalibrationVerdict, string> = {
+  pass: 'Pass',
+  fail: 'Fail'
+};
+
+export class CalibrationValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CalibrationValidationError';
+  }
+}
+
+export const isCalibrationValidationError = (error: unknown): error is CalibrationValidationError =>
+  error instanceof CalibrationValidationError;
+
+// Rounding in the reading inputs must not push a value on the band's edge out of tolerance
+const EPSILON = 1e-9;
+
+const NO_CALIBRATION_POINTS: CalibrationPointDefinition[] = [];
+
+// Returns a stable array so callers can use it as a hook dependency
+export const getCalibrationPoints = (deviceType: string | undefined): CalibrationPointDefinition[] =>
+  deviceTypeRegistry.get(deviceTypeRegistry.resolve(deviceType || ''))?.calibrationPoints || NO_CALIBRATION_POINTS;
+
+export const createCalibrationReadings = (points: CalibrationPointDefinition[]): CalibrationReading[] =>
+  points.map(({ id, label, nominal, unit, tolerance }) => ({ pointId: id, label, nominal, unit, tolerance }));
+
+export const isWithinTolerance = (reading: Pick<CalibrationReading, 'nominal' | 'tolerance'>, value: number): boolean =>
+  Math.abs(value - reading.nominal) <= reading.tolerance + EPSILON;
+
+export const formatToleranceBand = (reading: Pick<CalibrationReading, 'nominal' | 'tolerance' | 'unit'>): string =>
+  `${reading.nominal} ± ${reading.tolerance} ${reading.unit}`;
+
+// Rejects with CalibrationValidationError for a missing or expired reference standard and missing as-found readings
+export const evaluateCalibration = (input: CalibrationInput, calibratedAt: Date = new Date()): CalibrationResult => {
+  const referenceStandardId = input.referenceStandardId.trim();
+  const referenceCertificate = input.referenceCertificate.trim();
+  if (!referenceStandardId) {
+    throw new CalibrationValidationError('Enter the reference standard ID');
+  }
+  if (!referenceCertificate) {
+    throw new CalibrationValidationError('Enter the reference standard certificate number');
+  }
+  if (input.referenceCertificateExpiry && input.referenceCertificateExpiry < format(calibratedAt, 'yyyy-MM-dd')) {
+    throw new CalibrationValidationError(`The certificate for ${referenceStandardId} expired on ${input.referenceCertificateExpiry}`);
+  }
+  if (input.readings.length === 0) {
+    throw new CalibrationValidationError('This device type has no calibration points');
+  }
+  const missing = input.readings.find(reading => reading.asFound === undefined);
+  if (missing) {
+    throw new CalibrationValidationError(`Enter the as-found reading for ${missing.label}`);
+  }
+
+  const asFoundInTolerance = input.readings.every(reading => isWithinTolerance(reading, reading.asFound!));
+  const asLeftInTolerance = input.readings.every(reading => isWithinTolerance(reading, reading.asLeft ?? reading.asFound!));
+  return {
+    referenceStandardId,
+    referenceCertificate,
+    referenceCertificateExpiry: input.referenceCertificateExpiry || undefined,
+    readings: input.readings,
+    adjusted: input.readings.some(reading => reading.asLeft !== undefined),
+    asFoundInTolerance,
+    verdict: asLeftInTolerance ? 'pass' : 'fail',
+    calibratedAt: calibratedAt.toISOString()
+  };
+};
+
+// Results measured with the device since its last good calibration may be wrong, so someone has to assess the impact
+export const buildCalibrationReviewRequest = (
+  record: MaintenanceRecord,
+  recordId: string,
+  calibration: CalibrationResult
+): Omit<ServiceRequest, '_id' | '_uid' | '_tid' | 'created_at' | 'updated_at'> => {
+  const outOfTolerance = calibration.readings
+    .filter(reading => !isWithinTolerance(reading, reading.asFound!))
+    .map(reading => `${reading.label}: as found ${reading.asFound} ${reading.unit} (expected ${formatToleranceBand(reading)})`);
+
+  return {
+    device_id: record.device_id,
+    facility_id: record.facility_id,
+    request_status: 'Open',
+    priority: calibration.verdict === 'fail' ? 'Critical' : 'High',
+    issue_type: 'Calibration_Needed',
+    description: `Calibration review: as-found readings were out of tolerance on ${format(new Date(calibration.calibratedAt), 'yyyy-MM-dd')}. ` +
+      `Assess the impact on measurements taken since the previous calibration. ` +
+      (calibration.verdict === 'fail' ? 'The device is still out of tolerance. ' : 'The device was adjusted back into tolerance. ') +
+      `Reference standard ${calibration.referenceStandardId} (certificate ${calibration.referenceCertificate}), maintenance record ${recordId}.`,
+    symptoms: outOfTolerance.join('\n'),
+    reported_by: record.technician_name
+  };
+};
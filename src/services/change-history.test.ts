@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { changeHistoryService } from './change-history';
+import { DatabaseService } from './database';
+import { domainEvents } from './domain-events';
+import { installQaSeed } from './seed-data';
+
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+  removeItem: (key: string) => storage.delete(key)
+});
+
+describe('changeHistoryService', () => {
+  beforeEach(() => {
+    storage.clear();
+    installQaSeed();
+  });
+
+  it('records device creates against the new device id', async () => {
+    const unsubscribe = domainEvents.on('device.created', ({ payload }) =>
+      changeHistoryService.recordCreate('device', payload.deviceId, payload.device));
+
+    const deviceId = await DatabaseService.createDevice({
+      manufacturer: 'Zeiss',
+      model: 'Humphrey HFA3',
+      serial_number: 'VF-1',
+      device_type: 'Visual_Field',
+      location: 'Room 4',
+      status: 'Operational'
+    });
+    unsubscribe();
+    await vi.waitFor(async () => expect(await changeHistoryService.getEntries({ deviceId })).toHaveLength(1));
+
+    const [entry] = await changeHistoryService.getEntries({ deviceId });
+    expect(entry).toMatchObject({ entityType: 'device', entityId: deviceId, action: 'create' });
+    expect(entry.changes).toContainEqual({ field: 'model', before: undefined, after: 'Humphrey HFA3' });
+  });
+
+  it('lists a device timeline newest first, including related records', async () => {
+    await changeHistoryService.recordUpdate('device', 'qa-device-oct', { location: 'Room 1' }, { location: 'Room 2' });
+    await changeHistoryService.recordUpdate('maintenance_record', 'qa-maintenance-oct-done', { notes: '' }, { notes: 'Done' }, {
+      deviceId: 'qa-device-oct'
+    });
+    await changeHistoryService.recordUpdate('device', 'qa-device-fundus', { location: 'A' }, { location: 'B' });
+
+    const timeline = await changeHistoryService.getEntries({ deviceId: 'qa-device-oct' });
+    expect(timeline.map(entry => entry.entityType).sort()).toEqual(['device', 'maintenance_record']);
+    expect(timeline[0].changedAt >= timeline[1].changedAt).toBe(true);
+
+    const deviceOnly = await changeHistoryService.getEntries({ entityType: 'device', entityId: 'qa-device-oct' });
+    expect(deviceOnly).toHaveLength(1);
+  });
+
+  it('moves history recorded in localStorage into the table once', async () => {
+    storage.set('change-history', JSON.stringify([{
+      id: 'legacy-1',
+      entityType: 'device',
+      entityId: 'qa-device-tonometer',
+      deviceId: 'qa-device-tonometer',
+      action: 'update',
+      changes: [{ field: 'location', before: 'A', after: 'B' }],
+      changedBy: 'someone',
+      changedAt: '2025-06-01T10:00:00.000Z'
+    }]));
+
+    // The migration runs once per session, so load a fresh module graph
+    vi.resetModules();
+    (await import('./seed-data')).installQaSeed();
+    const { changeHistoryService: freshService } = await import('./change-history');
+    const entries = await freshService.getEntries({ deviceId: 'qa-device-tonometer' });
+    expect(entries.map(entry => entry.id)).toEqual(['legacy-1']);
+    expect(storage.has('change-history')).toBe(false);
+  });
+});
@@ -0,0 +1,194 @@
+// Field-level change history for DatabaseService mutations, kept in the shared change_history table
+import { useAuthStore } from '@/store/auth-store';
+import { TABLE_IDS } from './database';
+import { createItemId, getTableAdapter, isItemExists } from './table-storage';
+import { VersionedStore, missingStringField } from './versioned-storage';
+
+export type ChangeEntityType = 'device' | 'maintenance_record' | 'service_request' | 'user_profile';
+
+export type ChangeAction = 'create' | 'update' | 'delete';
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ChangeHistoryEntry {
+  id: string;
+  entityType: ChangeEntityType;
+  entityId?: string; // Missing only on creates recorded before record IDs were assigned client-side
+  deviceId?: string; // Device the change belongs to, so device timelines include related records
+  entityKey?: string; // entityType:entityId, the key entity timelines are queried by
+  action: ChangeAction;
+  changes: FieldChange[];
+  changedBy: string;
+  changedByName?: string;
+  changedAt: string;
+  revision?: number;
+}
+
+export interface ChangeContext {
+  userId?: string;
+  deviceId?: string;
+  revision?: number;
+}
+
+// Where history lived before the change_history table; moved into the table on first use
+const legacyHistoryStore = new VersionedStore<ChangeHistoryEntry>({
+  key: 'change-history',
+  label: 'Change history',
+  validate: item => missingStringField(item, 'id', 'entityType', 'action', 'changedBy', 'changedAt')
+    || (!Array.isArray(item.changes) ? 'Missing field changes' : null)
+});
+
+const PAGE_SIZE = 100;
+
+// Bookkeeping fields that change on every write and carry no audit value
+const IGNORED_FIELDS = new Set(['_id', '_uid', '_tid', 'revision', 'updated_at']);
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === '';
+
+const sameValue = (a: unknown, b: unknown): boolean =>
+  (isEmpty(a) && isEmpty(b)) || JSON.stringify(a) === JSON.stringify(b);
+
+const entityKey = (entityType: ChangeEntityType, entityId: string) => `${entityType}:${entityId}`;
+
+export const diffRecords = (before: object, after: object): FieldChange[] => {
+  const previous = before as Record<string, unknown>;
+  return Object.entries(after)
+    .filter(([field, value]) => !IGNORED_FIELDS.has(field) && !sameValue(previous[field], value))
+    .map(([field, value]) => ({ field, before: previous[field], after: value }));
+};
+
+class ChangeHistoryService {
+  private legacyMigration: Promise<void> | null = null;
+
+  recordCreate(entityType: ChangeEntityType, entityId: string, record: object, context: ChangeContext = {}): Promise<void> {
+    return this.append({
+      entityType,
+      entityId,
+      action: 'create',
+      changes: diffRecords({}, record),
+      context
+    });
+  }
+
+  recordUpdate(entityType: ChangeEntityType, entityId: string, before: object, updates: object, context: ChangeContext = {}): Promise<void> {
+    const changes = diffRecords(before, updates);
+    if (changes.length === 0) return Promise.resolve();
+
+    return this.append({ entityType, entityId, action: 'update', changes, context });
+  }
+
+  recordDelete(entityType: ChangeEntityType, entityId: string, before: object, context: ChangeContext = {}): Promise<void> {
+    const changes = Object.entries(before)
+      .filter(([field, value]) => !IGNORED_FIELDS.has(field) && !isEmpty(value))
+      .map(([field, value]) => ({ field, before: value, after: undefined }));
+
+    return this.append({ entityType, entityId, action: 'delete', changes, context });
+  }
+
+  // Newest first. A device timeline (deviceId) also includes the device's maintenance and service records
+  async getEntries(filter: {
+    entityType?: ChangeEntityType;
+    entityId?: string;
+    deviceId?: string;
+    limit?: number;
+  } = {}): Promise<ChangeHistoryEntry[]> {
+    await this.migrateLegacyEntries();
+
+    const query: Record<string, string> = {};
+    if (filter.entityType && filter.entityId) {
+      query.entityKey = entityKey(filter.entityType, filter.entityId);
+    } else if (filter.entityType) {
+      query.entityType = filter.entityType;
+    }
+    if (filter.deviceId) {
+      query.deviceId = filter.deviceId;
+    }
+
+    const entries: ChangeHistoryEntry[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await getTableAdapter().getItems(TABLE_IDS.change_history, {
+        query: Object.keys(query).length > 0 ? query : undefined,
+        sort: 'changedAt',
+        order: 'desc',
+        limit: PAGE_SIZE,
+        cursor
+      });
+      entries.push(...page.items as ChangeHistoryEntry[]);
+      cursor = page.nextCursor;
+    } while (cursor && (!filter.limit || entries.length < filter.limit));
+
+    return filter.limit ? entries.slice(0, filter.limit) : entries;
+  }
+
+  // Private helper methods
+  private async append({ entityType, entityId, action, changes, context }: {
+    entityType: ChangeEntityType;
+    entityId: string;
+    action: ChangeAction;
+    changes: FieldChange[];
+    context: ChangeContext;
+  }): Promise<void> {
+    const actor = this.resolveActor(context.userId);
+    const entry: ChangeHistoryEntry = {
+      id: createItemId(),
+      entityType,
+      entityId,
+      entityKey: entityKey(entityType, entityId),
+      deviceId: context.deviceId ?? (entityType === 'device' ? entityId : undefined),
+      action,
+      changes,
+      changedBy: actor.id,
+      changedByName: actor.name,
+      changedAt: new Date().toISOString(),
+      revision: context.revision
+    };
+
+    // History must never block the write it describes
+    try {
+      await getTableAdapter().addItem(TABLE_IDS.change_history, { ...entry, _id: entry.id });
+    } catch (error) {
+      console.error('Failed to record change history:', error);
+    }
+  }
+
+  // Copies history recorded in this browser before the table existed, then drops the local copy
+  private migrateLegacyEntries(): Promise<void> {
+    if (!this.legacyMigration) {
+      this.legacyMigration = (async () => {
+        const legacy = legacyHistoryStore.load();
+        for (const entry of legacy) {
+          try {
+            await getTableAdapter().addItem(TABLE_IDS.change_history, {
+              ...entry,
+              _id: entry.id,
+              entityKey: entry.entityId ? entityKey(entry.entityType, entry.entityId) : undefined
+            });
+          } catch (error) {
+            // Copied by an earlier attempt that failed part-way
+            if (!isItemExists(error)) throw error;
+          }
+        }
+        if (legacy.length > 0) legacyHistoryStore.clear();
+      })().catch(error => {
+        this.legacyMigration = null;
+        console.error('Failed to move local change history into the shared table:', error);
+      });
+    }
+    return this.legacyMigration;
+  }
+
+  private resolveActor(userId?: string): { id: string; name?: string } {
+    const user = useAuthStore.getState().user;
+    if (user && (!userId || user.uid === userId)) {
+      return { id: user.uid, name: user.name || user.email };
+    }
+    return { id: userId || 'system' };
+  }
+}
+
+export const changeHistoryService = new ChangeHistoryService();
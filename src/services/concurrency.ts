@@ -0,0 +1,96 @@
+// Optimistic concurrency control for versioned table records
+
+export type VersionedEntity = 'device' | 'maintenance_record' | 'service_request';
+
+export interface Versioned {
+  revision?: number;
+}
+
+export interface UpdateOptions {
+  // Revision the caller last read; the write is rejected if the stored record has moved on
+  expectedRevision?: number;
+}
+
+const entityLabels: Record<VersionedEntity, string> = {
+  device: 'Device',
+  maintenance_record: 'Maintenance record',
+  service_request: 'Service request'
+};
+
+// Records written before revisions existed count as revision 0
+export const getRevision = (record: Versioned | null | undefined): number => record?.revision ?? 0;
+
+export class ConcurrencyConflictError<T extends Versioned = Versioned> extends Error {
+  readonly entity: VersionedEntity;
+  readonly recordId: string;
+  readonly expectedRevision: number;
+  readonly current: T;
+
+  constructor(entity: VersionedEntity, recordId: string, expectedRevision: number, current: T) {
+    super(`${entityLabels[entity]} ${recordId} was changed by someone else (expected revision ${expectedRevision}, found ${getRevision(current)})`);
+    this.name = 'ConcurrencyConflictError';
+    this.entity = entity;
+    this.recordId = recordId;
+    this.expectedRevision = expectedRevision;
+    this.current = current;
+  }
+}
+
+export const isConcurrencyConflict = <T extends Versioned = Versioned>(error: unknown): error is ConcurrencyConflictError<T> =>
+  error instanceof ConcurrencyConflictError;
+
+export const assertRevision = <T extends Versioned>(
+  entity: VersionedEntity,
+  recordId: string,
+  current: T,
+  expectedRevision?: number
+): void => {
+  if (expectedRevision !== undefined && getRevision(current) !== expectedRevision) {
+    throw new ConcurrencyConflictError(entity, recordId, expectedRevision, current);
+  }
+};
+
+// Empty strings and missing values are treated alike so untouched form fields don't register as edits
+const sameValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a ?? '') === JSON.stringify(b ?? '');
+
+export interface MergeField {
+  key: string;
+  base: unknown;
+  mine: unknown;
+  theirs: unknown;
+  changedByMe: boolean;
+  changedByThem: boolean;
+  conflicting: boolean;
+}
+
+// Three-way comparison of the record the editor loaded, the pending edits and the latest stored record
+export const compareForMerge = (base: object, mine: object, theirs: object): MergeField[] => {
+  const field = (record: object, key: string) => (record as Record<string, unknown>)[key];
+  return Object.keys(mine).map(key => {
+    const changedByMe = !sameValue(field(mine, key), field(base, key));
+    const changedByThem = !sameValue(field(theirs, key), field(base, key));
+    return {
+      key,
+      base: field(base, key),
+      mine: field(mine, key),
+      theirs: field(theirs, key),
+      changedByMe,
+      changedByThem,
+      conflicting: changedByMe && changedByThem && !sameValue(field(mine, key), field(theirs, key))
+    };
+  });
+};
+
+// Builds the update to re-apply on top of the latest record: my edits win unless a conflicting field was resolved to theirs
+export const buildMergedUpdate = (
+  fields: MergeField[],
+  keepMine: Record<string, boolean>
+): Record<string, unknown> =>
+  fields.reduce((update, field) => {
+    const useMine = field.conflicting ? keepMine[field.key] : field.changedByMe;
+    if (useMine) {
+      update[field.key] = field.mine;
+    }
+    return update;
+  }, {} as Record<string, unknown>);
@@ -0,0 +1,68 @@
+// Saved Report Builder layouts, kept in localStorage until reports move to the table service
+import { VersionedStore, missingStringField } from './versioned-storage';
+
+export type ReportCategory = 'devices' | 'maintenance' | 'service' | 'compliance' | 'custom';
+
+export interface SavedReport {
+  id: string;
+  name: string;
+  description: string;
+  components: unknown[]; // Builder component definitions, owned by ReportBuilder
+  layout: string[];
+  createdAt: string;
+  updatedAt: string;
+  category: ReportCategory;
+  tags: string[];
+}
+
+const REPORT_CATEGORIES: ReportCategory[] = ['devices', 'maintenance', 'service', 'compliance', 'custom'];
+
+const reportStore = new VersionedStore<SavedReport>({
+  key: 'custom-reports',
+  label: 'Custom reports',
+  migrations: [
+    {
+      // The builder originally saved reports without a category or tags, which the saved-reports list expects
+      version: 2,
+      description: 'default category and tags',
+      migrate: report => ({
+        ...report,
+        description: typeof report.description === 'string' ? report.description : '',
+        category: REPORT_CATEGORIES.includes(report.category as ReportCategory) ? report.category : 'custom',
+        tags: Array.isArray(report.tags) ? report.tags : []
+      })
+    }
+  ],
+  validate: report => missingStringField(report, 'id', 'name', 'createdAt')
+    || (!Array.isArray(report.components) ? 'Missing component list' : null)
+    || (!Array.isArray(report.layout) ? 'Missing layout' : null)
+    || (!REPORT_CATEGORIES.includes(report.category as ReportCategory) ? `Unknown category "${report.category}"` : null)
+});
+
+class CustomReportService {
+  getReports(): SavedReport[] {
+    return reportStore.load();
+  }
+
+  saveReport(report: Omit<SavedReport, 'category' | 'tags'> & Partial<Pick<SavedReport, 'category' | 'tags'>>): SavedReport {
+    const saved: SavedReport = { category: 'custom', tags: [], ...report };
+    reportStore.save([...this.getReports().filter(existing => existing.id !== saved.id), saved]);
+    return saved;
+  }
+
+  duplicateReport(report: SavedReport): SavedReport {
+    return this.saveReport({
+      ...report,
+      id: `report-${Date.now()}`,
+      name: `${report.name} (Copy)`,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    });
+  }
+
+  deleteReport(reportId: string): void {
+    reportStore.save(this.getReports().filter(report => report.id !== reportId));
+  }
+}
+
+export const customReportService = new CustomReportService();
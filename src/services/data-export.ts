@@ -0,0 +1,127 @@
+// Filtered exports to CSV, XLSX and JSON, streamed page by page from DatabaseService iterators
+import ExcelJS from 'exceljs';
+import { format as formatDate } from 'date-fns';
+import { DatabaseService, Device } from './database';
+import { getAssemblyLabel } from './device-hierarchy';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+  json: 'JSON'
+};
+
+export type ExportValue = string | number | boolean | null | undefined;
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (item: T) => ExportValue;
+}
+
+export interface ExportOptions<T> {
+  fileName: string; // Without extension - the format and a date stamp are appended
+  format: ExportFormat;
+  columns: ExportColumn<T>[];
+  filter?: (item: T) => boolean;
+  onProgress?: (exported: number) => void;
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json'
+};
+
+// Rows are buffered into blob parts in chunks so large exports never become one giant string
+const CHUNK_SIZE = 500;
+
+const escapeCsv = (value: ExportValue): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const getDeviceDisplayName = (device: Pick<Device, 'manufacturer' | 'model'>): string =>
+  `${device.manufacturer} ${device.model}`;
+
+// Device id -> display name (components include their assembly), archived devices included since they still own historical records
+export async function loadDeviceNames(): Promise<Map<string, string>> {
+  const devices = await DatabaseService.getAllDevices({ includeArchived: true });
+  return new Map(devices.map(device => [device._id || '', getAssemblyLabel(devices, device)]));
+}
+
+// Lets a page enrich raw rows (UI status, device names) before they are filtered and written
+export async function* mapAsync<T, R>(source: AsyncIterable<T>, map: (item: T) => R): AsyncGenerator<R> {
+  for await (const item of source) yield map(item);
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// Walks every page of the source, keeps the items the filter accepts and downloads the file; returns the row count
+export async function exportRecords<T>(source: AsyncIterable<T>, options: ExportOptions<T>): Promise<number> {
+  const { columns, format, filter, onProgress } = options;
+  const parts: BlobPart[] = [];
+  const rows: ExportValue[][] = [];
+  let chunk: string[] = [];
+  let count = 0;
+
+  const flush = () => {
+    if (chunk.length === 0) return;
+    parts.push(chunk.join(''));
+    chunk = [];
+  };
+
+  if (format === 'csv') {
+    // BOM so Excel opens UTF-8 text correctly
+    chunk.push('\uFEFF' + columns.map(column => escapeCsv(column.header)).join(',') + '\r\n');
+  } else if (format === 'json') {
+    chunk.push('[');
+  } else {
+    rows.push(columns.map(column => column.header));
+  }
+
+  for await (const item of source) {
+    if (filter && !filter(item)) continue;
+    const values = columns.map(column => column.value(item));
+
+    if (format === 'csv') {
+      chunk.push(values.map(escapeCsv).join(',') + '\r\n');
+    } else if (format === 'json') {
+      const entry = Object.fromEntries(columns.map((column, index) => [column.header, values[index] ?? null]));
+      chunk.push((count > 0 ? ',\n' : '\n') + JSON.stringify(entry));
+    } else {
+      rows.push(values.map(value => value ?? ''));
+    }
+
+    count++;
+    if (count % CHUNK_SIZE === 0) {
+      flush();
+      onProgress?.(count);
+    }
+  }
+
+  let blob: Blob;
+  if (format === 'xlsx') {
+    const workbook = new ExcelJS.Workbook();
+    workbook.addWorksheet('Export').addRows(rows);
+    blob = new Blob([await workbook.xlsx.writeBuffer()], { type: MIME_TYPES.xlsx });
+  } else {
+    if (format === 'json') chunk.push(count > 0 ? '\n]\n' : ']\n');
+    flush();
+    blob = new Blob(parts, { type: MIME_TYPES[format] });
+  }
+
+  onProgress?.(count);
+  downloadBlob(blob, `${options.fileName}-${formatDate(new Date(), 'yyyy-MM-dd')}.${format}`);
+  return count;
+}
@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { useAuthStore } from '@/store/auth-store';
+import { DatabaseService, TABLE_IDS, describeArchiveResult, isPermissionDenied } from './database';
+import { isConcurrencyConflict } from './concurrency';
+import { MemoryTableAdapter, setTableAdapter } from './table-storage';
+import { installQaSeed } from './seed-data';
+
+const REQUEST_ID = 'qa-request-fundus';
+
+describe('DatabaseService revision checks', () => {
+  let adapter: MemoryTableAdapter;
+
+  beforeEach(() => {
+    adapter = installQaSeed();
+    DatabaseService.setFacilityScope(null);
+  });
+
+  it('lets only one of two writers holding the same revision through', async () => {
+    const results = await Promise.allSettled([
+      DatabaseService.updateServiceRequest(REQUEST_ID, 'first', { resolution_notes: 'first' }, { expectedRevision: 1 }),
+      DatabaseService.updateServiceRequest(REQUEST_ID, 'second', { resolution_notes: 'second' }, { expectedRevision: 1 })
+    ]);
+
+    const rejected = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    expect(rejected).toHaveLength(1);
+    expect(isConcurrencyConflict(rejected[0].reason)).toBe(true);
+
+    const stored = await DatabaseService.getServiceRequestById(REQUEST_ID);
+    expect(stored?.revision).toBe(2);
+    expect(stored?.resolution_notes).toBe(results[0].status === 'fulfilled' ? 'first' : 'second');
+  });
+
+  it('applies concurrent unpinned writes one after the other', async () => {
+    await Promise.all([
+      DatabaseService.updateServiceRequest(REQUEST_ID, 'first', { estimated_hours: 3 }),
+      DatabaseService.updateServiceRequest(REQUEST_ID, 'second', { actual_hours: 1 })
+    ]);
+
+    const stored = await DatabaseService.getServiceRequestById(REQUEST_ID);
+    expect(stored).toMatchObject({ estimated_hours: 3, actual_hours: 1, revision: 3 });
+  });
+
+  it('rejects a write against a revision that has moved on', async () => {
+    await adapter.updateItem(TABLE_IDS.service_requests, { _id: REQUEST_ID, revision: 5 });
+
+    await expect(
+      DatabaseService.updateServiceRequest(REQUEST_ID, 'user', { priority: 'Low' }, { expectedRevision: 1 })
+    ).rejects.toSatisfy(isConcurrencyConflict);
+  });
+
+  it('reads through whichever adapter is installed', async () => {
+    setTableAdapter(new MemoryTableAdapter());
+    expect(await DatabaseService.getServiceRequestById(REQUEST_ID)).toBeNull();
+  });
+});
+
+describe('DatabaseService facility scope', () => {
+  it('keeps devices without a facility visible in every facility scope', async () => {
+    await installQaSeed().addItem(TABLE_IDS.devices, { _id: 'legacy-device', manufacturer: 'Topcon', model: 'CT-1', status: 'Operational' });
+    DatabaseService.setFacilityScope(['facility-002']);
+
+    const ids = (await DatabaseService.getAllDevices()).map(device => device._id).sort();
+    expect(ids).toEqual(['legacy-device', 'qa-device-tonometer']);
+  });
+
+  it('fills each page with devices from the selected facilities', async () => {
+    const adapter = new MemoryTableAdapter();
+    setTableAdapter(adapter);
+    for (let index = 0; index < 9; index++) {
+      await adapter.addItem(TABLE_IDS.devices, { _id: `device-${index}`, facility_id: index % 3 === 0 ? 'facility-001' : 'facility-002' });
+    }
+    DatabaseService.setFacilityScope(['facility-001']);
+
+    const first = await DatabaseService.getDevices({ limit: 2 });
+    expect(first.items.map(device => device._id)).toEqual(['device-6', 'device-3']);
+    const second = await DatabaseService.getDevices({ limit: 2, cursor: first.nextCursor });
+    expect(second.items.map(device => device._id)).toEqual(['device-0']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+});
+
+const signInAs = (email: string) => useAuthStore.setState({
+  user: { projectId: 'qa', uid: email, name: email, email, createdTime: 0, lastLoginTime: 0 },
+  isAuthenticated: true
+});
+
+describe('DatabaseService archiving', () => {
+  beforeEach(() => {
+    installQaSeed();
+    DatabaseService.setFacilityScope(null);
+  });
+
+  it('cancels the open maintenance and service requests of an archived device', async () => {
+    const result = await DatabaseService.archiveDevice('qa-device-fundus', 'qa-admin', 'Replaced');
+    expect(result).toEqual({ cancelledMaintenance: 1, cancelledRequests: 1, openMaintenanceIds: [], openRequestIds: [] });
+
+    const record = await DatabaseService.getMaintenanceRecordById('qa-maintenance-fundus-open');
+    expect(record?.after_status).toBe('cancelled');
+    const request = await DatabaseService.getServiceRequestById(REQUEST_ID);
+    expect(request?.request_status).toBe('Cancelled');
+  });
+
+  it('archives the device and reports open work it could not cancel', async () => {
+    vi.spyOn(DatabaseService, 'updateServiceRequest').mockRejectedValueOnce(new Error('offline'));
+
+    const result = await DatabaseService.archiveDevice('qa-device-fundus', 'qa-admin', 'Replaced');
+    vi.restoreAllMocks();
+
+    expect(result).toEqual({ cancelledMaintenance: 1, cancelledRequests: 0, openMaintenanceIds: [], openRequestIds: [REQUEST_ID] });
+    expect(describeArchiveResult(result)).toContain(`Could not cancel 1 open service request, still open: ${REQUEST_ID}`);
+    expect((await DatabaseService.getDeviceById('qa-device-fundus'))?.archived_at).toBeTruthy();
+    expect((await DatabaseService.getServiceRequestById(REQUEST_ID))?.request_status).not.toBe('Cancelled');
+  });
+
+  it('only lets admins restore an archived device', async () => {
+    await DatabaseService.archiveDevice('qa-device-fundus', 'qa-admin', 'Replaced');
+
+    signInAs('qa.operator@example.com');
+    await expect(DatabaseService.restoreDevice('qa-device-fundus', 'qa-operator')).rejects.toSatisfy(isPermissionDenied);
+
+    signInAs('QA.Admin@example.com');
+    await DatabaseService.restoreDevice('qa-device-fundus', 'qa-admin');
+    expect((await DatabaseService.getDeviceById('qa-device-fundus'))?.archived_at).toBe('');
+  });
+});
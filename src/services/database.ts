@@ -1,11 +1,40 @@
-import { table } from '@devvai/devv-code-backend';
+import { createItemId, getTableAdapter, isConditionFailed } from './table-storage';
+import type { GetItemsOptions } from '@devvai/devv-code-backend';
+import { useAuthStore } from '@/store/auth-store';
+import { assertRevision, getRevision, UpdateOptions } from './concurrency';
+import { domainEvents } from './domain-events';
+import {
+  assertInitialStatus,
+  assertStatusTransition,
+  DeviceStatusReason,
+  DeviceStatusTransitionError,
+  isOpenServiceRequest,
+  requiresServiceRequest
+} from './device-lifecycle';
+import type { DeviceAttributes, DeviceTypeId } from './device-types';
+import { assertValidParent, DeviceHierarchyError } from './device-hierarchy';
+import { assertChecklistComplete, getRecordChecklist, MaintenanceChecklist } from './maintenance-checklist';
+import type { CalibrationResult } from './calibration';
+import type { AppliedPartType, ProtectionClass } from './electrical-safety';
 
 // Table IDs from the database
 export const TABLE_IDS = {
   devices: 'ew7zywz879j4',
   maintenance_records: 'ew7zzcjafi80', 
   service_requests: 'ew7zzt9dyl1c',
-  user_profiles: 'ew8006ogbocg'
+  user_profiles: 'ew8006ogbocg',
+  // Placeholders until the hosted table service provisions these tables; the remote backend keeps them in the
+  // browser meanwhile (UNPROVISIONED_TABLE_IDS in table-storage.ts)
+  // Audit trail - see change-history.ts
+  change_history: 'change_history',
+  // Preventive maintenance schedules - see pm-schedule.ts
+  pm_schedules: 'pm_schedules',
+  // IEC 62353 test results - see electrical-safety.ts
+  safety_tests: 'safety_tests',
+  // Technician leave - see technician-assignment.ts
+  technician_time_off: 'technician_time_off',
+  // Daily job claims - see scheduled-jobs.ts
+  job_runs: 'job_runs'
 } as const;
 
 // Type definitions
@@ -16,12 +45,35 @@ export interface Device {
   manufacturer: string;
   model: string;
   serial_number: string;
-  device_type: 'OCT' | 'Fundus_Camera' | 'Visual_Field' | 'Tonometer' | 'Slit_Lamp' | 'Autorefractor' | 'Keratometer';
-  location: string;
+  device_type: DeviceTypeId; // Registered in device-types.ts
+  facility_id?: string; // HealthcareFacility the device belongs to - see facility-management.ts
+  location: string; // Room or department within the facility
   status: 'Operational' | 'Maintenance_Required' | 'Under_Maintenance' | 'Out_of_Service';
   last_maintenance?: string;
   next_maintenance?: string;
   created_at: string;
+  revision?: number; // Optimistic concurrency token, bumped on every update
+  attributes?: DeviceAttributes; // Type-specific fields defined by the device-type registry
+  parent_device_id?: string; // Set on components of an assembly - see device-hierarchy.ts
+  // Unique Device Identifier from the manufacturer's label - see udi.ts
+  udi?: string;
+  udi_device_identifier?: string; // GTIN or HIBCC labeler + product code
+  lot_number?: string;
+  manufacture_date?: string;
+  expiration_date?: string;
+  // Electrical classification used for IEC 62353 safety tests - see electrical-safety.ts
+  protection_class?: ProtectionClass | '';
+  applied_part?: AppliedPartType | '';
+  // Last status transition - see device-lifecycle.ts for the allowed moves and reason codes
+  status_reason?: DeviceStatusReason | '';
+  status_note?: string;
+  status_service_request_id?: string;
+  status_changed_at?: string;
+  status_changed_by?: string;
+  // Soft delete - archived devices are hidden from active lists but keep their history
+  archived_at?: string;
+  archived_by?: string;
+  archive_reason?: string;
   // Additional fields for UI compatibility
   name?: string;
   notes?: string;
@@ -36,6 +88,7 @@ export interface MaintenanceRecord {
   _uid?: string;
   _tid?: string;
   device_id: string;
+  facility_id?: string; // Copied from the device when the record is created
   maintenance_type: 'Preventive' | 'Corrective' | 'Calibration' | 'Inspection' | 'Emergency_Repair';
   maintenance_date: string;
   technician_id: string;
@@ -48,6 +101,16 @@ export interface MaintenanceRecord {
   after_status: string;
   notes?: string;
   next_maintenance_due?: string;
+  completed_at?: string;
+  // Set on occurrences generated from a preventive maintenance schedule - see pm-schedule.ts
+  pm_schedule_id?: string;
+  pm_template_id?: string;
+  pm_due_date?: string; // yyyy-MM-dd the occurrence was generated for
+  checklist?: MaintenanceChecklist; // Step results recorded against the template checklist
+  calibration?: CalibrationResult; // Readings against a reference standard, on Calibration records
+  is_safety_test?: boolean; // Occurrence created for the device's next electrical safety test
+  safety_test_id?: string; // Test that completed the occurrence
+  revision?: number; // Optimistic concurrency token, bumped on every update
 }
 
 export interface ServiceRequest {
@@ -55,6 +118,7 @@ export interface ServiceRequest {
   _uid?: string;
   _tid?: string;
   device_id: string;
+  facility_id?: string; // Copied from the device when the request is created
   request_status: 'Open' | 'In_Progress' | 'Resolved' | 'Closed' | 'Cancelled';
   priority: 'Critical' | 'High' | 'Medium' | 'Low';
   issue_type: 'Hardware_Failure' | 'Software_Issue' | 'Calibration_Needed' | 'Image_Quality' | 'Connectivity' | 'User_Error';
@@ -69,6 +133,9 @@ export interface ServiceRequest {
   resolution_notes?: string;
   estimated_hours?: number;
   actual_hours?: number;
+  appointment_at?: string; // On-site visit agreed with the department, published to technician calendars
+  estimated_completion?: string; // When the assigned technician expects to finish, set from the request workflow
+  revision?: number; // Optimistic concurrency token, bumped on every update
 }
 
 export interface UserProfile {
@@ -81,19 +148,83 @@ export interface UserProfile {
   department: 'Ophthalmology' | 'Biomedical_Engineering' | 'IT' | 'Administration';
   phone?: string;
   employee_id?: string;
-  certifications?: string;
+  certifications?: string; // Comma-separated, e.g. "Laser Safety, Electrical Safety, Zeiss OCT"
   permissions?: string;
+  facility_id?: string; // Home facility for workload balancing; technicians without one cover every facility
+  weekly_capacity_hours?: number; // Bookable hours in a full working week, 40 when unset
   created_at: string;
   last_login?: string;
   active: string;
 }
 
+// Generated occurrences carry this placeholder until a planner or the workload balancer picks a technician
+export const UNASSIGNED_TECHNICIAN_ID = 'auto-001';
+
+export const isUnassignedMaintenance = (record: Pick<MaintenanceRecord, 'technician_id'>): boolean =>
+  !record.technician_id || record.technician_id === UNASSIGNED_TECHNICIAN_ID;
+
+export const isDeviceArchived = (device: Pick<Device, 'archived_at'>): boolean => Boolean(device.archived_at);
+
+// Records from before facilities existed; they show up in every facility scope
+export const isUnassignedFacility = (record: { facility_id?: string }): boolean => !record.facility_id;
+
+// Maintenance pages store completion as after_status 'completed' (or 'done' on older records)
+export const isCompletedMaintenance = (record: Pick<MaintenanceRecord, 'after_status'>): boolean =>
+  ['completed', 'done'].includes((record.after_status || '').toLowerCase());
+
+export const CANCELLED_MAINTENANCE_STATUS = 'cancelled';
+
+// Archiving a device cancels its outstanding work
+export const isCancelledMaintenance = (record: Pick<MaintenanceRecord, 'after_status'>): boolean =>
+  (record.after_status || '').toLowerCase() === CANCELLED_MAINTENANCE_STATUS;
+
+export const isOpenMaintenance = (record: Pick<MaintenanceRecord, 'after_status'>): boolean =>
+  !isCompletedMaintenance(record) && !isCancelledMaintenance(record);
+
+export class PermissionDeniedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+export const isPermissionDenied = (error: unknown): error is PermissionDeniedError =>
+  error instanceof PermissionDeniedError;
+
+export interface ArchiveDeviceResult {
+  cancelledMaintenance: number;
+  cancelledRequests: number;
+  // Open work whose cancellation failed; the device stays archived and these need closing by hand
+  openMaintenanceIds: string[];
+  openRequestIds: string[];
+}
+
+export const hasOpenWorkLeft = (result: ArchiveDeviceResult): boolean =>
+  result.openMaintenanceIds.length > 0 || result.openRequestIds.length > 0;
+
+const describeWork = (maintenance: number, requests: number) => [
+  maintenance > 0 && `${maintenance} open maintenance record${maintenance === 1 ? '' : 's'}`,
+  requests > 0 && `${requests} open service request${requests === 1 ? '' : 's'}`
+].filter(Boolean).join(' and ');
+
+export const describeArchiveResult = (result: ArchiveDeviceResult): string => {
+  const cancelled = describeWork(result.cancelledMaintenance, result.cancelledRequests);
+  const message = cancelled ? `Device archived; ${cancelled} cancelled` : 'Device archived successfully';
+  if (!hasOpenWorkLeft(result)) {
+    return message;
+  }
+  const ids = [...result.openMaintenanceIds, ...result.openRequestIds].join(', ');
+  return `${message}. Could not cancel ${describeWork(result.openMaintenanceIds.length, result.openRequestIds.length)}, ` +
+    `still open: ${ids}`;
+};
+
 // Status mapping utilities
+// One UI status per device status so reverseMapDeviceStatus(mapDeviceStatus(s)) === s
 export const mapDeviceStatus = (status: Device['status']): string => {
   switch (status) {
     case 'Operational': return 'active';
-    case 'Maintenance_Required': return 'maintenance';
     case 'Under_Maintenance': return 'maintenance';
+    case 'Maintenance_Required': return 'critical';
     case 'Out_of_Service': return 'inactive';
     default: return 'unknown';
   }
@@ -113,9 +244,10 @@ export const mapServiceRequestStatus = (status: ServiceRequest['request_status']
 export const reverseMapDeviceStatus = (uiStatus: string): Device['status'] => {
   switch (uiStatus) {
     case 'active': return 'Operational';
-    case 'maintenance': return 'Maintenance_Required';
+    case 'maintenance': return 'Under_Maintenance';
+    case 'critical': return 'Maintenance_Required';
     case 'inactive': return 'Out_of_Service';
-    default: return 'Operational';
+    default: throw new Error(`Unknown device status: ${uiStatus}`);
   }
 };
 
@@ -140,24 +272,137 @@ export interface ServiceRequestWithUIStatus extends ServiceRequest {
   uiStatus: string;
 }
 
+// Query option types
+
+// Facility IDs to read from. Left undefined, queries use the scope picked in the facility switcher; null reads every facility
+export type FacilityScopeOption = string[] | null;
+
+export interface DeviceQueryOptions {
+  deviceType?: Device['device_type'];
+  status?: Device['status'];
+  includeArchived?: boolean; // Archived devices are left out unless requested
+  facilityIds?: FacilityScopeOption;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface MaintenanceRecordQueryOptions {
+  deviceId?: string;
+  technicianId?: string;
+  maintenanceType?: MaintenanceRecord['maintenance_type'];
+  facilityIds?: FacilityScopeOption;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface ServiceRequestQueryOptions {
+  deviceId?: string;
+  status?: ServiceRequest['request_status'];
+  priority?: ServiceRequest['priority'];
+  assignedTo?: string;
+  facilityIds?: FacilityScopeOption;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface UserProfileQueryOptions {
+  role?: UserProfile['role'];
+  department?: UserProfile['department'];
+  active?: boolean;
+  limit?: number;
+  cursor?: string;
+}
+
+// Largest page the table service returns; used when walking every page
+const FULL_SCAN_PAGE_SIZE = 100;
+
+// Integrity checks (parents, components, history) must see every facility, not just the selected one
+const ALL_FACILITIES = { facilityIds: null, includeArchived: true } as const;
+
+// Unpinned updates re-read and retry this many times when another writer gets in between
+const MAX_WRITE_ATTEMPTS = 3;
+
+// Writes are compare-and-set on the revision that was read, so two writers can never both pass the revision check
+const revisionCondition = (current: { revision?: number }) => ({ field: 'revision', value: current.revision });
+
+// A lost compare-and-set re-runs the whole read-validate-write. With a pinned expectedRevision the re-run then
+// fails the revision check and surfaces a ConcurrencyConflictError carrying the record that won
+const retryOnWriteConflict = async <T>(attempt: () => Promise<T>): Promise<T> => {
+  for (let attempts = 1; ; attempts++) {
+    try {
+      return await attempt();
+    } catch (error) {
+      if (!isConditionFailed(error) || attempts >= MAX_WRITE_ATTEMPTS) throw error;
+    }
+  }
+};
+
 // Database service class
 export class DatabaseService {
+  private static facilityScope: string[] | null = null;
+
+  // Set by the facility switcher; null means every facility
+  static setFacilityScope(facilityIds: string[] | null): void {
+    this.facilityScope = facilityIds;
+  }
+
+  static getFacilityScope(): string[] | null {
+    return this.facilityScope;
+  }
+
+  // The table service has no facility index, so scoping filters each page after it is fetched (see getFilteredPage).
+  // Records without a facility stay visible in every scope (marked unassigned) until someone assigns one
+  private static inFacilityScope(record: { facility_id?: string }, facilityIds: FacilityScopeOption | undefined): boolean {
+    const scope = facilityIds === undefined ? this.facilityScope : facilityIds;
+    return !scope || isUnassignedFacility(record) || scope.includes(record.facility_id!);
+  }
+
+  // Keeps fetching until `limit` items pass the filter or the table runs out. Each request asks only for the items
+  // still missing, so a page never overshoots and the returned cursor resumes right after the last item looked at
+  private static async getFilteredPage<T>(
+    tableId: string,
+    request: Omit<GetItemsOptions, 'limit' | 'cursor'>,
+    page: { limit?: number; cursor?: string },
+    keep: (item: T) => boolean
+  ): Promise<{ items: T[]; nextCursor?: string }> {
+    const limit = page.limit || 20;
+    const items: T[] = [];
+    let cursor = page.cursor;
+    do {
+      const result = await getTableAdapter().getItems(tableId, { ...request, limit: limit - items.length, cursor });
+      items.push(...(result.items as T[]).filter(keep));
+      cursor = result.nextCursor;
+    } while (cursor && items.length < limit);
+    return { items, nextCursor: cursor };
+  }
+
+  // New records land in the selected facility when exactly one is selected
+  private static defaultFacilityId(): string | undefined {
+    return this.facilityScope?.length === 1 ? this.facilityScope[0] : undefined;
+  }
+
   // Device operations
-  static async createDevice(deviceData: Omit<Device, '_id' | '_uid' | '_tid' | 'created_at'>): Promise<void> {
+  // Resolves to the new device's ID
+  static async createDevice(deviceData: Omit<Device, '_id' | '_uid' | '_tid' | 'created_at'>): Promise<string> {
+    assertInitialStatus(deviceData.status);
+    if (deviceData.parent_device_id) {
+      assertValidParent(await this.getAllDevices(ALL_FACILITIES), undefined, deviceData.parent_device_id);
+    }
+
     const device: Omit<Device, '_id' | '_uid' | '_tid'> = {
       ...deviceData,
-      created_at: new Date().toISOString()
+      facility_id: deviceData.facility_id || this.defaultFacilityId(),
+      created_at: new Date().toISOString(),
+      revision: 1
     };
     
-    await table.addItem(TABLE_IDS.devices, device);
+    const deviceId = createItemId();
+    await getTableAdapter().addItem(TABLE_IDS.devices, { ...device, _id: deviceId });
+    domainEvents.emit('device.created', { deviceId, device });
+    return deviceId;
   }
 
-  static async getDevices(options?: { 
-    deviceType?: Device['device_type'];
-    status?: Device['status'];
-    limit?: number;
-    cursor?: string;
-  }): Promise<{ items: Device[]; nextCursor?: string }> {
+  static async getDevices(options?: DeviceQueryOptions): Promise<{ items: Device[]; nextCursor?: string }> {
     const query: any = {};
     let sortField = '_id';
     
@@ -172,31 +417,80 @@ export class DatabaseService {
       sortField = 'next_maintenance'; // status_idx uses next_maintenance as range key
     }
 
-    const result = await table.getItems(TABLE_IDS.devices, {
+    return this.getFilteredPage<Device>(TABLE_IDS.devices, {
       query: Object.keys(query).length > 0 ? query : undefined,
-      limit: options?.limit || 20,
-      cursor: options?.cursor,
       sort: sortField,
       order: 'desc'
-    });
+    }, { limit: options?.limit, cursor: options?.cursor }, device =>
+      this.inFacilityScope(device, options?.facilityIds) && (Boolean(options?.includeArchived) || !isDeviceArchived(device)));
+  }
 
-    return {
-      items: result.items as Device[],
-      nextCursor: result.nextCursor
-    };
+  // Rejects with ConcurrencyConflictError when options.expectedRevision no longer matches the stored device
+  static updateDevice(deviceId: string, userId: string, updates: Partial<Device>, options?: UpdateOptions): Promise<Device> {
+    return retryOnWriteConflict(() => this.writeDevice(deviceId, userId, updates, options));
   }
 
-  static async updateDevice(deviceId: string, userId: string, updates: Partial<Device>): Promise<void> {
-    await table.updateItem(TABLE_IDS.devices, {
+  private static async writeDevice(deviceId: string, userId: string, updates: Partial<Device>, options?: UpdateOptions): Promise<Device> {
+    const current = await this.getDeviceById(deviceId);
+    if (!current) {
+      throw new Error('Device not found');
+    }
+    assertRevision('device', deviceId, current, options?.expectedRevision);
+
+    const statusChanged = updates.status !== undefined && updates.status !== current.status;
+    if (statusChanged) {
+      await this.assertDeviceStatusChange(deviceId, current, updates);
+    }
+    if (updates.parent_device_id && updates.parent_device_id !== current.parent_device_id) {
+      assertValidParent(await this.getAllDevices(ALL_FACILITIES), deviceId, updates.parent_device_id);
+    }
+
+    await getTableAdapter().updateItem(TABLE_IDS.devices, {
       _uid: userId,
       _id: deviceId,
-      ...updates
+      ...updates,
+      ...(statusChanged && {
+        status_changed_at: new Date().toISOString(),
+        status_changed_by: userId
+      }),
+      revision: getRevision(current) + 1
+    }, revisionCondition(current));
+    const updated = { ...current, ...updates, revision: getRevision(current) + 1 };
+    domainEvents.emit('device.updated', { deviceId, before: current, updates, revision: updated.revision }, userId);
+    if (statusChanged) {
+      domainEvents.emit('device.status_changed', {
+        deviceId,
+        device: updated,
+        from: current.status,
+        to: updated.status,
+        reason: updates.status_reason,
+        serviceRequestId: updates.status_service_request_id
+      }, userId);
+    }
+    return updated;
+  }
+
+  // Rejects with DeviceStatusTransitionError when the move is not in the lifecycle or the linked request is not open
+  private static async assertDeviceStatusChange(deviceId: string, current: Device, updates: Partial<Device>): Promise<void> {
+    const to = updates.status!;
+    assertStatusTransition(current.status, to, {
+      reason: updates.status_reason || undefined,
+      note: updates.status_note,
+      serviceRequestId: updates.status_service_request_id
     });
+
+    if (requiresServiceRequest(to)) {
+      const request = await this.getServiceRequestById(updates.status_service_request_id!);
+      if (!request || request.device_id !== deviceId || !isOpenServiceRequest(request)) {
+        throw new DeviceStatusTransitionError(current.status, to,
+          'The linked service request must be an open request for this device');
+      }
+    }
   }
 
   static async getDeviceById(deviceId: string): Promise<Device | null> {
     try {
-      const result = await table.getItems(TABLE_IDS.devices, {
+      const result = await getTableAdapter().getItems(TABLE_IDS.devices, {
         query: { _id: deviceId },
         limit: 1
       });
@@ -207,25 +501,134 @@ export class DatabaseService {
     }
   }
 
+  // Archives the device instead of deleting it so its maintenance and service history stays reportable.
+  // Open maintenance and service requests are then cancelled so they stop showing up as outstanding work. The pinned
+  // archive write goes first so a stale archive cancels nothing; a cancellation that fails after it is reported in
+  // the result rather than thrown, since the device is archived by then
+  static async archiveDevice(deviceId: string, userId: string, reason: string, options?: UpdateOptions): Promise<ArchiveDeviceResult> {
+    const components = await this.getDeviceComponents(deviceId);
+    if (components.length > 0) {
+      throw new DeviceHierarchyError('Detach or archive the components of this assembly first');
+    }
+    const device = await this.updateDevice(deviceId, userId, {
+      archived_at: new Date().toISOString(),
+      archived_by: userId,
+      archive_reason: reason
+    }, options);
+    domainEvents.emit('device.archived', { deviceId, device, reason }, userId);
+
+    const [maintenance, requests] = await Promise.all([
+      this.getAllMaintenanceRecords({ deviceId, facilityIds: null }),
+      this.getAllServiceRequests({ deviceId, facilityIds: null })
+    ]);
+    const note = `Cancelled: device archived (${reason})`;
+    const openMaintenance = maintenance.filter(record => isOpenMaintenance(record));
+    const openRequests = requests.filter(request => isOpenServiceRequest(request));
+    const result: ArchiveDeviceResult = { cancelledMaintenance: 0, cancelledRequests: 0, openMaintenanceIds: [], openRequestIds: [] };
+    for (const record of openMaintenance) {
+      try {
+        await this.updateMaintenanceRecord(record._id!, userId, {
+          after_status: CANCELLED_MAINTENANCE_STATUS,
+          notes: [record.notes, note].filter(Boolean).join('\n')
+        });
+        result.cancelledMaintenance++;
+      } catch (error) {
+        console.error(`Error cancelling maintenance record ${record._id} of archived device:`, error);
+        result.openMaintenanceIds.push(record._id!);
+      }
+    }
+    for (const request of openRequests) {
+      try {
+        await this.updateServiceRequest(request._id!, userId, {
+          request_status: 'Cancelled',
+          resolved_at: new Date().toISOString(),
+          resolution_notes: [request.resolution_notes, note].filter(Boolean).join('\n')
+        });
+        result.cancelledRequests++;
+      } catch (error) {
+        console.error(`Error cancelling service request ${request._id} of archived device:`, error);
+        result.openRequestIds.push(request._id!);
+      }
+    }
+    return result;
+  }
+
+  // Restoring is limited to admins; rejects with PermissionDeniedError otherwise
+  static async restoreDevice(deviceId: string, userId: string, options?: UpdateOptions): Promise<void> {
+    await this.assertAdmin('Only administrators can restore archived devices');
+    const device = await this.updateDevice(deviceId, userId, {
+      archived_at: '',
+      archived_by: '',
+      archive_reason: ''
+    }, options);
+    domainEvents.emit('device.restored', { deviceId, device }, userId);
+  }
+
+  // The signed-in user's active profile, matched by email like useCurrentProfile
+  static async getCurrentUserProfile(): Promise<UserProfile | null> {
+    const email = useAuthStore.getState().user?.email?.toLowerCase();
+    if (!email) {
+      return null;
+    }
+    const profiles = await this.getAllUserProfiles({ active: true });
+    return profiles.find(profile => profile.email.toLowerCase() === email) || null;
+  }
+
+  private static async assertAdmin(message: string): Promise<void> {
+    const profile = await this.getCurrentUserProfile();
+    if (profile?.role !== 'Admin') {
+      throw new PermissionDeniedError(message);
+    }
+  }
+
+  // Permanent removal - only allowed once nothing references the device, otherwise archive it
   static async deleteDevice(deviceId: string, userId: string): Promise<void> {
-    await table.deleteItem(TABLE_IDS.devices, {
+    const [maintenance, requests] = await Promise.all([
+      this.getMaintenanceRecords({ deviceId, facilityIds: null, limit: 1 }),
+      this.getServiceRequests({ deviceId, facilityIds: null, limit: 1 })
+    ]);
+    if (maintenance.items.length > 0 || requests.items.length > 0) {
+      throw new Error('Device has maintenance or service history and can only be archived');
+    }
+    if ((await this.getDeviceComponents(deviceId, ALL_FACILITIES)).length > 0) {
+      throw new DeviceHierarchyError('Device still has components attached');
+    }
+
+    const current = await this.getDeviceById(deviceId);
+    await getTableAdapter().deleteItem(TABLE_IDS.devices, {
       _uid: userId,
       _id: deviceId
     });
+    if (current) {
+      domainEvents.emit('device.deleted', { deviceId, device: current }, userId);
+    }
+  }
+
+  // Direct components of an assembly in any facility; the table has no parent index, so this filters a full scan
+  static async getDeviceComponents(deviceId: string, options?: Pick<DeviceQueryOptions, 'includeArchived'>): Promise<Device[]> {
+    const devices = await this.getAllDevices({ ...options, facilityIds: null });
+    return devices.filter(device => device.parent_device_id === deviceId);
   }
 
   // Maintenance records operations
-  static async createMaintenanceRecord(recordData: Omit<MaintenanceRecord, '_id' | '_uid' | '_tid'>): Promise<void> {
-    await table.addItem(TABLE_IDS.maintenance_records, recordData);
+  // Resolves to the new record's ID
+  // A caller-supplied id makes the create idempotent: reusing it rejects with ItemExistsError
+  static async createMaintenanceRecord(
+    recordData: Omit<MaintenanceRecord, '_id' | '_uid' | '_tid'>,
+    options?: { id?: string }
+  ): Promise<string> {
+    const record = {
+      ...recordData,
+      facility_id: recordData.facility_id || await this.getDeviceFacilityId(recordData.device_id),
+      revision: 1
+    };
+    const recordId = options?.id || createItemId();
+    await getTableAdapter().addItem(TABLE_IDS.maintenance_records, { ...record, _id: recordId }, { ifAbsent: Boolean(options?.id) });
+    domainEvents.emit('maintenance.scheduled', { recordId, record }, recordData.technician_id);
+    return recordId;
   }
 
-  static async getMaintenanceRecords(options?: {
-    deviceId?: string;
-    technicianId?: string;
-    maintenanceType?: MaintenanceRecord['maintenance_type'];
-    limit?: number;
-    cursor?: string;
-  }): Promise<{ items: MaintenanceRecord[]; nextCursor?: string }> {
+  static async getMaintenanceRecords(options?: MaintenanceRecordQueryOptions): Promise<{ items: MaintenanceRecord[]; nextCursor?: string }> {
     const query: any = {};
     let sortField = '_id'; // Default to _id (uses _tid_id_idx) for global queries, maintenance_date for indexed queries
     
@@ -245,23 +648,16 @@ export class DatabaseService {
       sortField = 'maintenance_date'; // type_idx uses maintenance_date as range key
     }
 
-    const result = await table.getItems(TABLE_IDS.maintenance_records, {
+    return this.getFilteredPage<MaintenanceRecord>(TABLE_IDS.maintenance_records, {
       query: Object.keys(query).length > 0 ? query : undefined,
-      limit: options?.limit || 20,
-      cursor: options?.cursor,
       sort: sortField,
       order: 'desc'
-    });
-
-    return {
-      items: result.items as MaintenanceRecord[],
-      nextCursor: result.nextCursor
-    };
+    }, { limit: options?.limit, cursor: options?.cursor }, record => this.inFacilityScope(record, options?.facilityIds));
   }
 
   static async getMaintenanceRecordById(recordId: string): Promise<MaintenanceRecord | null> {
     try {
-      const result = await table.getItems(TABLE_IDS.maintenance_records, {
+      const result = await getTableAdapter().getItems(TABLE_IDS.maintenance_records, {
         query: { _id: recordId },
         limit: 1
       });
@@ -272,33 +668,53 @@ export class DatabaseService {
     }
   }
 
-  static async updateMaintenanceRecord(recordId: string, userId: string, updates: Partial<MaintenanceRecord>): Promise<void> {
-    await table.updateItem(TABLE_IDS.maintenance_records, {
+  // Rejects with ConcurrencyConflictError when options.expectedRevision no longer matches the stored record,
+  // and with ChecklistIncompleteError when completing a record whose mandatory checklist steps are not done
+  static updateMaintenanceRecord(recordId: string, userId: string, updates: Partial<MaintenanceRecord>, options?: UpdateOptions): Promise<void> {
+    return retryOnWriteConflict(() => this.writeMaintenanceRecord(recordId, userId, updates, options));
+  }
+
+  private static async writeMaintenanceRecord(recordId: string, userId: string, updates: Partial<MaintenanceRecord>, options?: UpdateOptions): Promise<void> {
+    const current = await this.getMaintenanceRecordById(recordId);
+    if (!current) {
+      throw new Error('Maintenance record not found');
+    }
+    assertRevision('maintenance_record', recordId, current, options?.expectedRevision);
+    if (isCompletedMaintenance({ ...current, ...updates }) && !isCompletedMaintenance(current)) {
+      assertChecklistComplete(getRecordChecklist({ ...current, ...updates }));
+    }
+
+    await getTableAdapter().updateItem(TABLE_IDS.maintenance_records, {
       _uid: userId,
       _id: recordId,
-      ...updates
-    });
+      ...updates,
+      revision: getRevision(current) + 1
+    }, revisionCondition(current));
+    const updated = { ...current, ...updates, revision: getRevision(current) + 1 };
+    domainEvents.emit('maintenance.updated', { recordId, before: current, updates, revision: updated.revision }, userId);
+    if (isCompletedMaintenance(updated) && !isCompletedMaintenance(current)) {
+      domainEvents.emit('maintenance.completed', { recordId, record: updated }, userId);
+    }
   }
 
   // Service requests operations
-  static async createServiceRequest(requestData: Omit<ServiceRequest, '_id' | '_uid' | '_tid' | 'created_at' | 'updated_at'>): Promise<void> {
+  // Resolves to the new request's ID
+  static async createServiceRequest(requestData: Omit<ServiceRequest, '_id' | '_uid' | '_tid' | 'created_at' | 'updated_at'>): Promise<string> {
     const request: Omit<ServiceRequest, '_id' | '_uid' | '_tid'> = {
       ...requestData,
+      facility_id: requestData.facility_id || await this.getDeviceFacilityId(requestData.device_id),
       created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
+      updated_at: new Date().toISOString(),
+      revision: 1
     };
     
-    await table.addItem(TABLE_IDS.service_requests, request);
+    const requestId = createItemId();
+    await getTableAdapter().addItem(TABLE_IDS.service_requests, { ...request, _id: requestId });
+    domainEvents.emit('service_request.created', { requestId, request });
+    return requestId;
   }
 
-  static async getServiceRequests(options?: {
-    deviceId?: string;
-    status?: ServiceRequest['request_status'];
-    priority?: ServiceRequest['priority'];
-    assignedTo?: string;
-    limit?: number;
-    cursor?: string;
-  }): Promise<{ items: ServiceRequest[]; nextCursor?: string }> {
+  static async getServiceRequests(options?: ServiceRequestQueryOptions): Promise<{ items: ServiceRequest[]; nextCursor?: string }> {
     const query: any = {};
     let sortField = '_id'; // Default to _id for global queries (uses _tid_id_idx)
     
@@ -323,23 +739,16 @@ export class DatabaseService {
       sortField = 'created_at'; // assigned_idx uses created_at as range key
     }
 
-    const result = await table.getItems(TABLE_IDS.service_requests, {
+    return this.getFilteredPage<ServiceRequest>(TABLE_IDS.service_requests, {
       query: Object.keys(query).length > 0 ? query : undefined,
-      limit: options?.limit || 20,
-      cursor: options?.cursor,
       sort: sortField,
       order: 'desc'
-    });
-
-    return {
-      items: result.items as ServiceRequest[],
-      nextCursor: result.nextCursor
-    };
+    }, { limit: options?.limit, cursor: options?.cursor }, request => this.inFacilityScope(request, options?.facilityIds));
   }
 
   static async getServiceRequestById(requestId: string): Promise<ServiceRequest | null> {
     try {
-      const result = await table.getItems(TABLE_IDS.service_requests, {
+      const result = await getTableAdapter().getItems(TABLE_IDS.service_requests, {
         query: { _id: requestId },
         limit: 1
       });
@@ -350,33 +759,58 @@ export class DatabaseService {
     }
   }
 
-  static async updateServiceRequest(requestId: string, userId: string, updates: Partial<ServiceRequest>): Promise<void> {
-    await table.updateItem(TABLE_IDS.service_requests, {
+  // Rejects with ConcurrencyConflictError when options.expectedRevision no longer matches the stored request
+  static updateServiceRequest(requestId: string, userId: string, updates: Partial<ServiceRequest>, options?: UpdateOptions): Promise<void> {
+    return retryOnWriteConflict(() => this.writeServiceRequest(requestId, userId, updates, options));
+  }
+
+  private static async writeServiceRequest(requestId: string, userId: string, updates: Partial<ServiceRequest>, options?: UpdateOptions): Promise<void> {
+    const current = await this.getServiceRequestById(requestId);
+    if (!current) {
+      throw new Error('Service request not found');
+    }
+    assertRevision('service_request', requestId, current, options?.expectedRevision);
+
+    await getTableAdapter().updateItem(TABLE_IDS.service_requests, {
       _uid: userId,
       _id: requestId,
       ...updates,
-      updated_at: new Date().toISOString()
-    });
+      updated_at: new Date().toISOString(),
+      revision: getRevision(current) + 1
+    }, revisionCondition(current));
+    const updated = { ...current, ...updates, revision: getRevision(current) + 1 };
+    domainEvents.emit('service_request.updated', { requestId, before: current, updates, revision: updated.revision }, userId);
+    if (updated.request_status !== current.request_status) {
+      domainEvents.emit('service_request.status_changed', {
+        requestId,
+        request: updated,
+        from: current.request_status,
+        to: updated.request_status
+      }, userId);
+    }
+  }
+
+  private static async getDeviceFacilityId(deviceId: string): Promise<string | undefined> {
+    const device = await this.getDeviceById(deviceId);
+    return device?.facility_id || this.defaultFacilityId();
   }
 
   // User profiles operations
-  static async createUserProfile(profileData: Omit<UserProfile, '_id' | '_uid' | '_tid' | 'created_at'>): Promise<void> {
+  // Resolves to the new profile's ID
+  static async createUserProfile(profileData: Omit<UserProfile, '_id' | '_uid' | '_tid' | 'created_at'>): Promise<string> {
     const profile: Omit<UserProfile, '_id' | '_uid' | '_tid'> = {
       ...profileData,
       created_at: new Date().toISOString(),
       active: 'true'
     };
     
-    await table.addItem(TABLE_IDS.user_profiles, profile);
+    const profileId = createItemId();
+    await getTableAdapter().addItem(TABLE_IDS.user_profiles, { ...profile, _id: profileId });
+    domainEvents.emit('user_profile.created', { profileId, profile });
+    return profileId;
   }
 
-  static async getUserProfiles(options?: {
-    role?: UserProfile['role'];
-    department?: UserProfile['department'];
-    active?: boolean;
-    limit?: number;
-    cursor?: string;
-  }): Promise<{ items: UserProfile[]; nextCursor?: string }> {
+  static async getUserProfiles(options?: UserProfileQueryOptions): Promise<{ items: UserProfile[]; nextCursor?: string }> {
     const query: any = {};
     
     if (options?.role) {
@@ -391,7 +825,7 @@ export class DatabaseService {
       query.active = options.active.toString();
     }
 
-    const result = await table.getItems(TABLE_IDS.user_profiles, {
+    const result = await getTableAdapter().getItems(TABLE_IDS.user_profiles, {
       query: Object.keys(query).length > 0 ? query : undefined,
       limit: options?.limit || 20,
       cursor: options?.cursor,
@@ -405,12 +839,82 @@ export class DatabaseService {
     };
   }
 
+  static async getUserProfileById(profileId: string): Promise<UserProfile | null> {
+    try {
+      const result = await getTableAdapter().getItems(TABLE_IDS.user_profiles, {
+        query: { _id: profileId },
+        limit: 1
+      });
+      return result.items.length > 0 ? result.items[0] as UserProfile : null;
+    } catch (error) {
+      console.error('Error fetching user profile by ID:', error);
+      return null;
+    }
+  }
+
   static async updateUserProfile(profileId: string, userId: string, updates: Partial<UserProfile>): Promise<void> {
-    await table.updateItem(TABLE_IDS.user_profiles, {
+    const current = await this.getUserProfileById(profileId);
+    await getTableAdapter().updateItem(TABLE_IDS.user_profiles, {
       _uid: userId,
       _id: profileId,
       ...updates
     });
+    if (current) {
+      domainEvents.emit('user_profile.updated', { profileId, before: current, updates }, userId);
+    }
+  }
+
+  // Pagination helpers - follow nextCursor until every page has been read
+  private static async *paginate<T, O extends { limit?: number; cursor?: string }>(
+    fetchPage: (options: O) => Promise<{ items: T[]; nextCursor?: string }>,
+    options: O
+  ): AsyncGenerator<T> {
+    let cursor: string | undefined;
+    do {
+      const page = await fetchPage({ ...options, limit: options.limit || FULL_SCAN_PAGE_SIZE, cursor });
+      yield* page.items;
+      cursor = page.nextCursor;
+    } while (cursor);
+  }
+
+  private static async collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of iterator) {
+      items.push(item);
+    }
+    return items;
+  }
+
+  static iterateDevices(options: Omit<DeviceQueryOptions, 'cursor'> = {}): AsyncGenerator<Device> {
+    return this.paginate(opts => this.getDevices(opts), options);
+  }
+
+  static iterateMaintenanceRecords(options: Omit<MaintenanceRecordQueryOptions, 'cursor'> = {}): AsyncGenerator<MaintenanceRecord> {
+    return this.paginate(opts => this.getMaintenanceRecords(opts), options);
+  }
+
+  static iterateServiceRequests(options: Omit<ServiceRequestQueryOptions, 'cursor'> = {}): AsyncGenerator<ServiceRequest> {
+    return this.paginate(opts => this.getServiceRequests(opts), options);
+  }
+
+  static iterateUserProfiles(options: Omit<UserProfileQueryOptions, 'cursor'> = {}): AsyncGenerator<UserProfile> {
+    return this.paginate(opts => this.getUserProfiles(opts), options);
+  }
+
+  static async getAllDevices(options?: Omit<DeviceQueryOptions, 'cursor'>): Promise<Device[]> {
+    return this.collect(this.iterateDevices(options));
+  }
+
+  static async getAllMaintenanceRecords(options?: Omit<MaintenanceRecordQueryOptions, 'cursor'>): Promise<MaintenanceRecord[]> {
+    return this.collect(this.iterateMaintenanceRecords(options));
+  }
+
+  static async getAllServiceRequests(options?: Omit<ServiceRequestQueryOptions, 'cursor'>): Promise<ServiceRequest[]> {
+    return this.collect(this.iterateServiceRequests(options));
+  }
+
+  static async getAllUserProfiles(options?: Omit<UserProfileQueryOptions, 'cursor'>): Promise<UserProfile[]> {
+    return this.collect(this.iterateUserProfiles(options));
   }
 
   // Utility methods
@@ -421,9 +925,7 @@ export class DatabaseService {
     outOfService: number;
   }> {
     try {
-      // Get all devices first and then filter in memory to avoid index issues
-      const allDevices = await this.getDevices({ limit: 100 });
-      
+      // Walk every page and count in memory to avoid index issues
       const statusCounts = {
         operational: 0,
         maintenanceRequired: 0,
@@ -431,7 +933,7 @@ export class DatabaseService {
         outOfService: 0
       };
 
-      allDevices.items.forEach(device => {
+      for await (const device of this.iterateDevices()) {
         switch (device.status) {
           case 'Operational':
             statusCounts.operational++;
@@ -446,7 +948,7 @@ export class DatabaseService {
             statusCounts.outOfService++;
             break;
         }
-      });
+      }
 
       return statusCounts;
     } catch (error) {
@@ -467,9 +969,7 @@ export class DatabaseService {
     low: number;
   }> {
     try {
-      // Get all open service requests and filter in memory
-      const allRequests = await this.getServiceRequests({ status: 'Open', limit: 100 });
-      
+      // Walk every page of open service requests and count in memory
       const priorityCounts = {
         critical: 0,
         high: 0,
@@ -477,7 +977,7 @@ export class DatabaseService {
         low: 0
       };
 
-      allRequests.items.forEach(request => {
+      for await (const request of this.iterateServiceRequests({ status: 'Open' })) {
         switch (request.priority) {
           case 'Critical':
             priorityCounts.critical++;
@@ -492,7 +992,7 @@ export class DatabaseService {
             priorityCounts.low++;
             break;
         }
-      });
+      }
 
       return priorityCounts;
     } catch (error) {
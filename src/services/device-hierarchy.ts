@@ -0,0 +1,142 @@
+// Device assemblies: components (laser modules, cameras, workstations) point at their parent via parent_device_id
+import type { Device } from './database';
+import { DEVICE_STATUS_LABELS } from './device-lifecycle';
+
+export type AssemblyHealth = 'operational' | 'degraded' | 'down';
+
+export const ASSEMBLY_HEALTH_LABELS: Record<AssemblyHealth, string> = {
+  operational: 'Operational',
+  degraded: 'Degraded',
+  down: 'Down'
+};
+
+export interface AssemblyIssue {
+  device: Device;
+  message: string;
+}
+
+export interface AssemblyNode {
+  device: Device;
+  children: AssemblyNode[];
+  health: AssemblyHealth; // The device's own status
+  rollup: AssemblyHealth; // Own status combined with every component below it
+  issues: AssemblyIssue[]; // Components below this node that are not operational
+}
+
+// Deep enough for base unit > module > sub-module without letting cycles recurse forever
+const MAX_DEPTH = 8;
+
+export class DeviceHierarchyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeviceHierarchyError';
+  }
+}
+
+export const isDeviceHierarchyError = (error: unknown): error is DeviceHierarchyError =>
+  error instanceof DeviceHierarchyError;
+
+export const getDeviceHealth = (device: Pick<Device, 'status'>): AssemblyHealth => {
+  switch (device.status) {
+    case 'Operational': return 'operational';
+    case 'Out_of_Service': return 'down';
+    default: return 'degraded';
+  }
+};
+
+const groupByParent = (devices: Device[]): Map<string, Device[]> => {
+  const children = new Map<string, Device[]>();
+  devices.forEach(device => {
+    if (!device.parent_device_id || device.archived_at) return;
+    const siblings = children.get(device.parent_device_id) || [];
+    siblings.push(device);
+    children.set(device.parent_device_id, siblings);
+  });
+  return children;
+};
+
+// Parent first, ending with the device itself
+export const getAssemblyPath = (devices: Device[], deviceId: string): Device[] => {
+  const byId = new Map(devices.map(device => [device._id, device]));
+  const path: Device[] = [];
+  let current = byId.get(deviceId);
+  while (current && path.length < MAX_DEPTH && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parent_device_id ? byId.get(current.parent_device_id) : undefined;
+  }
+  return path;
+};
+
+export const getDescendantIds = (devices: Device[], deviceId: string): Set<string> => {
+  const children = groupByParent(devices);
+  const descendants = new Set<string>();
+  const visit = (id: string) => {
+    (children.get(id) || []).forEach(child => {
+      if (!child._id || descendants.has(child._id)) return;
+      descendants.add(child._id);
+      visit(child._id);
+    });
+  };
+  visit(deviceId);
+  return descendants;
+};
+
+const buildNode = (device: Device, children: Map<string, Device[]>, depth: number): AssemblyNode => {
+  const nodes = depth < MAX_DEPTH
+    ? (children.get(device._id || '') || []).map(child => buildNode(child, children, depth + 1))
+    : [];
+  const health = getDeviceHealth(device);
+
+  const issues = nodes.flatMap(node => [
+    ...(node.health === 'operational' ? [] : [{
+      device: node.device,
+      message: `${node.device.manufacturer} ${node.device.model} is ${DEVICE_STATUS_LABELS[node.device.status].toLowerCase()}`
+    }]),
+    ...node.issues
+  ]);
+
+  // A failed component degrades the assembly; only the device's own status can take it down
+  const rollup: AssemblyHealth = health === 'down' ? 'down' : issues.length > 0 ? 'degraded' : health;
+  return { device, children: nodes, health, rollup, issues };
+};
+
+// Tree for the whole assembly the device belongs to, rooted at its top-level parent
+export const buildAssemblyTree = (devices: Device[], deviceId: string): AssemblyNode | null => {
+  const root = getAssemblyPath(devices, deviceId)[0];
+  return root ? buildNode(root, groupByParent(devices), 0) : null;
+};
+
+export const findAssemblyNode = (node: AssemblyNode, deviceId: string): AssemblyNode | null => {
+  if (node.device._id === deviceId) return node;
+  for (const child of node.children) {
+    const match = findAssemblyNode(child, deviceId);
+    if (match) return match;
+  }
+  return null;
+};
+
+export const getRollupHealth = (devices: Device[], device: Device): AssemblyHealth =>
+  buildNode(device, groupByParent(devices), 0).rollup;
+
+// Label for selectors and lists, e.g. "Zeiss Cirrus 6000 › Coherent Laser Module"
+export const getAssemblyLabel = (devices: Device[], device: Device): string =>
+  getAssemblyPath(devices, device._id || '')
+    .map(part => `${part.manufacturer} ${part.model}`)
+    .join(' › ') || `${device.manufacturer} ${device.model}`;
+
+// Rejects parents that are missing, archived, the device itself or one of its own components
+export const assertValidParent = (devices: Device[], deviceId: string | undefined, parentId: string): void => {
+  const parent = devices.find(device => device._id === parentId);
+  if (!parent) {
+    throw new DeviceHierarchyError('The selected parent device does not exist');
+  }
+  if (parent.archived_at) {
+    throw new DeviceHierarchyError('Components cannot be attached to an archived device');
+  }
+  if (deviceId && (parentId === deviceId || getDescendantIds(devices, deviceId).has(parentId))) {
+    throw new DeviceHierarchyError('A device cannot be attached to itself or one of its own components');
+  }
+  if (getAssemblyPath(devices, parentId).length >= MAX_DEPTH) {
+    throw new DeviceHierarchyError(`Assemblies can be at most ${MAX_DEPTH} levels deep`);
+  }
+};
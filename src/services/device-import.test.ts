@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { buildImportPlan, suggestColumnMapping } from './device-import';
+import type { Device } from './database';
+
+const HEADERS = ['Serial', 'Make', 'Model', 'Type', 'Room', 'Technology', 'Scan Speed', 'Laser Class', 'OCT Angiography'];
+
+const planFor = (rows: Record<string, string>[], existing: Device[] = []) =>
+  buildImportPlan(rows, suggestColumnMapping(HEADERS), existing);
+
+const octRow = (overrides: Record<string, string> = {}): Record<string, string> => ({
+  Serial: 'OCT-1',
+  Make: 'Zeiss',
+  Model: 'Cirrus 6000',
+  Type: 'OCT',
+  Room: 'Room 1',
+  Technology: 'Spectral Domain',
+  'Scan Speed': '100000',
+  'Laser Class': 'Class 1',
+  'OCT Angiography': 'yes',
+  ...overrides
+});
+
+describe('buildImportPlan', () => {
+  it('imports attribute columns with the device', () => {
+    const [row] = planFor([octRow()]).rows;
+    expect(row.action).toBe('create');
+    expect(row.data.attributes).toEqual({
+      technology: 'Spectral Domain',
+      scan_speed: 100000,
+      laser_class: 'Class 1',
+      angiography: true
+    });
+  });
+
+  it('reports attribute rule failures per row', () => {
+    const plan = planFor([
+      octRow({ 'Scan Speed': 'fast' }),
+      octRow({ Serial: 'OCT-2', Technology: '' }),
+      octRow({ Serial: 'OCT-3', 'OCT Angiography': 'maybe' })
+    ]);
+
+    expect(plan.counts.error).toBe(3);
+    expect(plan.rows[0].errors).toContain('Scan Speed must be a number');
+    expect(plan.rows[1].errors).toContain('Technology is required');
+    expect(plan.rows[2].errors).toContain('OCT Angiography "maybe" must be yes or no');
+  });
+
+  it('validates updates against the stored attributes the file leaves out', () => {
+    const existing = {
+      _id: 'device-1',
+      serial_number: 'OCT-1',
+      manufacturer: 'Zeiss',
+      model: 'Cirrus 6000',
+      device_type: 'OCT',
+      location: 'Room 1',
+      status: 'Operational',
+      attributes: { technology: 'Spectral Domain', scan_speed: 100000, laser_class: 'Class 1' },
+      created_at: '2024-01-01T00:00:00.000Z'
+    } satisfies Device;
+
+    const [moved] = planFor([{ Serial: 'OCT-1', Make: 'Zeiss', Model: 'Cirrus 6000', Type: 'OCT', Room: 'Room 2' }], [existing]).rows;
+    expect(moved.action).toBe('update');
+    expect(moved.changes.map(change => change.field)).toEqual(['location']);
+
+    const [invalid] = planFor([octRow({ 'Laser Class': 'Class 9' })], [existing]).rows;
+    expect(invalid.action).toBe('error');
+    expect(invalid.errors[0]).toMatch(/^Laser Class must be one of/);
+  });
+});
@@ -0,0 +1,322 @@
+// Bulk device import: column mapping, validation and a dry-run plan committed through DatabaseService
+import { format } from 'date-fns';
+import { DatabaseService, Device, reverseMapDeviceStatus } from './database';
+import { diffRecords, FieldChange } from './change-history';
+import { getRevision } from './concurrency';
+import { DEVICE_STATUS_LABELS, DeviceStatus, INITIAL_DEVICE_STATUSES } from './device-lifecycle';
+import { DeviceAttributes, deviceTypeRegistry } from './device-types';
+
+export type ImportableField =
+  | 'manufacturer'
+  | 'model'
+  | 'serial_number'
+  | 'device_type'
+  | 'location'
+  | 'status'
+  | 'name'
+  | 'purchase_date'
+  | 'installation_date'
+  | 'warranty_expiry'
+  | 'last_maintenance'
+  | 'next_maintenance'
+  | 'notes';
+
+export interface ImportFieldDefinition {
+  field: ImportableField;
+  label: string;
+  required?: boolean;
+  date?: boolean;
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { field: 'serial_number', label: 'Serial Number', required: true, aliases: ['serial', 'serial no', 'sn', 's/n'] },
+  { field: 'manufacturer', label: 'Manufacturer', required: true, aliases: ['make', 'vendor', 'brand'] },
+  { field: 'model', label: 'Model', required: true, aliases: ['model name', 'model number'] },
+  { field: 'device_type', label: 'Device Type', required: true, aliases: ['type', 'category', 'equipment type'] },
+  { field: 'location', label: 'Location', required: true, aliases: ['room', 'department', 'site'] },
+  { field: 'status', label: 'Status', aliases: ['state', 'condition'] },
+  { field: 'name', label: 'Device Name', aliases: ['name', 'asset name', 'description'] },
+  { field: 'purchase_date', label: 'Purchase Date', date: true, aliases: ['purchased', 'acquisition date'] },
+  { field: 'installation_date', label: 'Installation Date', date: true, aliases: ['installed', 'install date'] },
+  { field: 'warranty_expiry', label: 'Warranty Expiry', date: true, aliases: ['warranty', 'warranty end', 'warranty expiration'] },
+  { field: 'last_maintenance', label: 'Last Maintenance', date: true, aliases: ['last service', 'last pm'] },
+  { field: 'next_maintenance', label: 'Next Maintenance', date: true, aliases: ['next service', 'next pm', 'due date'] },
+  { field: 'notes', label: 'Notes', aliases: ['comments', 'remarks'] }
+];
+
+// Target field -> source column header ('' when unmapped)
+export type ColumnMapping = Record<ImportableField, string>;
+
+export type ImportAction = 'create' | 'update' | 'skip' | 'error';
+
+export interface ImportPlanRow {
+  rowNumber: number; // 1-based spreadsheet row, counting the header
+  action: ImportAction;
+  serialNumber: string;
+  data: Partial<Device>;
+  existing?: Device;
+  changes: FieldChange[];
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ImportPlan {
+  rows: ImportPlanRow[];
+  counts: Record<ImportAction, number>;
+}
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+  failed: { rowNumber: number; error: string }[];
+}
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9/]+/g, ' ').trim();
+
+const normalizeSerial = (value: string) => value.trim().toUpperCase();
+
+// Guesses a mapping from header names, matching field names, labels and common aliases
+export const suggestColumnMapping = (headers: string[]): ColumnMapping => {
+  const used = new Set<string>();
+  return IMPORT_FIELDS.reduce((mapping, definition) => {
+    const candidates = [definition.field, definition.label, ...definition.aliases].map(normalizeHeader);
+    const match = headers.find(header => !used.has(header) && candidates.includes(normalizeHeader(header)));
+    if (match) used.add(match);
+    mapping[definition.field] = match || '';
+    return mapping;
+  }, {} as ColumnMapping);
+};
+
+const parseStatus = (value: string): DeviceStatus | undefined => {
+  const normalized = value.trim().toLowerCase();
+  const direct = (Object.keys(DEVICE_STATUS_LABELS) as DeviceStatus[]).find(status =>
+    status.toLowerCase() === normalized || DEVICE_STATUS_LABELS[status].toLowerCase() === normalized
+  );
+  if (direct) return direct;
+  try {
+    return reverseMapDeviceStatus(normalized);
+  } catch {
+    return undefined;
+  }
+};
+
+// Accepts ISO dates and anything Date can parse; stored as yyyy-mm-dd like the device form
+const parseDate = (value: string): string | undefined => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return undefined;
+  // ISO input is taken as-is; other formats parse in local time, so format locally to keep the same day
+  return /^\d{4}-\d{2}-\d{2}/.test(value) ? value.slice(0, 10) : format(date, 'yyyy-MM-dd');
+};
+
+const parseBoolean = (value: string): boolean | undefined => {
+  if (/^(yes|y|true|1)$/i.test(value)) return true;
+  if (/^(no|n|false|0)$/i.test(value)) return false;
+  return undefined;
+};
+
+// Columns left out of the mapping and named after an attribute of the row's device type (key or label) fill in that attribute
+const parseAttributes = (row: Record<string, string>, mapping: ColumnMapping, typeId: string, errors: string[]): DeviceAttributes => {
+  const definition = deviceTypeRegistry.get(typeId);
+  if (!definition) return {};
+  const mapped = new Set(Object.values(mapping));
+  const columns = Object.keys(row).filter(header => !mapped.has(header) && row[header]);
+
+  return definition.attributes.reduce((attributes, attribute) => {
+    const names = [attribute.key, attribute.label].map(normalizeHeader);
+    const column = columns.find(header => names.includes(normalizeHeader(header)));
+    if (!column) return attributes;
+
+    const raw = row[column];
+    if (attribute.type === 'boolean') {
+      const value = parseBoolean(raw);
+      if (value === undefined) {
+        errors.push(`${attribute.label} "${raw}" must be yes or no`);
+      } else {
+        attributes[attribute.key] = value;
+      }
+    } else {
+      attributes[attribute.key] = raw;
+    }
+    return attributes;
+  }, {} as DeviceAttributes);
+};
+
+// Runs the registry's attribute rules against what the device would hold after the import
+const validateImportedAttributes = (
+  typeId: string,
+  attributes: DeviceAttributes,
+  errors: string[]
+): DeviceAttributes => {
+  errors.push(...Object.values(deviceTypeRegistry.validateAttributes(typeId, attributes)));
+  return deviceTypeRegistry.normalizeAttributes(typeId, attributes);
+};
+
+const parseRow = (row: Record<string, string>, mapping: ColumnMapping) => {
+  const data: Partial<Device> = {};
+  const errors: string[] = [];
+  let attributes: DeviceAttributes = {};
+  const value = (field: ImportableField) => (mapping[field] ? row[mapping[field]] || '' : '');
+
+  IMPORT_FIELDS.forEach(definition => {
+    const raw = value(definition.field);
+    if (!raw) {
+      if (definition.required) errors.push(`${definition.label} is required`);
+      return;
+    }
+
+    if (definition.date) {
+      const date = parseDate(raw);
+      if (date) {
+        (data as Record<string, string>)[definition.field] = date;
+      } else {
+        errors.push(`${definition.label} "${raw}" is not a valid date`);
+      }
+      return;
+    }
+
+    switch (definition.field) {
+      case 'device_type': {
+        const deviceType = deviceTypeRegistry.resolve(raw);
+        if (deviceType) {
+          data.device_type = deviceType;
+          attributes = parseAttributes(row, mapping, deviceType, errors);
+        } else {
+          errors.push(`Unknown device type "${raw}"`);
+        }
+        break;
+      }
+      case 'status': {
+        const status = parseStatus(raw);
+        if (status) {
+          data.status = status;
+        } else {
+          errors.push(`Unknown status "${raw}"`);
+        }
+        break;
+      }
+      default:
+        (data as Record<string, string>)[definition.field] = raw;
+    }
+  });
+
+  return { data, attributes, errors };
+};
+
+// Dry run: decides what each row would do without writing anything
+export const buildImportPlan = (
+  rows: Record<string, string>[],
+  mapping: ColumnMapping,
+  existingDevices: Device[]
+): ImportPlan => {
+  const bySerial = new Map(existingDevices.map(device => [normalizeSerial(device.serial_number || ''), device]));
+  const seenInFile = new Map<string, number>();
+
+  const planRows = rows.map((row, index): ImportPlanRow => {
+    const rowNumber = index + 2;
+    const { data, attributes, errors } = parseRow(row, mapping);
+    const serialNumber = data.serial_number ? normalizeSerial(data.serial_number) : '';
+    const warnings: string[] = [];
+    const base = { rowNumber, serialNumber, data, changes: [] as FieldChange[], errors, warnings };
+
+    if (serialNumber) {
+      const firstRow = seenInFile.get(serialNumber);
+      if (firstRow) {
+        errors.push(`Duplicate serial number - already in row ${firstRow}`);
+      } else {
+        seenInFile.set(serialNumber, rowNumber);
+      }
+    }
+
+    const existing = serialNumber ? bySerial.get(serialNumber) : undefined;
+    if (errors.length > 0) {
+      return { ...base, existing, action: 'error' };
+    }
+
+    if (!existing) {
+      const status = data.status || 'Operational';
+      if (!INITIAL_DEVICE_STATUSES.includes(status)) {
+        errors.push(`New devices cannot be imported as ${DEVICE_STATUS_LABELS[status]}`);
+        return { ...base, action: 'error' };
+      }
+      const validated = validateImportedAttributes(data.device_type!, attributes, errors);
+      if (errors.length > 0) {
+        return { ...base, action: 'error' };
+      }
+      return {
+        ...base,
+        data: { ...data, status, ...(Object.keys(validated).length > 0 && { attributes: validated }) },
+        action: 'create'
+      };
+    }
+
+    if (existing.archived_at) {
+      warnings.push('Matches an archived device - restore it before importing changes');
+      return { ...base, existing, action: 'skip' };
+    }
+
+    // Status moves need reason codes, so imports leave the lifecycle alone
+    const { status, ...updates } = data;
+    if (status && status !== existing.status) {
+      warnings.push(`Status change to ${DEVICE_STATUS_LABELS[status]} ignored - use Change Status on the device`);
+    }
+
+    // Attributes the file leaves out keep their stored values
+    const merged = validateImportedAttributes(updates.device_type!, { ...existing.attributes, ...attributes }, errors);
+    if (errors.length > 0) {
+      return { ...base, existing, action: 'error' };
+    }
+    if (Object.keys(attributes).length > 0 || updates.device_type !== deviceTypeRegistry.resolve(existing.device_type)) {
+      updates.attributes = merged;
+    }
+
+    const changes = diffRecords(existing, updates);
+    return {
+      ...base,
+      data: updates,
+      existing,
+      changes,
+      action: changes.length > 0 ? 'update' : 'skip'
+    };
+  });
+
+  const counts = planRows.reduce((totals, row) => {
+    totals[row.action]++;
+    return totals;
+  }, { create: 0, update: 0, skip: 0, error: 0 } as Record<ImportAction, number>);
+
+  return { rows: planRows, counts };
+};
+
+// Applies the create and update rows of a plan one at a time, collecting per-row failures
+export const commitImportPlan = async (
+  plan: ImportPlan,
+  userId: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<ImportResult> => {
+  const pending = plan.rows.filter(row => row.action === 'create' || row.action === 'update');
+  const result: ImportResult = { created: 0, updated: 0, failed: [] };
+
+  for (const [index, row] of pending.entries()) {
+    try {
+      if (row.action === 'create') {
+        await DatabaseService.createDevice(row.data as Omit<Device, '_id' | '_uid' | '_tid' | 'created_at'>);
+        result.created++;
+      } else if (row.existing?._id) {
+        const updates = Object.fromEntries(row.changes.map(change => [change.field, change.after]));
+        await DatabaseService.updateDevice(row.existing._id, userId, updates, {
+          expectedRevision: getRevision(row.existing)
+        });
+        result.updated++;
+      }
+    } catch (error) {
+      result.failed.push({
+        rowNumber: row.rowNumber,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+    onProgress?.(index + 1, pending.length);
+  }
+
+  return result;
+};
@@ -0,0 +1,137 @@
+// Device status lifecycle: allowed transitions and the reason codes each one requires
+import type { Device, ServiceRequest } from './database';
+
+export type DeviceStatus = Device['status'];
+
+export type DeviceStatusReason =
+  | 'FAULT_REPORTED'
+  | 'FAILED_SAFETY_CHECK'
+  | 'PM_DUE'
+  | 'CALIBRATION_DUE'
+  | 'SCHEDULED_MAINTENANCE'
+  | 'REPAIR_STARTED'
+  | 'AWAITING_PARTS'
+  | 'REPAIR_COMPLETED'
+  | 'INSPECTION_PASSED'
+  | 'FALSE_ALARM'
+  | 'BEYOND_REPAIR'
+  | 'OTHER';
+
+export interface DeviceStatusChange {
+  reason?: DeviceStatusReason;
+  note?: string;
+  serviceRequestId?: string; // Required when taking a device out of service
+}
+
+export const DEVICE_STATUS_LABELS: Record<DeviceStatus, string> = {
+  Operational: 'Operational',
+  Maintenance_Required: 'Maintenance Required',
+  Under_Maintenance: 'Under Maintenance',
+  Out_of_Service: 'Out of Service'
+};
+
+export const DEVICE_STATUS_REASON_LABELS: Record<DeviceStatusReason, string> = {
+  FAULT_REPORTED: 'Fault reported',
+  FAILED_SAFETY_CHECK: 'Failed safety check',
+  PM_DUE: 'Preventive maintenance due',
+  CALIBRATION_DUE: 'Calibration due',
+  SCHEDULED_MAINTENANCE: 'Scheduled maintenance',
+  REPAIR_STARTED: 'Repair started',
+  AWAITING_PARTS: 'Awaiting parts',
+  REPAIR_COMPLETED: 'Repair completed',
+  INSPECTION_PASSED: 'Inspection passed',
+  FALSE_ALARM: 'False alarm',
+  BEYOND_REPAIR: 'Beyond repair',
+  OTHER: 'Other (explain in note)'
+};
+
+// New devices cannot start out of service - there is no service request to link yet
+export const INITIAL_DEVICE_STATUSES: DeviceStatus[] = ['Operational', 'Maintenance_Required', 'Under_Maintenance'];
+
+// For each current status, the statuses it may move to and the reason codes accepted for each move
+const TRANSITIONS: Record<DeviceStatus, Partial<Record<DeviceStatus, DeviceStatusReason[]>>> = {
+  Operational: {
+    Maintenance_Required: ['PM_DUE', 'CALIBRATION_DUE', 'FAULT_REPORTED', 'OTHER'],
+    Under_Maintenance: ['SCHEDULED_MAINTENANCE', 'REPAIR_STARTED', 'OTHER'],
+    Out_of_Service: ['FAULT_REPORTED', 'FAILED_SAFETY_CHECK', 'OTHER']
+  },
+  Maintenance_Required: {
+    Under_Maintenance: ['SCHEDULED_MAINTENANCE', 'REPAIR_STARTED', 'OTHER'],
+    Out_of_Service: ['FAULT_REPORTED', 'FAILED_SAFETY_CHECK', 'OTHER'],
+    Operational: ['FALSE_ALARM', 'INSPECTION_PASSED', 'OTHER']
+  },
+  Under_Maintenance: {
+    Operational: ['REPAIR_COMPLETED', 'INSPECTION_PASSED', 'OTHER'],
+    Maintenance_Required: ['AWAITING_PARTS', 'OTHER'],
+    Out_of_Service: ['AWAITING_PARTS', 'FAILED_SAFETY_CHECK', 'BEYOND_REPAIR', 'OTHER']
+  },
+  Out_of_Service: {
+    Under_Maintenance: ['REPAIR_STARTED', 'OTHER'],
+    Operational: ['REPAIR_COMPLETED', 'INSPECTION_PASSED', 'OTHER']
+  }
+};
+
+export const getAllowedTransitions = (from: DeviceStatus): DeviceStatus[] =>
+  Object.keys(TRANSITIONS[from] || {}) as DeviceStatus[];
+
+// Current status first, followed by every legal next state - what status pickers should offer
+export const getSelectableStatuses = (current?: DeviceStatus): DeviceStatus[] =>
+  current ? [current, ...getAllowedTransitions(current)] : INITIAL_DEVICE_STATUSES;
+
+export const getTransitionReasons = (from: DeviceStatus, to: DeviceStatus): DeviceStatusReason[] =>
+  TRANSITIONS[from]?.[to] || [];
+
+export const requiresServiceRequest = (to: DeviceStatus): boolean => to === 'Out_of_Service';
+
+export const isOpenServiceRequest = (request: Pick<ServiceRequest, 'request_status'>): boolean =>
+  request.request_status === 'Open' || request.request_status === 'In_Progress';
+
+// Device fields written alongside a status change
+export const buildStatusUpdate = (to: DeviceStatus, change: DeviceStatusChange): Partial<Device> => ({
+  status: to,
+  status_reason: change.reason || '',
+  status_note: change.note?.trim() || '',
+  status_service_request_id: requiresServiceRequest(to) ? change.serviceRequestId || '' : ''
+});
+
+export class DeviceStatusTransitionError extends Error {
+  readonly from: DeviceStatus | undefined;
+  readonly to: DeviceStatus;
+
+  constructor(from: DeviceStatus | undefined, to: DeviceStatus, message: string) {
+    super(message);
+    this.name = 'DeviceStatusTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+export const isDeviceStatusTransitionError = (error: unknown): error is DeviceStatusTransitionError =>
+  error instanceof DeviceStatusTransitionError;
+
+// Validates the shape of a transition; linking to a real open service request is checked by DatabaseService
+export const assertStatusTransition = (from: DeviceStatus, to: DeviceStatus, change: DeviceStatusChange): void => {
+  const reasons = getTransitionReasons(from, to);
+  if (reasons.length === 0) {
+    throw new DeviceStatusTransitionError(from, to,
+      `Cannot change status from ${DEVICE_STATUS_LABELS[from]} to ${DEVICE_STATUS_LABELS[to]}`);
+  }
+  if (!change.reason || !reasons.includes(change.reason)) {
+    throw new DeviceStatusTransitionError(from, to,
+      `A reason is required to change status to ${DEVICE_STATUS_LABELS[to]}`);
+  }
+  if (change.reason === 'OTHER' && !change.note?.trim()) {
+    throw new DeviceStatusTransitionError(from, to, 'A note is required when the reason is "Other"');
+  }
+  if (requiresServiceRequest(to) && !change.serviceRequestId) {
+    throw new DeviceStatusTransitionError(from, to,
+      'Taking a device out of service requires a linked service request');
+  }
+};
+
+export const assertInitialStatus = (status: DeviceStatus): void => {
+  if (!INITIAL_DEVICE_STATUSES.includes(status)) {
+    throw new DeviceStatusTransitionError(undefined, status,
+      `New devices cannot be created as ${DEVICE_STATUS_LABELS[status]}`);
+  }
+};
@@ -0,0 +1,447 @@
+// Device-type registry: per-type attributes, risk class and default maintenance templates
+import type { MaintenanceRecord } from './database';
+
+export type BuiltInDeviceType =
+  | 'OCT'
+  | 'Fundus_Camera'
+  | 'Visual_Field'
+  | 'Tonometer'
+  | 'Slit_Lamp'
+  | 'Autorefractor'
+  | 'Keratometer'
+  | 'Pachymeter'
+  | 'Specular_Microscope'
+  | 'Laser_System';
+
+// Built-in IDs keep autocompletion while types registered at runtime remain valid
+export type DeviceTypeId = BuiltInDeviceType | (string & {});
+
+export type DeviceAttributeValue = string | number | boolean;
+
+export type DeviceAttributes = Record<string, DeviceAttributeValue>;
+
+export type RiskClass = 'I' | 'II' | 'III';
+
+export interface DeviceAttributeDefinition {
+  key: string;
+  label: string;
+  type: 'text' | 'number' | 'select' | 'boolean';
+  unit?: string;
+  options?: string[];
+  required?: boolean;
+  min?: number;
+  max?: number;
+  placeholder?: string;
+}
+
+// 'fixed' keeps a calendar cadence from the first due date; 'from_completion' restarts the interval when the work is done
+export type PmRecurrence = 'fixed' | 'from_completion';
+
+export interface ChecklistMeasurementDefinition {
+  unit: string;
+  min?: number; // Acceptance range; readings outside it fail the step
+  max?: number;
+}
+
+export interface ChecklistStepDefinition {
+  label: string;
+  mandatory?: boolean; // Defaults to true
+  measurement?: ChecklistMeasurementDefinition;
+}
+
+export interface DeviceMaintenanceTemplate {
+  id: string;
+  name: string;
+  maintenance_type: MaintenanceRecord['maintenance_type'];
+  checklist: (string | ChecklistStepDefinition)[]; // Plain strings are mandatory pass/fail steps
+  estimated_duration: number; // hours
+  frequency_days: number;
+  recurrence?: PmRecurrence; // Defaults to 'from_completion'
+  due_window_days?: number; // Days either side of the due date the work may move; defaults to a tenth of the interval
+}
+
+// Reference value checked against a calibrated standard; readings within nominal ± tolerance pass
+export interface CalibrationPointDefinition {
+  id: string;
+  label: string;
+  nominal: number;
+  unit: string;
+  tolerance: number;
+}
+
+export interface DeviceTypeDefinition {
+  id: DeviceTypeId;
+  label: string;
+  riskClass: RiskClass;
+  attributes: DeviceAttributeDefinition[];
+  maintenanceTemplates: DeviceMaintenanceTemplate[];
+  calibrationPoints?: CalibrationPointDefinition[];
+  // Matched against UserProfile.certifications when technicians are assigned
+  requiredCertifications?: string[];
+  // Free-text names older records were saved with, e.g. 'OCT Scanner'
+  aliases?: string[];
+}
+
+export const RISK_CLASS_LABELS: Record<RiskClass, string> = {
+  I: 'Class I - Low risk',
+  II: 'Class II - Moderate risk',
+  III: 'Class III - High risk'
+};
+
+const LASER_CLASSES = ['Class 1', 'Class 1M', 'Class 2', 'Class 2M', 'Class 3R', 'Class 3B', 'Class 4'];
+
+const BUILT_IN_TYPES: DeviceTypeDefinition[] = [
+  {
+    id: 'OCT',
+    label: 'OCT Scanner',
+    riskClass: 'II',
+    aliases: ['OCT Scanner', 'OCT Machine'],
+    attributes: [
+      { key: 'technology', label: 'Technology', type: 'select', options: ['Spectral Domain', 'Swept Source', 'Time Domain'], required: true },
+      { key: 'scan_speed', label: 'Scan Speed', type: 'number', unit: 'A-scans/s', min: 0, required: true },
+      { key: 'axial_resolution', label: 'Axial Resolution', type: 'number', unit: 'µm', min: 0 },
+      { key: 'laser_class', label: 'Laser Class', type: 'select', options: LASER_CLASSES, required: true },
+      { key: 'angiography', label: 'OCT Angiography', type: 'boolean' }
+    ],
+    maintenanceTemplates: [
+      {
+        id: 'oct_preventive',
+        name: 'OCT Preventive Maintenance',
+        maintenance_type: 'Preventive',
+        checklist: [
+          'Clean optical surfaces',
+          'Check laser alignment',
+          'Verify software calibration',
+          'Test image quality',
+          'Check cooling system',
+          { label: 'Update software if needed', mandatory: false }
+        ],
+        estimated_duration: 2,
+        frequency_days: 180
+      }
+    ]
+  },
+  {
+    id: 'Fundus_Camera',
+    label: 'Fundus Camera',
+    riskClass: 'II',
+    attributes: [
+      { key: 'field_of_view', label: 'Field of View', type: 'number', unit: '°', min: 0, max: 200 },
+      { key: 'pupil_mode', label: 'Pupil Mode', type: 'select', options: ['Mydriatic', 'Non-mydriatic', 'Hybrid'] },
+      { key: 'sensor_resolution', label: 'Sensor Resolution', type: 'number', unit: 'MP', min: 0 }
+    ],
+    maintenanceTemplates: [
+      {
+        id: 'fundus_inspection',
+        name: 'Fundus Camera Inspection',
+        maintenance_type: 'Inspection',
+        checklist: [
+          { label: 'Check flash bulb intensity', measurement: { unit: '% of nominal', min: 80, max: 120 } },
+          'Clean camera lens',
+          'Test autofocus system',
+          'Verify color balance',
+          'Check patient positioning system'
+        ],
+        estimated_duration: 1,
+        frequency_days: 90
+      }
+    ]
+  },
+  {
+    id: 'Visual_Field',
+    label: 'Visual Field Analyzer',
+    riskClass: 'II',
+    attributes: [
+      { key: 'background_luminance', label: 'Background Luminance', type: 'number', unit: 'cd/m²', min: 0 },
+      { key: 'test_strategies', label: 'Test Strategies', type: 'text', placeholder: 'e.g., SITA Standard, SITA Fast' }
+    ],
+    maintenanceTemplates: [
+      {
+        id: 'vf_calibration',
+        name: 'Visual Field Analyzer Calibration',
+        maintenance_type: 'Calibration',
+        checklist: [
+          'Calibrate light intensity',
+          'Check button response timing',
+          'Verify screen uniformity',
+          'Test sound system',
+          'Validate test patterns'
+        ],
+        estimated_duration: 1.5,
+        frequency_days: 365,
+        recurrence: 'fixed'
+      }
+    ],
+    calibrationPoints: [
+      { id: 'background_luminance', label: 'Background luminance', nominal: 10, unit: 'cd/m²', tolerance: 0.5 },
+      { id: 'max_stimulus_luminance', label: 'Maximum stimulus luminance', nominal: 3183, unit: 'cd/m²', tolerance: 160 }
+    ]
+  },
+  {
+    id: 'Tonometer',
+    label: 'Tonometer',
+    riskClass: 'II',
+    attributes: [
+      { key: 'method', label: 'Method', type: 'select', options: ['Goldmann Applanation', 'Non-contact', 'Rebound', 'Dynamic Contour'], required: true },
+      { key: 'calibration_force_min', label: 'Calibration Range Min', type: 'number', unit: 'mmHg', min: 0, max: 80, required: true },
+      { key: 'calibration_force_max', label: 'Calibration Range Max', type: 'number', unit: 'mmHg', min: 0, max: 80, required: true }
+    ],
+    maintenanceTemplates: [
+      {
+        id: 'tonometer_calibration',
+        name: 'Tonometer Calibration Check',
+        maintenance_type: 'Calibration',
+        checklist: [
+          'Inspect calibration bar or check weights for damage',
+          'Inspect prism or probe for damage',
+          'Disinfect contact surfaces'
+        ],
+        estimated_duration: 0.5,
+        frequency_days: 180,
+        recurrence: 'fixed',
+        due_window_days: 14
+      }
+    ],
+    calibrationPoints: [
+      { id: 'reading_0', label: 'Reading at 0 mmHg', nominal: 0, unit: 'mmHg', tolerance: 0.5 },
+      { id: 'reading_20', label: 'Reading at 20 mmHg', nominal: 20, unit: 'mmHg', tolerance: 1 },
+      { id: 'reading_60', label: 'Reading at 60 mmHg', nominal: 60, unit: 'mmHg', tolerance: 1.5 }
+    ]
+  },
+  {
+    id: 'Slit_Lamp',
+    label: 'Slit Lamp',
+    riskClass: 'II',
+    attributes: [
+      { key: 'illumination', label: 'Illumination', type: 'select', options: ['Halogen', 'LED'] },
+      { key: 'magnification_steps', label: 'Magnification Steps', type: 'text', placeholder: 'e.g., 6x, 10x, 16x, 25x, 40x' },
+      { key: 'imaging_module', label: 'Imaging Module', type: 'boolean' }
+    ],
+    maintenanceTemplates: [
+      {
+        id: 'slit_lamp_inspection',
+        name: 'Slit Lamp Inspection',
+        maintenance_type: 'Inspection',
+        checklist: [
+          'Check slit width and height adjustment',
+          'Clean eyepieces and objective',
+          'Verify illumination and filters',
+          'Lubricate joystick and base'
+        ],
+        estimated_duration: 0.5,
+        frequency_days: 365
+      }
+    ]
+  },
+  {
+    id: 'Autorefractor',
+    label: 'Autorefractor',
+    riskClass: 'I',
+    attributes: [
+      { key: 'sphere_range_min', label: 'Sphere Range Min', type: 'number', unit: 'D', min: -40, max: 0 },
+      { key: 'sphere_range_max', label: 'Sphere Range Max', type: 'number', unit: 'D', min: 0, max: 40 },
+      { key: 'keratometry', label: 'Keratometry', type: 'boolean' }
+    ],
+    maintenanceTemplates: [
+      {
+        id: 'autorefractor_verification',
+        name: 'Autorefractor Verification',
+        maintenance_type: 'Calibration',
+        checklist: [
+          'Clean and inspect reference model eye',
+          'Clean measurement window',
+          'Check chin rest movement'
+        ],
+        estimated_duration: 0.5,
+        frequency_days: 365
+      }
+    ],
+    calibrationPoints: [
+      { id: 'model_eye_minus_5', label: 'Model eye -5.00 D sphere', nominal: -5, unit: 'D', tolerance: 0.25 },
+      { id: 'model_eye_plano', label: 'Model eye plano sphere', nominal: 0, unit: 'D', tolerance: 0.25 },
+      { id: 'model_eye_plus_5', label: 'Model eye +5.00 D sphere', nominal: 5, unit: 'D', tolerance: 0.25 }
+    ]
+  },
+  {
+    id: 'Keratometer',
+    label: 'Keratometer',
+    riskClass: 'I',
+    attributes: [
+      { key: 'radius_range_min', label: 'Radius Range Min', type: 'number', unit: 'mm', min: 0 },
+      { key: 'radius_range_max', label: 'Radius Range Max', type: 'number', unit: 'mm', min: 0 }
+    ],
+    maintenanceTemplates: [
+      {
+        id: 'keratometer_verification',
+        name: 'Keratometer Verification',
+        maintenance_type: 'Calibration',
+        checklist: [
+          'Measure calibration spheres',
+          'Clean optics'
+        ],
+        estimated_duration: 0.5,
+        frequency_days: 365
+      }
+    ]
+  },
+  {
+    id: 'Pachymeter',
+    label: 'Pachymeter',
+    riskClass: 'II',
+    attributes: [
+      { key: 'method', label: 'Method', type: 'select', options: ['Ultrasound', 'Optical'], required: true },
+      { key: 'probe_frequency', label: 'Probe Frequency', type: 'number', unit: 'MHz', min: 0 }
+    ],
+    maintenanceTemplates: [
+      {
+        id: 'pachymeter_verification',
+        name: 'Pachymeter Verification',
+        maintenance_type: 'Calibration',
+        checklist: [
+          'Verify reading against test block',
+          'Inspect probe tip and cable',
+          'Disinfect probe'
+        ],
+        estimated_duration: 0.5,
+        frequency_days: 180
+      }
+    ]
+  },
+  {
+    id: 'Specular_Microscope',
+    label: 'Specular Microscope',
+    riskClass: 'II',
+    attributes: [
+      { key: 'cell_analysis', label: 'Cell Analysis', type: 'select', options: ['Automatic', 'Semi-automatic', 'Manual'] },
+      { key: 'capture_area', label: 'Capture Area', type: 'text', placeholder: 'e.g., 0.25 x 0.55 mm' }
+    ],
+    maintenanceTemplates: [
+      {
+        id: 'specular_inspection',
+        name: 'Specular Microscope Inspection',
+        maintenance_type: 'Inspection',
+        checklist: [
+          'Verify cell count on reference image',
+          'Clean objective lens',
+          'Check focus mechanism'
+        ],
+        estimated_duration: 1,
+        frequency_days: 365
+      }
+    ]
+  },
+  {
+    id: 'Laser_System',
+    label: 'Laser System',
+    riskClass: 'III',
+    requiredCertifications: ['Laser Safety'],
+    attributes: [
+      { key: 'laser_type', label: 'Laser Type', type: 'select', options: ['Nd:YAG', 'SLT', 'Photocoagulator', 'Excimer', 'Femtosecond'], required: true },
+      { key: 'wavelength', label: 'Wavelength', type: 'number', unit: 'nm', min: 0, required: true },
+      { key: 'laser_class', label: 'Laser Class', type: 'select', options: LASER_CLASSES, required: true },
+      { key: 'max_power', label: 'Maximum Power', type: 'number', unit: 'mW', min: 0 }
+    ],
+    maintenanceTemplates: [
+      {
+        id: 'laser_safety_check',
+        name: 'Laser Power & Safety Check',
+        maintenance_type: 'Calibration',
+        checklist: [
+          { label: 'Measure output power against setpoint', measurement: { unit: '% of setpoint', min: 80, max: 120 } },
+          'Verify aiming beam alignment',
+          'Test emergency stop and interlocks',
+          'Inspect fiber and delivery optics',
+          'Check warning signage and eyewear'
+        ],
+        estimated_duration: 2,
+        frequency_days: 180,
+        recurrence: 'fixed',
+        due_window_days: 7
+      }
+    ]
+  }
+];
+
+const isEmptyValue = (value: DeviceAttributeValue | undefined) =>
+  value === undefined || value === '' || (typeof value === 'number' && Number.isNaN(value));
+
+class DeviceTypeRegistry {
+  private types = new Map<string, DeviceTypeDefinition>();
+
+  constructor(definitions: DeviceTypeDefinition[]) {
+    definitions.forEach(definition => this.register(definition));
+  }
+
+  // Adds or replaces a type definition
+  register(definition: DeviceTypeDefinition): void {
+    this.types.set(definition.id, definition);
+  }
+
+  list(): DeviceTypeDefinition[] {
+    return Array.from(this.types.values());
+  }
+
+  get(id: string | undefined): DeviceTypeDefinition | undefined {
+    return id ? this.types.get(this.resolve(id) || id) : undefined;
+  }
+
+  // Maps a stored device_type (ID, label or legacy alias) to a registered type ID
+  resolve(value: string): DeviceTypeId | undefined {
+    if (this.types.has(value)) return value;
+    const normalized = value.trim().toLowerCase();
+    return this.list().find(definition =>
+      definition.label.toLowerCase() === normalized ||
+      definition.aliases?.some(alias => alias.toLowerCase() === normalized)
+    )?.id;
+  }
+
+  getLabel(value: string): string {
+    return this.get(value)?.label || value.replace(/_/g, ' ');
+  }
+
+  // Returns field errors keyed by attribute key; empty when the attributes are valid
+  validateAttributes(typeId: string, attributes: DeviceAttributes = {}): Record<string, string> {
+    const definition = this.get(typeId);
+    if (!definition) {
+      return { device_type: `Unknown device type: ${typeId}` };
+    }
+
+    return definition.attributes.reduce((errors, attribute) => {
+      const value = attributes[attribute.key];
+      if (isEmptyValue(value)) {
+        if (attribute.required) errors[attribute.key] = `${attribute.label} is required`;
+        return errors;
+      }
+
+      if (attribute.type === 'number') {
+        const numeric = Number(value);
+        if (Number.isNaN(numeric)) {
+          errors[attribute.key] = `${attribute.label} must be a number`;
+        } else if (attribute.min !== undefined && numeric < attribute.min) {
+          errors[attribute.key] = `${attribute.label} must be at least ${attribute.min}`;
+        } else if (attribute.max !== undefined && numeric > attribute.max) {
+          errors[attribute.key] = `${attribute.label} must be at most ${attribute.max}`;
+        }
+      }
+      if (attribute.type === 'select' && attribute.options && !attribute.options.includes(String(value))) {
+        errors[attribute.key] = `${attribute.label} must be one of: ${attribute.options.join(', ')}`;
+      }
+      return errors;
+    }, {} as Record<string, string>);
+  }
+
+  // Drops keys the type does not define and coerces numbers, so stored attributes match the registry
+  normalizeAttributes(typeId: string, attributes: DeviceAttributes = {}): DeviceAttributes {
+    const definition = this.get(typeId);
+    if (!definition) return {};
+
+    return definition.attributes.reduce((normalized, attribute) => {
+      const value = attributes[attribute.key];
+      if (isEmptyValue(value)) return normalized;
+      normalized[attribute.key] = attribute.type === 'number' ? Number(value) : value;
+      return normalized;
+    }, {} as DeviceAttributes);
+  }
+}
+
+export const deviceTypeRegistry = new DeviceTypeRegistry(BUILT_IN_TYPES);
@@ -0,0 +1,228 @@
+// Side effects of data-layer writes: audit trail, notifications, inventory, manufacturer integrations,
+// attachment cleanup, preventive maintenance scheduling, calibration reviews, search index and facility count freshness
+import { DatabaseService, MaintenanceRecord, isCancelledMaintenance } from './database';
+import { DomainEventType, domainEvents } from './domain-events';
+import { changeHistoryService } from './change-history';
+import { EmailService } from './email';
+import { notificationSystemService } from './notification-system';
+import { InventoryManagementService } from './inventory-management';
+import { ManufacturerIntegrationService, ManufacturerDevice, ServiceEvent } from './manufacturer-integrations';
+import { DEVICE_STATUS_LABELS } from './device-lifecycle';
+import { attachmentService } from './attachments';
+import { pmScheduleService } from './pm-schedule';
+import { buildCalibrationReviewRequest } from './calibration';
+import { searchIndexService } from './search-index';
+import { facilityManagementService } from './facility-management';
+
+// Placeholder inboxes until recipients come from user profiles
+const SUPPORT_INBOX = { email: 'support@example.com', name: 'Support Team' };
+const MAINTENANCE_MANAGERS = ['manager@example.com'];
+
+const SERVICE_EVENT_TYPES: Record<MaintenanceRecord['maintenance_type'], ServiceEvent['type']> = {
+  Preventive: 'maintenance',
+  Inspection: 'maintenance',
+  Corrective: 'repair',
+  Emergency_Repair: 'repair',
+  Calibration: 'calibration'
+};
+
+const MANUFACTURER_STATUSES: Record<keyof typeof DEVICE_STATUS_LABELS, ManufacturerDevice['status']> = {
+  Operational: 'active',
+  Maintenance_Required: 'maintenance',
+  Under_Maintenance: 'maintenance',
+  Out_of_Service: 'offline'
+};
+
+const getDeviceName = async (deviceId: string): Promise<string> => {
+  const device = await DatabaseService.getDeviceById(deviceId);
+  return device ? `${device.manufacturer} ${device.model}` : 'Unknown Device';
+};
+
+function registerAuditHandlers() {
+  domainEvents.on('device.created', ({ payload }) => changeHistoryService.recordCreate('device', payload.deviceId, payload.device));
+  domainEvents.on('device.updated', ({ payload, userId }) =>
+    changeHistoryService.recordUpdate('device', payload.deviceId, payload.before, payload.updates, {
+      userId,
+      revision: payload.revision
+    }));
+  domainEvents.on('device.deleted', ({ payload, userId }) =>
+    changeHistoryService.recordDelete('device', payload.deviceId, payload.device, { userId }));
+
+  domainEvents.on('maintenance.scheduled', ({ payload, userId }) =>
+    changeHistoryService.recordCreate('maintenance_record', payload.recordId, payload.record, {
+      userId,
+      deviceId: payload.record.device_id
+    }));
+  domainEvents.on('maintenance.updated', ({ payload, userId }) =>
+    changeHistoryService.recordUpdate('maintenance_record', payload.recordId, payload.before, payload.updates, {
+      userId,
+      deviceId: payload.before.device_id,
+      revision: payload.revision
+    }));
+
+  domainEvents.on('service_request.created', ({ payload }) =>
+    changeHistoryService.recordCreate('service_request', payload.requestId, payload.request, { deviceId: payload.request.device_id }));
+  domainEvents.on('service_request.updated', ({ payload, userId }) =>
+    changeHistoryService.recordUpdate('service_request', payload.requestId, payload.before, payload.updates, {
+      userId,
+      deviceId: payload.before.device_id,
+      revision: payload.revision
+    }));
+
+  domainEvents.on('user_profile.created', ({ payload }) =>
+    changeHistoryService.recordCreate('user_profile', payload.profileId, payload.profile));
+  domainEvents.on('user_profile.updated', ({ payload, userId }) =>
+    changeHistoryService.recordUpdate('user_profile', payload.profileId, payload.before, payload.updates, { userId }));
+}
+
+function registerNotificationHandlers() {
+  domainEvents.on('service_request.created', async ({ payload: { request, requestId } }) => {
+    const deviceName = await getDeviceName(request.device_id);
+    if (request.priority === 'Critical' || request.priority === 'High') {
+      await EmailService.sendServiceRequestNotification(SUPPORT_INBOX.email, SUPPORT_INBOX.name, {
+        requestId,
+        deviceName,
+        priority: request.priority,
+        description: request.description,
+        reportedBy: request.reported_by
+      });
+    }
+    await notificationSystemService.triggerRules('service_request', {
+      deviceName,
+      priority: request.priority.toLowerCase(),
+      issueType: request.issue_type,
+      description: request.description
+    }, { deviceId: request.device_id });
+  });
+
+  domainEvents.on('service_request.status_changed', async ({ payload: { request, requestId, from, to } }) => {
+    // Requesters hear about progress when they left an email address
+    if (!request.reporter_contact?.includes('@')) return;
+    await EmailService.sendServiceRequestNotification(request.reporter_contact, request.reported_by, {
+      requestId,
+      deviceName: await getDeviceName(request.device_id),
+      priority: request.priority,
+      description: `Status updated from ${from.replace(/_/g, ' ')} to ${to.replace(/_/g, ' ')}. ${request.resolution_notes || ''}`.trim(),
+      reportedBy: request.assigned_to || 'Service Team'
+    });
+  });
+
+  domainEvents.on('maintenance.completed', async ({ payload: { record } }) => {
+    await EmailService.sendMaintenanceCompletionNotification(MAINTENANCE_MANAGERS, {
+      deviceName: await getDeviceName(record.device_id),
+      maintenanceType: record.maintenance_type.replace(/_/g, ' '),
+      technicianName: record.technician_name,
+      completionDate: new Date().toISOString(),
+      nextMaintenanceDate: record.next_maintenance_due,
+      status: 'Completed',
+      summary: record.notes || record.description || 'Maintenance completed successfully'
+    });
+  });
+
+  domainEvents.on('device.status_changed', async ({ payload: { device, deviceId, to } }) => {
+    if (to !== 'Out_of_Service') return;
+    await notificationSystemService.triggerRules('device_status', {
+      deviceName: `${device.manufacturer} ${device.model}`,
+      status: to,
+      errorMessage: device.status_note || DEVICE_STATUS_LABELS[to],
+      failureTime: new Date().toISOString(),
+      priority: 'critical'
+    }, { deviceId, deviceType: device.device_type });
+  });
+}
+
+function registerInventoryHandlers() {
+  domainEvents.on('maintenance.completed', async ({ payload: { record, recordId } }) => {
+    if (!record.parts_replaced) return;
+    await InventoryManagementService.consumeMaintenanceParts(record.device_id, record.parts_replaced, recordId);
+  });
+}
+
+function registerIntegrationHandlers() {
+  domainEvents.on('maintenance.completed', async ({ payload: { record } }) => {
+    const device = await DatabaseService.getDeviceById(record.device_id);
+    if (!device) return;
+    await ManufacturerIntegrationService.reportServiceEvent(device.serial_number, {
+      date: record.maintenance_date,
+      type: SERVICE_EVENT_TYPES[record.maintenance_type] || 'maintenance',
+      description: record.description,
+      technician: record.technician_name,
+      cost: record.cost
+    });
+  });
+
+  domainEvents.on('device.status_changed', async ({ payload: { device, to } }) => {
+    await ManufacturerIntegrationService.reportDeviceStatus(device.serial_number, MANUFACTURER_STATUSES[to]);
+  });
+}
+
+function registerAttachmentHandlers() {
+  // Deletion is only allowed once a device has no records, so its own files are all that can be left behind
+  domainEvents.on('device.deleted', async ({ payload: { deviceId } }) => {
+    await attachmentService.deleteOwnerAttachments('device', deviceId);
+  });
+}
+
+function registerScheduleHandlers() {
+  // Completion-driven PM series restart from the completion date; the device's due dates follow
+  domainEvents.on('maintenance.completed', ({ payload: { record, recordId }, userId, occurredAt }) =>
+    pmScheduleService.handleCompletion(record, recordId, userId || '', record.completed_at || occurredAt));
+
+  // Moving or cancelling work changes which open occurrence is next
+  domainEvents.on('maintenance.updated', ({ payload: { before, updates }, userId }) => {
+    const moved = updates.maintenance_date && updates.maintenance_date !== before.maintenance_date;
+    const cancelled = isCancelledMaintenance({ ...before, ...updates }) && !isCancelledMaintenance(before);
+    if (moved || cancelled) {
+      return pmScheduleService.refreshDevice(before.device_id, userId || '');
+    }
+  });
+}
+
+function registerCalibrationHandlers() {
+  domainEvents.on('maintenance.completed', async ({ payload: { record, recordId } }) => {
+    if (!record.calibration || record.calibration.asFoundInTolerance) return;
+    await DatabaseService.createServiceRequest(buildCalibrationReviewRequest(record, recordId, record.calibration));
+  });
+}
+
+// Every write to a searchable record
+const SEARCH_INDEX_EVENTS: DomainEventType[] = [
+  'device.created',
+  'device.updated',
+  'device.deleted',
+  'maintenance.scheduled',
+  'maintenance.updated',
+  'service_request.created',
+  'service_request.updated'
+];
+
+function registerSearchIndexHandlers() {
+  SEARCH_INDEX_EVENTS.forEach(type => domainEvents.on(type, () => searchIndexService.invalidate()));
+}
+
+function registerFacilityHandlers() {
+  const invalidate = () => facilityManagementService.invalidateDeviceCounts();
+  domainEvents.on('device.created', invalidate);
+  domainEvents.on('device.deleted', invalidate);
+  domainEvents.on('device.updated', ({ payload: { updates } }) => {
+    if ('facility_id' in updates || 'archived_at' in updates) invalidate();
+  });
+}
+
+let registered = false;
+
+// Called once at startup; repeated calls are ignored so handlers are never subscribed twice
+export function registerDomainEventHandlers(): void {
+  if (registered) return;
+  registered = true;
+
+  registerAuditHandlers();
+  registerNotificationHandlers();
+  registerInventoryHandlers();
+  registerIntegrationHandlers();
+  registerAttachmentHandlers();
+  registerScheduleHandlers();
+  registerCalibrationHandlers();
+  registerSearchIndexHandlers();
+  registerFacilityHandlers();
+}
@@ -0,0 +1,80 @@
+// Typed domain events emitted by DatabaseService after each successful write
+import type { Device, MaintenanceRecord, ServiceRequest, UserProfile } from './database';
+import type { DeviceStatusReason } from './device-lifecycle';
+
+type NewRecord<T> = Omit<T, '_id' | '_uid' | '_tid'>;
+
+// Event name -> payload. The *.created/*.updated events carry enough for field-level auditing;
+// the rest describe what happened in domain terms for notifications and integrations.
+export interface DomainEventMap {
+  'device.created': { deviceId: string; device: NewRecord<Device> };
+  'device.updated': { deviceId: string; before: Device; updates: Partial<Device>; revision: number };
+  'device.deleted': { deviceId: string; device: Device };
+  'device.status_changed': {
+    deviceId: string;
+    device: Device;
+    from: Device['status'];
+    to: Device['status'];
+    reason?: DeviceStatusReason | '';
+    serviceRequestId?: string;
+  };
+  'device.archived': { deviceId: string; device: Device; reason: string };
+  'device.restored': { deviceId: string; device: Device };
+  'maintenance.scheduled': { recordId: string; record: NewRecord<MaintenanceRecord> };
+  'maintenance.updated': { recordId: string; before: MaintenanceRecord; updates: Partial<MaintenanceRecord>; revision: number };
+  'maintenance.completed': { recordId: string; record: MaintenanceRecord };
+  'service_request.created': { requestId: string; request: NewRecord<ServiceRequest> };
+  'service_request.updated': { requestId: string; before: ServiceRequest; updates: Partial<ServiceRequest>; revision: number };
+  'service_request.status_changed': {
+    requestId: string;
+    request: ServiceRequest;
+    from: ServiceRequest['request_status'];
+    to: ServiceRequest['request_status'];
+  };
+  'user_profile.created': { profileId: string; profile: NewRecord<UserProfile> };
+  'user_profile.updated': { profileId: string; before: UserProfile; updates: Partial<UserProfile> };
+}
+
+export type DomainEventType = keyof DomainEventMap;
+
+export interface DomainEvent<K extends DomainEventType = DomainEventType> {
+  type: K;
+  payload: DomainEventMap[K];
+  userId?: string; // Who made the change, when the write knows it
+  occurredAt: string;
+}
+
+export type DomainEventHandler<K extends DomainEventType> = (event: DomainEvent<K>) => void | Promise<void>;
+
+type AnyHandler = (event: DomainEvent) => void | Promise<void>;
+
+class DomainEventBus {
+  private handlers = new Map<DomainEventType, Set<AnyHandler>>();
+
+  // Returns an unsubscribe function
+  on<K extends DomainEventType>(type: K, handler: DomainEventHandler<K>): () => void {
+    const handlers = this.handlers.get(type) || new Set<AnyHandler>();
+    handlers.add(handler as AnyHandler);
+    this.handlers.set(type, handlers);
+    return () => {
+      handlers.delete(handler as AnyHandler);
+    };
+  }
+
+  // Handlers run synchronously in subscription order; a failing subscriber never fails the write that emitted it
+  emit<K extends DomainEventType>(type: K, payload: DomainEventMap[K], userId?: string): void {
+    const event: DomainEvent<K> = { type, payload, userId, occurredAt: new Date().toISOString() };
+    this.handlers.get(type)?.forEach(handler => {
+      try {
+        const result = handler(event as DomainEvent);
+        if (result instanceof Promise) {
+          result.catch(error => console.error(`Domain event handler for ${type} failed:`, error));
+        }
+      } catch (error) {
+        console.error(`Domain event handler for ${type} failed:`, error);
+      }
+    });
+  }
+}
+
+export const domainEvents = new DomainEventBus();
@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { format } from 'date-fns';
+import { DatabaseService, Device, TABLE_IDS } from './database';
+import { electricalSafetyService, SafetyTestInput } from './electrical-safety';
+import { installQaSeed } from './seed-data';
+import { MemoryTableAdapter } from './table-storage';
+
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+  removeItem: (key: string) => storage.delete(key)
+});
+
+const TESTER = { id: 'qa-technician', name: 'Quinn Tester' };
+
+const input = (protectiveEarth: number): SafetyTestInput => ({
+  analyzerId: 'ESA-612',
+  method: 'alternative',
+  visualInspectionPassed: true,
+  functionalTestPassed: true,
+  values: { protective_earth_resistance: protectiveEarth, equipment_leakage: 50, applied_part_leakage: 10 }
+});
+
+const loadOct = async () => (await DatabaseService.getDeviceById('qa-device-oct')) as Device;
+
+const openSafetyOccurrences = async () =>
+  (await DatabaseService.getAllMaintenanceRecords({ deviceId: 'qa-device-oct', facilityIds: null }))
+    .filter(record => record.is_safety_test && record.after_status === 'Scheduled');
+
+describe('electricalSafetyService', () => {
+  let adapter: MemoryTableAdapter;
+
+  beforeEach(() => {
+    storage.clear();
+    adapter = installQaSeed();
+    DatabaseService.setFacilityScope(null);
+  });
+
+  it('keeps tests in the shared table and moves tests recorded locally into it', async () => {
+    storage.set('electrical-safety-tests', JSON.stringify({ version: 1, data: [{
+      id: 'legacy-test',
+      deviceId: 'qa-device-oct',
+      testedAt: '2025-01-10T09:00:00.000Z',
+      verdict: 'pass',
+      nextTestDue: '2026-01-10',
+      measurements: []
+    }] }));
+
+    const test = await electricalSafetyService.record(await loadOct(), input(0.1), TESTER);
+
+    expect((await electricalSafetyService.getTests('qa-device-oct')).map(stored => stored.id)).toEqual([test.id, 'legacy-test']);
+    expect((await adapter.getItems(TABLE_IDS.safety_tests)).items).toHaveLength(2);
+    expect(storage.get('electrical-safety-tests')).toBeUndefined();
+  });
+
+  it('schedules the next test a year out after a pass', async () => {
+    const test = await electricalSafetyService.record(await loadOct(), input(0.1), TESTER);
+
+    expect(test.verdict).toBe('pass');
+    expect(test.serviceRequestId).toBeUndefined();
+    const [next] = await openSafetyOccurrences();
+    expect(next.maintenance_date.slice(0, 4)).toBe(test.nextTestDue.slice(0, 4));
+    expect((await loadOct()).status).toBe('Operational');
+  });
+
+  it('takes the device out of service, opens a repair request and schedules a retest after a failure', async () => {
+    const test = await electricalSafetyService.record(await loadOct(), input(0.5), TESTER);
+
+    expect(test.verdict).toBe('fail');
+    expect(test.nextTestDue).toBe(format(new Date(), 'yyyy-MM-dd'));
+
+    const request = await DatabaseService.getServiceRequestById(test.serviceRequestId!);
+    expect(request).toMatchObject({ device_id: 'qa-device-oct', request_status: 'Open', priority: 'Critical' });
+    expect(request?.symptoms).toContain('Protective earth resistance');
+
+    expect(await loadOct()).toMatchObject({
+      status: 'Out_of_Service',
+      status_reason: 'FAILED_SAFETY_CHECK',
+      status_service_request_id: test.serviceRequestId
+    });
+    expect(await openSafetyOccurrences()).toHaveLength(1);
+  });
+});
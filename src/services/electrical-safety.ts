@@ -0,0 +1,371 @@
+// IEC 62353 recurrent electrical safety tests for mains-powered devices. Limits depend on the device's protection
+// class and applied part type; each test completes the device's open safety-test occurrence and schedules the next.
+// A failed test takes the device out of service under a new service request and schedules an immediate retest.
+import { addDays, format, parseISO, startOfDay } from 'date-fns';
+import {
+  DatabaseService,
+  Device,
+  MaintenanceRecord,
+  ServiceRequest,
+  TABLE_IDS,
+  UNASSIGNED_TECHNICIAN_ID,
+  isDeviceArchived,
+  isOpenMaintenance
+} from './database';
+import { buildStatusUpdate } from './device-lifecycle';
+import { facilityManagementService } from './facility-management';
+import { findMaintenanceSlotOnDay } from './maintenance-windows';
+import { pmScheduleService } from './pm-schedule';
+import { createItemId, getAllItems, getTableAdapter, isItemExists } from './table-storage';
+import { VersionedStore, isRecord, missingStringField } from './versioned-storage';
+
+// Internally powered devices are outside the scope of mains safety testing
+export type ProtectionClass = 'I' | 'II' | 'internal';
+export type MainsProtectionClass = Exclude<ProtectionClass, 'internal'>;
+export type AppliedPartType = 'none' | 'B' | 'BF' | 'CF';
+export type LeakageMethod = 'alternative' | 'direct' | 'differential';
+export type SafetyMeasurementKey = 'protective_earth_resistance' | 'equipment_leakage' | 'applied_part_leakage';
+export type SafetyTestVerdict = 'pass' | 'fail';
+
+export interface SafetyTestLimit {
+  key: SafetyMeasurementKey;
+  label: string;
+  unit: string;
+  limit: number; // Maximum permitted value
+}
+
+export interface SafetyMeasurementResult extends SafetyTestLimit {
+  value: number;
+  passed: boolean;
+}
+
+export interface ElectricalSafetyTest {
+  id: string;
+  deviceId: string;
+  facilityId?: string;
+  testedAt: string;
+  testerId: string;
+  testerName: string;
+  analyzerId: string; // Safety analyzer used for the measurements
+  protectionClass: MainsProtectionClass;
+  appliedPart: AppliedPartType;
+  method: LeakageMethod;
+  visualInspectionPassed: boolean;
+  functionalTestPassed: boolean;
+  measurements: SafetyMeasurementResult[];
+  verdict: SafetyTestVerdict;
+  notes?: string;
+  nextTestDue: string; // yyyy-MM-dd, the test date itself after a failure
+  maintenanceRecordId?: string; // Safety-test occurrence this test completed
+  serviceRequestId?: string; // Repair request opened for a failed test
+}
+
+export interface SafetyTestInput {
+  analyzerId: string;
+  method: LeakageMethod;
+  visualInspectionPassed: boolean;
+  functionalTestPassed: boolean;
+  values: Partial<Record<SafetyMeasurementKey, number>>;
+  notes?: string;
+  testedAt?: Date;
+}
+
+export const PROTECTION_CLASS_LABELS: Record<ProtectionClass, string> = {
+  I: 'Class I (protective earth)',
+  II: 'Class II (double insulated)',
+  internal: 'Internally powered'
+};
+
+export const APPLIED_PART_LABELS: Record<AppliedPartType, string> = {
+  none: 'No applied part',
+  B: 'Type B',
+  BF: 'Type BF',
+  CF: 'Type CF'
+};
+
+export const LEAKAGE_METHOD_LABELS: Record<LeakageMethod, string> = {
+  alternative: 'Alternative method',
+  direct: 'Direct method',
+  differential: 'Differential method'
+};
+
+export const SAFETY_VERDICT_LABELS: Record<SafetyTestVerdict, string> = {
+  pass: 'Pass',
+  fail: 'Fail'
+};
+
+// IEC 62353 leaves the interval to the manufacturer; these are the defaults when none is given
+export const SAFETY_TEST_INTERVAL_DAYS: Record<MainsProtectionClass, number> = {
+  I: 365,
+  II: 730
+};
+
+// IEC 62353:2014 Table 2
+const PROTECTIVE_EARTH_LIMIT_OHM = 0.3;
+const EQUIPMENT_LEAKAGE_LIMITS_UA: Record<LeakageMethod, Record<MainsProtectionClass, number>> = {
+  alternative: { I: 1000, II: 500 },
+  direct: { I: 500, II: 100 },
+  differential: { I: 500, II: 100 }
+};
+// Type B applied parts are covered by the equipment leakage measurement
+const APPLIED_PART_LEAKAGE_LIMITS_UA: Partial<Record<AppliedPartType, number>> = {
+  BF: 5000,
+  CF: 50
+};
+
+export const SAFETY_TEST_DESCRIPTION = 'IEC 62353 electrical safety test';
+const SAFETY_TEST_DURATION_HOURS = 0.5;
+
+// Certification a technician needs before being assigned safety-test occurrences
+export const SAFETY_TEST_CERTIFICATION = 'Electrical Safety';
+
+export class SafetyTestValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SafetyTestValidationError';
+  }
+}
+
+export const isSafetyTestValidationError = (error: unknown): error is SafetyTestValidationError =>
+  error instanceof SafetyTestValidationError;
+
+export const isMainsPowered = (device: Pick<Device, 'protection_class'>): device is Device & { protection_class: MainsProtectionClass } =>
+  device.protection_class === 'I' || device.protection_class === 'II';
+
+export const getSafetyTestLimits = (
+  protectionClass: MainsProtectionClass,
+  appliedPart: AppliedPartType,
+  method: LeakageMethod
+): SafetyTestLimit[] => {
+  const limits: SafetyTestLimit[] = [];
+  if (protectionClass === 'I') {
+    limits.push({ key: 'protective_earth_resistance', label: 'Protective earth resistance', unit: 'Ω', limit: PROTECTIVE_EARTH_LIMIT_OHM });
+  }
+  limits.push({ key: 'equipment_leakage', label: 'Equipment leakage current', unit: 'µA', limit: EQUIPMENT_LEAKAGE_LIMITS_UA[method][protectionClass] });
+  const appliedPartLimit = APPLIED_PART_LEAKAGE_LIMITS_UA[appliedPart];
+  if (appliedPartLimit !== undefined) {
+    limits.push({ key: 'applied_part_leakage', label: `Applied part leakage current (${appliedPart})`, unit: 'µA', limit: appliedPartLimit });
+  }
+  return limits;
+};
+
+// Tests recorded before they moved to the shared table; copied over once, see migrateLegacyTests
+const legacyTestStore = new VersionedStore<ElectricalSafetyTest>({
+  key: 'electrical-safety-tests',
+  label: 'Electrical safety tests',
+  validate: test => missingStringField(test, 'id', 'deviceId', 'testedAt', 'verdict', 'nextTestDue')
+    || (!Array.isArray(test.measurements) || !test.measurements.every(isRecord) ? 'Missing measurements' : null)
+});
+
+const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const byNewest = (a: ElectricalSafetyTest, b: ElectricalSafetyTest) => b.testedAt.localeCompare(a.testedAt);
+
+const isOpenSafetyOccurrence = (record: MaintenanceRecord) => Boolean(record.is_safety_test) && isOpenMaintenance(record);
+
+const describeFailures = (test: ElectricalSafetyTest): string[] => [
+  ...(test.visualInspectionPassed ? [] : ['Visual inspection failed']),
+  ...(test.functionalTestPassed ? [] : ['Functional test failed']),
+  ...test.measurements
+    .filter(measurement => !measurement.passed)
+    .map(measurement => `${measurement.label}: ${measurement.value} ${measurement.unit} (limit ${measurement.limit} ${measurement.unit})`)
+];
+
+const buildFailedTestRequest = (
+  device: Device,
+  test: ElectricalSafetyTest
+): Omit<ServiceRequest, '_id' | '_uid' | '_tid' | 'created_at' | 'updated_at'> => ({
+  device_id: test.deviceId,
+  facility_id: device.facility_id,
+  request_status: 'Open',
+  priority: 'Critical',
+  issue_type: 'Hardware_Failure',
+  description: `${SAFETY_TEST_DESCRIPTION} failed on ${format(new Date(test.testedAt), 'yyyy-MM-dd')}. ` +
+    `The device is out of service until it is repaired and passes a retest. Safety analyzer ${test.analyzerId}.`,
+  symptoms: describeFailures(test).join('\n'),
+  reported_by: test.testerName
+});
+
+class ElectricalSafetyService {
+  // Scheduling reads then writes the same occurrences, so runs never overlap
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private legacyMigration: Promise<void> | null = null;
+
+  async getTests(deviceId?: string): Promise<ElectricalSafetyTest[]> {
+    await this.migrateLegacyTests();
+    const tests = await getAllItems(TABLE_IDS.safety_tests, deviceId ? { query: { deviceId } } : {}) as ElectricalSafetyTest[];
+    return tests.sort(byNewest);
+  }
+
+  async getLatestTest(deviceId: string): Promise<ElectricalSafetyTest | undefined> {
+    return (await this.getTests(deviceId))[0];
+  }
+
+  // Rejects with SafetyTestValidationError when the device is not classified as mains-powered or a reading is missing
+  record(device: Device, input: SafetyTestInput, tester: { id: string; name: string }): Promise<ElectricalSafetyTest> {
+    return this.exclusive(async () => {
+      if (!device._id || !isMainsPowered(device)) {
+        throw new SafetyTestValidationError('Set the device protection class to Class I or Class II before testing');
+      }
+      if (!input.analyzerId.trim()) {
+        throw new SafetyTestValidationError('Enter the safety analyzer used for the test');
+      }
+
+      const appliedPart = device.applied_part || 'none';
+      const measurements = getSafetyTestLimits(device.protection_class, appliedPart, input.method).map(limit => {
+        const value = input.values[limit.key];
+        if (value === undefined || Number.isNaN(value) || value < 0) {
+          throw new SafetyTestValidationError(`Enter a reading for ${limit.label}`);
+        }
+        return { ...limit, value, passed: value <= limit.limit };
+      });
+
+      const testedAt = input.testedAt || new Date();
+      const verdict: SafetyTestVerdict = input.visualInspectionPassed && input.functionalTestPassed && measurements.every(measurement => measurement.passed)
+        ? 'pass'
+        : 'fail';
+      const test: ElectricalSafetyTest = {
+        id: createItemId(),
+        deviceId: device._id,
+        facilityId: device.facility_id,
+        testedAt: testedAt.toISOString(),
+        testerId: tester.id,
+        testerName: tester.name,
+        analyzerId: input.analyzerId.trim(),
+        protectionClass: device.protection_class,
+        appliedPart,
+        method: input.method,
+        visualInspectionPassed: input.visualInspectionPassed,
+        functionalTestPassed: input.functionalTestPassed,
+        measurements,
+        verdict,
+        notes: input.notes?.trim() || undefined,
+        nextTestDue: verdict === 'pass'
+          ? toDateKey(addDays(startOfDay(testedAt), SAFETY_TEST_INTERVAL_DAYS[device.protection_class]))
+          : toDateKey(testedAt)
+      };
+
+      const records = await DatabaseService.getAllMaintenanceRecords({ deviceId: device._id, facilityIds: null });
+      const [occurrence] = records.filter(isOpenSafetyOccurrence)
+        .sort((a, b) => a.maintenance_date.localeCompare(b.maintenance_date));
+      if (occurrence?._id) {
+        await DatabaseService.updateMaintenanceRecord(occurrence._id, tester.id, {
+          after_status: 'completed',
+          completed_at: test.testedAt,
+          technician_id: tester.id,
+          technician_name: tester.name,
+          safety_test_id: test.id,
+          notes: `${SAFETY_TEST_DESCRIPTION}: ${SAFETY_VERDICT_LABELS[verdict]}`
+        });
+        test.maintenanceRecordId = occurrence._id;
+      }
+
+      if (verdict === 'fail') {
+        test.serviceRequestId = await this.takeOutOfService(device, test, tester.id);
+      }
+
+      await getTableAdapter().addItem(TABLE_IDS.safety_tests, { ...test, _id: test.id });
+      await this.scheduleDevice(device, tester.id, records.filter(record => record._id !== occurrence?._id), test);
+      return test;
+    });
+  }
+
+  // Gives every mains-powered device one open safety-test occurrence; safe to call repeatedly
+  ensureScheduled(userId: string): Promise<number> {
+    return this.exclusive(async () => {
+      const [devices, records, tests] = await Promise.all([
+        DatabaseService.getAllDevices({ facilityIds: null }),
+        DatabaseService.getAllMaintenanceRecords({ facilityIds: null }),
+        this.getTests()
+      ]);
+
+      let created = 0;
+      for (const device of devices) {
+        if (isDeviceArchived(device)) continue;
+        const deviceRecords = records.filter(record => record.device_id === device._id);
+        const latest = tests.find(test => test.deviceId === device._id);
+        if (await this.scheduleDevice(device, userId, deviceRecords, latest)) created++;
+      }
+      return created;
+    });
+  }
+
+  // Never-tested devices are due today; the test is placed in the facility's maintenance window on the due date
+  private async scheduleDevice(
+    device: Device,
+    userId: string,
+    deviceRecords: MaintenanceRecord[],
+    latest: ElectricalSafetyTest | undefined
+  ): Promise<boolean> {
+    if (!device._id || !isMainsPowered(device) || deviceRecords.some(isOpenSafetyOccurrence)) return false;
+
+    const dueDate = latest ? parseISO(latest.nextTestDue) : startOfDay(new Date());
+    const facility = facilityManagementService.findFacility(device.facility_id);
+    const plannedStart = findMaintenanceSlotOnDay(facility, toDateKey(dueDate), SAFETY_TEST_DURATION_HOURS) || dueDate;
+    // Idempotency key: one follow-up per recorded test (or the first test) and due date
+    const occurrenceId = `safety-${device._id}-${latest?.id || 'first'}-${toDateKey(dueDate)}`;
+    try {
+      await DatabaseService.createMaintenanceRecord({
+        device_id: device._id,
+        maintenance_type: 'Inspection',
+        maintenance_date: plannedStart.toISOString(),
+        technician_id: UNASSIGNED_TECHNICIAN_ID,
+        technician_name: 'Unassigned',
+        description: SAFETY_TEST_DESCRIPTION,
+        before_status: device.status,
+        after_status: 'Scheduled',
+        notes: `${PROTECTION_CLASS_LABELS[device.protection_class]}, ${APPLIED_PART_LABELS[device.applied_part || 'none']}`,
+        cost: 0,
+        duration_hours: SAFETY_TEST_DURATION_HOURS,
+        is_safety_test: true
+      }, { id: occurrenceId });
+    } catch (error) {
+      if (isItemExists(error)) return false;
+      throw error;
+    }
+    await pmScheduleService.refreshDevice(device._id, userId);
+    return true;
+  }
+
+  // Opens the repair request first: an out-of-service status must link to an open request
+  private async takeOutOfService(device: Device, test: ElectricalSafetyTest, userId: string): Promise<string> {
+    const requestId = await DatabaseService.createServiceRequest(buildFailedTestRequest(device, test));
+    const current = await DatabaseService.getDeviceById(test.deviceId);
+    if (current && current.status !== 'Out_of_Service') {
+      await DatabaseService.updateDevice(test.deviceId, userId, buildStatusUpdate('Out_of_Service', {
+        reason: 'FAILED_SAFETY_CHECK',
+        note: `${SAFETY_TEST_DESCRIPTION} failed`,
+        serviceRequestId: requestId
+      }));
+    }
+    return requestId;
+  }
+
+  // Copies tests recorded in this browser before the table existed, then drops the local copy
+  private migrateLegacyTests(): Promise<void> {
+    if (!this.legacyMigration) {
+      this.legacyMigration = (async () => {
+        const legacy = legacyTestStore.load();
+        if (legacy.length === 0) return;
+        const existing = new Set((await getAllItems(TABLE_IDS.safety_tests)).map(item => item._id));
+        for (const test of legacy.filter(candidate => !existing.has(candidate.id))) {
+          await getTableAdapter().addItem(TABLE_IDS.safety_tests, { ...test, _id: test.id });
+        }
+        legacyTestStore.clear();
+      })().catch(error => {
+        this.legacyMigration = null;
+        console.error('Failed to move local electrical safety tests into the shared table:', error);
+      });
+    }
+    return this.legacyMigration;
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+export const electricalSafetyService = new ElectricalSafetyService();
@@ -0,0 +1,39 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DatabaseService, TABLE_IDS } from './database';
+import { facilityManagementService } from './facility-management';
+import { installQaSeed } from './seed-data';
+import { MemoryTableAdapter } from './table-storage';
+
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+  removeItem: (key: string) => storage.delete(key)
+});
+
+describe('facilityManagementService device counts', () => {
+  let adapter: MemoryTableAdapter;
+
+  beforeEach(() => {
+    storage.clear();
+    adapter = installQaSeed();
+    DatabaseService.setFacilityScope(null);
+    facilityManagementService.invalidateDeviceCounts();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2026, 9, 19, 9));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('picks up devices added by other clients once the counts expire', async () => {
+    const before = await facilityManagementService.countUnassignedDevices();
+    // Written straight to the table, as another user's client would, so no local event invalidates the counts
+    await adapter.addItem(TABLE_IDS.devices, { _id: 'remote-device', status: 'Operational' });
+    expect(await facilityManagementService.countUnassignedDevices()).toBe(before);
+
+    vi.setSystemTime(new Date(2026, 9, 19, 9, 2));
+    expect(await facilityManagementService.countUnassignedDevices()).toBe(before + 1);
+  });
+});
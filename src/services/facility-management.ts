@@ -1,5 +1,7 @@
 // Healthcare Network & Multi-Facility Management Service
 import { DatabaseService } from './database';
+import { isOpenServiceRequest } from './device-lifecycle';
+import { VersionedStore, isRecord, missingStringField } from './versioned-storage';
 
 export interface HealthcareFacility {
   id: string;
@@ -33,7 +35,7 @@ export interface HealthcareFacility {
     };
   };
   certifications: string[];
-  deviceCount: number;
+  deviceCount: number; // Counted from devices with this facility_id whenever facilities are read
   staffCount: number;
   status: 'active' | 'inactive' | 'maintenance';
   networkId: string;
@@ -61,7 +63,7 @@ export interface HealthcareNetwork {
     };
   };
   facilities: string[]; // facility IDs
-  totalDevices: number;
+  totalDevices: number; // Sum of the member facilities' device counts
   totalStaff: number;
   complianceLevel: 'excellent' | 'good' | 'needs_improvement' | 'critical';
   createdAt: string;
@@ -100,6 +102,18 @@ export interface InterFacilityTransfer {
   trackingNumber?: string;
 }
 
+// What the facility switcher selects; DatabaseService queries are scoped to the facilities it resolves to
+export type FacilityScope =
+  | { type: 'all' }
+  | { type: 'network'; id: string }
+  | { type: 'facility'; id: string };
+
+export interface FacilityActivity {
+  devices: number;
+  devicesNeedingMaintenance: number;
+  openServiceRequests: number;
+}
+
 export interface NetworkDashboardMetrics {
   networkId: string;
   totalFacilities: number;
@@ -114,7 +128,33 @@ export interface NetworkDashboardMetrics {
   complianceByFacility: Record<string, number>;
 }
 
+const networkStore = new VersionedStore<HealthcareNetwork>({
+  key: 'healthcare-networks',
+  label: 'Healthcare networks',
+  validate: item => missingStringField(item, 'id', 'name', 'type')
+    || (!Array.isArray(item.facilities) ? 'Missing facility list' : null)
+});
+
+const facilityStore = new VersionedStore<HealthcareFacility>({
+  key: 'healthcare-facilities',
+  label: 'Facilities',
+  validate: item => missingStringField(item, 'id', 'name', 'type', 'networkId')
+    || (!isRecord(item.address) ? 'Missing address' : null)
+    || (!isRecord(item.settings) ? 'Missing facility settings' : null)
+});
+
+const transferStore = new VersionedStore<InterFacilityTransfer>({
+  key: 'device-transfers',
+  label: 'Device transfers',
+  validate: item => missingStringField(item, 'id', 'deviceId', 'fromFacilityId', 'toFacilityId', 'status', 'requestDate')
+});
+
+// Other users' device writes never reach this client's event handlers, so counts are rescanned once they are this old
+const DEVICE_COUNT_TTL_MS = 60 * 1000;
+
 class FacilityManagementService {
+  private deviceCounts: { counts: Promise<Record<string, number>>; countedAt: number } | null = null;
+
   // Network Management
   async createNetwork(networkData: Omit<HealthcareNetwork, 'id' | 'createdAt' | 'updatedAt'>): Promise<HealthcareNetwork> {
     const network: HealthcareNetwork = {
@@ -127,17 +167,21 @@ class FacilityManagementService {
     // In real implementation, save to database
     const networks = this.getSavedNetworks();
     networks.push(network);
-    localStorage.setItem('healthcare-networks', JSON.stringify(networks));
+    networkStore.save(networks);
 
     return network;
   }
 
   async getNetworks(): Promise<HealthcareNetwork[]> {
-    return this.getSavedNetworks();
+    const counts = await this.countDevicesByFacility();
+    return this.getSavedNetworks().map(network => ({
+      ...network,
+      totalDevices: network.facilities.reduce((sum, facilityId) => sum + (counts[facilityId] || 0), 0)
+    }));
   }
 
   async getNetwork(networkId: string): Promise<HealthcareNetwork | null> {
-    const networks = this.getSavedNetworks();
+    const networks = await this.getNetworks();
     return networks.find(n => n.id === networkId) || null;
   }
 
@@ -155,7 +199,7 @@ class FacilityManagementService {
       updatedAt: new Date().toISOString()
     };
 
-    localStorage.setItem('healthcare-networks', JSON.stringify(networks));
+    networkStore.save(networks);
     return networks[index];
   }
 
@@ -173,27 +217,70 @@ class FacilityManagementService {
     const networkIndex = networks.findIndex(n => n.id === facility.networkId);
     if (networkIndex !== -1) {
       networks[networkIndex].facilities.push(facility.id);
-      localStorage.setItem('healthcare-networks', JSON.stringify(networks));
+      networkStore.save(networks);
     }
 
     // Save facility
     const facilities = this.getSavedFacilities();
     facilities.push(facility);
-    localStorage.setItem('healthcare-facilities', JSON.stringify(facilities));
+    facilityStore.save(facilities);
 
     return facility;
   }
 
   async getFacilities(networkId?: string): Promise<HealthcareFacility[]> {
-    const facilities = this.getSavedFacilities();
-    return networkId ? facilities.filter(f => f.networkId === networkId) : facilities;
+    const counts = await this.countDevicesByFacility();
+    return this.getSavedFacilities()
+      .filter(f => !networkId || f.networkId === networkId)
+      .map(facility => ({ ...facility, deviceCount: counts[facility.id] || 0 }));
   }
 
   async getFacility(facilityId: string): Promise<HealthcareFacility | null> {
-    const facilities = this.getSavedFacilities();
+    const facilities = await this.getFacilities();
     return facilities.find(f => f.id === facilityId) || null;
   }
 
+  // Synchronous so the scope can be applied before the first page renders; null means every facility
+  getScopeFacilityIds(scope: FacilityScope): string[] | null {
+    switch (scope.type) {
+      case 'facility':
+        return [scope.id];
+      case 'network':
+        return this.getSavedFacilities().filter(f => f.networkId === scope.id).map(f => f.id);
+      default:
+        return null;
+    }
+  }
+
+  // Synchronous and without device counts, for schedulers that only need a facility's settings
+  findFacility(facilityId: string | undefined): HealthcareFacility | undefined {
+    return facilityId ? this.getSavedFacilities().find(f => f.id === facilityId) : undefined;
+  }
+
+  // Live device, maintenance and service counts per facility, read across every facility regardless of scope
+  async getFacilityActivity(): Promise<Record<string, FacilityActivity>> {
+    const [devices, requests] = await Promise.all([
+      DatabaseService.getAllDevices({ facilityIds: null }),
+      DatabaseService.getAllServiceRequests({ facilityIds: null })
+    ]);
+    const now = new Date().toISOString();
+    const activity: Record<string, FacilityActivity> = {};
+    const entry = (facilityId = '') =>
+      (activity[facilityId] ||= { devices: 0, devicesNeedingMaintenance: 0, openServiceRequests: 0 });
+
+    devices.forEach(device => {
+      const counts = entry(device.facility_id);
+      counts.devices++;
+      if (device.status === 'Maintenance_Required' || (device.next_maintenance && device.next_maintenance < now)) {
+        counts.devicesNeedingMaintenance++;
+      }
+    });
+    requests.filter(isOpenServiceRequest).forEach(request => {
+      entry(request.facility_id).openServiceRequests++;
+    });
+    return activity;
+  }
+
   async updateFacility(facilityId: string, updates: Partial<HealthcareFacility>): Promise<HealthcareFacility> {
     const facilities = this.getSavedFacilities();
     const index = facilities.findIndex(f => f.id === facilityId);
@@ -208,7 +295,7 @@ class FacilityManagementService {
       updatedAt: new Date().toISOString()
     };
 
-    localStorage.setItem('healthcare-facilities', JSON.stringify(facilities));
+    facilityStore.save(facilities);
     return facilities[index];
   }
 
@@ -222,7 +309,7 @@ class FacilityManagementService {
 
     const transfers = this.getSavedTransfers();
     transfers.push(transfer);
-    localStorage.setItem('device-transfers', JSON.stringify(transfers));
+    transferStore.save(transfers);
 
     return transfer;
   }
@@ -242,7 +329,7 @@ class FacilityManagementService {
       approvalDate: new Date().toISOString()
     };
 
-    localStorage.setItem('device-transfers', JSON.stringify(transfers));
+    transferStore.save(transfers);
     return transfers[index];
   }
 
@@ -262,25 +349,28 @@ class FacilityManagementService {
       throw new Error('Network not found');
     }
 
-    // In real implementation, aggregate from actual data sources
+    const activity = await this.getFacilityActivity();
+    const activityOf = (facility: HealthcareFacility) =>
+      activity[facility.id] || { devices: 0, devicesNeedingMaintenance: 0, openServiceRequests: 0 };
+
     const metrics: NetworkDashboardMetrics = {
       networkId,
       totalFacilities: facilities.length,
       activeFacilities: facilities.filter(f => f.status === 'active').length,
-      totalDevices: facilities.reduce((sum, f) => sum + f.deviceCount, 0),
-      devicesNeedingMaintenance: Math.floor(facilities.reduce((sum, f) => sum + f.deviceCount, 0) * 0.15),
-      activeServiceRequests: Math.floor(facilities.length * 3.2),
+      totalDevices: facilities.reduce((sum, f) => sum + activityOf(f).devices, 0),
+      devicesNeedingMaintenance: facilities.reduce((sum, f) => sum + activityOf(f).devicesNeedingMaintenance, 0),
+      activeServiceRequests: facilities.reduce((sum, f) => sum + activityOf(f).openServiceRequests, 0),
       complianceScore: 92,
       facilitiesByType: facilities.reduce((acc, f) => {
         acc[f.type] = (acc[f.type] || 0) + 1;
         return acc;
       }, {} as Record<string, number>),
       devicesByFacility: facilities.reduce((acc, f) => {
-        acc[f.id] = f.deviceCount;
+        acc[f.id] = activityOf(f).devices;
         return acc;
       }, {} as Record<string, number>),
       maintenanceByFacility: facilities.reduce((acc, f) => {
-        acc[f.id] = Math.floor(f.deviceCount * 0.15);
+        acc[f.id] = activityOf(f).devicesNeedingMaintenance;
         return acc;
       }, {} as Record<string, number>),
       complianceByFacility: facilities.reduce((acc, f) => {
@@ -311,16 +401,50 @@ class FacilityManagementService {
   }
 
   // Private helper methods
+  // Devices without a facility are counted under ''
+  async countUnassignedDevices(): Promise<number> {
+    return (await this.countDevicesByFacility())[''] || 0;
+  }
+
+  // Device writes that can move the counts call this through the domain event handlers
+  invalidateDeviceCounts(): void {
+    this.deviceCounts = null;
+  }
+
+  // One device scan shared by every read until a device write here invalidates it or it expires
+  private countDevicesByFacility(): Promise<Record<string, number>> {
+    if (!this.deviceCounts || Date.now() - this.deviceCounts.countedAt > DEVICE_COUNT_TTL_MS) {
+      const entry = {
+        counts: this.scanDeviceCounts().catch(error => {
+          if (this.deviceCounts === entry) this.deviceCounts = null;
+          throw error;
+        }),
+        countedAt: Date.now()
+      };
+      this.deviceCounts = entry;
+    }
+    return this.deviceCounts.counts;
+  }
+
+  private async scanDeviceCounts(): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {};
+    for await (const device of DatabaseService.iterateDevices({ facilityIds: null })) {
+      const facilityId = device.facility_id || '';
+      counts[facilityId] = (counts[facilityId] || 0) + 1;
+    }
+    return counts;
+  }
+
   private getSavedNetworks(): HealthcareNetwork[] {
-    return JSON.parse(localStorage.getItem('healthcare-networks') || '[]');
+    return networkStore.load();
   }
 
   private getSavedFacilities(): HealthcareFacility[] {
-    return JSON.parse(localStorage.getItem('healthcare-facilities') || '[]');
+    return facilityStore.load();
   }
 
   private getSavedTransfers(): InterFacilityTransfer[] {
-    return JSON.parse(localStorage.getItem('device-transfers') || '[]');
+    return transferStore.load();
   }
 
   private generateFacilityMetrics(facility: HealthcareFacility, reportType: string) {
@@ -484,9 +608,8 @@ class FacilityManagementService {
     sampleNetwork.totalDevices = sampleFacilities.reduce((sum, f) => sum + f.deviceCount, 0);
     sampleNetwork.totalStaff = sampleFacilities.reduce((sum, f) => sum + f.staffCount, 0);
 
-    // Save to localStorage
-    localStorage.setItem('healthcare-networks', JSON.stringify([sampleNetwork]));
-    localStorage.setItem('healthcare-facilities', JSON.stringify(sampleFacilities));
+    networkStore.save([sampleNetwork]);
+    facilityStore.save(sampleFacilities);
   }
 }
 
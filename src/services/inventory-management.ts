@@ -354,6 +354,24 @@ export class InventoryManagementService {
     };
   }
 
+  // Deducts one unit of every stocked part named in a maintenance record's parts_replaced text
+  static async consumeMaintenanceParts(deviceId: string, partsReplaced: string, reference: string): Promise<InventoryItem[]> {
+    const text = partsReplaced.toLowerCase();
+    const used = this.inventory.filter(item =>
+      (!item.deviceId || item.deviceId === deviceId) &&
+      (text.includes(item.name.toLowerCase()) ||
+        (item.supplierPartNumber !== undefined && text.includes(item.supplierPartNumber.toLowerCase())))
+    );
+
+    for (const item of used) {
+      const result = await this.updateStock(item.id, 1, 'subtract', `Maintenance ${reference}`);
+      if (!result.success) {
+        console.warn(`Could not deduct ${item.name} for maintenance ${reference}: ${result.message}`);
+      }
+    }
+    return used;
+  }
+
   private static updateItemStatus(item: InventoryItem): void {
     if (item.currentStock === 0) {
       item.status = 'out_of_stock';
@@ -0,0 +1,91 @@
+// Executable maintenance checklists: template steps are copied onto the maintenance record and filled in
+// step by step, so the recorded results keep their wording even if the template changes later.
+import type { MaintenanceRecord } from './database';
+import { ChecklistStepDefinition, DeviceMaintenanceTemplate, deviceTypeRegistry } from './device-types';
+
+export type ChecklistStepResult = 'pass' | 'fail' | 'na';
+
+export interface ChecklistStepMeasurement {
+  value?: number;
+  unit: string;
+  min?: number;
+  max?: number;
+}
+
+export interface ChecklistStepRecord {
+  label: string;
+  mandatory: boolean;
+  result?: ChecklistStepResult;
+  measurement?: ChecklistStepMeasurement;
+  comment?: string;
+  photoAttachmentIds?: string[]; // Attachments on the maintenance record, category 'photo'
+  completedBy?: string;
+  completedAt?: string;
+}
+
+export interface MaintenanceChecklist {
+  templateId: string;
+  steps: ChecklistStepRecord[];
+}
+
+export const CHECKLIST_RESULT_LABELS: Record<ChecklistStepResult, string> = {
+  pass: 'Pass',
+  fail: 'Fail',
+  na: 'N/A'
+};
+
+export class ChecklistIncompleteError extends Error {
+  constructor(public readonly steps: ChecklistStepRecord[]) {
+    super(`Complete the mandatory checklist steps first: ${steps.map(step => step.label).join(', ')}`);
+    this.name = 'ChecklistIncompleteError';
+  }
+}
+
+export const isChecklistIncompleteError = (error: unknown): error is ChecklistIncompleteError =>
+  error instanceof ChecklistIncompleteError;
+
+export const getChecklistSteps = (template: DeviceMaintenanceTemplate): ChecklistStepDefinition[] =>
+  template.checklist.map(step => (typeof step === 'string' ? { label: step } : step));
+
+export const buildChecklist = (template: DeviceMaintenanceTemplate): MaintenanceChecklist => ({
+  templateId: template.id,
+  steps: getChecklistSteps(template).map(step => ({
+    label: step.label,
+    mandatory: step.mandatory ?? true,
+    measurement: step.measurement && { ...step.measurement }
+  }))
+});
+
+// Records created before checklists were stored get one from their template when work starts
+export const getRecordChecklist = (record: Pick<MaintenanceRecord, 'checklist' | 'pm_template_id'>): MaintenanceChecklist | undefined => {
+  if (record.checklist) return record.checklist;
+  if (!record.pm_template_id) return undefined;
+  const template = deviceTypeRegistry.list()
+    .flatMap(type => type.maintenanceTemplates)
+    .find(candidate => candidate.id === record.pm_template_id);
+  return template && buildChecklist(template);
+};
+
+export const isMeasurementInRange = (measurement: ChecklistStepMeasurement): boolean | undefined => {
+  if (measurement.value === undefined) return undefined;
+  return (measurement.min === undefined || measurement.value >= measurement.min)
+    && (measurement.max === undefined || measurement.value <= measurement.max);
+};
+
+// A measured step is only done once its reading is entered, unless it was marked N/A
+const isStepComplete = (step: ChecklistStepRecord) =>
+  step.result !== undefined && (step.result === 'na' || !step.measurement || step.measurement.value !== undefined);
+
+export const getIncompleteMandatorySteps = (checklist: MaintenanceChecklist | undefined): ChecklistStepRecord[] =>
+  (checklist?.steps || []).filter(step => step.mandatory && !isStepComplete(step));
+
+export const getChecklistProgress = (checklist: MaintenanceChecklist) => ({
+  completed: checklist.steps.filter(isStepComplete).length,
+  failed: checklist.steps.filter(step => step.result === 'fail').length,
+  total: checklist.steps.length
+});
+
+export const assertChecklistComplete = (checklist: MaintenanceChecklist | undefined): void => {
+  const incomplete = getIncompleteMandatorySteps(checklist);
+  if (incomplete.length > 0) throw new ChecklistIncompleteError(incomplete);
+};
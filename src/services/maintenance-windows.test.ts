@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import type { HealthcareFacility } from './facility-management';
+import { getFacilityDateKey } from './maintenance-windows';
+
+const facilityIn = (timezone: string) => ({ settings: { timezone } }) as Pick<HealthcareFacility, 'settings'>;
+
+describe('getFacilityDateKey', () => {
+  it('uses the calendar day in the facility time zone', () => {
+    const instant = new Date('2026-10-19T20:00:00.000Z');
+
+    expect(getFacilityDateKey(instant, facilityIn('Pacific/Auckland'))).toBe('2026-10-20');
+    expect(getFacilityDateKey(instant, facilityIn('America/Los_Angeles'))).toBe('2026-10-19');
+    expect(getFacilityDateKey(new Date('2026-03-05T02:00:00.000Z'), facilityIn('America/New_York'))).toBe('2026-03-04');
+  });
+});
@@ -0,0 +1,259 @@
+// Facility maintenance windows and clinic hours, evaluated in the facility's own time zone. Work has to fit inside
+// the maintenance window without overlapping opening hours; when it does not, the next valid slot is proposed.
+import type { HealthcareFacility } from './facility-management';
+
+export type SlotConflictType = 'outside_window' | 'clinic_hours' | 'too_long';
+
+export interface SlotConflict {
+  type: SlotConflictType;
+  message: string;
+}
+
+export interface MaintenanceSlotCheck {
+  valid: boolean;
+  conflicts: SlotConflict[];
+  timeZone: string;
+  // The requested start when valid, otherwise the earliest valid start after it; null when none is found
+  nextSlot: Date | null;
+}
+
+type FacilityHours = Pick<HealthcareFacility, 'settings'>;
+
+// Calendar day in the facility's time zone; month is 1-12
+interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+interface Interval {
+  start: Date;
+  end: Date;
+  label: string;
+}
+
+// Keys of HealthcareFacility.settings.operatingHours, indexed by Date.getUTCDay()
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const SLOT_STEP_MS = 15 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+export const SLOT_SEARCH_DAYS = 21;
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+export const isValidTimeZone = (timeZone: string | undefined): timeZone is string => {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Facilities without a usable time zone are scheduled in the browser's
+export const getFacilityTimeZone = (facility: FacilityHours): string =>
+  isValidTimeZone(facility.settings?.timezone)
+    ? facility.settings.timezone
+    : Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const zonedParts = (date: Date, timeZone: string) => {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(formatter!.formatToParts(date).find(part => part.type === type)?.value);
+  return {
+    year: value('year'),
+    month: value('month'),
+    day: value('day'),
+    hour: value('hour') % 24,
+    minute: value('minute'),
+    second: value('second')
+  };
+};
+
+// Minutes the zone is ahead of UTC at the given instant
+const offsetMinutes = (date: Date, timeZone: string) => {
+  const parts = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return (asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000;
+};
+
+// Wall-clock time in the zone as an instant; a time skipped by a daylight saving change moves forward by the gap
+const zonedTimeToDate = (local: LocalDate, minutes: number, timeZone: string): Date => {
+  const wall = Date.UTC(local.year, local.month - 1, local.day, 0, minutes);
+  const firstGuess = wall - offsetMinutes(new Date(wall), timeZone) * 60000;
+  return new Date(wall - offsetMinutes(new Date(firstGuess), timeZone) * 60000);
+};
+
+const toLocalDate = (date: Date, timeZone: string): LocalDate => {
+  const { year, month, day } = zonedParts(date, timeZone);
+  return { year, month, day };
+};
+
+const addLocalDays = (local: LocalDate, days: number): LocalDate => {
+  const date = new Date(Date.UTC(local.year, local.month - 1, local.day + days));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+};
+
+const weekdayOf = (local: LocalDate) => WEEKDAYS[new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay()];
+
+const parseTime = (value: string | undefined): number | null => {
+  const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(value || '');
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// Intervals that start on each local day in [from - 1, from + days]; an end at or before the start runs past midnight
+const dailyIntervals = (
+  from: LocalDate,
+  days: number,
+  timeZone: string,
+  hoursFor: (local: LocalDate) => { start: number; end: number; label: string } | null
+): Interval[] => {
+  const intervals: Interval[] = [];
+  for (let offset = -1; offset <= days; offset++) {
+    const local = addLocalDays(from, offset);
+    const hours = hoursFor(local);
+    if (!hours) continue;
+    intervals.push({
+      start: zonedTimeToDate(local, hours.start, timeZone),
+      end: zonedTimeToDate(hours.end <= hours.start ? addLocalDays(local, 1) : local, hours.end, timeZone),
+      label: hours.label
+    });
+  }
+  return intervals;
+};
+
+const getWindowTimes = (facility: FacilityHours) => {
+  const window = facility.settings?.maintenanceWindow;
+  const start = parseTime(window?.start);
+  const end = parseTime(window?.end);
+  return start === null || end === null ? null : { start, end, label: `${window.start}-${window.end}` };
+};
+
+// null when the facility has no maintenance window, in which case any time outside clinic hours will do
+const windowIntervals = (facility: FacilityHours, from: LocalDate, days: number, timeZone: string): Interval[] | null => {
+  const times = getWindowTimes(facility);
+  return times ? dailyIntervals(from, days, timeZone, () => times) : null;
+};
+
+const clinicIntervals = (facility: FacilityHours, from: LocalDate, days: number, timeZone: string): Interval[] =>
+  dailyIntervals(from, days, timeZone, local => {
+    const weekday = weekdayOf(local);
+    const hours = facility.settings?.operatingHours?.[weekday];
+    const open = parseTime(hours?.open);
+    const close = parseTime(hours?.close);
+    if (!hours || hours.closed || open === null || close === null) return null;
+    return { start: open, end: close, label: `${capitalize(weekday)} ${hours.open}-${hours.close}` };
+  });
+
+const overlaps = (interval: Interval, start: Date, end: Date) => interval.start < end && start < interval.end;
+
+const roundUpToStep = (time: number) => Math.ceil(time / SLOT_STEP_MS) * SLOT_STEP_MS;
+
+// Earliest start at or after `from` that fits in a maintenance window clear of clinic hours
+export const findNextMaintenanceSlot = (
+  facility: FacilityHours | null | undefined,
+  from: Date,
+  durationHours: number
+): Date | null => {
+  if (!facility) return from;
+  const timeZone = getFacilityTimeZone(facility);
+  const fromLocal = toLocalDate(from, timeZone);
+  const duration = durationHours * HOUR_MS;
+  const clinic = clinicIntervals(facility, fromLocal, SLOT_SEARCH_DAYS + 1, timeZone);
+  const windows = windowIntervals(facility, fromLocal, SLOT_SEARCH_DAYS, timeZone)
+    || [{ start: from, end: new Date(from.getTime() + SLOT_SEARCH_DAYS * 24 * HOUR_MS), label: '' }];
+
+  for (const window of windows) {
+    let candidate = roundUpToStep(Math.max(window.start.getTime(), from.getTime()));
+    while (candidate + duration <= window.end.getTime()) {
+      const candidateEnd = new Date(candidate + duration);
+      const blocking = clinic.find(interval => overlaps(interval, new Date(candidate), candidateEnd));
+      if (!blocking) return new Date(candidate);
+      candidate = roundUpToStep(blocking.end.getTime());
+    }
+  }
+  return null;
+};
+
+// yyyy-MM-dd of an instant in the facility's time zone (the browser's without a facility), as findMaintenanceSlotOnDay expects
+export const getFacilityDateKey = (date: Date, facility: FacilityHours | null | undefined): string => {
+  const timeZone = facility ? getFacilityTimeZone(facility) : Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const { year, month, day } = toLocalDate(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// For work planned by day: the first valid slot in the window that opens on that day in the facility's time zone
+export const findMaintenanceSlotOnDay = (
+  facility: FacilityHours | null | undefined,
+  dateKey: string, // yyyy-MM-dd in the facility's time zone
+  durationHours: number
+): Date | null => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  if (!facility) return new Date(year, month - 1, day);
+  const timeZone = getFacilityTimeZone(facility);
+  const opensAt = getWindowTimes(facility)?.start ?? 0;
+  return findNextMaintenanceSlot(facility, zonedTimeToDate({ year, month, day }, opensAt, timeZone), durationHours);
+};
+
+export const checkMaintenanceSlot = (
+  facility: FacilityHours | null | undefined,
+  start: Date,
+  durationHours: number
+): MaintenanceSlotCheck => {
+  if (!facility) {
+    return { valid: true, conflicts: [], timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone, nextSlot: start };
+  }
+
+  const timeZone = getFacilityTimeZone(facility);
+  const end = new Date(start.getTime() + durationHours * HOUR_MS);
+  const fromLocal = toLocalDate(start, timeZone);
+  const days = Math.ceil(durationHours / 24) + 1;
+  const conflicts: SlotConflict[] = [];
+
+  const windows = windowIntervals(facility, fromLocal, days, timeZone);
+  if (windows && !windows.some(window => window.start <= start && end <= window.end)) {
+    const window = windows[0];
+    const windowHours = (window.end.getTime() - window.start.getTime()) / HOUR_MS;
+    conflicts.push(durationHours > windowHours
+      ? { type: 'too_long', message: `${durationHours} h of work does not fit in the ${window.label} maintenance window` }
+      : { type: 'outside_window', message: `Outside the ${window.label} maintenance window (${timeZone})` });
+  }
+  clinicIntervals(facility, fromLocal, days, timeZone)
+    .filter(interval => overlaps(interval, start, end))
+    .forEach(interval => conflicts.push({ type: 'clinic_hours', message: `Overlaps clinic hours (${interval.label})` }));
+
+  return {
+    valid: conflicts.length === 0,
+    conflicts,
+    timeZone,
+    nextSlot: conflicts.length === 0 ? start : findNextMaintenanceSlot(facility, start, durationHours)
+  };
+};
+
+// e.g. "Oct 19, 2026, 19:00 PDT"
+export const formatFacilityTime = (date: Date, facility: FacilityHours | null | undefined): string =>
+  new Intl.DateTimeFormat('en-US', {
+    timeZone: facility ? getFacilityTimeZone(facility) : undefined,
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZoneName: 'short'
+  }).format(date);
@@ -191,6 +191,31 @@ export class ManufacturerIntegrationService {
     }
   }
 
+  // Pushes a completed service event to the manufacturer portal tracking this serial number, if any
+  static async reportServiceEvent(serialNumber: string, event: ServiceEvent): Promise<boolean> {
+    const device = this.findDeviceBySerial(serialNumber);
+    if (!device) return false;
+
+    await new Promise(resolve => setTimeout(resolve, 300));
+    device.serviceHistory = [...(device.serviceHistory || []), event];
+    device.lastSync = new Date().toISOString();
+    return true;
+  }
+
+  static async reportDeviceStatus(serialNumber: string, status: ManufacturerDevice['status']): Promise<boolean> {
+    const device = this.findDeviceBySerial(serialNumber);
+    if (!device) return false;
+
+    await new Promise(resolve => setTimeout(resolve, 300));
+    device.status = status;
+    device.lastSync = new Date().toISOString();
+    return true;
+  }
+
+  private static findDeviceBySerial(serialNumber: string): ManufacturerDevice | undefined {
+    return Object.values(this.deviceData).flat().find(device => device.serialNumber === serialNumber);
+  }
+
   static async configureIntegration(config: {
     manufacturerId: string;
     apiKey: string;
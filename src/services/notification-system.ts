@@ -1,6 +1,7 @@
 // Advanced Multi-Channel Notification System
 import { DatabaseService } from './database';
 import { EmailService } from './email';
+import { VersionedStore, missingStringField } from './versioned-storage';
 
 export interface NotificationChannel {
   id: string;
@@ -142,10 +143,38 @@ export interface NotificationDashboard {
   escalatedAlerts: number;
 }
 
+const channelStore = new VersionedStore<NotificationChannel>({
+  key: 'notification-channels',
+  label: 'Notification channels',
+  validate: item => missingStringField(item, 'id', 'name', 'type')
+    || (typeof item.enabled !== 'boolean' ? 'Missing "enabled" flag' : null)
+});
+
+const templateStore = new VersionedStore<NotificationTemplate>({
+  key: 'notification-templates',
+  label: 'Notification templates',
+  validate: item => missingStringField(item, 'id', 'name', 'type', 'subject', 'bodyTemplate')
+    || (!Array.isArray(item.channels) ? 'Missing channel list' : null)
+});
+
+const ruleStore = new VersionedStore<NotificationRule>({
+  key: 'notification-rules',
+  label: 'Notification rules',
+  validate: item => missingStringField(item, 'id', 'name', 'templateId')
+    || (typeof (item.trigger as NotificationRule['trigger'] | undefined)?.type !== 'string' ? 'Missing trigger type' : null)
+    || (!Array.isArray(item.recipients) ? 'Missing recipient list' : null)
+});
+
+const logStore = new VersionedStore<NotificationLog>({
+  key: 'notification-logs',
+  label: 'Notification log',
+  validate: item => missingStringField(item, 'id', 'templateId', 'recipient', 'channel', 'status', 'createdAt')
+});
+
 class NotificationSystemService {
   // Channel Management
   async getChannels(): Promise<NotificationChannel[]> {
-    const channels = JSON.parse(localStorage.getItem('notification-channels') || '[]');
+    const channels = channelStore.load();
     return channels.length > 0 ? channels : this.getDefaultChannels();
   }
 
@@ -157,7 +186,7 @@ class NotificationSystemService {
 
     const channels = await this.getChannels();
     channels.push(channel);
-    localStorage.setItem('notification-channels', JSON.stringify(channels));
+    channelStore.save(channels);
 
     return channel;
   }
@@ -171,14 +200,14 @@ class NotificationSystemService {
     }
 
     channels[index] = { ...channels[index], ...updates };
-    localStorage.setItem('notification-channels', JSON.stringify(channels));
+    channelStore.save(channels);
 
     return channels[index];
   }
 
   // Template Management
   async getTemplates(): Promise<NotificationTemplate[]> {
-    const templates = JSON.parse(localStorage.getItem('notification-templates') || '[]');
+    const templates = templateStore.load();
     return templates.length > 0 ? templates : this.getDefaultTemplates();
   }
 
@@ -192,14 +221,14 @@ class NotificationSystemService {
 
     const templates = await this.getTemplates();
     templates.push(template);
-    localStorage.setItem('notification-templates', JSON.stringify(templates));
+    templateStore.save(templates);
 
     return template;
   }
 
   // Rule Management
   async getRules(): Promise<NotificationRule[]> {
-    const rules = JSON.parse(localStorage.getItem('notification-rules') || '[]');
+    const rules = ruleStore.load();
     return rules.length > 0 ? rules : this.getDefaultRules();
   }
 
@@ -214,7 +243,7 @@ class NotificationSystemService {
 
     const rules = await this.getRules();
     rules.push(rule);
-    localStorage.setItem('notification-rules', JSON.stringify(rules));
+    ruleStore.save(rules);
 
     return rule;
   }
@@ -232,7 +261,7 @@ class NotificationSystemService {
       ...updates, 
       updatedAt: new Date().toISOString() 
     };
-    localStorage.setItem('notification-rules', JSON.stringify(rules));
+    ruleStore.save(rules);
 
     return rules[index];
   }
@@ -242,7 +271,8 @@ class NotificationSystemService {
     templateId: string, 
     recipients: string[], 
     variables: Record<string, any> = {},
-    priority: 'low' | 'medium' | 'high' | 'critical' = 'medium'
+    priority: 'low' | 'medium' | 'high' | 'critical' = 'medium',
+    ruleId = 'manual'
   ): Promise<NotificationLog[]> {
     const template = (await this.getTemplates()).find(t => t.id === templateId);
     if (!template) {
@@ -259,7 +289,7 @@ class NotificationSystemService {
 
         const log: NotificationLog = {
           id: `log-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          ruleId: 'manual',
+          ruleId,
           templateId,
           recipient,
           channel: channelId,
@@ -286,16 +316,41 @@ class NotificationSystemService {
     }
 
     // Save logs
-    const existingLogs = JSON.parse(localStorage.getItem('notification-logs') || '[]');
-    existingLogs.push(...logs);
-    localStorage.setItem('notification-logs', JSON.stringify(existingLogs));
+    logStore.save([...logStore.load(), ...logs]);
+
+    return logs;
+  }
 
+  // Runs the immediate rules for an event; scheduled rules (daily digests etc.) are left to their schedule
+  async triggerRules(
+    type: NotificationRule['trigger']['type'],
+    variables: Record<string, string>,
+    context: { deviceId?: string; deviceType?: string } = {}
+  ): Promise<NotificationLog[]> {
+    const rules = (await this.getRules()).filter(rule =>
+      rule.enabled &&
+      rule.trigger.type === type &&
+      (!rule.trigger.schedule || rule.trigger.schedule.type === 'immediate') &&
+      (!rule.deviceFilter?.length || rule.deviceFilter.some(filter => filter === context.deviceId || filter === context.deviceType)) &&
+      Object.entries(rule.trigger.conditions).every(([key, value]) => variables[key] === undefined || variables[key] === value)
+    );
+
+    const logs: NotificationLog[] = [];
+    for (const rule of rules) {
+      const recipients = rule.recipients.map(recipient => recipient.identifier);
+      const priority = variables.priority as NotificationTemplate['priority'] | undefined;
+      logs.push(...await this.sendNotification(rule.templateId, recipients, variables, priority, rule.id));
+      await this.updateRule(rule.id, {
+        lastTriggered: new Date().toISOString(),
+        triggerCount: rule.triggerCount + 1
+      });
+    }
     return logs;
   }
 
   // Dashboard & Analytics
   async getDashboard(): Promise<NotificationDashboard> {
-    const logs = JSON.parse(localStorage.getItem('notification-logs') || '[]') as NotificationLog[];
+    const logs = logStore.load();
     const rules = await this.getRules();
     const channels = await this.getChannels();
 
@@ -328,13 +383,13 @@ class NotificationSystemService {
 
   // Get notification logs
   async getNotificationLogs(limit = 50): Promise<NotificationLog[]> {
-    const logs = JSON.parse(localStorage.getItem('notification-logs') || '[]') as NotificationLog[];
+    const logs = logStore.load();
     return logs.slice(-limit).reverse();
   }
 
   // Acknowledge notification
   async acknowledgeNotification(logId: string, acknowledgedBy: string): Promise<NotificationLog> {
-    const logs = JSON.parse(localStorage.getItem('notification-logs') || '[]') as NotificationLog[];
+    const logs = logStore.load();
     const index = logs.findIndex(l => l.id === logId);
     
     if (index === -1) {
@@ -345,7 +400,7 @@ class NotificationSystemService {
     logs[index].acknowledgedAt = new Date().toISOString();
     logs[index].acknowledgedBy = acknowledgedBy;
 
-    localStorage.setItem('notification-logs', JSON.stringify(logs));
+    logStore.save(logs);
     return logs[index];
   }
 
@@ -436,7 +491,7 @@ class NotificationSystemService {
       }
     ];
 
-    localStorage.setItem('notification-channels', JSON.stringify(channels));
+    channelStore.save(channels);
     return channels;
   }
 
@@ -472,7 +527,7 @@ class NotificationSystemService {
       }
     ];
 
-    localStorage.setItem('notification-templates', JSON.stringify(templates));
+    templateStore.save(templates);
     return templates;
   }
 
@@ -498,7 +553,7 @@ class NotificationSystemService {
       }
     ];
 
-    localStorage.setItem('notification-rules', JSON.stringify(rules));
+    ruleStore.save(rules);
     return rules;
   }
 }
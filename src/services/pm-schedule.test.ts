@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DatabaseService } from './database';
+import { installQaSeed } from './seed-data';
+import { pmScheduleService } from './pm-schedule';
+
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+  removeItem: (key: string) => storage.delete(key)
+});
+
+const TODAY = new Date(2026, 9, 19);
+
+describe('pmScheduleService', () => {
+  beforeEach(() => {
+    storage.clear();
+    installQaSeed();
+    DatabaseService.setFacilityScope(null);
+  });
+
+  it('keeps schedules in the shared table', async () => {
+    const schedule = await pmScheduleService.assign({
+      templateId: 'oct_preventive',
+      deviceType: 'OCT',
+      target: { type: 'device', deviceId: 'qa-device-oct' }
+    }, 'qa-admin');
+
+    expect(await pmScheduleService.getSchedules()).toMatchObject([schedule]);
+    await pmScheduleService.setActive(schedule.id, false);
+    expect((await pmScheduleService.getSchedules())[0].active).toBe(false);
+    await pmScheduleService.removeSchedule(schedule.id);
+    expect(await pmScheduleService.getSchedules()).toEqual([]);
+  });
+
+  it('moves next_maintenance to the next open occurrence and clears it when none is left', async () => {
+    await DatabaseService.createMaintenanceRecord({
+      device_id: 'qa-device-fundus',
+      maintenance_type: 'Inspection',
+      maintenance_date: '2026-11-20T09:00:00.000Z',
+      technician_id: 'qa-technician',
+      technician_name: 'QA Technician',
+      description: 'Follow-up',
+      before_status: 'Operational',
+      after_status: 'Scheduled',
+      cost: 0
+    });
+
+    await pmScheduleService.refreshDevice('qa-device-fundus', 'qa-admin');
+    expect((await DatabaseService.getDeviceById('qa-device-fundus'))?.next_maintenance).toBe('2026-06-02');
+
+    await DatabaseService.archiveDevice('qa-device-fundus', 'qa-admin', 'Replaced');
+    await pmScheduleService.refreshDevice('qa-device-fundus', 'qa-admin');
+    expect((await DatabaseService.getDeviceById('qa-device-fundus'))?.next_maintenance).toBe('');
+  });
+
+  it('generates each occurrence once across repeated runs', async () => {
+    await pmScheduleService.assign({
+      templateId: 'oct_preventive',
+      deviceType: 'OCT',
+      target: { type: 'device', deviceId: 'qa-device-oct' }
+    }, 'qa-admin');
+
+    const first = await pmScheduleService.run('qa-admin', TODAY);
+    expect(first.created).toBeGreaterThan(0);
+    expect((await pmScheduleService.run('qa-admin', TODAY)).created).toBe(0);
+  });
+});
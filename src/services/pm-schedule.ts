@@ -0,0 +1,414 @@
+// Recurring preventive maintenance: device-type templates assigned to devices or whole device types generate
+// scheduled maintenance records on a rolling horizon and keep Device.next_maintenance in sync. Schedules live in
+// the shared pm_schedules table so every user generates from the same set.
+import { addDays, format, parseISO, startOfDay } from 'date-fns';
+import {
+  DatabaseService,
+  Device,
+  MaintenanceRecord,
+  TABLE_IDS,
+  UNASSIGNED_TECHNICIAN_ID,
+  isDeviceArchived,
+  isOpenMaintenance
+} from './database';
+import { DeviceMaintenanceTemplate, DeviceTypeId, PmRecurrence, deviceTypeRegistry } from './device-types';
+import { facilityManagementService } from './facility-management';
+import { findMaintenanceSlotOnDay } from './maintenance-windows';
+import { buildChecklist } from './maintenance-checklist';
+import { createItemId, getAllItems, getTableAdapter, isItemExists } from './table-storage';
+import { VersionedStore, isRecord, missingStringField } from './versioned-storage';
+
+export type PmScheduleTarget =
+  | { type: 'device'; deviceId: string }
+  | { type: 'device_type'; deviceType: DeviceTypeId };
+
+export interface PmSchedule {
+  id: string;
+  templateId: string;
+  deviceType: DeviceTypeId; // Type whose registry entry defines the template
+  target: PmScheduleTarget;
+  startDate: string; // yyyy-MM-dd; first due date for devices without maintenance history
+  frequencyDays?: number; // Overrides the template interval
+  active: boolean;
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface PmScheduleInput {
+  templateId: string;
+  deviceType: DeviceTypeId;
+  target: PmScheduleTarget;
+  startDate?: string;
+  frequencyDays?: number;
+}
+
+export interface PmScheduleRunResult {
+  created: number;
+  devicesUpdated: number;
+}
+
+// Dates an occurrence can be done on without breaking its template's cadence
+export interface PmDueWindow {
+  dueDate: string; // yyyy-MM-dd
+  earliest: string;
+  latest: string;
+}
+
+export const PM_RECURRENCE_LABELS: Record<PmRecurrence, string> = {
+  fixed: 'Fixed calendar',
+  from_completion: 'From completion'
+};
+
+// How far ahead occurrences are generated; each run extends the window
+export const PM_HORIZON_DAYS = 180;
+
+const SCHEDULED_STATUS = 'Scheduled';
+
+export class PmScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PmScheduleError';
+  }
+}
+
+export const isPmScheduleError = (error: unknown): error is PmScheduleError =>
+  error instanceof PmScheduleError;
+
+// Where schedules lived before the pm_schedules table; moved into the table on first use
+const legacyScheduleStore = new VersionedStore<PmSchedule>({
+  key: 'pm-schedules',
+  label: 'Preventive maintenance schedules',
+  validate: schedule => missingStringField(schedule, 'id', 'templateId', 'deviceType', 'startDate')
+    || (!isRecord(schedule.target) ? 'Missing schedule target' : null)
+});
+
+const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const fromDateKey = (value: string) => startOfDay(parseISO(value));
+
+export const getScheduleTemplate = (schedule: Pick<PmSchedule, 'deviceType' | 'templateId'>): DeviceMaintenanceTemplate | undefined =>
+  deviceTypeRegistry.get(schedule.deviceType)?.maintenanceTemplates.find(template => template.id === schedule.templateId);
+
+export const getScheduleRecurrence = (template: DeviceMaintenanceTemplate): PmRecurrence =>
+  template.recurrence || 'from_completion';
+
+const getFrequency = (schedule: PmSchedule, template: DeviceMaintenanceTemplate) =>
+  schedule.frequencyDays || template.frequency_days;
+
+// Records outlive their schedule, so the template is also found by id across the registry
+const findTemplate = (templateId: string) =>
+  deviceTypeRegistry.list().flatMap(type => type.maintenanceTemplates).find(template => template.id === templateId);
+
+// Undefined for records not generated from a schedule
+export const getDueWindow = (
+  record: Pick<MaintenanceRecord, 'pm_schedule_id' | 'pm_template_id' | 'pm_due_date'>,
+  schedules: PmSchedule[]
+): PmDueWindow | undefined => {
+  if (!record.pm_template_id || !record.pm_due_date) return undefined;
+  const template = findTemplate(record.pm_template_id);
+  if (!template) return undefined;
+
+  const schedule = schedules.find(candidate => candidate.id === record.pm_schedule_id);
+  const frequency = schedule ? getFrequency(schedule, template) : template.frequency_days;
+  const tolerance = template.due_window_days ?? Math.max(1, Math.round(frequency / 10));
+  const due = fromDateKey(record.pm_due_date);
+  return {
+    dueDate: record.pm_due_date,
+    earliest: toDateKey(addDays(due, -tolerance)),
+    latest: toDateKey(addDays(due, tolerance))
+  };
+};
+
+export const isWithinDueWindow = (dueWindow: PmDueWindow, date: Date) => {
+  const day = toDateKey(date);
+  return day >= dueWindow.earliest && day <= dueWindow.latest;
+};
+
+// First free slot in the device facility's maintenance window on the due date; midnight when nothing fits
+const plannedStartOf = (device: Device | null, dueDate: string, durationHours: number) =>
+  (findMaintenanceSlotOnDay(facilityManagementService.findFacility(device?.facility_id), dueDate, durationHours)
+    || fromDateKey(dueDate)).toISOString();
+
+const dueDateOf = (record: MaintenanceRecord) => record.pm_due_date || toDateKey(new Date(record.maintenance_date));
+
+const byDueDate = (a: MaintenanceRecord, b: MaintenanceRecord) => dueDateOf(a).localeCompare(dueDateOf(b));
+
+// Where the work is actually planned, which differs from the due date once an occurrence is rescheduled
+const plannedDateOf = (record: MaintenanceRecord) => toDateKey(new Date(record.maintenance_date));
+
+// First date on the cadence start + n * frequency that is not before `earliest`
+// Idempotency key: one record per schedule, device and due date no matter how many clients generate
+const occurrenceId = (schedule: PmSchedule, deviceId: string, dueDate: string) => `pm-${schedule.id}-${deviceId}-${dueDate}`;
+
+const firstOnCadence = (start: Date, frequencyDays: number, earliest: Date): Date => {
+  let next = start;
+  while (next < earliest) next = addDays(next, frequencyDays);
+  return next;
+};
+
+class PmScheduleService {
+  // Runs and completion recalculations read then write the same records, so they never overlap
+  private queue: Promise<unknown> = Promise.resolve();
+  private legacyMigration: Promise<void> | null = null;
+
+  async getSchedules(): Promise<PmSchedule[]> {
+    await this.migrateLegacySchedules();
+    return await getAllItems(TABLE_IDS.pm_schedules, { sort: 'createdAt', order: 'asc' }) as PmSchedule[];
+  }
+
+  // Rejects with PmScheduleError for unknown templates, bad intervals and duplicate assignments
+  async assign(input: PmScheduleInput, userId: string): Promise<PmSchedule> {
+    const template = getScheduleTemplate(input);
+    if (!template) {
+      throw new PmScheduleError(`Unknown maintenance template ${input.templateId}`);
+    }
+    if (input.frequencyDays !== undefined && !(input.frequencyDays >= 1)) {
+      throw new PmScheduleError('The interval must be at least one day');
+    }
+
+    const schedules = await this.getSchedules();
+    const duplicate = schedules.find(schedule =>
+      schedule.templateId === input.templateId && JSON.stringify(schedule.target) === JSON.stringify(input.target)
+    );
+    if (duplicate) {
+      throw new PmScheduleError(`${template.name} is already scheduled for this ${input.target.type === 'device' ? 'device' : 'device type'}`);
+    }
+
+    const schedule: PmSchedule = {
+      id: createItemId(),
+      templateId: input.templateId,
+      deviceType: input.deviceType,
+      target: input.target,
+      startDate: input.startDate || toDateKey(addDays(new Date(), input.frequencyDays || template.frequency_days)),
+      frequencyDays: input.frequencyDays,
+      active: true,
+      createdBy: userId,
+      createdAt: new Date().toISOString()
+    };
+    await getTableAdapter().addItem(TABLE_IDS.pm_schedules, { ...schedule, _id: schedule.id });
+    return schedule;
+  }
+
+  async setActive(scheduleId: string, active: boolean): Promise<void> {
+    await getTableAdapter().updateItem(TABLE_IDS.pm_schedules, { _id: scheduleId, active });
+  }
+
+  // Occurrences already generated stay on the maintenance list
+  async removeSchedule(scheduleId: string): Promise<void> {
+    await getTableAdapter().deleteItem(TABLE_IDS.pm_schedules, { _id: scheduleId });
+  }
+
+  // Creates every missing occurrence up to the horizon; safe to call repeatedly
+  run(userId: string, today: Date = new Date()): Promise<PmScheduleRunResult> {
+    return this.exclusive(async () => {
+      const schedules = (await this.getSchedules()).filter(schedule => schedule.active);
+      if (schedules.length === 0) return { created: 0, devicesUpdated: 0 };
+
+      const [devices, records] = await Promise.all([
+        DatabaseService.getAllDevices({ facilityIds: null }),
+        DatabaseService.getAllMaintenanceRecords({ facilityIds: null })
+      ]);
+
+      const horizonEnd = addDays(startOfDay(today), PM_HORIZON_DAYS);
+      const touched = new Set<string>();
+      let created = 0;
+
+      for (const schedule of schedules) {
+        const template = getScheduleTemplate(schedule);
+        if (!template) continue;
+
+        for (const device of this.getTargetDevices(schedule, schedules, devices)) {
+          const series = records.filter(record => record.pm_schedule_id === schedule.id && record.device_id === device._id);
+          for (const dueDate of this.planOccurrences(schedule, template, device, series, startOfDay(today), horizonEnd)) {
+            try {
+              await DatabaseService.createMaintenanceRecord(
+                this.buildOccurrence(schedule, template, device, dueDate),
+                { id: occurrenceId(schedule, device._id!, dueDate) }
+              );
+            } catch (error) {
+              // Another client generated this occurrence since the records were read
+              if (isItemExists(error)) continue;
+              throw error;
+            }
+            created++;
+            touched.add(device._id!);
+          }
+        }
+      }
+
+      let devicesUpdated = 0;
+      for (const deviceId of touched) {
+        if (await this.syncDevice(deviceId, userId)) devicesUpdated++;
+      }
+      return { created, devicesUpdated };
+    });
+  }
+
+  // Called when any maintenance record is completed: re-bases completion-driven series and refreshes the device
+  handleCompletion(record: MaintenanceRecord, recordId: string, userId: string, completedAt: string): Promise<void> {
+    return this.exclusive(async () => {
+      const schedule = record.pm_schedule_id
+        ? (await this.getSchedules()).find(candidate => candidate.id === record.pm_schedule_id)
+        : undefined;
+      const template = schedule && getScheduleTemplate(schedule);
+
+      if (schedule && template && getScheduleRecurrence(template) === 'from_completion') {
+        const frequency = getFrequency(schedule, template);
+        const completedOn = startOfDay(new Date(completedAt));
+        const open = (await DatabaseService.getAllMaintenanceRecords({ deviceId: record.device_id, facilityIds: null }))
+          .filter(candidate => candidate.pm_schedule_id === schedule.id && candidate._id !== recordId && isOpenMaintenance(candidate))
+          .sort(byDueDate);
+        const device = open.length ? await DatabaseService.getDeviceById(record.device_id) : null;
+
+        for (const [index, occurrence] of open.entries()) {
+          const dueDate = toDateKey(addDays(completedOn, frequency * (index + 1)));
+          if (dueDate === dueDateOf(occurrence)) continue;
+          await DatabaseService.updateMaintenanceRecord(occurrence._id!, userId, {
+            maintenance_date: plannedStartOf(device, dueDate, occurrence.duration_hours || template.estimated_duration),
+            pm_due_date: dueDate
+          });
+        }
+      }
+
+      await this.syncDevice(record.device_id, userId, toDateKey(new Date(completedAt)));
+    });
+  }
+
+  // Called after a maintenance record is moved so the device's next due date follows it
+  refreshDevice(deviceId: string, userId: string): Promise<void> {
+    return this.exclusive(async () => {
+      await this.syncDevice(deviceId, userId);
+    });
+  }
+
+  // Device-specific assignments win over a type-wide assignment of the same template
+  private getTargetDevices(schedule: PmSchedule, schedules: PmSchedule[], devices: Device[]): Device[] {
+    const active = devices.filter(device => device._id && !isDeviceArchived(device));
+    if (schedule.target.type === 'device') {
+      const { deviceId } = schedule.target;
+      return active.filter(device => device._id === deviceId);
+    }
+
+    const { deviceType } = schedule.target;
+    const overridden = new Set(schedules
+      .filter(other => other.templateId === schedule.templateId && other.target.type === 'device')
+      .map(other => (other.target as { deviceId: string }).deviceId));
+    return active.filter(device =>
+      deviceTypeRegistry.resolve(device.device_type) === deviceType && !overridden.has(device._id!)
+    );
+  }
+
+  private planOccurrences(
+    schedule: PmSchedule,
+    template: DeviceMaintenanceTemplate,
+    device: Device,
+    series: MaintenanceRecord[],
+    today: Date,
+    horizonEnd: Date
+  ): string[] {
+    const frequency = getFrequency(schedule, template);
+    const sorted = [...series].sort(byDueDate);
+    const latest = sorted[sorted.length - 1];
+    const open = sorted.filter(record => isOpenMaintenance(record));
+
+    let next: Date;
+    if (getScheduleRecurrence(template) === 'fixed') {
+      // Calendar cadence: missed dates are not back-filled, the overdue occurrence already exists
+      next = latest
+        ? firstOnCadence(addDays(fromDateKey(dueDateOf(latest)), frequency), frequency, today)
+        : firstOnCadence(this.seedDate(schedule, device, frequency), frequency, today);
+    } else if (open.length > 0) {
+      next = addDays(fromDateKey(dueDateOf(open[open.length - 1])), frequency);
+    } else if (latest) {
+      const completedOn = latest.completed_at ? startOfDay(new Date(latest.completed_at)) : fromDateKey(dueDateOf(latest));
+      next = addDays(completedOn, frequency);
+    } else {
+      next = this.seedDate(schedule, device, frequency);
+    }
+    if (next < today && getScheduleRecurrence(template) === 'from_completion' && open.length === 0) next = today;
+
+    const dueDates: string[] = [];
+    for (; next <= horizonEnd; next = addDays(next, frequency)) dueDates.push(toDateKey(next));
+    return dueDates;
+  }
+
+  // Devices with a maintenance history continue from it rather than from the schedule's start date
+  private seedDate(schedule: PmSchedule, device: Device, frequency: number): Date {
+    return device.last_maintenance
+      ? addDays(fromDateKey(device.last_maintenance), frequency)
+      : fromDateKey(schedule.startDate);
+  }
+
+  private buildOccurrence(
+    schedule: PmSchedule,
+    template: DeviceMaintenanceTemplate,
+    device: Device,
+    dueDate: string
+  ): Omit<MaintenanceRecord, '_id' | '_uid' | '_tid'> {
+    return {
+      device_id: device._id!,
+      maintenance_type: template.maintenance_type,
+      maintenance_date: plannedStartOf(device, dueDate, template.estimated_duration),
+      technician_id: UNASSIGNED_TECHNICIAN_ID,
+      technician_name: 'Unassigned',
+      description: `Scheduled ${template.name}`,
+      before_status: device.status,
+      after_status: SCHEDULED_STATUS,
+      notes: `Scheduled ${template.name}`,
+      cost: 0,
+      duration_hours: template.estimated_duration,
+      pm_schedule_id: schedule.id,
+      pm_template_id: template.id,
+      pm_due_date: dueDate,
+      checklist: buildChecklist(template)
+    };
+  }
+
+  // next_maintenance is the earliest open maintenance on the device, overdue included, and cleared when none is left
+  private async syncDevice(deviceId: string, userId: string, lastMaintenance?: string): Promise<boolean> {
+    const [device, records] = await Promise.all([
+      DatabaseService.getDeviceById(deviceId),
+      DatabaseService.getAllMaintenanceRecords({ deviceId, facilityIds: null })
+    ]);
+    if (!device) return false;
+
+    const nextMaintenance = records
+      .filter(record => isOpenMaintenance(record))
+      .map(plannedDateOf)
+      .sort()[0];
+    const updates: Partial<Device> = {};
+    if ((nextMaintenance || '') !== (device.next_maintenance || '')) updates.next_maintenance = nextMaintenance || '';
+    if (lastMaintenance && lastMaintenance !== device.last_maintenance) updates.last_maintenance = lastMaintenance;
+    if (Object.keys(updates).length === 0) return false;
+
+    await DatabaseService.updateDevice(deviceId, userId, updates);
+    return true;
+  }
+
+  // Copies schedules assigned in this browser before the table existed, then drops the local copy
+  private migrateLegacySchedules(): Promise<void> {
+    if (!this.legacyMigration) {
+      this.legacyMigration = (async () => {
+        const legacy = legacyScheduleStore.load();
+        if (legacy.length === 0) return;
+        const existing = new Set((await getAllItems(TABLE_IDS.pm_schedules)).map(item => item._id));
+        for (const schedule of legacy.filter(candidate => !existing.has(candidate.id))) {
+          await getTableAdapter().addItem(TABLE_IDS.pm_schedules, { ...schedule, _id: schedule.id });
+        }
+        legacyScheduleStore.clear();
+      })().catch(error => {
+        this.legacyMigration = null;
+        console.error('Failed to move local maintenance schedules into the shared table:', error);
+      });
+    }
+    return this.legacyMigration;
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+export const pmScheduleService = new PmScheduleService();
@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DatabaseService, TABLE_IDS } from './database';
+import { installQaSeed } from './seed-data';
+import { pmScheduleService } from './pm-schedule';
+import { generateMaintenance, scheduledJobService } from './scheduled-jobs';
+import { MemoryTableAdapter } from './table-storage';
+
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+  removeItem: (key: string) => storage.delete(key)
+});
+
+const TODAY = new Date(2026, 9, 19);
+
+describe('scheduledJobService', () => {
+  let adapter: MemoryTableAdapter;
+
+  beforeEach(() => {
+    storage.clear();
+    adapter = installQaSeed();
+    DatabaseService.setFacilityScope(null);
+  });
+
+  it('runs a job once per day whichever client claims it first', async () => {
+    const task = vi.fn().mockResolvedValue({ created: 1 });
+
+    expect(await scheduledJobService.runDaily('test-job', 'qa-admin', task, TODAY)).toBe(true);
+    expect(await scheduledJobService.runDaily('test-job', 'qa-technician', task, TODAY)).toBe(false);
+    expect(task).toHaveBeenCalledTimes(1);
+
+    const [run] = (await adapter.getItems(TABLE_IDS.job_runs)).items;
+    expect(run).toMatchObject({ _id: 'test-job-2026-10-19', startedBy: 'qa-admin', result: '{"created":1}' });
+  });
+
+  it('releases the claim when the job fails so a later client retries', async () => {
+    const failing = vi.fn().mockRejectedValue(new Error('offline'));
+    await expect(scheduledJobService.runDaily('test-job', 'qa-admin', failing, TODAY)).rejects.toThrow('offline');
+
+    expect(await scheduledJobService.runDaily('test-job', 'qa-admin', async () => null, TODAY)).toBe(true);
+  });
+
+  it('does not duplicate occurrences when another client generated them after the records were read', async () => {
+    await pmScheduleService.assign({
+      templateId: 'oct_preventive',
+      deviceType: 'OCT',
+      target: { type: 'device', deviceId: 'qa-device-oct' }
+    }, 'qa-admin');
+    const first = await generateMaintenance('qa-admin', TODAY);
+    expect(first.created).toBeGreaterThan(0);
+
+    // A second client read the maintenance list before the first one wrote
+    vi.spyOn(DatabaseService, 'getAllMaintenanceRecords').mockResolvedValueOnce([]).mockResolvedValueOnce([]);
+    const second = await generateMaintenance('qa-technician', TODAY);
+
+    expect(second.created).toBe(0);
+    expect(second.safetyTestsScheduled).toBe(0);
+    vi.restoreAllMocks();
+    const records = await DatabaseService.getAllMaintenanceRecords({ facilityIds: null });
+    expect(records.filter(record => record.pm_schedule_id)).toHaveLength(first.created);
+  });
+});
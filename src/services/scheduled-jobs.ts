@@ -0,0 +1,72 @@
+// Background jobs that run once a day across all clients. The first signed-in client to claim a job's run for the day
+// does the work; the claim is an idempotent insert into the job_runs table, so other clients skip it. Until job_runs is
+// provisioned in the hosted service the claim is per browser, and the occurrence keys alone prevent duplicates.
+import { format } from 'date-fns';
+import { TABLE_IDS } from './database';
+import { electricalSafetyService } from './electrical-safety';
+import { pmScheduleService } from './pm-schedule';
+import { getTableAdapter, isItemExists } from './table-storage';
+
+export interface MaintenanceGenerationResult {
+  created: number;
+  devicesUpdated: number;
+  safetyTestsScheduled: number;
+}
+
+export const MAINTENANCE_GENERATION_JOB = 'maintenance-generation';
+
+// Tops up recurring preventive maintenance and electrical safety tests; every occurrence has an idempotency key,
+// so running this again (or from two clients) never duplicates records
+export const generateMaintenance = async (userId: string, today: Date = new Date()): Promise<MaintenanceGenerationResult> => {
+  const { created, devicesUpdated } = await pmScheduleService.run(userId, today);
+  const safetyTestsScheduled = await electricalSafetyService.ensureScheduled(userId);
+  return { created, devicesUpdated, safetyTestsScheduled };
+};
+
+class ScheduledJobService {
+  private running: Promise<boolean> | null = null;
+
+  // Resolves true when this client ran the job, false when today's run was already claimed
+  async runDaily(jobId: string, userId: string, task: () => Promise<unknown>, today: Date = new Date()): Promise<boolean> {
+    const runId = `${jobId}-${format(today, 'yyyy-MM-dd')}`;
+    const adapter = getTableAdapter();
+    try {
+      await adapter.addItem(TABLE_IDS.job_runs, {
+        _id: runId,
+        jobId,
+        startedBy: userId,
+        startedAt: new Date().toISOString()
+      }, { ifAbsent: true });
+    } catch (error) {
+      if (isItemExists(error)) return false;
+      throw error;
+    }
+
+    try {
+      const result = await task();
+      await adapter.updateItem(TABLE_IDS.job_runs, {
+        _id: runId,
+        finishedAt: new Date().toISOString(),
+        result: JSON.stringify(result ?? null)
+      });
+      return true;
+    } catch (error) {
+      // Release the claim so the next client to sign in retries today's run
+      await adapter.deleteItem(TABLE_IDS.job_runs, { _id: runId }).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  // Called once per sign-in; concurrent calls in this tab share a single run
+  runDueJobs(userId: string): Promise<boolean> {
+    if (!this.running) {
+      this.running = this.runDaily(MAINTENANCE_GENERATION_JOB, userId, () => generateMaintenance(userId))
+        .finally(() => {
+          this.running = null;
+        });
+    }
+    return this.running;
+  }
+}
+
+export const scheduledJobService = new ScheduledJobService();
@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DatabaseService } from './database';
+import { installQaSeed } from './seed-data';
+import { searchIndexService } from './search-index';
+
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+  removeItem: (key: string) => storage.delete(key)
+});
+
+const deviceIds = async () =>
+  (await searchIndexService.getDocuments()).filter(document => document.kind === 'device').map(document => document.id);
+
+describe('searchIndexService', () => {
+  beforeEach(() => {
+    installQaSeed();
+    DatabaseService.setFacilityScope(null);
+    searchIndexService.invalidate();
+  });
+
+  it('serves the cached index until it is invalidated', async () => {
+    expect(await deviceIds()).toContain('qa-device-tonometer');
+
+    await DatabaseService.deleteDevice('qa-device-tonometer', 'qa-admin');
+    expect(await deviceIds()).toContain('qa-device-tonometer');
+
+    searchIndexService.invalidate();
+    expect(await deviceIds()).not.toContain('qa-device-tonometer');
+  });
+
+  it('discards a build that started before the facility scope changed', async () => {
+    const getAllDevices = DatabaseService.getAllDevices.bind(DatabaseService);
+    vi.spyOn(DatabaseService, 'getAllDevices').mockImplementationOnce(async options => {
+      const devices = await getAllDevices(options);
+      DatabaseService.setFacilityScope(['facility-002']);
+      searchIndexService.invalidate();
+      return devices;
+    });
+
+    const facility002 = ['qa-device-archived', 'qa-device-tonometer'];
+    expect((await deviceIds()).sort()).toEqual(facility002);
+  });
+});
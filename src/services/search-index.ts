@@ -0,0 +1,167 @@
+// One search index over devices, service requests, maintenance records, inventory and facilities for the command palette
+import { DatabaseService } from './database';
+import { InventoryManagementService } from './inventory-management';
+import { facilityManagementService } from './facility-management';
+import { deviceTypeRegistry } from './device-types';
+import { DEVICE_STATUS_LABELS } from './device-lifecycle';
+import { getAssemblyLabel } from './device-hierarchy';
+
+export type SearchDocumentKind = 'device' | 'service_request' | 'maintenance_record' | 'inventory_item' | 'facility';
+
+export const SEARCH_KIND_LABELS: Record<SearchDocumentKind, string> = {
+  device: 'Devices',
+  service_request: 'Service Requests',
+  maintenance_record: 'Maintenance',
+  inventory_item: 'Inventory',
+  facility: 'Facilities'
+};
+
+export interface SearchDocument {
+  id: string;
+  kind: SearchDocumentKind;
+  title: string;
+  subtitle: string;
+  url: string;
+  deviceId?: string; // Set on devices and on records that belong to one, for device quick actions
+  text: string; // Lowercased haystack of every searchable field
+}
+
+// Rebuilt lazily when older than this, or sooner after invalidate() (record writes and facility scope changes)
+const MAX_AGE_MS = 60 * 1000;
+
+const haystack = (...values: (string | number | undefined)[]) =>
+  values.filter(value => value !== undefined && value !== '').join(' ').toLowerCase();
+
+const tokenize = (query: string) => query.toLowerCase().split(/\s+/).filter(Boolean);
+
+class SearchIndexService {
+  private documents: SearchDocument[] = [];
+  private builtAt = 0;
+  private building: Promise<SearchDocument[]> | null = null;
+  private generation = 0;
+
+  async getDocuments(): Promise<SearchDocument[]> {
+    if (Date.now() - this.builtAt < MAX_AGE_MS) return this.documents;
+    const generation = this.generation;
+    if (!this.building) {
+      const building = this.build(generation).finally(() => {
+        if (this.building === building) this.building = null;
+      });
+      this.building = building;
+    }
+    const documents = await this.building;
+    // Invalidated mid-build: the result may miss the latest write or belong to the previous facility scope
+    return generation === this.generation ? documents : this.getDocuments();
+  }
+
+  invalidate(): void {
+    this.generation++;
+    this.builtAt = 0;
+    this.building = null;
+  }
+
+  // Every query token must appear somewhere in the document; title hits rank first
+  search(documents: SearchDocument[], query: string, limitPerKind = 5): SearchDocument[] {
+    const tokens = tokenize(query);
+    if (tokens.length === 0) return [];
+
+    const scored = documents
+      .filter(document => tokens.every(token => document.text.includes(token)))
+      .map(document => {
+        const title = document.title.toLowerCase();
+        const score = tokens.reduce((total, token) =>
+          total + (title.startsWith(token) ? 3 : title.includes(token) ? 2 : 1), 0);
+        return { document, score };
+      })
+      .sort((a, b) => b.score - a.score);
+
+    const perKind = new Map<SearchDocumentKind, number>();
+    return scored
+      .filter(({ document }) => {
+        const count = perKind.get(document.kind) || 0;
+        perKind.set(document.kind, count + 1);
+        return count < limitPerKind;
+      })
+      .map(({ document }) => document);
+  }
+
+  private async build(generation: number): Promise<SearchDocument[]> {
+    const [devices, requests, records, inventory, facilities] = await Promise.all([
+      DatabaseService.getAllDevices({ includeArchived: true }),
+      DatabaseService.getAllServiceRequests(),
+      DatabaseService.getAllMaintenanceRecords(),
+      InventoryManagementService.getInventory(),
+      facilityManagementService.getFacilities()
+    ]);
+    const deviceNames = new Map(devices.map(device => [device._id || '', getAssemblyLabel(devices, device)]));
+
+    const documents: SearchDocument[] = [
+      ...devices.map((device): SearchDocument => ({
+        id: device._id || device.serial_number,
+        kind: 'device',
+        title: deviceNames.get(device._id || '') || `${device.manufacturer} ${device.model}`,
+        subtitle: [
+          `S/N ${device.serial_number}`,
+          device.location,
+          device.archived_at ? 'Archived' : DEVICE_STATUS_LABELS[device.status]
+        ].filter(Boolean).join(' • '),
+        url: `/devices/${device._id}`,
+        deviceId: device._id,
+        text: haystack(
+          device.name, device.manufacturer, device.model, device.serial_number, device.location,
+          deviceTypeRegistry.getLabel(device.device_type)
+        )
+      })),
+      ...requests.map((request): SearchDocument => {
+        const deviceName = deviceNames.get(request.device_id) || 'Unknown Device';
+        return {
+          id: request._id || `${request.device_id}-${request.created_at}`,
+          kind: 'service_request',
+          title: `${request.issue_type.replace(/_/g, ' ')} - ${deviceName}`,
+          subtitle: `${request.priority} • ${request.request_status.replace(/_/g, ' ')} • ${request.description.slice(0, 60)}`,
+          url: `/service-requests?request=${request._id}`,
+          deviceId: request.device_id,
+          text: haystack(deviceName, request.issue_type.replace(/_/g, ' '), request.description, request.symptoms,
+            request.reported_by, request.assigned_to, request.priority)
+        };
+      }),
+      ...records.map((record): SearchDocument => {
+        const deviceName = deviceNames.get(record.device_id) || 'Unknown Device';
+        return {
+          id: record._id || `${record.device_id}-${record.maintenance_date}`,
+          kind: 'maintenance_record',
+          title: `${record.maintenance_type.replace(/_/g, ' ')} - ${deviceName}`,
+          subtitle: `${record.maintenance_date.slice(0, 10)} • ${record.technician_name}`,
+          url: `/devices/${record.device_id}`,
+          deviceId: record.device_id,
+          text: haystack(deviceName, record.maintenance_type.replace(/_/g, ' '), record.description,
+            record.technician_name, record.parts_replaced)
+        };
+      }),
+      ...inventory.map((item): SearchDocument => ({
+        id: item.id,
+        kind: 'inventory_item',
+        title: item.name,
+        subtitle: `${item.currentStock} ${item.unit} • ${item.supplier}`,
+        url: '/inventory',
+        text: haystack(item.name, item.category, item.supplier, item.supplierPartNumber, item.lotNumber, ...item.tags)
+      })),
+      ...facilities.map((facility): SearchDocument => ({
+        id: facility.id,
+        kind: 'facility',
+        title: facility.name,
+        subtitle: `${facility.address.city}, ${facility.address.state}`,
+        url: '/facilities',
+        text: haystack(facility.name, facility.type.replace(/_/g, ' '), facility.address.city, facility.address.state)
+      }))
+    ];
+
+    if (generation === this.generation) {
+      this.documents = documents;
+      this.builtAt = Date.now();
+    }
+    return documents;
+  }
+}
+
+export const searchIndexService = new SearchIndexService();
@@ -0,0 +1,166 @@
+// Deterministic QA fixture for the local table adapters. IDs and dates are fixed so test scripts can refer to them;
+// facility IDs match the sample facilities in facility-management.ts.
+import { MemoryTableAdapter, setTableAdapter, TableSeed } from './table-storage';
+import { Device, MaintenanceRecord, ServiceRequest, TABLE_IDS, UserProfile } from './database';
+
+const devices: Device[] = [
+  {
+    _id: 'qa-device-oct',
+    manufacturer: 'Zeiss',
+    model: 'Cirrus HD-OCT 6000',
+    serial_number: 'QA-OCT-0001',
+    device_type: 'OCT',
+    facility_id: 'facility-001',
+    location: 'Imaging Room 1',
+    status: 'Operational',
+    last_maintenance: '2026-04-01',
+    next_maintenance: '2026-09-28',
+    created_at: '2025-01-15T09:00:00.000Z',
+    revision: 1,
+    attributes: { technology: 'Spectral Domain', scan_speed: 100000, laser_class: 'Class 1' },
+    protection_class: 'I',
+    applied_part: 'B'
+  },
+  {
+    _id: 'qa-device-fundus',
+    manufacturer: 'Topcon',
+    model: 'TRC-NW400',
+    serial_number: 'QA-FUN-0001',
+    device_type: 'Fundus_Camera',
+    facility_id: 'facility-001',
+    location: 'Imaging Room 2',
+    status: 'Maintenance_Required',
+    next_maintenance: '2026-06-01',
+    created_at: '2025-02-01T09:00:00.000Z',
+    revision: 1,
+    attributes: { pupil_mode: 'Non-mydriatic' }
+  },
+  {
+    _id: 'qa-device-tonometer',
+    manufacturer: 'Haag-Streit',
+    model: 'AT 900',
+    serial_number: 'QA-TON-0001',
+    device_type: 'Tonometer',
+    facility_id: 'facility-002',
+    location: 'Exam Room 3',
+    status: 'Operational',
+    created_at: '2025-03-10T09:00:00.000Z',
+    revision: 1,
+    attributes: { method: 'Goldmann Applanation', calibration_force_min: 0, calibration_force_max: 60 },
+    protection_class: 'internal'
+  },
+  {
+    _id: 'qa-device-archived',
+    manufacturer: 'Nidek',
+    model: 'ARK-1',
+    serial_number: 'QA-ARK-0001',
+    device_type: 'Autorefractor',
+    facility_id: 'facility-002',
+    location: 'Storage',
+    status: 'Out_of_Service',
+    created_at: '2023-05-01T09:00:00.000Z',
+    revision: 2,
+    archived_at: '2026-01-10T12:00:00.000Z',
+    archived_by: 'qa-admin',
+    archive_reason: 'Replaced'
+  }
+];
+
+const maintenanceRecords: MaintenanceRecord[] = [
+  {
+    _id: 'qa-maintenance-oct-done',
+    device_id: 'qa-device-oct',
+    facility_id: 'facility-001',
+    maintenance_type: 'Preventive',
+    maintenance_date: '2026-04-01T02:00:00.000Z',
+    technician_id: 'qa-technician',
+    technician_name: 'Quinn Tester',
+    description: 'OCT Preventive Maintenance',
+    before_status: 'Operational',
+    after_status: 'completed',
+    completed_at: '2026-04-01T04:00:00.000Z',
+    duration_hours: 2,
+    cost: 0,
+    revision: 2
+  },
+  {
+    _id: 'qa-maintenance-fundus-open',
+    device_id: 'qa-device-fundus',
+    facility_id: 'facility-001',
+    maintenance_type: 'Inspection',
+    maintenance_date: '2026-06-02T02:00:00.000Z',
+    technician_id: 'qa-technician',
+    technician_name: 'Quinn Tester',
+    description: 'Fundus Camera Inspection',
+    before_status: 'Maintenance_Required',
+    after_status: 'Scheduled',
+    duration_hours: 1,
+    cost: 0,
+    revision: 1
+  }
+];
+
+const serviceRequests: ServiceRequest[] = [
+  {
+    _id: 'qa-request-fundus',
+    device_id: 'qa-device-fundus',
+    facility_id: 'facility-001',
+    request_status: 'Open',
+    priority: 'High',
+    issue_type: 'Image_Quality',
+    description: 'Images show a dark band on the left edge',
+    reported_by: 'qa-operator',
+    assigned_to: 'qa-technician',
+    created_at: '2026-05-20T15:00:00.000Z',
+    updated_at: '2026-05-20T15:00:00.000Z',
+    estimated_hours: 2,
+    revision: 1
+  }
+];
+
+const userProfiles: UserProfile[] = [
+  {
+    _id: 'qa-admin',
+    email: 'qa.admin@example.com',
+    full_name: 'Alex Admin',
+    role: 'Admin',
+    department: 'Administration',
+    created_at: '2025-01-01T09:00:00.000Z',
+    active: 'true'
+  },
+  {
+    _id: 'qa-technician',
+    email: 'qa.technician@example.com',
+    full_name: 'Quinn Tester',
+    role: 'Technician',
+    department: 'Biomedical_Engineering',
+    certifications: 'Electrical Safety, Laser Safety',
+    facility_id: 'facility-001',
+    weekly_capacity_hours: 40,
+    created_at: '2025-01-01T09:00:00.000Z',
+    active: 'true'
+  },
+  {
+    _id: 'qa-operator',
+    email: 'qa.operator@example.com',
+    full_name: 'Olive Operator',
+    role: 'Operator',
+    department: 'Ophthalmology',
+    created_at: '2025-01-01T09:00:00.000Z',
+    active: 'true'
+  }
+];
+
+export const QA_SEED: TableSeed = {
+  [TABLE_IDS.devices]: devices,
+  [TABLE_IDS.maintenance_records]: maintenanceRecords,
+  [TABLE_IDS.service_requests]: serviceRequests,
+  [TABLE_IDS.user_profiles]: userProfiles
+};
+
+// Swaps in a fresh in-memory store holding the QA fixture; every reload starts from the same data
+export const installQaSeed = (): MemoryTableAdapter => {
+  const adapter = new MemoryTableAdapter(structuredClone(QA_SEED));
+  setTableAdapter(adapter);
+  return adapter;
+};
@@ -0,0 +1,217 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ItemData } from '@devvai/devv-code-backend';
+import {
+  IndexedDBTableAdapter,
+  isConditionFailed,
+  isItemExists,
+  MemoryTableAdapter,
+  RemoteTableAdapter,
+  RoutedTableAdapter,
+  TableAdapter,
+  UNPROVISIONED_TABLE_IDS
+} from './table-storage';
+import { QA_SEED } from './seed-data';
+import { TABLE_IDS } from './database';
+
+const TABLE = 'test-table';
+
+const readAll = async (adapter: TableAdapter, options: { sort?: string; order?: 'asc' | 'desc'; limit?: number } = {}) => {
+  const items: ItemData[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await adapter.getItems(TABLE, { ...options, cursor });
+    items.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return items;
+};
+
+let databaseCount = 0;
+
+const adapters: [string, () => TableAdapter][] = [
+  ['MemoryTableAdapter', () => new MemoryTableAdapter()],
+  ['IndexedDBTableAdapter', () => new IndexedDBTableAdapter(`table-storage-test-${++databaseCount}`)]
+];
+
+describe.each(adapters)('%s', (_name, createAdapter) => {
+  let adapter: TableAdapter;
+
+  beforeEach(() => {
+    adapter = createAdapter();
+  });
+
+  it('round-trips added, updated and deleted items', async () => {
+    await adapter.addItem(TABLE, { _id: 'a', name: 'Cirrus', revision: 1 });
+
+    const [added] = (await adapter.getItems(TABLE, { query: { _id: 'a' } })).items;
+    expect(added).toMatchObject({ _id: 'a', _tid: TABLE, name: 'Cirrus', revision: 1 });
+
+    await adapter.updateItem(TABLE, { _id: 'a', revision: 2 });
+    const [updated] = (await adapter.getItems(TABLE, { query: { _id: 'a' } })).items;
+    expect(updated).toMatchObject({ name: 'Cirrus', revision: 2 });
+
+    await adapter.deleteItem(TABLE, { _id: 'a' });
+    expect((await adapter.getItems(TABLE)).items).toEqual([]);
+  });
+
+  it('generates ids and keeps tables apart', async () => {
+    await adapter.addItem(TABLE, { name: 'first' });
+    await adapter.addItem('other-table', { name: 'second' });
+
+    const { items } = await adapter.getItems(TABLE);
+    expect(items).toHaveLength(1);
+    expect(items[0]._id).toEqual(expect.any(String));
+  });
+
+  it('refuses to add an item whose id is taken', async () => {
+    await adapter.addItem(TABLE, { _id: 'a', name: 'first' });
+
+    await expect(adapter.addItem(TABLE, { _id: 'a', name: 'second' })).rejects.toSatisfy(isItemExists);
+    const [stored] = (await adapter.getItems(TABLE, { query: { _id: 'a' } })).items;
+    expect(stored.name).toBe('first');
+  });
+
+  it('rejects updates to missing items', async () => {
+    await expect(adapter.updateItem(TABLE, { _id: 'missing', name: 'x' })).rejects.toThrow('Item not found');
+  });
+
+  it('pages through every item exactly once with the cursor', async () => {
+    for (let index = 0; index < 45; index++) {
+      await adapter.addItem(TABLE, { _id: `item-${String(index).padStart(2, '0')}`, rank: index % 7 });
+    }
+
+    const firstPage = await adapter.getItems(TABLE, { limit: 20, sort: 'rank', order: 'asc' });
+    expect(firstPage.items).toHaveLength(20);
+    expect(firstPage.nextCursor).toBeDefined();
+
+    const items = await readAll(adapter, { limit: 20, sort: 'rank', order: 'asc' });
+    expect(items.map(item => item._id).sort()).toEqual(
+      Array.from({ length: 45 }, (_, index) => `item-${String(index).padStart(2, '0')}`)
+    );
+    const ranks = items.map(item => item.rank as number);
+    expect(ranks).toEqual([...ranks].sort((a, b) => a - b));
+  });
+
+  it('caps the page size and defaults to descending order', async () => {
+    for (let index = 0; index < 120; index++) {
+      await adapter.addItem(TABLE, { _id: `item-${String(index).padStart(3, '0')}` });
+    }
+
+    const page = await adapter.getItems(TABLE, { limit: 500 });
+    expect(page.items).toHaveLength(100);
+    expect(page.items[0]._id).toBe('item-119');
+    expect(page.nextCursor).toBeDefined();
+  });
+
+  it('filters with query conditions before paging', async () => {
+    await adapter.addItem(TABLE, { _id: 'a', status: 'Open', hours: 1 });
+    await adapter.addItem(TABLE, { _id: 'b', status: 'Closed', hours: 5 });
+    await adapter.addItem(TABLE, { _id: 'c', status: 'Open', hours: 9 });
+
+    const open = await adapter.getItems(TABLE, { query: { status: 'Open' }, sort: 'hours', order: 'asc' });
+    expect(open.items.map(item => item._id)).toEqual(['a', 'c']);
+
+    const between = await adapter.getItems(TABLE, { query: { hours: { operator: 'BETWEEN', value: [2, 9] } } });
+    expect(between.items.map(item => item._id).sort()).toEqual(['b', 'c']);
+  });
+
+  it('rejects a malformed cursor', async () => {
+    await expect(adapter.getItems(TABLE, { cursor: 'not-a-cursor' })).rejects.toThrow('Invalid cursor');
+  });
+});
+
+describe('seeding', () => {
+  it('loads the QA fixture with its fixed ids', async () => {
+    const adapter = new MemoryTableAdapter(structuredClone(QA_SEED));
+
+    const devices = await adapter.getItems(TABLE_IDS.devices, { limit: 100 });
+    expect(devices.items.map(device => device._id).sort()).toEqual(
+      QA_SEED[TABLE_IDS.devices].map(device => device._id).sort()
+    );
+  });
+
+  it('replaces a table in IndexedDB', async () => {
+    const adapter = new IndexedDBTableAdapter(`table-storage-test-${++databaseCount}`);
+    await adapter.addItem(TABLE, { _id: 'stale' });
+
+    await adapter.seed(TABLE, [{ _id: 'fresh' }]);
+    expect((await adapter.getItems(TABLE)).items.map(item => item._id)).toEqual(['fresh']);
+  });
+});
+
+describe.each(adapters)('%s conditional updates', (_name, createAdapter) => {
+  it('writes only while the condition holds', async () => {
+    const adapter = createAdapter();
+    await adapter.addItem(TABLE, { _id: 'a', revision: 1 });
+
+    await adapter.updateItem(TABLE, { _id: 'a', revision: 2 }, { field: 'revision', value: 1 });
+    await expect(
+      adapter.updateItem(TABLE, { _id: 'a', revision: 2 }, { field: 'revision', value: 1 })
+    ).rejects.toSatisfy(isConditionFailed);
+
+    const [stored] = (await adapter.getItems(TABLE, { query: { _id: 'a' } })).items;
+    expect(stored.revision).toBe(2);
+  });
+
+  it('treats a missing field as undefined', async () => {
+    const adapter = createAdapter();
+    await adapter.addItem(TABLE, { _id: 'legacy' });
+
+    await adapter.updateItem(TABLE, { _id: 'legacy', revision: 1 }, { field: 'revision', value: undefined });
+    const [stored] = (await adapter.getItems(TABLE, { query: { _id: 'legacy' } })).items;
+    expect(stored.revision).toBe(1);
+  });
+});
+
+describe('RemoteTableAdapter', () => {
+  it('checks conditions against a fresh read and queues writes to the same item', async () => {
+    const remote = new MemoryTableAdapter();
+    const adapter = new RemoteTableAdapter(remote);
+    await remote.addItem(TABLE, { _id: 'a', revision: 1 });
+
+    const results = await Promise.allSettled([
+      adapter.updateItem(TABLE, { _id: 'a', revision: 2, by: 'first' }, { field: 'revision', value: 1 }),
+      adapter.updateItem(TABLE, { _id: 'a', revision: 2, by: 'second' }, { field: 'revision', value: 1 })
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    const [stored] = (await remote.getItems(TABLE, { query: { _id: 'a' } })).items;
+    expect(stored.by).toBe('first');
+  });
+
+  it('checks ifAbsent adds against a fresh read', async () => {
+    const remote = new MemoryTableAdapter();
+    const adapter = new RemoteTableAdapter(remote);
+    const addItem = vi.spyOn(remote, 'addItem');
+
+    const results = await Promise.allSettled([
+      adapter.addItem(TABLE, { _id: 'run-1', by: 'first' }, { ifAbsent: true }),
+      adapter.addItem(TABLE, { _id: 'run-1', by: 'second' }, { ifAbsent: true })
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect(addItem).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('RoutedTableAdapter', () => {
+  it('keeps unprovisioned tables local and sends the rest to the hosted service', async () => {
+    const remote = new MemoryTableAdapter();
+    const local = new MemoryTableAdapter();
+    const adapter = new RoutedTableAdapter(remote, local, UNPROVISIONED_TABLE_IDS);
+
+    await adapter.addItem(TABLE_IDS.devices, { _id: 'device-1' });
+    await adapter.addItem(TABLE_IDS.job_runs, { _id: 'run-1' });
+    await adapter.updateItem(TABLE_IDS.job_runs, { _id: 'run-1', result: 'done' });
+
+    expect((await remote.getItems(TABLE_IDS.devices)).items).toHaveLength(1);
+    expect((await remote.getItems(TABLE_IDS.job_runs)).items).toHaveLength(0);
+    expect((await adapter.getItems(TABLE_IDS.job_runs)).items).toMatchObject([{ _id: 'run-1', result: 'done' }]);
+  });
+
+  it('routes every placeholder table ID locally', () => {
+    const hosted = Object.values(TABLE_IDS).filter(tableId => !UNPROVISIONED_TABLE_IDS.has(tableId));
+    expect(hosted).toEqual(['ew7zywz879j4', 'ew7zzcjafi80', 'ew7zzt9dyl1c', 'ew8006ogbocg']);
+  });
+});
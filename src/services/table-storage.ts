@@ -0,0 +1,454 @@
+// Pluggable table storage behind DatabaseService
+import { table } from '@devvai/devv-code-backend';
+import type { GetItemsOptions, GetItemsResponse, ItemData, QueryCondition } from '@devvai/devv-code-backend';
+
+// Compare-and-set guard for updateItem: the write only lands while the stored field still holds this value
+export interface UpdateCondition {
+  field: string;
+  value: unknown; // undefined matches items that do not have the field
+}
+
+// Idempotent create: the add is refused when an item with the given _id already exists
+export interface AddOptions {
+  ifAbsent?: boolean;
+}
+
+export interface TableAdapter {
+  // Rejects with ItemExistsError when the _id is taken; the remote adapter only looks first when ifAbsent is set
+  addItem(tableId: string, data: ItemData, options?: AddOptions): Promise<void>;
+  getItems(tableId: string, options?: GetItemsOptions): Promise<GetItemsResponse>;
+  // Rejects with ConditionFailedError when a condition is given and the stored item no longer matches it
+  updateItem(tableId: string, data: ItemData, condition?: UpdateCondition): Promise<void>;
+  deleteItem(tableId: string, keys: ItemData): Promise<void>;
+}
+
+export class ConditionFailedError extends Error {
+  readonly tableId: string;
+  readonly itemId: string;
+
+  constructor(tableId: string, itemId: string, condition: UpdateCondition) {
+    super(`Item ${itemId} no longer has ${condition.field} = ${String(condition.value)}`);
+    this.name = 'ConditionFailedError';
+    this.tableId = tableId;
+    this.itemId = itemId;
+  }
+}
+
+export const isConditionFailed = (error: unknown): error is ConditionFailedError =>
+  error instanceof ConditionFailedError;
+
+export class ItemExistsError extends Error {
+  readonly tableId: string;
+  readonly itemId: string;
+
+  constructor(tableId: string, itemId: string) {
+    super(`Item ${itemId} already exists`);
+    this.name = 'ItemExistsError';
+    this.tableId = tableId;
+    this.itemId = itemId;
+  }
+}
+
+export const isItemExists = (error: unknown): error is ItemExistsError =>
+  error instanceof ItemExistsError;
+
+export type TableBackend = 'remote' | 'indexeddb' | 'memory';
+
+export type TableSeed = Record<string, ItemData[]>;
+
+// Same ceiling the hosted table service applies to `_limit`
+const MAX_PAGE_SIZE = 100;
+const DEFAULT_PAGE_SIZE = 20;
+const LOCAL_OWNER_ID = 'local-user';
+
+// Shared query/sort/cursor evaluation so both local adapters page exactly alike
+const matchesCondition = (fieldValue: unknown, condition: string | number | boolean | QueryCondition): boolean => {
+  if (typeof condition !== 'object') {
+    return fieldValue !== undefined && String(fieldValue) === String(condition);
+  }
+
+  const { operator, value } = condition;
+  if (fieldValue === undefined || fieldValue === null) {
+    return operator === 'NE';
+  }
+
+  switch (operator) {
+    case 'EQ': return compareValues(fieldValue, value) === 0;
+    case 'NE': return compareValues(fieldValue, value) !== 0;
+    case 'LT': return compareValues(fieldValue, value) < 0;
+    case 'LE': return compareValues(fieldValue, value) <= 0;
+    case 'GT': return compareValues(fieldValue, value) > 0;
+    case 'GE': return compareValues(fieldValue, value) >= 0;
+    case 'BEGINS_WITH': return String(fieldValue).startsWith(String(value));
+    case 'BETWEEN':
+      return Array.isArray(value)
+        && compareValues(fieldValue, value[0]) >= 0
+        && compareValues(fieldValue, value[1]) <= 0;
+    default: return false;
+  }
+};
+
+const compareValues = (a: unknown, b: unknown): number => {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  const left = String(a);
+  const right = String(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+};
+
+// Items missing the sort field are ordered after every item that has it
+const compareBySort = (a: ItemData, b: ItemData, sortField: string): number => {
+  const aValue = a[sortField];
+  const bValue = b[sortField];
+  if (aValue === undefined && bValue !== undefined) return 1;
+  if (bValue === undefined && aValue !== undefined) return -1;
+  if (aValue !== undefined && bValue !== undefined) {
+    const result = compareValues(aValue, bValue);
+    if (result !== 0) return result;
+  }
+  return compareValues(a._id, b._id);
+};
+
+const encodeCursor = (item: ItemData, sortField: string): string =>
+  btoa(JSON.stringify({ v: item[sortField] ?? null, id: item._id }));
+
+const decodeCursor = (cursor: string): { v: unknown; id: string } | null => {
+  try {
+    const parsed = JSON.parse(atob(cursor));
+    return typeof parsed?.id === 'string' ? { v: parsed.v ?? undefined, id: parsed.id } : null;
+  } catch {
+    return null;
+  }
+};
+
+export const queryItems = (items: ItemData[], options?: GetItemsOptions): GetItemsResponse => {
+  const sortField = options?.sort || '_id';
+  const direction = options?.order === 'asc' ? 1 : -1;
+  const limit = Math.min(options?.limit || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+  const matching = items.filter(item =>
+    Object.entries(options?.query || {}).every(([field, condition]) => matchesCondition(item[field], condition))
+  );
+  const sorted = matching.sort((a, b) => direction * compareBySort(a, b, sortField));
+
+  let start = 0;
+  if (options?.cursor) {
+    const position = decodeCursor(options.cursor);
+    if (!position) {
+      throw new Error('Invalid cursor');
+    }
+    const anchor: ItemData = { [sortField]: position.v, _id: position.id };
+    const next = sorted.findIndex(item => direction * compareBySort(item, anchor, sortField) > 0);
+    start = next === -1 ? sorted.length : next;
+  }
+
+  const page = sorted.slice(start, start + limit);
+  const hasMore = start + limit < sorted.length;
+
+  return {
+    items: page.map(item => ({ ...item })),
+    nextCursor: hasMore && page.length > 0 ? encodeCursor(page[page.length - 1], sortField) : undefined
+  };
+};
+
+let idCounter = 0;
+
+const generateItemId = (): string => {
+  idCounter = (idCounter + 1) % 1679616;
+  return `${Date.now().toString(36)}${idCounter.toString(36).padStart(4, '0')}`;
+};
+
+// IDs for new items are assigned by the caller, so a create can be referenced (audited, linked) straight away
+export const createItemId = (): string =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function' ? crypto.randomUUID() : generateItemId();
+
+const requireId = (data: ItemData): string => {
+  if (!data._id) {
+    throw new Error('Item _id is required');
+  }
+  return String(data._id);
+};
+
+const assertCondition = (tableId: string, id: string, existing: ItemData, condition?: UpdateCondition): void => {
+  if (condition && existing[condition.field] !== condition.value) {
+    throw new ConditionFailedError(tableId, id, condition);
+  }
+};
+
+export class MemoryTableAdapter implements TableAdapter {
+  private tables = new Map<string, Map<string, ItemData>>();
+
+  constructor(seed?: TableSeed) {
+    if (seed) {
+      Object.entries(seed).forEach(([tableId, items]) => this.seed(tableId, items));
+    }
+  }
+
+  // Replaces the contents of a table, keeping any _id values given so QA fixtures stay deterministic
+  seed(tableId: string, items: ItemData[]): void {
+    const rows = new Map<string, ItemData>();
+    items.forEach(item => {
+      const row = { _uid: LOCAL_OWNER_ID, ...item, _id: item._id || generateItemId(), _tid: tableId };
+      rows.set(row._id, row);
+    });
+    this.tables.set(tableId, rows);
+  }
+
+  clear(): void {
+    this.tables.clear();
+  }
+
+  async addItem(tableId: string, data: ItemData): Promise<void> {
+    const rows = this.getTable(tableId);
+    const item = { _uid: LOCAL_OWNER_ID, ...data, _id: data._id || generateItemId(), _tid: tableId };
+    if (rows.has(item._id)) {
+      throw new ItemExistsError(tableId, item._id);
+    }
+    rows.set(item._id, item);
+  }
+
+  async getItems(tableId: string, options?: GetItemsOptions): Promise<GetItemsResponse> {
+    return queryItems(Array.from(this.getTable(tableId).values()), options);
+  }
+
+  // The check and the write run without an await in between, so they are atomic
+  async updateItem(tableId: string, data: ItemData, condition?: UpdateCondition): Promise<void> {
+    const rows = this.getTable(tableId);
+    const id = requireId(data);
+    const existing = rows.get(id);
+    if (!existing) {
+      throw new Error('Item not found');
+    }
+    assertCondition(tableId, id, existing, condition);
+    rows.set(id, { ...existing, ...data, _id: id, _uid: existing._uid, _tid: tableId });
+  }
+
+  async deleteItem(tableId: string, keys: ItemData): Promise<void> {
+    this.getTable(tableId).delete(requireId(keys));
+  }
+
+  private getTable(tableId: string): Map<string, ItemData> {
+    let rows = this.tables.get(tableId);
+    if (!rows) {
+      rows = new Map();
+      this.tables.set(tableId, rows);
+    }
+    return rows;
+  }
+}
+
+const IDB_NAME = 'ophthalmotech-tables';
+const IDB_VERSION = 1;
+const IDB_STORE = 'items';
+const IDB_TABLE_INDEX = 'by_table';
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export class IndexedDBTableAdapter implements TableAdapter {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private databaseName: string = IDB_NAME) {}
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  // Replaces the contents of a table in a single transaction
+  async seed(tableId: string, items: ItemData[]): Promise<void> {
+    const store = await this.getStore('readwrite');
+    const existingKeys = await promisifyRequest(store.index(IDB_TABLE_INDEX).getAllKeys(tableId));
+    existingKeys.forEach(key => store.delete(key));
+    await Promise.all(items.map(item =>
+      promisifyRequest(store.put({ _uid: LOCAL_OWNER_ID, ...item, _id: item._id || generateItemId(), _tid: tableId }))
+    ));
+  }
+
+  async addItem(tableId: string, data: ItemData): Promise<void> {
+    const store = await this.getStore('readwrite');
+    const item = { _uid: LOCAL_OWNER_ID, ...data, _id: data._id || generateItemId(), _tid: tableId };
+    try {
+      await promisifyRequest(store.add(item));
+    } catch (error) {
+      throw error instanceof DOMException && error.name === 'ConstraintError' ? new ItemExistsError(tableId, item._id) : error;
+    }
+  }
+
+  async getItems(tableId: string, options?: GetItemsOptions): Promise<GetItemsResponse> {
+    const store = await this.getStore('readonly');
+    const items = await promisifyRequest(store.index(IDB_TABLE_INDEX).getAll(tableId));
+    return queryItems(items as ItemData[], options);
+  }
+
+  // Read and write share one readwrite transaction, which IndexedDB runs in isolation
+  async updateItem(tableId: string, data: ItemData, condition?: UpdateCondition): Promise<void> {
+    const id = requireId(data);
+    const store = await this.getStore('readwrite');
+    const existing = await promisifyRequest(store.get([tableId, id])) as ItemData | undefined;
+    if (!existing) {
+      throw new Error('Item not found');
+    }
+    assertCondition(tableId, id, existing, condition);
+    await promisifyRequest(store.put({ ...existing, ...data, _id: id, _uid: existing._uid, _tid: tableId }));
+  }
+
+  async deleteItem(tableId: string, keys: ItemData): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await promisifyRequest(store.delete([tableId, requireId(keys)]));
+  }
+
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(IDB_STORE, mode).objectStore(IDB_STORE);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, IDB_VERSION);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(IDB_STORE, { keyPath: ['_tid', '_id'] });
+          store.createIndex(IDB_TABLE_INDEX, '_tid');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+}
+
+// The hosted table service has no conditional writes. Conditions are checked against a fresh read, and writes to the
+// same item are queued so that no two writers in this app can interleave between that read and the write.
+export class RemoteTableAdapter implements TableAdapter {
+  private itemQueues = new Map<string, Promise<unknown>>();
+
+  constructor(private remote: TableAdapter = table) {}
+
+  // ifAbsent is checked the same way as update conditions, so it only guards against writers in this app
+  addItem(tableId: string, data: ItemData, options?: AddOptions): Promise<void> {
+    if (!options?.ifAbsent || !data._id) {
+      return this.remote.addItem(tableId, data);
+    }
+    const id = String(data._id);
+    return this.exclusive(`${tableId}/${id}`, async () => {
+      const { items } = await this.remote.getItems(tableId, { query: { _id: id }, limit: 1 });
+      if (items.length > 0) {
+        throw new ItemExistsError(tableId, id);
+      }
+      await this.remote.addItem(tableId, data);
+    });
+  }
+
+  getItems(tableId: string, options?: GetItemsOptions): Promise<GetItemsResponse> {
+    return this.remote.getItems(tableId, options);
+  }
+
+  updateItem(tableId: string, data: ItemData, condition?: UpdateCondition): Promise<void> {
+    const id = requireId(data);
+    return this.exclusive(`${tableId}/${id}`, async () => {
+      if (condition) {
+        const [existing] = (await this.remote.getItems(tableId, { query: { _id: id }, limit: 1 })).items;
+        if (!existing) {
+          throw new Error('Item not found');
+        }
+        assertCondition(tableId, id, existing, condition);
+      }
+      await this.remote.updateItem(tableId, data);
+    });
+  }
+
+  deleteItem(tableId: string, keys: ItemData): Promise<void> {
+    return this.exclusive(`${tableId}/${requireId(keys)}`, () => this.remote.deleteItem(tableId, keys));
+  }
+
+  private exclusive<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const result = (this.itemQueues.get(key) || Promise.resolve()).then(task);
+    const settled = result.catch(() => undefined);
+    this.itemQueues.set(key, settled);
+    settled.then(() => {
+      if (this.itemQueues.get(key) === settled) this.itemQueues.delete(key);
+    });
+    return result;
+  }
+}
+
+// Tables the hosted service has not provisioned yet (see TABLE_IDS in database.ts). Their IDs are placeholders the
+// service would reject, so the remote backend keeps them in browser-local storage until real IDs replace them
+export const UNPROVISIONED_TABLE_IDS: ReadonlySet<string> = new Set([
+  'change_history',
+  'pm_schedules',
+  'safety_tests',
+  'technician_time_off',
+  'job_runs'
+]);
+
+// Sends the listed tables to a second adapter and everything else to the primary one
+export class RoutedTableAdapter implements TableAdapter {
+  constructor(private primary: TableAdapter, private secondary: TableAdapter, private secondaryTables: ReadonlySet<string>) {}
+
+  addItem(tableId: string, data: ItemData, options?: AddOptions): Promise<void> {
+    return this.route(tableId).addItem(tableId, data, options);
+  }
+
+  getItems(tableId: string, options?: GetItemsOptions): Promise<GetItemsResponse> {
+    return this.route(tableId).getItems(tableId, options);
+  }
+
+  updateItem(tableId: string, data: ItemData, condition?: UpdateCondition): Promise<void> {
+    return this.route(tableId).updateItem(tableId, data, condition);
+  }
+
+  deleteItem(tableId: string, keys: ItemData): Promise<void> {
+    return this.route(tableId).deleteItem(tableId, keys);
+  }
+
+  private route(tableId: string): TableAdapter {
+    return this.secondaryTables.has(tableId) ? this.secondary : this.primary;
+  }
+}
+
+export const createTableAdapter = (backend: TableBackend): TableAdapter => {
+  switch (backend) {
+    case 'memory':
+      return new MemoryTableAdapter();
+    case 'indexeddb':
+      if (IndexedDBTableAdapter.isSupported()) {
+        return new IndexedDBTableAdapter();
+      }
+      console.warn('IndexedDB is not available, falling back to in-memory table storage');
+      return new MemoryTableAdapter();
+    case 'remote':
+    default:
+      return new RoutedTableAdapter(new RemoteTableAdapter(), createTableAdapter('indexeddb'), UNPROVISIONED_TABLE_IDS);
+  }
+};
+
+let activeAdapter: TableAdapter = createTableAdapter(
+  (import.meta.env.VITE_TABLE_BACKEND as TableBackend | undefined) || 'remote'
+);
+
+export const getTableAdapter = (): TableAdapter => activeAdapter;
+
+export const setTableAdapter = (adapter: TableAdapter): void => {
+  activeAdapter = adapter;
+};
+
+// Walks every page of a table through the active adapter; for small service tables that are read whole
+export const getAllItems = async (tableId: string, options: Omit<GetItemsOptions, 'cursor' | 'limit'> = {}): Promise<ItemData[]> => {
+  const items: ItemData[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await activeAdapter.getItems(tableId, { ...options, limit: MAX_PAGE_SIZE, cursor });
+    items.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return items;
+};
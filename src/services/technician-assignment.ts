@@ -0,0 +1,381 @@
+// Technician workload balancing: ranks active technicians for a piece of work by certification, home facility,
+// time off and the hours already booked in that week, and assigns the least loaded qualified technician.
+import { addDays, addWeeks, eachDayOfInterval, format, isWeekend, startOfDay, startOfWeek } from 'date-fns';
+import {
+  DatabaseService,
+  Device,
+  MaintenanceRecord,
+  ServiceRequest,
+  TABLE_IDS,
+  UserProfile,
+  isOpenMaintenance,
+  isUnassignedMaintenance
+} from './database';
+import { getRevision } from './concurrency';
+import { deviceTypeRegistry } from './device-types';
+import { SAFETY_TEST_CERTIFICATION } from './electrical-safety';
+import { createItemId, getAllItems, getTableAdapter } from './table-storage';
+import { VersionedStore, missingStringField } from './versioned-storage';
+
+export interface TechnicianTimeOff {
+  id: string;
+  technicianId: string;
+  start: string; // yyyy-MM-dd, inclusive
+  end: string; // yyyy-MM-dd, inclusive
+  reason?: string;
+}
+
+export interface AssignmentTask {
+  id?: string; // The task's own booking, left out of the workload when reassigning
+  deviceId: string;
+  facilityId?: string;
+  manufacturer?: string;
+  date: Date; // Planned day of the work; service requests are worked from today
+  hours: number;
+  requiredCertifications: string[];
+}
+
+export interface TechnicianWeekLoad {
+  weekStart: string; // yyyy-MM-dd, always a Monday
+  capacityHours: number; // Weekly capacity less any weekdays on leave
+  maintenanceHours: number;
+  requestHours: number;
+  bookedHours: number;
+  daysOff: number;
+}
+
+export interface TechnicianCapacity {
+  technician: UserProfile;
+  weeks: TechnicianWeekLoad[];
+}
+
+export interface TechnicianCandidate {
+  technicianId: string;
+  name: string;
+  eligible: boolean;
+  reasons: string[]; // Why the technician was ruled out, or what counts for them
+  load: TechnicianWeekLoad;
+  utilization: number; // Booked hours plus this task over the week's capacity
+  score: number; // Lower is better
+}
+
+export interface MaintenanceAssignmentResult {
+  assigned: number;
+  unassignable: number; // No active technician qualified for the work
+}
+
+export const DEFAULT_WEEKLY_CAPACITY_HOURS = 40;
+// Same default the maintenance list shows for records without a duration
+export const DEFAULT_TASK_HOURS = 2;
+
+const WORKDAYS_PER_WEEK = 5;
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+// Manufacturer training breaks near-ties but never outweighs a tenth of a week's capacity
+const MANUFACTURER_BONUS = 0.1;
+
+const OPEN_REQUEST_STATUSES: ServiceRequest['request_status'][] = ['Open', 'In_Progress'];
+
+export class TechnicianAssignmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TechnicianAssignmentError';
+  }
+}
+
+export const isTechnicianAssignmentError = (error: unknown): error is TechnicianAssignmentError =>
+  error instanceof TechnicianAssignmentError;
+
+// Leave recorded before it moved to the shared table; copied over once, see migrateLegacyTimeOff
+const legacyTimeOffStore = new VersionedStore<TechnicianTimeOff>({
+  key: 'technician-time-off',
+  label: 'Technician time off',
+  validate: entry => missingStringField(entry, 'id', 'technicianId', 'start', 'end')
+});
+
+export const parseCertifications = (text: string | undefined): string[] =>
+  (text || '').split(/[,;\n]/).map(item => item.trim()).filter(Boolean);
+
+// Case-insensitive containment, so "Laser Safety Officer (2025)" satisfies "Laser Safety"
+export const hasCertification = (certifications: string[], required: string): boolean =>
+  certifications.some(certification => certification.toLowerCase().includes(required.toLowerCase()));
+
+export const getTechnicianName = (technician: UserProfile): string => technician.full_name || technician.email;
+
+export const getRequiredCertifications = (
+  device: Pick<Device, 'device_type'> | null | undefined,
+  options: { safetyTest?: boolean } = {}
+): string[] => {
+  const type = device ? deviceTypeRegistry.get(deviceTypeRegistry.resolve(device.device_type || '')) : undefined;
+  return [...(type?.requiredCertifications || []), ...(options.safetyTest ? [SAFETY_TEST_CERTIFICATION] : [])];
+};
+
+export const taskForMaintenance = (record: MaintenanceRecord, device: Device | null): AssignmentTask => ({
+  id: record._id,
+  deviceId: record.device_id,
+  facilityId: record.facility_id || device?.facility_id,
+  manufacturer: device?.manufacturer,
+  date: new Date(record.maintenance_date),
+  hours: record.duration_hours || DEFAULT_TASK_HOURS,
+  requiredCertifications: getRequiredCertifications(device, { safetyTest: record.is_safety_test })
+});
+
+export const taskForServiceRequest = (
+  request: Pick<ServiceRequest, '_id' | 'device_id' | 'facility_id' | 'estimated_hours'>,
+  device: Device | null
+): AssignmentTask => ({
+  id: request._id,
+  deviceId: request.device_id,
+  facilityId: request.facility_id || device?.facility_id,
+  manufacturer: device?.manufacturer,
+  date: new Date(),
+  hours: request.estimated_hours || DEFAULT_TASK_HOURS,
+  requiredCertifications: getRequiredCertifications(device)
+});
+
+// Open work across every facility: a technician's week is full no matter which site booked it
+interface Workload {
+  technicians: UserProfile[];
+  records: MaintenanceRecord[];
+  requests: ServiceRequest[];
+  timeOff: TechnicianTimeOff[];
+}
+
+const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const weekStartOf = (date: Date) => startOfWeek(date, WEEK_OPTIONS);
+
+const findLeave = (technicianId: string, day: Date, timeOff: TechnicianTimeOff[]) => {
+  const key = toDateKey(day);
+  return timeOff.find(entry => entry.technicianId === technicianId && entry.start <= key && key <= entry.end);
+};
+
+// Overdue maintenance still has to be done, so it loads the current week rather than a past one.
+// Service requests carry no planned date, so their open hours load the current week too.
+const computeWeekLoad = (technician: UserProfile, weekStart: Date, workload: Workload, excludeId?: string): TechnicianWeekLoad => {
+  const id = technician._id || '';
+  const currentWeek = weekStartOf(new Date());
+  const isPlannedFor = (date: Date) => {
+    const week = weekStartOf(date);
+    return (week < currentWeek ? currentWeek : week).getTime() === weekStart.getTime();
+  };
+
+  const maintenanceHours = workload.records
+    .filter(record => record.technician_id === id && record._id !== excludeId && isPlannedFor(new Date(record.maintenance_date)))
+    .reduce((sum, record) => sum + (record.duration_hours || DEFAULT_TASK_HOURS), 0);
+  const requestHours = weekStart.getTime() !== currentWeek.getTime() ? 0 : workload.requests
+    .filter(request => request.assigned_to === id && request._id !== excludeId)
+    .reduce((sum, request) => sum + (request.estimated_hours || DEFAULT_TASK_HOURS), 0);
+  const daysOff = eachDayOfInterval({ start: weekStart, end: addDays(weekStart, 6) })
+    .filter(day => !isWeekend(day) && findLeave(id, day, workload.timeOff)).length;
+  const weeklyCapacity = technician.weekly_capacity_hours ?? DEFAULT_WEEKLY_CAPACITY_HOURS;
+
+  return {
+    weekStart: toDateKey(weekStart),
+    capacityHours: Math.round(weeklyCapacity * (WORKDAYS_PER_WEEK - daysOff) / WORKDAYS_PER_WEEK * 10) / 10,
+    maintenanceHours,
+    requestHours,
+    bookedHours: maintenanceHours + requestHours,
+    daysOff
+  };
+};
+
+// Qualified technicians first, then the lowest utilization for the week the work falls in
+const rankCandidates = (task: AssignmentTask, workload: Workload): TechnicianCandidate[] => {
+  const today = startOfDay(new Date());
+  const weekStart = weekStartOf(task.date < today ? today : task.date);
+
+  return workload.technicians
+    .map(technician => {
+      const id = technician._id || '';
+      const certifications = parseCertifications(technician.certifications);
+      const load = computeWeekLoad(technician, weekStart, workload, task.id);
+      const reasons: string[] = [];
+
+      const leave = findLeave(id, task.date < today ? today : task.date, workload.timeOff);
+      if (leave) {
+        reasons.push(`On leave ${leave.start} to ${leave.end}`);
+      }
+      if (technician.facility_id && task.facilityId && technician.facility_id !== task.facilityId) {
+        reasons.push('Based at another facility');
+      }
+      task.requiredCertifications
+        .filter(required => !hasCertification(certifications, required))
+        .forEach(required => reasons.push(`Not certified for ${required}`));
+      const eligible = reasons.length === 0;
+
+      const utilization = load.capacityHours > 0 ? (load.bookedHours + task.hours) / load.capacityHours : Infinity;
+      if (eligible && utilization > 1) {
+        reasons.push('Over capacity that week');
+      }
+      const manufacturerTrained = Boolean(task.manufacturer) && hasCertification(certifications, task.manufacturer!);
+      if (manufacturerTrained) {
+        reasons.push(`Trained on ${task.manufacturer}`);
+      }
+
+      return {
+        technicianId: id,
+        name: getTechnicianName(technician),
+        eligible,
+        reasons,
+        load,
+        utilization,
+        score: utilization - (manufacturerTrained ? MANUFACTURER_BONUS : 0)
+      };
+    })
+    .sort((a, b) => Number(b.eligible) - Number(a.eligible) || a.score - b.score || a.name.localeCompare(b.name));
+};
+
+class TechnicianAssignmentService {
+  // Batch assignment reads the workload then books against it, so runs never overlap
+  private queue: Promise<unknown> = Promise.resolve();
+  private legacyMigration: Promise<void> | null = null;
+
+  async getTimeOff(technicianId?: string): Promise<TechnicianTimeOff[]> {
+    await this.migrateLegacyTimeOff();
+    const entries = await getAllItems(TABLE_IDS.technician_time_off, technicianId ? { query: { technicianId } } : {});
+    return (entries as TechnicianTimeOff[]).sort((a, b) => a.start.localeCompare(b.start));
+  }
+
+  // Rejects with TechnicianAssignmentError for a missing or reversed date range
+  async addTimeOff(input: Omit<TechnicianTimeOff, 'id'>): Promise<TechnicianTimeOff> {
+    if (!input.start || !input.end) {
+      throw new TechnicianAssignmentError('Enter the first and last day of leave');
+    }
+    if (input.end < input.start) {
+      throw new TechnicianAssignmentError('The last day of leave is before the first');
+    }
+    const entry: TechnicianTimeOff = {
+      ...input,
+      id: createItemId(),
+      reason: input.reason?.trim() || undefined
+    };
+    await getTableAdapter().addItem(TABLE_IDS.technician_time_off, { ...entry, _id: entry.id });
+    return entry;
+  }
+
+  async removeTimeOff(id: string): Promise<void> {
+    await getTableAdapter().deleteItem(TABLE_IDS.technician_time_off, { _id: id });
+  }
+
+  async getTechnicians(): Promise<UserProfile[]> {
+    const profiles = await DatabaseService.getAllUserProfiles({ role: 'Technician', active: true });
+    return profiles.sort((a, b) => getTechnicianName(a).localeCompare(getTechnicianName(b)));
+  }
+
+  // Throws TechnicianAssignmentError for a negative capacity
+  async updateAvailability(
+    profileId: string,
+    userId: string,
+    updates: Pick<UserProfile, 'facility_id' | 'weekly_capacity_hours'>
+  ): Promise<void> {
+    if (updates.weekly_capacity_hours !== undefined && !(updates.weekly_capacity_hours >= 0)) {
+      throw new TechnicianAssignmentError('Weekly capacity must be zero or more hours');
+    }
+    await DatabaseService.updateUserProfile(profileId, userId, updates);
+  }
+
+  async rank(task: AssignmentTask): Promise<TechnicianCandidate[]> {
+    return rankCandidates(task, await this.loadWorkload());
+  }
+
+  async suggest(task: AssignmentTask): Promise<TechnicianCandidate | null> {
+    const [best] = await this.rank(task);
+    return best?.eligible ? best : null;
+  }
+
+  async getCapacity(weeks: number, from: Date = new Date()): Promise<TechnicianCapacity[]> {
+    const workload = await this.loadWorkload();
+    const weekStarts = Array.from({ length: weeks }, (_, index) => addWeeks(weekStartOf(from), index));
+    return workload.technicians.map(technician => ({
+      technician,
+      weeks: weekStarts.map(weekStart => computeWeekLoad(technician, weekStart, workload))
+    }));
+  }
+
+  // Resolves to null when no active technician qualifies; the request is left as it was
+  async assignServiceRequest(request: ServiceRequest, userId: string): Promise<TechnicianCandidate | null> {
+    if (!request._id) return null;
+    const device = await DatabaseService.getDeviceById(request.device_id);
+    const best = await this.suggest(taskForServiceRequest(request, device));
+    if (best) {
+      await DatabaseService.updateServiceRequest(request._id, userId, { assigned_to: best.technicianId }, {
+        expectedRevision: getRevision(request)
+      });
+    }
+    return best;
+  }
+
+  // Earliest work is assigned first, and each booking counts toward the next pick so the batch spreads out.
+  // Only records in the current facility scope are assigned; the workload they are balanced against spans all.
+  assignUnassignedMaintenance(userId: string): Promise<MaintenanceAssignmentResult> {
+    return this.exclusive(async () => {
+      const [workload, scoped, devices] = await Promise.all([
+        this.loadWorkload(),
+        DatabaseService.getAllMaintenanceRecords(),
+        DatabaseService.getAllDevices({ facilityIds: null })
+      ]);
+
+      const pending = scoped
+        .filter(record => isOpenMaintenance(record) && isUnassignedMaintenance(record))
+        .sort((a, b) => a.maintenance_date.localeCompare(b.maintenance_date));
+
+      const result: MaintenanceAssignmentResult = { assigned: 0, unassignable: 0 };
+      for (const record of pending) {
+        const device = devices.find(d => d._id === record.device_id) || null;
+        const [best] = rankCandidates(taskForMaintenance(record, device), workload);
+        if (!record._id || !best?.eligible) {
+          result.unassignable++;
+          continue;
+        }
+
+        const updates = { technician_id: best.technicianId, technician_name: best.name };
+        await DatabaseService.updateMaintenanceRecord(record._id, userId, updates, { expectedRevision: getRevision(record) });
+        workload.records = [...workload.records.filter(r => r._id !== record._id), { ...record, ...updates }];
+        result.assigned++;
+      }
+      return result;
+    });
+  }
+
+  private async loadWorkload(): Promise<Workload> {
+    const [technicians, records, requests, timeOff] = await Promise.all([
+      this.getTechnicians(),
+      DatabaseService.getAllMaintenanceRecords({ facilityIds: null }),
+      DatabaseService.getAllServiceRequests({ facilityIds: null }),
+      this.getTimeOff()
+    ]);
+    return {
+      technicians,
+      records: records.filter(record => isOpenMaintenance(record)),
+      requests: requests.filter(request => OPEN_REQUEST_STATUSES.includes(request.request_status)),
+      timeOff
+    };
+  }
+
+  // Copies leave recorded in this browser before the table existed, then drops the local copy
+  private migrateLegacyTimeOff(): Promise<void> {
+    if (!this.legacyMigration) {
+      this.legacyMigration = (async () => {
+        const legacy = legacyTimeOffStore.load();
+        if (legacy.length === 0) return;
+        const existing = new Set((await getAllItems(TABLE_IDS.technician_time_off)).map(item => item._id));
+        for (const entry of legacy.filter(candidate => !existing.has(candidate.id))) {
+          await getTableAdapter().addItem(TABLE_IDS.technician_time_off, { ...entry, _id: entry.id });
+        }
+        legacyTimeOffStore.clear();
+      })().catch(error => {
+        this.legacyMigration = null;
+        console.error('Failed to move local technician time off into the shared table:', error);
+      });
+    }
+    return this.legacyMigration;
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+export const technicianAssignmentService = new TechnicianAssignmentService();
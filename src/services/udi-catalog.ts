@@ -0,0 +1,32 @@
+// Local UDI device identifier lookup used to prefill manufacturer, model and type when a label is scanned.
+// Maintained by hand until we sync from the FDA GUDID; add rows as new equipment models are purchased.
+import type { DeviceTypeId } from './device-types';
+import { UdiData, normalizeGtin } from './udi';
+
+export interface UdiCatalogEntry {
+  deviceIdentifier: string; // GTIN-14, or HIBCC labeler code + product code + unit of measure
+  manufacturer: string;
+  model: string;
+  deviceType: DeviceTypeId;
+}
+
+const UDI_CATALOG: UdiCatalogEntry[] = [
+  { deviceIdentifier: '04012345000122', manufacturer: 'Carl Zeiss Meditec', model: 'CIRRUS HD-OCT 5000', deviceType: 'OCT' },
+  { deviceIdentifier: '04012345000290', manufacturer: 'Carl Zeiss Meditec', model: 'Humphrey HFA3 860', deviceType: 'Visual_Field' },
+  { deviceIdentifier: '04012345000368', manufacturer: 'Topcon', model: 'TRC-NW8', deviceType: 'Fundus_Camera' },
+  { deviceIdentifier: '04012345000436', manufacturer: 'Haag-Streit', model: 'BQ 900', deviceType: 'Slit_Lamp' },
+  { deviceIdentifier: '04012345000504', manufacturer: 'Reichert', model: 'Tono-Pen AVIA', deviceType: 'Tonometer' },
+  { deviceIdentifier: '04012345000672', manufacturer: 'NIDEK', model: 'ARK-1s', deviceType: 'Autorefractor' },
+  { deviceIdentifier: '04012345000740', manufacturer: 'Tomey', model: 'SP-3000', deviceType: 'Pachymeter' },
+  { deviceIdentifier: '04012345000818', manufacturer: 'Konan Medical', model: 'CellChek 20', deviceType: 'Specular_Microscope' },
+  { deviceIdentifier: '04012345000986', manufacturer: 'Lumenis', model: 'Selecta Duet', deviceType: 'Laser_System' },
+  { deviceIdentifier: '04012345001044', manufacturer: 'Topcon', model: 'KR-800', deviceType: 'Keratometer' },
+  { deviceIdentifier: 'E301ZCIRRUS51', manufacturer: 'Carl Zeiss Meditec', model: 'CIRRUS HD-OCT 5000', deviceType: 'OCT' },
+  { deviceIdentifier: 'E301HFA31', manufacturer: 'Carl Zeiss Meditec', model: 'Humphrey HFA3 860', deviceType: 'Visual_Field' },
+  { deviceIdentifier: 'E302TPAVIA1', manufacturer: 'Reichert', model: 'Tono-Pen AVIA', deviceType: 'Tonometer' }
+];
+
+const byIdentifier = new Map(UDI_CATALOG.map(entry => [entry.deviceIdentifier, entry]));
+
+export const lookupUdiDevice = (udi: Pick<UdiData, 'issuer' | 'deviceIdentifier'>): UdiCatalogEntry | undefined =>
+  byIdentifier.get(udi.issuer === 'GS1' ? normalizeGtin(udi.deviceIdentifier) : udi.deviceIdentifier.toUpperCase());
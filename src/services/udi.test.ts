@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { hibccCheckCharacter, parseUdi, UdiParseError } from './udi';
+
+const GS = '\x1d';
+
+// HIBCC codes end in a modulo-43 check character over everything before it
+const hibcc = (data: string) => data + hibccCheckCharacter(data);
+
+describe('parseUdi GS1', () => {
+  it('reads the bracketed human-readable form', () => {
+    expect(parseUdi('(01)09506000134352(17)270131(10)A1B2(21)SN-001')).toMatchObject({
+      issuer: 'GS1',
+      deviceIdentifier: '09506000134352',
+      gtin: '09506000134352',
+      expirationDate: '2027-01-31',
+      lotNumber: 'A1B2',
+      serialNumber: 'SN-001'
+    });
+  });
+
+  it('reads raw scanner output with a symbology identifier and GS separators', () => {
+    const scanned = `]d20109506000134352112501011727020010A1B2${GS}21SN-001`;
+
+    expect(parseUdi(scanned)).toMatchObject({
+      gtin: '09506000134352',
+      manufactureDate: '2025-01-01',
+      expirationDate: '2027-02-28',
+      lotNumber: 'A1B2',
+      serialNumber: 'SN-001',
+      raw: scanned
+    });
+  });
+
+  it('rejects a GTIN with a bad check digit', () => {
+    expect(() => parseUdi('(01)09506000134353(10)A1B2')).toThrow(/invalid check digit \(expected 2\)/);
+    expect(() => parseUdi('(01)09506000134353')).toThrow(UdiParseError);
+  });
+});
+
+describe('parseUdi HIBCC', () => {
+  it('reads a primary-only code', () => {
+    expect(parseUdi(hibcc('+A123BJC5D6E71'))).toMatchObject({
+      issuer: 'HIBCC',
+      deviceIdentifier: 'A123BJC5D6E71',
+      labelerCode: 'A123',
+      productCode: 'BJC5D6E7'
+    });
+  });
+
+  it('reads combined primary and secondary data in the $$ and $$3 date formats', () => {
+    expect(parseUdi(hibcc('+A123BJC5D6E71/$$0827LOT42'))).toMatchObject({
+      deviceIdentifier: 'A123BJC5D6E71',
+      expirationDate: '2027-08-31',
+      lotNumber: 'LOT42'
+    });
+    expect(parseUdi(hibcc('+A123BJC5D6E71/$$3270131LOT42'))).toMatchObject({
+      expirationDate: '2027-01-31',
+      lotNumber: 'LOT42'
+    });
+  });
+
+  it('reads a secondary-only code with a Julian $$5 date and a link character', () => {
+    const result = parseUdi(hibcc('+$$527032LOT9L'));
+
+    expect(result).toMatchObject({ issuer: 'HIBCC', deviceIdentifier: '', expirationDate: '2027-02-01', lotNumber: 'LOT9' });
+    expect(result.labelerCode).toBeUndefined();
+  });
+
+  it('rejects a wrong check character', () => {
+    const code = hibcc('+A123BJC5D6E71');
+    const wrong = code.slice(0, -1) + (code.endsWith('A') ? 'B' : 'A');
+
+    expect(() => parseUdi(wrong)).toThrow(/check character/);
+  });
+});
@@ -0,0 +1,309 @@
+// Unique Device Identifier parsing for GS1 (application identifiers) and HIBCC (Health Industry Bar Code) labels.
+// Accepts scanner output with or without symbology identifiers and GS separators, or the printed human-readable form.
+export type UdiIssuer = 'GS1' | 'HIBCC';
+
+export interface UdiData {
+  issuer: UdiIssuer;
+  raw: string;
+  deviceIdentifier: string; // GTIN for GS1; labeler code + product code + unit of measure for HIBCC
+  gtin?: string;
+  labelerCode?: string;
+  productCode?: string;
+  serialNumber?: string;
+  lotNumber?: string;
+  expirationDate?: string; // yyyy-MM-dd
+  manufactureDate?: string; // yyyy-MM-dd
+}
+
+export class UdiParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UdiParseError';
+  }
+}
+
+export const isUdiParseError = (error: unknown): error is UdiParseError =>
+  error instanceof UdiParseError;
+
+const GROUP_SEPARATOR = '\x1d';
+
+// Scanners prefix the symbology (]C1 GS1-128, ]d2 DataMatrix, ]Q3 QR, ]e0 DataBar) when configured to
+const SYMBOLOGY_IDENTIFIER = /^\][A-Za-z]\d/;
+
+// GS1 application identifiers we read, plus common ones that may appear between them
+const GS1_AIS: Record<string, { length?: number; maxLength?: number }> = {
+  '01': { length: 14 }, // GTIN
+  '02': { length: 14 },
+  '10': { maxLength: 20 }, // Batch/lot
+  '11': { length: 6 }, // Production date
+  '13': { length: 6 },
+  '15': { length: 6 },
+  '16': { length: 6 },
+  '17': { length: 6 }, // Expiration date
+  '20': { length: 2 },
+  '21': { maxLength: 20 }, // Serial number
+  '22': { maxLength: 20 },
+  '30': { maxLength: 8 },
+  '37': { maxLength: 8 },
+  '240': { maxLength: 30 },
+  '241': { maxLength: 30 },
+  '250': { maxLength: 30 }
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const isoDate = (year: number, month: number, day: number): string => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (month < 1 || month > 12 || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new UdiParseError(`${year}-${pad(month)}-${pad(day)} is not a valid date`);
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const lastDayOfMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+// GS1 sliding century: two-digit years up to 50 ahead or 49 behind the current year
+const expandGs1Year = (twoDigitYear: number, today = new Date()): number => {
+  const currentYear = today.getFullYear();
+  const century = Math.floor(currentYear / 100) * 100;
+  const difference = twoDigitYear - (currentYear % 100);
+  if (difference >= 51) return century - 100 + twoDigitYear;
+  if (difference <= -50) return century + 100 + twoDigitYear;
+  return century + twoDigitYear;
+};
+
+const expandHibccYear = (twoDigitYear: number) => 2000 + twoDigitYear;
+
+// YYMMDD; a day of 00 means the last day of the month
+const parseGs1Date = (value: string, label: string): string => {
+  if (!/^\d{6}$/.test(value)) throw new UdiParseError(`${label} must be six digits (YYMMDD)`);
+  const year = expandGs1Year(Number(value.slice(0, 2)));
+  const month = Number(value.slice(2, 4));
+  const day = Number(value.slice(4, 6)) || (month >= 1 && month <= 12 ? lastDayOfMonth(year, month) : 1);
+  return isoDate(year, month, day);
+};
+
+export const gs1CheckDigit = (digits: string): number => {
+  const sum = Array.from(digits).reverse().reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+export const isValidGtin = (gtin: string): boolean =>
+  /^\d{14}$/.test(gtin) && gs1CheckDigit(gtin.slice(0, -1)) === Number(gtin[13]);
+
+// GTIN-8/12/13 scanned or typed without leading zeros are padded to GTIN-14
+export const normalizeGtin = (value: string): string => value.trim().padStart(14, '0');
+
+const readGs1Elements = (text: string): Map<string, string> => {
+  const elements = new Map<string, string>();
+
+  // Human-readable form: (01)00812345678901(17)270131(10)A123
+  if (text.startsWith('(')) {
+    const pattern = /\((\d{2,4})\)([^(]*)/g;
+    let consumed = 0;
+    for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+      elements.set(match[1], match[2].trim());
+      consumed += match[0].length;
+    }
+    if (consumed !== text.length) throw new UdiParseError('Could not read the bracketed application identifiers');
+    return elements;
+  }
+
+  let position = 0;
+  while (position < text.length) {
+    if (text[position] === GROUP_SEPARATOR) {
+      position++;
+      continue;
+    }
+    const ai = [text.slice(position, position + 3), text.slice(position, position + 2)].find(candidate => GS1_AIS[candidate]);
+    if (!ai) {
+      throw new UdiParseError(`Unsupported GS1 application identifier at "${text.slice(position, position + 4)}"`);
+    }
+    position += ai.length;
+
+    const { length, maxLength } = GS1_AIS[ai];
+    let value: string;
+    if (length) {
+      value = text.slice(position, position + length);
+      if (value.length !== length) throw new UdiParseError(`AI (${ai}) needs ${length} characters`);
+      position += length;
+    } else {
+      const end = text.indexOf(GROUP_SEPARATOR, position);
+      value = text.slice(position, end === -1 ? text.length : end);
+      if (maxLength && value.length > maxLength) {
+        throw new UdiParseError(`AI (${ai}) is longer than ${maxLength} characters; the scanner may be dropping GS separators`);
+      }
+      position += value.length;
+    }
+    elements.set(ai, value);
+  }
+  return elements;
+};
+
+const parseGs1 = (raw: string, text: string): UdiData => {
+  const elements = readGs1Elements(text.startsWith(GROUP_SEPARATOR) ? text.slice(1) : text);
+
+  const gtin = elements.get('01');
+  if (!gtin) throw new UdiParseError('GS1 UDI is missing the GTIN (01)');
+  if (!/^\d{14}$/.test(gtin)) throw new UdiParseError('GTIN (01) must be 14 digits');
+  if (!isValidGtin(gtin)) {
+    throw new UdiParseError(`GTIN ${gtin} has an invalid check digit (expected ${gs1CheckDigit(gtin.slice(0, -1))})`);
+  }
+
+  const expiration = elements.get('17');
+  const manufactured = elements.get('11');
+  return {
+    issuer: 'GS1',
+    raw,
+    deviceIdentifier: gtin,
+    gtin,
+    serialNumber: elements.get('21') || undefined,
+    lotNumber: elements.get('10') || undefined,
+    expirationDate: expiration ? parseGs1Date(expiration, 'Expiration date (17)') : undefined,
+    manufactureDate: manufactured ? parseGs1Date(manufactured, 'Manufacture date (11)') : undefined
+  };
+};
+
+const HIBCC_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ-. $/+%';
+
+export const hibccCheckCharacter = (data: string): string => {
+  const sum = Array.from(data).reduce((total, char) => {
+    const value = HIBCC_CHARSET.indexOf(char);
+    if (value === -1) throw new UdiParseError(`"${char}" is not allowed in a HIBCC code`);
+    return total + value;
+  }, 0);
+  return HIBCC_CHARSET[sum % 43];
+};
+
+const julianDate = (year: number, dayOfYear: number): string => {
+  const date = new Date(Date.UTC(year, 0, dayOfYear));
+  if (dayOfYear < 1 || date.getUTCFullYear() !== year) throw new UdiParseError(`Day ${dayOfYear} is not valid for ${year}`);
+  return isoDate(year, date.getUTCMonth() + 1, date.getUTCDate());
+};
+
+// Expiration date in one of the HIBCC secondary data formats; returns the date and the remaining text
+const readHibccDate = (text: string): { date?: string; rest: string } => {
+  const digits = (start: number, length: number) => {
+    const value = text.slice(start, start + length);
+    if (!/^\d+$/.test(value) || value.length !== length) throw new UdiParseError('HIBCC expiration date is malformed');
+    return value;
+  };
+  const number = (value: string, start: number, length: number) => Number(value.slice(start, start + length));
+
+  switch (text[0]) {
+    case '2': { // MMDDYY
+      const value = digits(1, 6);
+      return { date: isoDate(expandHibccYear(number(value, 4, 2)), number(value, 0, 2), number(value, 2, 2)), rest: text.slice(7) };
+    }
+    case '3': { // YYMMDD
+      const value = digits(1, 6);
+      return { date: isoDate(expandHibccYear(number(value, 0, 2)), number(value, 2, 2), number(value, 4, 2)), rest: text.slice(7) };
+    }
+    case '4': { // YYMMDDHH
+      const value = digits(1, 8);
+      return { date: isoDate(expandHibccYear(number(value, 0, 2)), number(value, 2, 2), number(value, 4, 2)), rest: text.slice(9) };
+    }
+    case '5': { // YYJJJ
+      const value = digits(1, 5);
+      return { date: julianDate(expandHibccYear(number(value, 0, 2)), number(value, 2, 3)), rest: text.slice(6) };
+    }
+    case '6': { // YYJJJHH
+      const value = digits(1, 7);
+      return { date: julianDate(expandHibccYear(number(value, 0, 2)), number(value, 2, 3)), rest: text.slice(8) };
+    }
+    case '7': // No expiration date
+      return { rest: text.slice(1) };
+    default: { // MMYY, expiring at the end of the month
+      const value = digits(0, 4);
+      const year = expandHibccYear(number(value, 2, 2));
+      const month = number(value, 0, 2);
+      if (month < 1 || month > 12) throw new UdiParseError('HIBCC expiration month is not valid');
+      return { date: isoDate(year, month, lastDayOfMonth(year, month)), rest: text.slice(4) };
+    }
+  }
+};
+
+const readHibccSecondary = (secondary: string, result: UdiData) => {
+  const [data, ...supplemental] = secondary.split('/');
+
+  if (data.startsWith('$$+')) {
+    const { date, rest } = readHibccDate(data.slice(3));
+    result.expirationDate = date;
+    result.serialNumber = rest || undefined;
+  } else if (data.startsWith('$+')) {
+    result.serialNumber = data.slice(2) || undefined;
+  } else if (data.startsWith('$$')) {
+    let text = data.slice(2);
+    // Quantity prefixes: 8 + two digits, 9 + five digits
+    if (text[0] === '8') text = text.slice(3);
+    else if (text[0] === '9') text = text.slice(6);
+    const { date, rest } = readHibccDate(text);
+    result.expirationDate = date;
+    result.lotNumber = rest || undefined;
+  } else if (data.startsWith('$')) {
+    result.lotNumber = data.slice(1) || undefined;
+  } else if (/^\d{5}/.test(data)) {
+    // Legacy format: YYJJJ then lot
+    result.expirationDate = julianDate(expandHibccYear(Number(data.slice(0, 2))), Number(data.slice(2, 5)));
+    result.lotNumber = data.slice(5) || undefined;
+  } else if (data) {
+    throw new UdiParseError('HIBCC secondary data is not in a recognized format');
+  }
+
+  for (const field of supplemental) {
+    const value = field.slice(3);
+    if (field.startsWith('14D') && /^\d{8}$/.test(value)) {
+      result.expirationDate = isoDate(Number(value.slice(0, 4)), Number(value.slice(4, 6)), Number(value.slice(6, 8)));
+    } else if (field.startsWith('16D') && /^\d{8}$/.test(value)) {
+      result.manufactureDate = isoDate(Number(value.slice(0, 4)), Number(value.slice(4, 6)), Number(value.slice(6, 8)));
+    } else if (field.startsWith('S')) {
+      result.serialNumber = field.slice(1) || result.serialNumber;
+    }
+  }
+};
+
+const parseHibcc = (raw: string, text: string): UdiData => {
+  // Code 39 renderings wrap the data in asterisks
+  const code = text.replace(/^\*(.*)\*$/, '$1').toUpperCase();
+  if (code.length < 3) throw new UdiParseError('HIBCC code is too short');
+
+  const data = code.slice(0, -1);
+  const check = code.slice(-1);
+  const expected = hibccCheckCharacter(data);
+  if (check !== expected) {
+    throw new UdiParseError(`HIBCC check character is "${check}" but should be "${expected}"`);
+  }
+
+  const body = data.slice(1);
+  const result: UdiData = { issuer: 'HIBCC', raw, deviceIdentifier: '' };
+
+  // A secondary-only label ends with a link character tying it to the primary label
+  if (body.startsWith('$') || /^\d/.test(body)) {
+    readHibccSecondary(body.slice(0, -1), result);
+    return result;
+  }
+
+  const slash = body.indexOf('/');
+  const primary = slash === -1 ? body : body.slice(0, slash);
+  const match = primary.match(/^([A-Z][A-Z0-9]{3})([A-Z0-9]{1,18})(\d)$/);
+  if (!match) {
+    throw new UdiParseError('HIBCC primary data must be a 4-character labeler code, product code and unit of measure');
+  }
+  result.labelerCode = match[1];
+  result.productCode = match[2];
+  result.deviceIdentifier = primary;
+
+  if (slash !== -1) readHibccSecondary(body.slice(slash + 1), result);
+  return result;
+};
+
+// Throws UdiParseError for unknown formats, failed check digits and invalid dates
+export const parseUdi = (value: string): UdiData => {
+  const raw = value.trim();
+  const text = raw.replace(SYMBOLOGY_IDENTIFIER, '');
+  if (!text) throw new UdiParseError('Scan or paste a UDI first');
+
+  if (text.startsWith('+') || text.startsWith('*+')) return parseHibcc(raw, text);
+  if (/^[(\d]/.test(text) || text.startsWith(GROUP_SEPARATOR)) return parseGs1(raw, text);
+  throw new UdiParseError('Not a GS1 or HIBCC UDI');
+};
@@ -0,0 +1,47 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { StorageSchemaError, storageRecoveryService, VersionedStore } from './versioned-storage';
+
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+  removeItem: (key: string) => storage.delete(key)
+});
+
+interface Item {
+  id: string;
+  name: string;
+}
+
+const store = new VersionedStore<Item>({
+  key: 'versioned-storage-test',
+  label: 'Test items',
+  migrations: [{ version: 2, description: 'Rename title to name', migrate: ({ title, ...item }) => ({ ...item, name: title }) }],
+  validate: item => (typeof item.id === 'string' && typeof item.name === 'string' ? null : 'Missing id or name')
+});
+
+describe('VersionedStore', () => {
+  beforeEach(() => {
+    storage.clear();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('upgrades older data and quarantines items that fail validation', () => {
+    storage.set(store.key, JSON.stringify([{ id: 'a', title: 'First' }, { title: 'No id' }]));
+
+    expect(store.load()).toEqual([{ id: 'a', name: 'First' }]);
+    expect(JSON.parse(storage.get(store.key)!)).toEqual({ version: 2, data: [{ id: 'a', name: 'First' }] });
+    expect(storageRecoveryService.getEntries()[0]).toMatchObject({ key: store.key, reason: 'Missing id or name' });
+  });
+
+  it('leaves data from a newer schema in place and refuses to overwrite it', () => {
+    const newer = JSON.stringify({ version: 3, data: [{ id: 'a', label: 'From the future' }] });
+    storage.set(store.key, newer);
+
+    expect(store.load()).toEqual([]);
+    expect(() => store.save([{ id: 'b', name: 'Second' }])).toThrow(/newer version/);
+    expect(() => store.clear()).toThrow(StorageSchemaError);
+    expect(storage.get(store.key)).toBe(newer);
+    expect(storageRecoveryService.getEntries()).toEqual([]);
+  });
+});
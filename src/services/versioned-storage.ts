@@ -0,0 +1,262 @@
+// Versioned localStorage collections for service data kept in the browser rather than the table service
+export interface StorageMigration {
+  version: number; // Schema version this step produces
+  description: string;
+  migrate: (item: Record<string, unknown>) => Record<string, unknown>;
+}
+
+export interface VersionedStoreOptions {
+  key: string;
+  label: string; // Shown in the recovery dialog
+  migrations?: StorageMigration[];
+  // Returns why the item is unusable at the current schema version, or null when it is valid
+  validate: (item: Record<string, unknown>) => string | null;
+}
+
+export interface QuarantinedEntry {
+  id: string;
+  key: string;
+  label: string;
+  reason: string;
+  raw: string; // Exactly what was read, so nothing is lost until someone discards it
+  schemaVersion: number | null; // Version the raw value was written at, when known
+  quarantinedAt: string;
+}
+
+interface StoredCollection {
+  version: number;
+  data: unknown[];
+}
+
+const QUARANTINE_KEY = 'storage-quarantine';
+
+// Plain arrays written before versioning was introduced are schema version 1
+const LEGACY_VERSION = 1;
+
+export class StorageSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageSchemaError';
+  }
+}
+
+export const isStorageSchemaError = (error: unknown): error is StorageSchemaError =>
+  error instanceof StorageSchemaError;
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Validation helper: names the first listed field that is not a non-empty string
+export const missingStringField = (item: Record<string, unknown>, ...fields: string[]): string | null => {
+  const missing = fields.find(field => typeof item[field] !== 'string' || item[field] === '');
+  return missing ? `Missing or invalid "${missing}"` : null;
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const readCollection = (parsed: unknown): StoredCollection | null => {
+  if (Array.isArray(parsed)) return { version: LEGACY_VERSION, data: parsed };
+  if (isRecord(parsed) && Number.isInteger(parsed.version) && Array.isArray(parsed.data)) {
+    return { version: parsed.version as number, data: parsed.data };
+  }
+  return null;
+};
+
+const stores = new Map<string, VersionedStore<unknown>>();
+
+export class VersionedStore<T> {
+  readonly key: string;
+  readonly label: string;
+  readonly version: number;
+  private migrations: StorageMigration[];
+  private validate: VersionedStoreOptions['validate'];
+
+  constructor({ key, label, migrations = [], validate }: VersionedStoreOptions) {
+    const ordered = [...migrations].sort((a, b) => a.version - b.version);
+    ordered.forEach((migration, index) => {
+      const previous = index === 0 ? LEGACY_VERSION : ordered[index - 1].version;
+      if (migration.version !== previous + 1) {
+        throw new StorageSchemaError(`${key}: migrations must step one version at a time (found v${migration.version} after v${previous})`);
+      }
+    });
+
+    this.key = key;
+    this.label = label;
+    this.migrations = ordered;
+    this.version = ordered.length > 0 ? ordered[ordered.length - 1].version : LEGACY_VERSION;
+    this.validate = validate;
+    stores.set(key, this as VersionedStore<unknown>);
+  }
+
+  // Upgrades older data in place; anything unreadable is quarantined rather than thrown away
+  load(): T[] {
+    const raw = localStorage.getItem(this.key);
+    if (raw === null) return [];
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      return this.quarantineAll(raw, 'Stored value is not valid JSON', null);
+    }
+
+    const collection = readCollection(parsed);
+    if (!collection) {
+      return this.quarantineAll(raw, 'Stored value is not a recognised collection', null);
+    }
+    if (collection.version > this.version) {
+      // Written by a newer build; leave it in place for that build and refuse to save over it
+      console.warn(`${this.key} was written by schema v${collection.version}, this version only reads up to v${this.version}`);
+      return [];
+    }
+
+    const items: T[] = [];
+    let changed = collection.version !== this.version;
+    collection.data.forEach(item => {
+      const result = this.upgrade(item, collection.version);
+      if ('item' in result) {
+        items.push(result.item);
+      } else {
+        quarantine(this, JSON.stringify(item), result.error, collection.version);
+        changed = true;
+      }
+    });
+
+    if (changed) this.save(items);
+    return items;
+  }
+
+  // Rejects with StorageSchemaError while the stored value belongs to a newer schema
+  save(items: T[]): void {
+    this.assertWritable();
+    const collection: StoredCollection = { version: this.version, data: items };
+    localStorage.setItem(this.key, JSON.stringify(collection));
+  }
+
+  // For collections moved elsewhere: removes the stored value once its items have been copied out
+  clear(): void {
+    this.assertWritable();
+    localStorage.removeItem(this.key);
+  }
+
+  // Parses a quarantined (possibly hand-edited) value and merges it back, replacing items with the same id
+  restore(raw: string, fromVersion: number | null): T[] {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      throw new StorageSchemaError('The entry is still not valid JSON');
+    }
+
+    const collection = readCollection(parsed) || { version: fromVersion ?? this.version, data: [parsed] };
+    if (collection.version > this.version) {
+      throw new StorageSchemaError(`Schema v${collection.version} is newer than this version supports (v${this.version})`);
+    }
+
+    const restored = collection.data.map(item => {
+      const result = this.upgrade(item, collection.version);
+      if ('error' in result) throw new StorageSchemaError(result.error);
+      return result.item;
+    });
+
+    const restoredIds = new Set(restored.map(item => (item as { id?: unknown }).id).filter(Boolean));
+    const existing = this.load().filter(item => !restoredIds.has((item as { id?: unknown }).id));
+    this.save([...existing, ...restored]);
+    return restored;
+  }
+
+  private upgrade(item: unknown, fromVersion: number): { item: T } | { error: string } {
+    if (!isRecord(item)) return { error: 'Entry is not an object' };
+
+    let current = item;
+    for (const migration of this.migrations.filter(step => step.version > fromVersion)) {
+      try {
+        current = migration.migrate(current);
+      } catch (error) {
+        return { error: `Migration to v${migration.version} (${migration.description}) failed: ${errorMessage(error)}` };
+      }
+    }
+
+    const problem = this.validate(current);
+    return problem ? { error: problem } : { item: current as T };
+  }
+
+  private assertWritable(): void {
+    const raw = localStorage.getItem(this.key);
+    let storedVersion: number | undefined;
+    try {
+      storedVersion = raw === null ? undefined : readCollection(JSON.parse(raw))?.version;
+    } catch {
+      // Unparseable values are quarantined on load and may be overwritten
+    }
+    if (storedVersion !== undefined && storedVersion > this.version) {
+      throw new StorageSchemaError(
+        `${this.label} was saved by a newer version of the app (schema v${storedVersion}); changes cannot be saved by this version (v${this.version})`
+      );
+    }
+  }
+
+  private quarantineAll(raw: string, reason: string, schemaVersion: number | null): T[] {
+    quarantine(this, raw, reason, schemaVersion);
+    localStorage.removeItem(this.key);
+    return [];
+  }
+}
+
+const getQuarantine = (): QuarantinedEntry[] => {
+  try {
+    const entries = JSON.parse(localStorage.getItem(QUARANTINE_KEY) || '[]');
+    return Array.isArray(entries) ? entries : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveQuarantine = (entries: QuarantinedEntry[]) => {
+  localStorage.setItem(QUARANTINE_KEY, JSON.stringify(entries));
+};
+
+function quarantine(store: { key: string; label: string }, raw: string, reason: string, schemaVersion: number | null) {
+  console.warn(`Quarantined unreadable ${store.key} data: ${reason}`);
+  try {
+    saveQuarantine([...getQuarantine(), {
+      id: `quarantine-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      key: store.key,
+      label: store.label,
+      reason,
+      raw,
+      schemaVersion,
+      quarantinedAt: new Date().toISOString()
+    }]);
+  } catch (error) {
+    console.error('Failed to quarantine storage entry:', error);
+  }
+}
+
+class StorageRecoveryService {
+  getEntries(): QuarantinedEntry[] {
+    return getQuarantine().reverse();
+  }
+
+  // Throws StorageSchemaError when the (edited) value still does not pass migration and validation
+  restoreEntry(entryId: string, raw?: string): number {
+    const entry = getQuarantine().find(item => item.id === entryId);
+    if (!entry) {
+      throw new Error('Quarantined entry not found');
+    }
+    const store = stores.get(entry.key);
+    if (!store) {
+      throw new StorageSchemaError(`No storage schema is registered for "${entry.key}"`);
+    }
+
+    const restored = store.restore(raw ?? entry.raw, entry.schemaVersion);
+    this.discardEntry(entryId);
+    return restored.length;
+  }
+
+  discardEntry(entryId: string): void {
+    saveQuarantine(getQuarantine().filter(item => item.id !== entryId));
+  }
+}
+
+export const storageRecoveryService = new StorageRecoveryService();
@@ -0,0 +1,40 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { DatabaseService } from '@/services/database';
+import { FacilityScope, facilityManagementService } from '@/services/facility-management';
+import { searchIndexService } from '@/services/search-index';
+
+interface FacilityState {
+  scope: FacilityScope;
+
+  // Actions
+  setScope: (scope: FacilityScope) => void;
+}
+
+const applyScope = (scope: FacilityScope) => {
+  DatabaseService.setFacilityScope(facilityManagementService.getScopeFacilityIds(scope));
+  searchIndexService.invalidate();
+};
+
+export const scopeKey = (scope: FacilityScope): string => (scope.type === 'all' ? 'all' : `${scope.type}:${scope.id}`);
+
+export const useFacilityStore = create<FacilityState>()(
+  persist(
+    (set) => ({
+      scope: { type: 'all' },
+
+      setScope: (scope: FacilityScope) => {
+        applyScope(scope);
+        set({ scope });
+      }
+    }),
+    {
+      name: 'facility-scope',
+      partialize: (state) => ({ scope: state.scope }),
+      // Re-apply the saved selection before any page queries the database
+      onRehydrateStorage: () => (state) => {
+        if (state) applyScope(state.scope);
+      }
+    }
+  )
+);
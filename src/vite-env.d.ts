@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_TABLE_BACKEND?: 'remote' | 'indexeddb' | 'memory';
+  readonly VITE_TABLE_SEED?: 'qa';
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}